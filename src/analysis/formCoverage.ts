@@ -0,0 +1,828 @@
+import fs from 'fs'
+import path from 'path'
+import ts from 'typescript'
+import { ProjectConfig } from '../config.js'
+import { toWorkspaceRelative } from '../workspace.js'
+import { getLocation, parseSourceFile, resolveModule, SourceLocation } from './project.js'
+import { analyzeServiceUsage, ServiceUsage } from './serviceUsage.js'
+import { getValidationCatalog } from './validationCatalog.js'
+
+/**
+ * Form validation coverage
+ *   - Finds the forms in a set of files: `useForm` calls (and the zod schema passed to their
+ *     resolver), zod form schemas such as componentGenerator's `formSchema`, `<FormField>` and
+ *     `<Controller>` elements and `register('name', rules)` calls
+ *   - Classifies each field by the strongest validation it gets:
+ *       service: the validation module (ValidationService, or a validator, schema or pattern
+ *                it exports)
+ *       regex:   an ad-hoc regex literal, `new RegExp` or a regex constant of the file itself
+ *       basic:   only built-in checks (zod `.min()`, `.email()`, `z.enum()`, `required`...)
+ *       none:    no check at all
+ *   - Fields are grouped by the component that declares the form, with coverage per component
+ *     and overall
+ */
+
+export type FieldValidation = 'service' | 'regex' | 'basic' | 'none'
+
+export type FieldSource = 'schema' | 'refine' | 'rules' | 'register'
+
+export interface FieldCoverage {
+  name: string // Dotted path; `items[].name` for fields of array items
+  validation: FieldValidation
+  sources: FieldSource[] // Where its checks come from
+  file?: string // Workspace-relative, when declared outside the component's file
+  location: SourceLocation
+}
+
+export interface FormInfo {
+  kind: 'useForm' | 'schema' | 'fields' // `fields`: FormField elements without a form here
+  schema: string | null
+  location: SourceLocation
+}
+
+export interface Coverage {
+  fields: number
+  service: number
+  regex: number
+  basic: number
+  none: number
+  servicePercent: number | null // Fields validated through the validation module
+  validatedPercent: number | null // Fields with any validation
+}
+
+export interface ComponentCoverage {
+  component: string
+  file: string // Workspace-relative
+  location: SourceLocation
+  forms: FormInfo[]
+  fields: FieldCoverage[]
+  coverage: Coverage
+}
+
+export interface CoverageReport {
+  summary: Coverage & { files: number; components: number; forms: number }
+  components: ComponentCoverage[]
+}
+
+const RANK: Record<FieldValidation, number> = { service: 3, regex: 2, basic: 1, none: 0 }
+
+// zod methods that shape a value without checking it
+const NON_VALIDATING = new Set([
+  'optional',
+  'nullable',
+  'nullish',
+  'default',
+  'describe',
+  'transform',
+  'trim',
+  'toLowerCase',
+  'toUpperCase',
+  'catch',
+  'brand',
+  'readonly',
+  'array',
+  'or',
+  'and',
+])
+
+// zod constructors whose values are checked by construction
+const CHECKING_CONSTRUCTORS = new Set([
+  'enum',
+  'nativeEnum',
+  'literal',
+  'union',
+  'discriminatedUnion',
+])
+
+// react-hook-form rules that check a value
+const RULE_KEYS = new Set([
+  'required',
+  'min',
+  'max',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'validate',
+])
+
+const FIELD_ELEMENTS = new Set(['FormField', 'Controller'])
+
+const FORM_SCHEMA_NAME = /formSchema$/i
+
+const MAX_SCHEMA_DEPTH = 5
+
+interface FileContext {
+  sourceFile: ts.SourceFile
+  usage: ServiceUsage
+  validationNames: Map<string, string> // Validation exports that check values: local -> imported
+  regexNames: Set<string> // File-level constants holding a regex
+  variables: Map<string, ts.Expression> // Initializers of top-level and local variables by name
+  imports: Map<string, { source: string; imported: string }>
+}
+
+interface SchemaField {
+  name: string
+  node: ts.Node
+  context: FileContext
+}
+
+interface ParsedSchema {
+  fields: SchemaField[]
+  refinements: { node: ts.CallExpression; context: FileContext }[]
+}
+
+function unwrapExpression(node: ts.Expression): ts.Expression {
+  while (
+    ts.isParenthesizedExpression(node) ||
+    ts.isAsExpression(node) ||
+    ts.isSatisfiesExpression(node)
+  ) {
+    node = node.expression
+  }
+  return node
+}
+
+function propertyName(name: ts.PropertyName): string | null {
+  return ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)
+    ? name.text
+    : null
+}
+
+function callName(node: ts.CallExpression): string | null {
+  const callee = node.expression
+  if (ts.isIdentifier(callee)) return callee.text
+  if (ts.isPropertyAccessExpression(callee)) return callee.name.text
+  return null
+}
+
+function isRegex(node: ts.Node, context: FileContext): boolean {
+  if (ts.isRegularExpressionLiteral(node)) return true
+  if (ts.isNewExpression(node) || ts.isCallExpression(node)) {
+    return ts.isIdentifier(node.expression) && node.expression.text === 'RegExp'
+  }
+  return ts.isIdentifier(node) && context.regexNames.has(node.text)
+}
+
+function isFunctionLike(node: ts.Node): node is ts.ArrowFunction | ts.FunctionExpression {
+  return ts.isArrowFunction(node) || ts.isFunctionExpression(node)
+}
+
+function createContext(sourceFile: ts.SourceFile, config: ProjectConfig): FileContext {
+  const usage = analyzeServiceUsage(sourceFile, config)
+  const catalog = usage.bindings.some(binding => !binding.service && !binding.typeOnly)
+    ? getValidationCatalog(config)
+    : null
+  const formatters = new Set(
+    catalog?.entries.filter(entry => entry.kind === 'formatter').map(entry => entry.name),
+  )
+  const validationNames = new Map(
+    usage.bindings
+      .filter(binding => !binding.service && !binding.typeOnly && !formatters.has(binding.imported))
+      .map(binding => [binding.local, binding.imported]),
+  )
+
+  const context: FileContext = {
+    sourceFile,
+    usage,
+    validationNames,
+    regexNames: new Set(),
+    variables: new Map(),
+    imports: new Map(),
+  }
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement)) continue
+    if (!ts.isStringLiteral(statement.moduleSpecifier)) continue
+    const source = statement.moduleSpecifier.text
+    const bindings = statement.importClause?.namedBindings
+    if (statement.importClause?.name) {
+      context.imports.set(statement.importClause.name.text, { source, imported: 'default' })
+    }
+    if (bindings && ts.isNamedImports(bindings)) {
+      for (const element of bindings.elements) {
+        const imported = (element.propertyName || element.name).text
+        context.imports.set(element.name.text, { source, imported })
+      }
+    }
+  }
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer) {
+      const initializer = unwrapExpression(node.initializer)
+      if (!context.variables.has(node.name.text)) context.variables.set(node.name.text, initializer)
+      if (node.parent.parent.parent === sourceFile && isRegex(initializer, context)) {
+        context.regexNames.add(node.name.text)
+      }
+    }
+    ts.forEachChild(node, visit)
+  }
+  visit(sourceFile)
+
+  return context
+}
+
+function usesValidationModule(node: ts.Node, context: FileContext, config: ProjectConfig): boolean {
+  const start = node.getStart(context.sourceFile)
+  const viaService = context.usage.references.some(
+    reference =>
+      reference.service === config.validation.validationService &&
+      reference.span.start >= start &&
+      reference.span.end <= node.end,
+  )
+  if (viaService) return true
+
+  let found = false
+  const visit = (child: ts.Node): void => {
+    if (found) return
+    if (ts.isIdentifier(child) && context.validationNames.has(child.text)) {
+      const parent = child.parent
+      const isPropertyName =
+        (ts.isPropertyAccessExpression(parent) && parent.name === child) ||
+        (ts.isPropertyAssignment(parent) && parent.name === child)
+      if (!isPropertyName) found = true
+    }
+    ts.forEachChild(child, visit)
+  }
+  visit(node)
+  return found
+}
+
+function containsRegex(node: ts.Node, context: FileContext): boolean {
+  if (isRegex(node, context)) return true
+  return Boolean(ts.forEachChild(node, child => containsRegex(child, context) || undefined))
+}
+
+// Whether a zod chain or a rules object holds any check of its own
+function hasChecks(node: ts.Node): boolean {
+  let found = false
+  const visit = (child: ts.Node): void => {
+    if (found) return
+    if (ts.isCallExpression(child) && ts.isPropertyAccessExpression(child.expression)) {
+      const name = child.expression.name.text
+      const receiver = child.expression.expression
+      const isConstructor = /^z(\.coerce)?$/.test(receiver.getText())
+      if (isConstructor ? CHECKING_CONSTRUCTORS.has(name) : !NON_VALIDATING.has(name)) {
+        found = true
+        return
+      }
+    }
+    if (ts.isPropertyAssignment(child) || ts.isShorthandPropertyAssignment(child)) {
+      const name = propertyName(child.name)
+      if (name && RULE_KEYS.has(name)) {
+        found = true
+        return
+      }
+    }
+    ts.forEachChild(child, visit)
+  }
+  visit(node)
+  return found
+}
+
+// Field names as written in forms: `items.0.name` and `items.${index}.name` are `items[].name`
+function normalizeFieldPath(name: string): string {
+  return name.replace(/\.(\d+|\$\{[^}]*\})(?=\.|$)/g, '[]')
+}
+
+function classify(node: ts.Node, context: FileContext, config: ProjectConfig): FieldValidation {
+  if (usesValidationModule(node, context, config)) return 'service'
+  if (containsRegex(node, context)) return 'regex'
+  return hasChecks(node) ? 'basic' : 'none'
+}
+
+class SchemaResolver {
+  private readonly contexts = new Map<string, FileContext | null>()
+  readonly resolved = new Set<ts.Expression>() // Every variable followed so far
+
+  constructor(private readonly config: ProjectConfig) {}
+
+  context(sourceFile: ts.SourceFile): FileContext {
+    let context = this.contexts.get(sourceFile.fileName)
+    if (!context) {
+      context = createContext(sourceFile, this.config)
+      this.contexts.set(sourceFile.fileName, context)
+    }
+    return context
+  }
+
+  private contextOf(fileName: string): FileContext | null {
+    if (!this.contexts.has(fileName)) {
+      let context: FileContext | null = null
+      try {
+        const sourceFile = parseSourceFile(fileName, fs.readFileSync(fileName, 'utf-8'))
+        context = createContext(sourceFile, this.config)
+      } catch {
+        // Unreadable; its schemas stay unknown
+      }
+      this.contexts.set(fileName, context)
+    }
+    return this.contexts.get(fileName) || null
+  }
+
+  // The expression a name stands for: a variable of the file or an import it can follow
+  resolve(
+    name: string,
+    context: FileContext,
+  ): { node: ts.Expression; context: FileContext } | null {
+    const local = context.variables.get(name)
+    if (local) {
+      this.resolved.add(local)
+      return { node: local, context }
+    }
+
+    const imported = context.imports.get(name)
+    if (!imported) return null
+    const { resolvedPath, external } = resolveModule(imported.source, context.sourceFile.fileName)
+    if (!resolvedPath || external) return null
+    const target = this.contextOf(resolvedPath)
+    if (!target) return null
+    const exported = target.variables.get(imported.imported)
+    if (!exported) return null
+    this.resolved.add(exported)
+    return { node: exported, context: target }
+  }
+
+  // The fields of a z.object() schema, following `.extend()`, `.merge()`, refinements and
+  // schemas declared elsewhere
+  parse(node: ts.Expression, context: FileContext, depth = 0): ParsedSchema | null {
+    if (depth > MAX_SCHEMA_DEPTH) return null
+    node = unwrapExpression(node)
+
+    if (ts.isIdentifier(node)) {
+      const resolved = this.resolve(node.text, context)
+      return resolved ? this.parse(resolved.node, resolved.context, depth + 1) : null
+    }
+    if (!ts.isCallExpression(node) || !ts.isPropertyAccessExpression(node.expression)) return null
+
+    const method = node.expression.name.text
+    const receiver = node.expression.expression
+    const [argument] = node.arguments
+
+    if (ts.isIdentifier(receiver) && receiver.text === 'z') {
+      if (method !== 'object' || !argument) return null
+      const object = unwrapExpression(argument)
+      if (!ts.isObjectLiteralExpression(object)) return null
+      return { fields: this.objectFields(object, context, '', depth), refinements: [] }
+    }
+
+    const base = this.parse(receiver, context, depth)
+    if (!base) return null
+    if (method === 'refine' || method === 'superRefine') {
+      base.refinements.push({ node, context })
+    } else if (method === 'extend' && argument) {
+      const object = unwrapExpression(argument)
+      if (ts.isObjectLiteralExpression(object)) {
+        const added = this.objectFields(object, context, '', depth)
+        const names = new Set(added.map(field => field.name))
+        base.fields = [...base.fields.filter(field => !names.has(field.name)), ...added]
+      }
+    } else if (method === 'merge' && argument) {
+      const other = this.parse(argument, context, depth + 1)
+      if (other) {
+        base.fields.push(...other.fields)
+        base.refinements.push(...other.refinements)
+      }
+    }
+    return base
+  }
+
+  private objectFields(
+    object: ts.ObjectLiteralExpression,
+    context: FileContext,
+    prefix: string,
+    depth: number,
+  ): SchemaField[] {
+    const fields: SchemaField[] = []
+    for (const property of object.properties) {
+      if (!ts.isPropertyAssignment(property) && !ts.isShorthandPropertyAssignment(property)) {
+        continue
+      }
+      const key = propertyName(property.name)
+      if (!key) continue
+      const name = prefix + key
+      const value = ts.isPropertyAssignment(property) ? property.initializer : property.name
+
+      const nested = this.nestedObject(value, context, depth)
+      if (nested) {
+        const prefix = `${name}${nested.suffix}.`
+        fields.push(...this.objectFields(nested.object, nested.context, prefix, depth + 1))
+      } else {
+        fields.push(...this.fieldNodes(name, value, context, depth))
+      }
+    }
+    return fields
+  }
+
+  // A field declared through a schema variable is checked by that schema too
+  private fieldNodes(
+    name: string,
+    value: ts.Expression,
+    context: FileContext,
+    depth: number,
+  ): SchemaField[] {
+    const fields: SchemaField[] = [{ name, node: value, context }]
+    const root = rootOf(value)
+    if (!ts.isIdentifier(root) || context.validationNames.has(root.text)) return fields
+    const resolved = depth < MAX_SCHEMA_DEPTH ? this.resolve(root.text, context) : null
+    if (resolved) {
+      fields.push(...this.fieldNodes(name, resolved.node, resolved.context, depth + 1))
+    }
+    return fields
+  }
+
+  // `z.object({...})` or `z.array(z.object({...}))` as a field's value (optionally chained)
+  private nestedObject(
+    value: ts.Expression,
+    context: FileContext,
+    depth: number,
+  ): { object: ts.ObjectLiteralExpression; context: FileContext; suffix: string } | null {
+    if (depth >= MAX_SCHEMA_DEPTH) return null
+    let suffix = ''
+    let node = unwrapExpression(value)
+    while (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+      const method = node.expression.name.text
+      const receiver = node.expression.expression
+      if (ts.isIdentifier(receiver) && receiver.text === 'z') {
+        const [argument] = node.arguments
+        if (method === 'array' && argument) {
+          suffix += '[]'
+          node = unwrapExpression(argument)
+          continue
+        }
+        const object = method === 'object' && argument && unwrapExpression(argument)
+        return object && ts.isObjectLiteralExpression(object) ? { object, context, suffix } : null
+      }
+      if (method === 'array') suffix += '[]'
+      else if (!NON_VALIDATING.has(method)) return null // Checks on the object itself
+      node = unwrapExpression(receiver)
+    }
+    if (ts.isIdentifier(node)) {
+      const resolved = this.resolve(node.text, context)
+      if (resolved && !context.validationNames.has(node.text)) {
+        const inner = this.nestedObject(resolved.node, resolved.context, depth + 1)
+        return inner && { ...inner, suffix: suffix + inner.suffix }
+      }
+    }
+    return null
+  }
+}
+
+// The start of a call chain: `emailSchema` in `emailSchema.optional()`
+function rootOf(node: ts.Expression): ts.Expression {
+  node = unwrapExpression(node)
+  while (ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)) {
+    node = unwrapExpression(node.expression.expression)
+  }
+  return node
+}
+
+// The fields a refinement checks: its `path` options, else the members read off its argument
+function refinedFields(node: ts.CallExpression): string[] {
+  const paths = new Set<string>()
+  const visit = (child: ts.Node): void => {
+    if (
+      ts.isPropertyAssignment(child) &&
+      propertyName(child.name) === 'path' &&
+      ts.isArrayLiteralExpression(child.initializer)
+    ) {
+      const parts = child.initializer.elements.map(element =>
+        ts.isStringLiteralLike(element) ? element.text : ts.isNumericLiteral(element) ? '[]' : null,
+      )
+      if (parts.length > 0 && parts.every(part => part !== null)) {
+        paths.add(parts.join('.').replace(/\.\[\]/g, '[]'))
+      }
+    }
+    ts.forEachChild(child, visit)
+  }
+  visit(node)
+  if (paths.size > 0) return [...paths]
+
+  const [callback] = node.arguments
+  const parameter = callback && isFunctionLike(callback) ? callback.parameters[0] : undefined
+  if (!parameter) return []
+  if (ts.isObjectBindingPattern(parameter.name)) {
+    return parameter.name.elements
+      .map(element => element.propertyName || element.name)
+      .filter((name): name is ts.Identifier => ts.isIdentifier(name))
+      .map(name => name.text)
+  }
+  if (!ts.isIdentifier(parameter.name)) return []
+
+  const data = parameter.name.text
+  const members = new Set<string>()
+  const collect = (child: ts.Node): void => {
+    if (
+      ts.isPropertyAccessExpression(child) &&
+      ts.isIdentifier(child.expression) &&
+      child.expression.text === data
+    ) {
+      members.add(child.name.text)
+    }
+    ts.forEachChild(child, collect)
+  }
+  collect(callback)
+  return [...members]
+}
+
+function isPascalCase(name: string): boolean {
+  return /^[A-Z][A-Za-z0-9]*$/.test(name)
+}
+
+// Top-level components of a file: PascalCase functions, including ones wrapped in memo/forwardRef
+function findComponents(sourceFile: ts.SourceFile): { name: string; node: ts.Node }[] {
+  const components: { name: string; node: ts.Node }[] = []
+  for (const statement of sourceFile.statements) {
+    const isDeclaration = ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)
+    if (isDeclaration && statement.name && isPascalCase(statement.name.text)) {
+      components.push({ name: statement.name.text, node: statement })
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name) || !isPascalCase(declaration.name.text)) continue
+        const initializer = declaration.initializer && unwrapExpression(declaration.initializer)
+        const isComponent =
+          initializer &&
+          (isFunctionLike(initializer) ||
+            (ts.isCallExpression(initializer) && initializer.arguments.some(isFunctionLike)))
+        if (isComponent) components.push({ name: declaration.name.text, node: declaration })
+      }
+    }
+  }
+  return components
+}
+
+function jsxAttribute(
+  attributes: ts.JsxAttributes,
+  name: string,
+): ts.JsxAttribute['initializer'] | null {
+  for (const attribute of attributes.properties) {
+    if (ts.isJsxAttribute(attribute) && attribute.name.getText() === name) {
+      return attribute.initializer || null
+    }
+  }
+  return null
+}
+
+function stringValue(node: ts.Node | null | undefined): string | null {
+  if (!node) return null
+  if (ts.isJsxExpression(node)) return stringValue(node.expression)
+  if (ts.isStringLiteralLike(node)) return node.text
+  if (ts.isTemplateExpression(node)) return node.getText().slice(1, -1)
+  return null
+}
+
+function toCoverage(fields: FieldCoverage[]): Coverage {
+  const counts = { service: 0, regex: 0, basic: 0, none: 0 }
+  for (const field of fields) counts[field.validation]++
+  const percent = (count: number) =>
+    fields.length > 0 ? Math.round((count / fields.length) * 1000) / 10 : null
+  return {
+    fields: fields.length,
+    ...counts,
+    servicePercent: percent(counts.service),
+    validatedPercent: percent(fields.length - counts.none),
+  }
+}
+
+class ComponentForms {
+  readonly forms: FormInfo[] = []
+  private readonly fields = new Map<string, FieldCoverage>()
+
+  constructor(
+    readonly name: string,
+    readonly node: ts.Node,
+    readonly sourceFile: ts.SourceFile,
+  ) {}
+
+  // A field, or another check on one seen already; the strongest check wins
+  add(
+    name: string,
+    validation: FieldValidation,
+    source: FieldSource | null,
+    node: ts.Node,
+    sourceFile = this.sourceFile,
+  ): void {
+    const field = this.fields.get(name)
+    if (!field) {
+      this.fields.set(name, {
+        name,
+        validation,
+        sources: source ? [source] : [],
+        ...(sourceFile !== this.sourceFile
+          ? { file: toWorkspaceRelative(sourceFile.fileName) }
+          : {}),
+        location: getLocation(sourceFile, node),
+      })
+      return
+    }
+    if (RANK[validation] > RANK[field.validation]) field.validation = validation
+    if (source && !field.sources.includes(source)) field.sources.push(source)
+  }
+
+  list(): FieldCoverage[] {
+    return [...this.fields.values()]
+  }
+
+  addSchema(schema: ParsedSchema, config: ProjectConfig): void {
+    for (const field of schema.fields) {
+      const validation = classify(field.node, field.context, config)
+      const source = validation === 'none' ? null : 'schema'
+      this.add(field.name, validation, source, field.node, field.context.sourceFile)
+    }
+    for (const { node, context } of schema.refinements) {
+      // A refinement is a check even when it calls nothing
+      const checked = classify(node.arguments[0] || node, context, config)
+      const validation = checked === 'none' ? 'basic' : checked
+      for (const name of refinedFields(node)) {
+        this.add(name, validation, 'refine', node, context.sourceFile)
+      }
+    }
+  }
+
+  toCoverage(): ComponentCoverage {
+    const fields = this.list()
+    const forms: FormInfo[] =
+      this.forms.length > 0
+        ? this.forms
+        : [{ kind: 'fields', schema: null, location: fields[0].location }]
+    return {
+      component: this.name,
+      file: toWorkspaceRelative(this.sourceFile.fileName),
+      location: getLocation(this.sourceFile, this.node),
+      forms,
+      fields,
+      coverage: toCoverage(fields),
+    }
+  }
+}
+
+// A form schema no useForm of its file picks up
+interface StandaloneSchema {
+  name: string
+  node: ts.VariableDeclaration & { initializer: ts.Expression }
+  owner: ComponentForms
+  context: FileContext
+}
+
+function analyzeFile(
+  sourceFile: ts.SourceFile,
+  resolver: SchemaResolver,
+  config: ProjectConfig,
+): { owners: ComponentForms[]; standalone: StandaloneSchema[] } {
+  const text = sourceFile.text
+  const mayHaveForms =
+    /\buseForm\b|\bregister\(|<(FormField|Controller)\b|z\.object\(/.test(text)
+  if (!mayHaveForms) return { owners: [], standalone: [] }
+
+  const context = resolver.context(sourceFile)
+  const components = findComponents(sourceFile).map(
+    ({ name, node }) => new ComponentForms(name, node, sourceFile),
+  )
+  const enclosing = (node: ts.Node) => {
+    const position = node.getStart(sourceFile)
+    return components.find(
+      component => position >= component.node.getStart(sourceFile) && position < component.node.end,
+    )
+  }
+  // Forms outside any component belong to the file itself
+  let fileLevel: ComponentForms | null = null
+  const ownerOf = (node: ts.Node): ComponentForms => {
+    const owner = enclosing(node)
+    if (owner) return owner
+    const name = path.basename(sourceFile.fileName).replace(/\.[^.]+$/, '')
+    fileLevel ??= new ComponentForms(name, sourceFile, sourceFile)
+    return fileLevel
+  }
+
+  const formSchemas: StandaloneSchema['node'][] = []
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isCallExpression(node)) {
+      const name = callName(node)
+
+      // useForm({ resolver: zodResolver(formSchema) })
+      if (name === 'useForm') {
+        const owner = ownerOf(node)
+        const [options] = node.arguments
+        const object = options && unwrapObjectLiteral(options)
+        const resolverProperty = object?.properties.find(
+          (property): property is ts.PropertyAssignment =>
+            ts.isPropertyAssignment(property) && propertyName(property.name) === 'resolver',
+        )
+        const resolverCall = resolverProperty && unwrapExpression(resolverProperty.initializer)
+        const schemaNode =
+          resolverCall && ts.isCallExpression(resolverCall) ? resolverCall.arguments[0] : undefined
+
+        const schemaName = schemaNode ? schemaNode.getText(sourceFile) : null
+        const location = getLocation(sourceFile, node)
+        owner.forms.push({ kind: 'useForm', schema: schemaName, location })
+        if (schemaNode) {
+          const schema = resolver.parse(schemaNode, context)
+          if (schema) {
+            owner.addSchema(schema, config)
+          } else if (ts.isIdentifier(schemaNode) && context.validationNames.has(schemaNode.text)) {
+            // A schema of the validation module: its fields come from the catalog
+            const imported = context.validationNames.get(schemaNode.text)
+            const entry = getValidationCatalog(config).entries.find(
+              candidate => candidate.kind === 'schema' && candidate.name === imported,
+            )
+            for (const field of entry?.fields || []) {
+              owner.add(field, 'service', 'schema', schemaNode)
+            }
+          }
+        }
+      }
+
+      // register('email', { required: true, pattern: /.../ })
+      if (name === 'register') {
+        const [field, rules] = node.arguments
+        const fieldName = stringValue(field)
+        if (fieldName) {
+          const validation = rules ? classify(rules, context, config) : 'none'
+          const source = validation === 'none' ? null : 'register'
+          ownerOf(node).add(normalizeFieldPath(fieldName), validation, source, field)
+        }
+      }
+    }
+
+    // <FormField name="email" rules={...} />
+    if (ts.isJsxSelfClosingElement(node) || ts.isJsxOpeningElement(node)) {
+      const tag = node.tagName.getText(sourceFile)
+      const isField = FIELD_ELEMENTS.has(tag)
+      const field = isField ? stringValue(jsxAttribute(node.attributes, 'name')) : null
+      if (field) {
+        const rules = jsxAttribute(node.attributes, 'rules')
+        const validation = rules ? classify(rules, context, config) : 'none'
+        const owner = ownerOf(node)
+        const source = validation === 'none' ? null : 'rules'
+        owner.add(normalizeFieldPath(field), validation, source, node)
+      }
+    }
+
+    if (
+      ts.isVariableDeclaration(node) &&
+      ts.isIdentifier(node.name) &&
+      FORM_SCHEMA_NAME.test(node.name.text) &&
+      node.initializer
+    ) {
+      formSchemas.push(node as StandaloneSchema['node'])
+    }
+
+    ts.forEachChild(node, visit)
+  }
+  visit(sourceFile)
+
+  const owners = fileLevel ? [...components, fileLevel] : components
+  const standalone = formSchemas.map(node => ({
+    name: node.name.getText(sourceFile),
+    node,
+    owner: enclosing(node) || components[0] || ownerOf(node),
+    context,
+  }))
+  return { owners, standalone }
+}
+
+function unwrapObjectLiteral(node: ts.Expression): ts.ObjectLiteralExpression | null {
+  const unwrapped = unwrapExpression(node)
+  return ts.isObjectLiteralExpression(unwrapped) ? unwrapped : null
+}
+
+export function analyzeFormCoverage(files: string[], config: ProjectConfig): CoverageReport {
+  const resolver = new SchemaResolver(config)
+  const owners: ComponentForms[] = []
+  const standalone: StandaloneSchema[] = []
+
+  for (const file of files) {
+    const sourceFile = parseSourceFile(file, fs.readFileSync(file, 'utf-8'))
+    const analysis = analyzeFile(sourceFile, resolver, config)
+    owners.push(...analysis.owners)
+    standalone.push(...analysis.standalone)
+  }
+
+  // Form schemas are counted where they're used: only the ones no form (or other form
+  // schema) builds on describe forms of their own
+  const parsed = standalone.map(schema => ({
+    ...schema,
+    parsed: resolver.parse(schema.node.initializer, schema.context),
+  }))
+  for (const { name, node, owner, parsed: schema } of parsed) {
+    if (!schema || resolver.resolved.has(unwrapExpression(node.initializer))) continue
+    const location = getLocation(owner.sourceFile, node)
+    owner.forms.push({ kind: 'schema', schema: name, location })
+    owner.addSchema(schema, config)
+  }
+
+  const components = owners
+    .filter(owner => owner.forms.length > 0 || owner.list().length > 0)
+    .map(owner => owner.toCoverage())
+
+  const fields = components.flatMap(component => component.fields)
+  return {
+    summary: {
+      files: new Set(components.map(component => component.file)).size,
+      components: components.length,
+      forms: components.reduce((total, component) => total + component.forms.length, 0),
+      ...toCoverage(fields),
+    },
+    components,
+  }
+}
@@ -0,0 +1,279 @@
+import fs from 'fs'
+import { globSync } from 'glob'
+import { extractImports, ImportKind } from './modules.js'
+import { parseSourceFile } from './project.js'
+
+/**
+ * Module dependency graph
+ *   - Parses every source file under the given roots and links it to the files it imports
+ *   - Edges come from resolved imports, so tsconfig `paths` aliases are followed
+ *   - Queries: importers, transitive dependencies, cycles and orphans
+ */
+
+export const SOURCE_FILE_PATTERN = '**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}'
+
+export interface DependencyEdge {
+  from: string
+  to: string
+  kind: ImportKind
+  typeOnly: boolean
+  line: number
+}
+
+export interface ModuleNode {
+  path: string // Absolute
+  imports: DependencyEdge[]
+  importedBy: DependencyEdge[]
+  external: string[] // Package specifiers
+  unresolved: string[] // Relative or aliased specifiers that didn't resolve to a file
+}
+
+export interface DependencyGraph {
+  nodes: Map<string, ModuleNode>
+}
+
+export interface BuildGraphOptions {
+  exclude?: string[] // Directory names to skip
+  includeTypeOnly?: boolean // Count `import type` as a dependency (default true)
+}
+
+function newNode(filePath: string): ModuleNode {
+  return { path: filePath, imports: [], importedBy: [], external: [], unresolved: [] }
+}
+
+export function listSourceFiles(roots: string[], exclude: string[] = []): string[] {
+  const files = new Set<string>()
+  for (const root of roots) {
+    for (const file of globSync(SOURCE_FILE_PATTERN, {
+      cwd: root,
+      absolute: true,
+      nodir: true,
+      ignore: [...exclude.map(dir => `**/${dir}/**`), '**/*.d.ts'],
+    })) {
+      files.add(file)
+    }
+  }
+  return [...files].sort()
+}
+
+export async function buildDependencyGraph(
+  roots: string[],
+  options: BuildGraphOptions = {},
+): Promise<DependencyGraph> {
+  const includeTypeOnly = options.includeTypeOnly ?? true
+  const nodes = new Map<string, ModuleNode>()
+  const getNode = (filePath: string) => {
+    let node = nodes.get(filePath)
+    if (!node) {
+      node = newNode(filePath)
+      nodes.set(filePath, node)
+    }
+    return node
+  }
+
+  for (const file of listSourceFiles(roots, options.exclude)) {
+    const node = getNode(file)
+    let content: string
+    try {
+      content = await fs.promises.readFile(file, 'utf-8')
+    } catch {
+      continue // Deleted or unreadable since the listing
+    }
+
+    for (const info of extractImports(parseSourceFile(file, content))) {
+      if (info.typeOnly && !includeTypeOnly) continue
+      if (info.external) {
+        if (!node.external.includes(info.source)) node.external.push(info.source)
+        continue
+      }
+      if (!info.resolvedPath) {
+        if (!node.unresolved.includes(info.source)) node.unresolved.push(info.source)
+        continue
+      }
+
+      const edge: DependencyEdge = {
+        from: file,
+        to: info.resolvedPath,
+        kind: info.kind,
+        typeOnly: info.typeOnly,
+        line: info.location.line,
+      }
+      node.imports.push(edge)
+      getNode(info.resolvedPath).importedBy.push(edge)
+    }
+  }
+
+  return { nodes }
+}
+
+// Breadth-first walk along imports (or importers), returning each reached file with its distance
+function walk(
+  graph: DependencyGraph,
+  start: string,
+  direction: 'imports' | 'importedBy',
+  maxDepth = Infinity,
+): Map<string, number> {
+  const seen = new Map<string, number>()
+  let frontier = [start]
+  for (let depth = 1; frontier.length > 0 && depth <= maxDepth; depth++) {
+    const next: string[] = []
+    for (const file of frontier) {
+      for (const edge of graph.nodes.get(file)?.[direction] || []) {
+        const neighbour = direction === 'imports' ? edge.to : edge.from
+        if (neighbour === start || seen.has(neighbour)) continue
+        seen.set(neighbour, depth)
+        next.push(neighbour)
+      }
+    }
+    frontier = next
+  }
+  return seen
+}
+
+export function findDependencies(graph: DependencyGraph, file: string, maxDepth?: number) {
+  return walk(graph, file, 'imports', maxDepth)
+}
+
+export function findImporters(graph: DependencyGraph, file: string, maxDepth?: number) {
+  return walk(graph, file, 'importedBy', maxDepth)
+}
+
+// Strongly connected components (Tarjan), each reported with one concrete cycle through it
+export function findCycles(graph: DependencyGraph): string[][] {
+  const index = new Map<string, number>()
+  const lowLink = new Map<string, number>()
+  const onStack = new Set<string>()
+  const stack: string[] = []
+  const components: string[][] = []
+  let counter = 0
+
+  const connect = (file: string) => {
+    index.set(file, counter)
+    lowLink.set(file, counter)
+    counter++
+    stack.push(file)
+    onStack.add(file)
+
+    for (const { to } of graph.nodes.get(file)?.imports || []) {
+      if (!index.has(to)) {
+        connect(to)
+        lowLink.set(file, Math.min(lowLink.get(file)!, lowLink.get(to)!))
+      } else if (onStack.has(to)) {
+        lowLink.set(file, Math.min(lowLink.get(file)!, index.get(to)!))
+      }
+    }
+
+    if (lowLink.get(file) === index.get(file)) {
+      const component: string[] = []
+      let member: string
+      do {
+        member = stack.pop()!
+        onStack.delete(member)
+        component.push(member)
+      } while (member !== file)
+
+      const selfLoop = graph.nodes.get(file)?.imports.some(edge => edge.to === file)
+      if (component.length > 1 || selfLoop) components.push(component)
+    }
+  }
+
+  for (const file of graph.nodes.keys()) {
+    if (!index.has(file)) connect(file)
+  }
+
+  return components.map(component => cycleWithin(graph, new Set(component)))
+}
+
+// A shortest path from the component's first file back to itself, staying inside the component
+function cycleWithin(graph: DependencyGraph, component: Set<string>): string[] {
+  const start = [...component].sort()[0]
+  const previous = new Map<string, string>()
+  const queue = [start]
+
+  while (queue.length > 0) {
+    const file = queue.shift()!
+    for (const { to } of graph.nodes.get(file)?.imports || []) {
+      if (!component.has(to)) continue
+      if (to === start) {
+        const cycle = [file]
+        while (cycle[0] !== start) cycle.unshift(previous.get(cycle[0])!)
+        return [...cycle, start]
+      }
+      if (!previous.has(to)) {
+        previous.set(to, file)
+        queue.push(to)
+      }
+    }
+  }
+
+  return [...component]
+}
+
+// Files nothing imports, other than the given entry points
+export function findOrphans(graph: DependencyGraph, entryPoints: Set<string>): string[] {
+  return [...graph.nodes.values()]
+    .filter(node => node.importedBy.every(edge => edge.from === node.path))
+    .filter(node => !entryPoints.has(node.path))
+    .map(node => node.path)
+    .sort()
+}
+
+export interface Subgraph {
+  nodes: string[]
+  edges: DependencyEdge[]
+}
+
+// The nodes given plus every edge between two of them
+export function subgraph(graph: DependencyGraph, files: Iterable<string>): Subgraph {
+  const nodes = new Set(files)
+  const edges = [...nodes].flatMap(file =>
+    (graph.nodes.get(file)?.imports || []).filter(edge => nodes.has(edge.to)),
+  )
+  return { nodes: [...nodes].sort(), edges }
+}
+
+// One edge per pair of files; it only counts as type-only/dynamic if every import between them is
+function uniqueEdges(edges: DependencyEdge[]): DependencyEdge[] {
+  const byPair = new Map<string, DependencyEdge>()
+  for (const edge of edges) {
+    const key = `${edge.from}\0${edge.to}`
+    const existing = byPair.get(key)
+    if (!existing) {
+      byPair.set(key, edge)
+    } else if (!edge.typeOnly && (existing.typeOnly || existing.kind === 'dynamic')) {
+      byPair.set(key, edge)
+    }
+  }
+  return [...byPair.values()]
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+export function toDot(graph: Subgraph, label: (file: string) => string = file => file): string {
+  const lines = ['digraph dependencies {', '  rankdir=LR;', '  node [shape=box];']
+  for (const node of graph.nodes) {
+    lines.push(`  ${quote(label(node))};`)
+  }
+  for (const edge of uniqueEdges(graph.edges)) {
+    const style = edge.typeOnly ? ' [style=dashed]' : edge.kind === 'dynamic' ? ' [style=dotted]' : ''
+    lines.push(`  ${quote(label(edge.from))} -> ${quote(label(edge.to))}${style};`)
+  }
+  lines.push('}')
+  return lines.join('\n')
+}
+
+export function toMermaid(graph: Subgraph, label: (file: string) => string = file => file): string {
+  // Mermaid ids can't contain most punctuation, so number the nodes and label them
+  const ids = new Map(graph.nodes.map((node, i) => [node, `n${i}`]))
+  const lines = ['graph LR']
+  for (const node of graph.nodes) {
+    lines.push(`  ${ids.get(node)}["${label(node).replace(/"/g, '#quot;')}"]`)
+  }
+  for (const edge of uniqueEdges(graph.edges)) {
+    const arrow = edge.typeOnly || edge.kind === 'dynamic' ? '-.->' : '-->'
+    lines.push(`  ${ids.get(edge.from)} ${arrow} ${ids.get(edge.to)}`)
+  }
+  return lines.join('\n')
+}
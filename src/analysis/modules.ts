@@ -0,0 +1,298 @@
+import ts from 'typescript'
+import { getLocation, resolveModule, SourceLocation } from './project.js'
+
+/**
+ * Import and export extraction
+ *   - Walks a file's AST, so multi-line specifiers, `import type`, namespaces,
+ *     side-effect imports, re-exports and dynamic `import()` are all seen
+ *   - Every import carries its resolved path (tsconfig `paths` aware)
+ */
+
+export interface ImportedBinding {
+  name: string // Name exported by the source module ('default' or '*' for those forms)
+  local: string // Name bound in this file
+  typeOnly: boolean
+}
+
+export type ImportKind = 'static' | 'side-effect' | 'dynamic' | 'require' | 're-export'
+
+export interface ImportInfo {
+  source: string
+  kind: ImportKind
+  typeOnly: boolean // The whole declaration is `import type` / `export type ... from`
+  defaultImport: string | null
+  namespaceImport: string | null
+  named: ImportedBinding[]
+  location: SourceLocation
+  resolvedPath: string | null
+  external: boolean
+}
+
+export type ExportKind =
+  | 'function'
+  | 'class'
+  | 'const'
+  | 'let'
+  | 'var'
+  | 'type'
+  | 'interface'
+  | 'enum'
+  | 'namespace'
+  | 'local' // export { a as b }
+  | 're-export' // export { a } from './x'
+  | 'export-all' // export * from './x' / export * as ns from './x'
+
+export interface ExportInfo {
+  name: string
+  kind: ExportKind
+  typeOnly: boolean
+  localName: string | null // For `export { local as name }`
+  source: string | null // Module a re-export comes from
+  location: SourceLocation
+}
+
+export interface DefaultExportInfo {
+  name: string // Declared or referenced name, or 'anonymous'
+  kind: 'function' | 'arrow-function' | 'class' | 'identifier' | 'expression' | 'export-assignment'
+  location: SourceLocation
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) || []).some(m => m.kind === kind)
+}
+
+function stringLiteralText(node: ts.Node | undefined): string | null {
+  return node && ts.isStringLiteralLike(node) ? node.text : null
+}
+
+function newImport(
+  sourceFile: ts.SourceFile,
+  node: ts.Node,
+  source: string,
+  kind: ImportKind,
+): ImportInfo {
+  const resolved = resolveModule(source, sourceFile.fileName)
+  return {
+    source,
+    kind,
+    typeOnly: false,
+    defaultImport: null,
+    namespaceImport: null,
+    named: [],
+    location: getLocation(sourceFile, node),
+    resolvedPath: resolved.resolvedPath,
+    external: resolved.external,
+  }
+}
+
+export function extractImports(sourceFile: ts.SourceFile): ImportInfo[] {
+  const imports: ImportInfo[] = []
+
+  const visit = (node: ts.Node) => {
+    if (ts.isImportDeclaration(node)) {
+      const source = stringLiteralText(node.moduleSpecifier)
+      if (source !== null) {
+        const clause = node.importClause
+        const info = newImport(sourceFile, node, source, clause ? 'static' : 'side-effect')
+        if (clause) {
+          info.typeOnly = clause.isTypeOnly
+          if (clause.name) info.defaultImport = clause.name.text
+          const bindings = clause.namedBindings
+          if (bindings && ts.isNamespaceImport(bindings)) {
+            info.namespaceImport = bindings.name.text
+          } else if (bindings && ts.isNamedImports(bindings)) {
+            info.named = bindings.elements.map(element => ({
+              name: (element.propertyName || element.name).text,
+              local: element.name.text,
+              typeOnly: clause.isTypeOnly || element.isTypeOnly,
+            }))
+          }
+        }
+        imports.push(info)
+      }
+    } else if (ts.isImportEqualsDeclaration(node)) {
+      // import x = require('y')
+      const reference = node.moduleReference
+      if (ts.isExternalModuleReference(reference)) {
+        const source = stringLiteralText(reference.expression)
+        if (source !== null) {
+          const info = newImport(sourceFile, node, source, 'require')
+          info.typeOnly = node.isTypeOnly
+          info.defaultImport = node.name.text
+          imports.push(info)
+        }
+      }
+    } else if (ts.isExportDeclaration(node) && node.moduleSpecifier) {
+      const source = stringLiteralText(node.moduleSpecifier)
+      if (source !== null) {
+        const info = newImport(sourceFile, node, source, 're-export')
+        info.typeOnly = node.isTypeOnly
+        const clause = node.exportClause
+        if (!clause) {
+          info.namespaceImport = '*'
+        } else if (ts.isNamespaceExport(clause)) {
+          info.namespaceImport = clause.name.text
+        } else {
+          info.named = clause.elements.map(element => ({
+            name: (element.propertyName || element.name).text,
+            local: element.name.text,
+            typeOnly: node.isTypeOnly || element.isTypeOnly,
+          }))
+        }
+        imports.push(info)
+      }
+    } else if (ts.isCallExpression(node)) {
+      const source = stringLiteralText(node.arguments[0])
+      if (source !== null) {
+        if (node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+          imports.push(newImport(sourceFile, node, source, 'dynamic'))
+        } else if (ts.isIdentifier(node.expression) && node.expression.text === 'require') {
+          imports.push(newImport(sourceFile, node, source, 'require'))
+        }
+      }
+    } else if (ts.isImportTypeNode(node)) {
+      // type X = import('./y').Z
+      const argument = node.argument
+      if (ts.isLiteralTypeNode(argument)) {
+        const source = stringLiteralText(argument.literal)
+        if (source !== null) {
+          const info = newImport(sourceFile, node, source, 'dynamic')
+          info.typeOnly = true
+          imports.push(info)
+        }
+      }
+    }
+
+    ts.forEachChild(node, visit)
+  }
+
+  visit(sourceFile)
+  return imports
+}
+
+// Names bound by a variable declaration, including destructuring patterns
+function bindingNames(name: ts.BindingName): string[] {
+  if (ts.isIdentifier(name)) return [name.text]
+  return name.elements.flatMap(element =>
+    ts.isOmittedExpression(element) ? [] : bindingNames(element.name),
+  )
+}
+
+function describeDefaultExpression(
+  expression: ts.Expression,
+): Pick<DefaultExportInfo, 'name' | 'kind'> {
+  let inner = expression
+  while (ts.isParenthesizedExpression(inner) || ts.isAsExpression(inner) || ts.isSatisfiesExpression(inner)) {
+    inner = inner.expression
+  }
+  if (ts.isIdentifier(inner)) return { name: inner.text, kind: 'identifier' }
+  if (ts.isArrowFunction(inner)) return { name: 'anonymous', kind: 'arrow-function' }
+  if (ts.isFunctionExpression(inner)) return { name: inner.name?.text || 'anonymous', kind: 'function' }
+  if (ts.isClassExpression(inner)) return { name: inner.name?.text || 'anonymous', kind: 'class' }
+  // Wrapped components: export default memo(function Foo() {}) / forwardRef((props, ref) => ...)
+  if (ts.isCallExpression(inner)) {
+    const wrapped = inner.arguments[0]
+    if (wrapped && (ts.isFunctionExpression(wrapped) || ts.isIdentifier(wrapped))) {
+      const name = ts.isIdentifier(wrapped) ? wrapped.text : wrapped.name?.text
+      if (name) return { name, kind: 'expression' }
+    }
+  }
+  return { name: 'anonymous', kind: 'expression' }
+}
+
+export function extractExports(sourceFile: ts.SourceFile): {
+  exports: ExportInfo[]
+  defaultExport: DefaultExportInfo | null
+} {
+  const exports: ExportInfo[] = []
+  let defaultExport: DefaultExportInfo | null = null
+
+  const add = (
+    node: ts.Node,
+    name: string,
+    kind: ExportKind,
+    extra: Partial<Pick<ExportInfo, 'typeOnly' | 'localName' | 'source'>> = {},
+  ) => {
+    exports.push({
+      name,
+      kind,
+      typeOnly: extra.typeOnly ?? (kind === 'type' || kind === 'interface'),
+      localName: extra.localName ?? null,
+      source: extra.source ?? null,
+      location: getLocation(sourceFile, node),
+    })
+  }
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isExportAssignment(statement)) {
+      defaultExport = {
+        ...(statement.isExportEquals
+          ? { name: describeDefaultExpression(statement.expression).name, kind: 'export-assignment' as const }
+          : describeDefaultExpression(statement.expression)),
+        location: getLocation(sourceFile, statement),
+      }
+      continue
+    }
+
+    if (ts.isExportDeclaration(statement)) {
+      const source = stringLiteralText(statement.moduleSpecifier)
+      const clause = statement.exportClause
+      if (!clause) {
+        add(statement, '*', 'export-all', { source, typeOnly: statement.isTypeOnly })
+      } else if (ts.isNamespaceExport(clause)) {
+        add(statement, clause.name.text, 'export-all', { source, typeOnly: statement.isTypeOnly })
+      } else {
+        for (const element of clause.elements) {
+          const name = element.name.text
+          const localName = (element.propertyName || element.name).text
+          const typeOnly = statement.isTypeOnly || element.isTypeOnly
+          if (name === 'default' && !source) {
+            defaultExport = { name: localName, kind: 'identifier', location: getLocation(sourceFile, element) }
+            continue
+          }
+          add(element, name, source ? 're-export' : 'local', { localName, source, typeOnly })
+        }
+      }
+      continue
+    }
+
+    if (!hasModifier(statement, ts.SyntaxKind.ExportKeyword)) continue
+
+    const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword)
+
+    if (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) {
+      const kind = ts.isFunctionDeclaration(statement) ? 'function' : 'class'
+      if (isDefault) {
+        defaultExport = {
+          name: statement.name?.text || 'anonymous',
+          kind,
+          location: getLocation(sourceFile, statement),
+        }
+      } else if (statement.name) {
+        add(statement, statement.name.text, kind)
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      const flags = statement.declarationList.flags
+      const kind = flags & ts.NodeFlags.Const ? 'const' : flags & ts.NodeFlags.Let ? 'let' : 'var'
+      for (const declaration of statement.declarationList.declarations) {
+        for (const name of bindingNames(declaration.name)) {
+          add(declaration, name, kind)
+        }
+      }
+    } else if (ts.isTypeAliasDeclaration(statement)) {
+      add(statement, statement.name.text, 'type')
+    } else if (ts.isInterfaceDeclaration(statement)) {
+      if (isDefault) {
+        defaultExport = { name: statement.name.text, kind: 'identifier', location: getLocation(sourceFile, statement) }
+      } else {
+        add(statement, statement.name.text, 'interface')
+      }
+    } else if (ts.isEnumDeclaration(statement)) {
+      add(statement, statement.name.text, 'enum')
+    } else if (ts.isModuleDeclaration(statement) && ts.isIdentifier(statement.name)) {
+      add(statement, statement.name.text, 'namespace')
+    }
+  }
+
+  return { exports, defaultExport }
+}
@@ -0,0 +1,173 @@
+import fs from 'fs'
+import path from 'path'
+import ts from 'typescript'
+import { getWorkspaceRoots, isWithin } from '../workspace.js'
+
+/**
+ * TypeScript project helpers
+ *   - Finds and parses the tsconfig that governs a file (following `extends`)
+ *   - Resolves module specifiers the way the compiler would, including `paths`
+ *     aliases such as `@/lib/validation`
+ *   - Parses source files into ASTs for the analyses built on top
+ */
+
+export interface SourceLocation {
+  line: number // 1-based
+  column: number // 1-based
+}
+
+// Used when a file isn't covered by any tsconfig
+const FALLBACK_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  jsx: ts.JsxEmit.ReactJSX,
+  allowJs: true,
+  esModuleInterop: true,
+}
+
+interface ParsedConfig {
+  mtimeMs: number
+  options: ts.CompilerOptions
+  declarations: string[] // The project's own .d.ts files (global and module declarations)
+}
+
+const parsedConfigCache = new Map<string, ParsedConfig>()
+
+// The closest tsconfig.json above `fileName`, without leaving its workspace root
+export function findTsConfig(fileName: string): string | null {
+  const root = getWorkspaceRoots().find(candidate => isWithin(candidate, fileName))
+  let dir = path.dirname(fileName)
+
+  while (true) {
+    const candidate = path.join(dir, 'tsconfig.json')
+    if (fs.existsSync(candidate)) return candidate
+    const parent = path.dirname(dir)
+    if (parent === dir || (root && dir === root)) return null
+    dir = parent
+  }
+}
+
+function getParsedConfig(fileName: string): ParsedConfig | null {
+  const configPath = findTsConfig(fileName)
+  if (!configPath) return null
+
+  const { mtimeMs } = fs.statSync(configPath)
+  const cached = parsedConfigCache.get(configPath)
+  if (cached && cached.mtimeMs === mtimeMs) return cached
+
+  const parsed = ts.getParsedCommandLineOfConfigFile(configPath, {}, {
+    ...ts.sys,
+    onUnRecoverableConfigFileDiagnostic: () => undefined,
+  })
+  const options = parsed
+    ? { ...FALLBACK_COMPILER_OPTIONS, ...parsed.options }
+    : FALLBACK_COMPILER_OPTIONS
+  const entry = {
+    mtimeMs,
+    options,
+    declarations: parsed ? parsed.fileNames.filter(name => name.endsWith('.d.ts')) : [],
+  }
+  parsedConfigCache.set(configPath, entry)
+  return entry
+}
+
+export function getCompilerOptions(fileName: string): ts.CompilerOptions {
+  return getParsedConfig(fileName)?.options ?? FALLBACK_COMPILER_OPTIONS
+}
+
+// The .d.ts files the tsconfig includes, which a program checking just `fileName` needs as roots
+export function getDeclarationFiles(fileName: string): string[] {
+  return getParsedConfig(fileName)?.declarations ?? []
+}
+
+export interface ResolvedModule {
+  resolvedPath: string | null // Absolute path, null when it can't be resolved
+  external: boolean // Resolved into node_modules (or a bare package that couldn't be found)
+}
+
+const moduleResolutionCache = new Map<string, ts.ModuleResolutionCache>()
+
+export function resolveModule(specifier: string, containingFile: string): ResolvedModule {
+  const options = getCompilerOptions(containingFile)
+  const cacheKey = findTsConfig(containingFile) || ''
+  let cache = moduleResolutionCache.get(cacheKey)
+  if (!cache) {
+    cache = ts.createModuleResolutionCache(path.dirname(containingFile), name => name, options)
+    moduleResolutionCache.set(cacheKey, cache)
+  }
+
+  const { resolvedModule } = ts.resolveModuleName(specifier, containingFile, options, ts.sys, cache)
+  if (resolvedModule) {
+    return {
+      resolvedPath: path.resolve(resolvedModule.resolvedFileName),
+      external: Boolean(resolvedModule.isExternalLibraryImport),
+    }
+  }
+
+  const relative = specifier.startsWith('.') || specifier.startsWith('/')
+  return { resolvedPath: null, external: !relative && !isPathAlias(specifier, options) }
+}
+
+// Whether a specifier matches one of the tsconfig `paths` patterns
+function isPathAlias(specifier: string, options: ts.CompilerOptions): boolean {
+  return Object.keys(options.paths || {}).some(pattern => {
+    const star = pattern.indexOf('*')
+    if (star < 0) return pattern === specifier
+    return specifier.startsWith(pattern.slice(0, star)) && specifier.endsWith(pattern.slice(star + 1))
+  })
+}
+
+/**
+ * How `fromFile` would import `targetFile`: through a tsconfig `paths` alias when one maps to it
+ * (`@/lib/validation/schemas/user`), else a relative specifier. Extensionless, as bundlers expect.
+ */
+export function importSpecifier(fromFile: string, targetFile: string): string {
+  const target = path.resolve(targetFile)
+  const modulePath = target.replace(/\.(d\.)?[cm]?[jt]sx?$/, '').replace(/[\\/]index$/, '')
+  const options = getCompilerOptions(fromFile)
+  const configPath = findTsConfig(fromFile)
+  const baseUrl = options.baseUrl || (configPath ? path.dirname(configPath) : null)
+
+  for (const [pattern, mappings] of Object.entries(options.paths || {})) {
+    const star = pattern.indexOf('*')
+    if (!baseUrl || star < 0) continue
+    for (const mapping of mappings) {
+      const mappingStar = mapping.indexOf('*')
+      if (mappingStar < 0) continue
+      const base = path.resolve(baseUrl, mapping.slice(0, mappingStar))
+      if (!isWithin(base, modulePath)) continue
+      const rest = path.relative(base, modulePath)
+      const alias =
+        pattern.slice(0, star) + rest.split(path.sep).join('/') + pattern.slice(star + 1)
+      if (resolveModule(alias, fromFile).resolvedPath === target) return alias
+    }
+  }
+
+  const relative = path.relative(path.dirname(fromFile), modulePath).split(path.sep).join('/')
+  return relative.startsWith('.') ? relative : `./${relative}`
+}
+
+function getScriptKind(fileName: string): ts.ScriptKind {
+  switch (path.extname(fileName).toLowerCase()) {
+    case '.tsx':
+      return ts.ScriptKind.TSX
+    case '.jsx':
+      return ts.ScriptKind.JSX
+    case '.js':
+    case '.mjs':
+    case '.cjs':
+      return ts.ScriptKind.JS
+    default:
+      return ts.ScriptKind.TS
+  }
+}
+
+export function parseSourceFile(fileName: string, content: string): ts.SourceFile {
+  return ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, getScriptKind(fileName))
+}
+
+export function getLocation(sourceFile: ts.SourceFile, node: ts.Node): SourceLocation {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile))
+  return { line: line + 1, column: character + 1 }
+}
@@ -0,0 +1,261 @@
+import fs from 'fs'
+import ts from 'typescript'
+import { ProjectConfig } from '../config.js'
+import { resolveWorkspacePath } from '../workspace.js'
+import { listSourceFiles } from './graph.js'
+import { getLocation, parseSourceFile, SourceLocation } from './project.js'
+
+/**
+ * Validation service APIs
+ *   - Reads the members ValidationService and FormatterService really have from the
+ *     validation module's sources (validation.directory), so calls can be checked against them
+ *   - Understands `class X { static ... }`, `const X = { ... }` (optionally frozen or `as const`),
+ *     `const X = new Impl()` and `namespace X { export function ... }`
+ *   - A service that extends a class or spreads another object is "open": its members may be
+ *     incomplete, so unknown names aren't reported
+ */
+
+export interface ServiceMember {
+  name: string
+  kind: 'method' | 'property' | 'accessor'
+  location: SourceLocation
+}
+
+export interface ServiceApi {
+  name: string
+  file: string // Absolute
+  location: SourceLocation
+  members: Map<string, ServiceMember>
+  open: boolean
+}
+
+// Members every object or class has
+const INHERITED_MEMBERS = new Set([
+  'apply',
+  'bind',
+  'call',
+  'constructor',
+  'hasOwnProperty',
+  'length',
+  'name',
+  'prototype',
+  'toString',
+  'valueOf',
+])
+
+let cached: { key: string; apis: Map<string, ServiceApi> } | null = null
+
+// Plain names only: #private and computed keys aren't reachable as `Service.name`
+function memberName(name: ts.PropertyName): string | null {
+  const plain = ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)
+  return plain ? name.text : null
+}
+
+function isFunctionLike(node: ts.Expression | undefined): boolean {
+  return Boolean(node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node)))
+}
+
+function extendsClass(node: ts.ClassLikeDeclaration): boolean {
+  return Boolean(
+    node.heritageClauses?.some(clause => clause.token === ts.SyntaxKind.ExtendsKeyword),
+  )
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) || []).some(m => m.kind === kind)
+}
+
+function classMembers(
+  sourceFile: ts.SourceFile,
+  node: ts.ClassLikeDeclaration,
+  isStatic: boolean,
+): Map<string, ServiceMember> {
+  const members = new Map<string, ServiceMember>()
+  for (const member of node.members) {
+    if (!member.name || hasModifier(member, ts.SyntaxKind.PrivateKeyword)) continue
+    if (hasModifier(member, ts.SyntaxKind.StaticKeyword) !== isStatic) continue
+    const name = memberName(member.name)
+    if (!name) continue
+    const kind = ts.isMethodDeclaration(member)
+      ? 'method'
+      : ts.isGetAccessor(member) || ts.isSetAccessor(member)
+        ? 'accessor'
+        : 'property'
+    members.set(name, { name, kind, location: getLocation(sourceFile, member) })
+  }
+  return members
+}
+
+function objectMembers(
+  sourceFile: ts.SourceFile,
+  node: ts.ObjectLiteralExpression,
+): { members: Map<string, ServiceMember>; open: boolean } {
+  const members = new Map<string, ServiceMember>()
+  let open = false
+  for (const property of node.properties) {
+    if (ts.isSpreadAssignment(property) || !property.name) {
+      open = true
+      continue
+    }
+    const name = memberName(property.name)
+    if (!name) {
+      open = true // Computed key
+      continue
+    }
+    const isFunction =
+      ts.isMethodDeclaration(property) ||
+      (ts.isPropertyAssignment(property) && isFunctionLike(property.initializer))
+    const kind = isFunction
+      ? 'method'
+      : ts.isGetAccessor(property) || ts.isSetAccessor(property)
+        ? 'accessor'
+        : 'property'
+    members.set(name, { name, kind, location: getLocation(sourceFile, property) })
+  }
+  return { members, open }
+}
+
+// `{...}`, `{...} as const`, `{...} satisfies T` and `Object.freeze({...})`
+export function unwrapObject(node: ts.Expression): ts.ObjectLiteralExpression | null {
+  while (
+    ts.isParenthesizedExpression(node) ||
+    ts.isAsExpression(node) ||
+    ts.isSatisfiesExpression(node)
+  ) {
+    node = node.expression
+  }
+  if (ts.isObjectLiteralExpression(node)) return node
+  if (ts.isCallExpression(node) && node.expression.getText() === 'Object.freeze') {
+    const [argument] = node.arguments
+    return argument ? unwrapObject(argument) : null
+  }
+  return null
+}
+
+function findClass(sourceFiles: ts.SourceFile[], name: string) {
+  for (const sourceFile of sourceFiles) {
+    for (const statement of sourceFile.statements) {
+      if (ts.isClassDeclaration(statement) && statement.name?.text === name) {
+        return { sourceFile, node: statement }
+      }
+    }
+  }
+  return null
+}
+
+function findService(sourceFiles: ts.SourceFile[], name: string): ServiceApi | null {
+  for (const sourceFile of sourceFiles) {
+    for (const statement of sourceFile.statements) {
+      const api = (node: ts.Node, members: Map<string, ServiceMember>, open: boolean) => ({
+        name,
+        file: sourceFile.fileName,
+        location: getLocation(sourceFile, node),
+        members,
+        open,
+      })
+
+      if (ts.isClassDeclaration(statement) && statement.name?.text === name) {
+        return api(statement, classMembers(sourceFile, statement, true), extendsClass(statement))
+      }
+
+      if (ts.isModuleDeclaration(statement) && statement.name.text === name) {
+        const members = new Map<string, ServiceMember>()
+        const add = (member: string, kind: ServiceMember['kind'], node: ts.Node) =>
+          members.set(member, { name: member, kind, location: getLocation(sourceFile, node) })
+
+        const body = statement.body && ts.isModuleBlock(statement.body) ? statement.body : null
+        for (const inner of body?.statements || []) {
+          if (!hasModifier(inner, ts.SyntaxKind.ExportKeyword)) continue
+          if (ts.isFunctionDeclaration(inner) && inner.name) {
+            add(inner.name.text, 'method', inner)
+          } else if (ts.isVariableStatement(inner)) {
+            for (const declaration of inner.declarationList.declarations) {
+              if (!ts.isIdentifier(declaration.name)) continue
+              const kind = isFunctionLike(declaration.initializer) ? 'method' : 'property'
+              add(declaration.name.text, kind, declaration)
+            }
+          }
+        }
+        return api(statement, members, false)
+      }
+
+      if (!ts.isVariableStatement(statement)) continue
+      for (const declaration of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name) || declaration.name.text !== name) continue
+        if (!declaration.initializer) continue
+
+        const object = unwrapObject(declaration.initializer)
+        if (object) {
+          const { members, open } = objectMembers(sourceFile, object)
+          return api(declaration, members, open)
+        }
+
+        // `const ValidationService = new ValidationServiceImpl()`
+        const initializer = declaration.initializer
+        if (ts.isNewExpression(initializer) && ts.isIdentifier(initializer.expression)) {
+          const found = findClass(sourceFiles, initializer.expression.text)
+          if (found) {
+            const members = classMembers(found.sourceFile, found.node, false)
+            return api(declaration, members, extendsClass(found.node))
+          }
+        }
+
+        return api(declaration, new Map(), true) // Built some other way; nothing to check against
+      }
+    }
+  }
+  return null
+}
+
+// The services found in the validation module's sources, keyed by name
+export function loadServiceApis(config: ProjectConfig): Map<string, ServiceApi> {
+  const directory = resolveWorkspacePath(config.validation.directory)
+  const files = fs.existsSync(directory) ? listSourceFiles([directory], config.exclude) : []
+  const names = [config.validation.validationService, config.validation.formatterService]
+
+  const key = JSON.stringify([names, files.map(file => [file, fs.statSync(file).mtimeMs])])
+  if (cached && cached.key === key) return cached.apis
+
+  const sourceFiles = files.map(file => parseSourceFile(file, fs.readFileSync(file, 'utf-8')))
+  const apis = new Map<string, ServiceApi>()
+  for (const name of names) {
+    const api = findService(sourceFiles, name)
+    if (api) apis.set(name, api)
+  }
+
+  cached = { key, apis }
+  return apis
+}
+
+// Whether a service has a member: null when that can't be told (service not found, or open)
+export function hasServiceMember(api: ServiceApi | undefined, member: string): boolean | null {
+  if (!api) return null
+  if (api.members.has(member) || INHERITED_MEMBERS.has(member)) return true
+  return api.open ? null : false
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+// The member a misspelt name most likely meant, if any is close enough
+export function closestMember(api: ServiceApi, name: string): string | null {
+  let best: { name: string; distance: number } | null = null
+  for (const candidate of api.members.keys()) {
+    const distance = editDistance(name, candidate)
+    const closeEnough = distance <= Math.max(2, Math.floor(name.length / 3))
+    if (closeEnough && (!best || distance < best.distance)) {
+      best = { name: candidate, distance }
+    }
+  }
+  return best?.name ?? null
+}
@@ -0,0 +1,246 @@
+import ts from 'typescript'
+import { ProjectConfig } from '../config.js'
+import { isWithin, resolveWorkspacePath } from '../workspace.js'
+import { getLocation, resolveModule, SourceLocation } from './project.js'
+import { hasServiceMember, loadServiceApis } from './serviceApi.js'
+
+/**
+ * Validation service usage
+ *   - Finds the bindings a file imports from the validation module, whatever they are renamed to
+ *     (`import { ValidationService as VS }`, `import * as validation`)
+ *   - Follows the service through aliases (`const V = ValidationService`) and destructuring
+ *     (`const { isValidEmail } = ValidationService`) using the compiler's symbols, so comments,
+ *     strings and shadowing variables never count as usage
+ *   - Checks every member used against the services' real sources (see serviceApi.ts)
+ */
+
+export interface ServiceBinding {
+  imported: string // '*' for namespace imports, 'default' for default imports
+  local: string
+  service: string | null // The service it refers to, if any
+  typeOnly: boolean
+  location: SourceLocation
+}
+
+export interface ServiceReference {
+  service: string
+  member: string | null // null when the service itself is used as a value
+  via: 'import' | 'alias' | 'namespace' | 'destructured'
+  local: string // The name the code uses
+  called: boolean
+  known: boolean | null // Whether the member exists; null when it can't be told
+  location: SourceLocation
+  span: { start: number; end: number } // Offsets of the member name (or the reference)
+}
+
+export interface ServiceUsage {
+  imports: { source: string; statement: string; location: SourceLocation }[]
+  bindings: ServiceBinding[]
+  references: ServiceReference[]
+}
+
+// A checker over this file alone: enough to resolve local symbols without reading imports
+function createFileChecker(sourceFile: ts.SourceFile): ts.TypeChecker {
+  const options: ts.CompilerOptions = { noLib: true, noResolve: true, types: [], allowJs: true }
+  const host = ts.createCompilerHost(options)
+  host.getSourceFile = fileName => (fileName === sourceFile.fileName ? sourceFile : undefined)
+  host.fileExists = fileName => fileName === sourceFile.fileName
+  host.readFile = fileName => (fileName === sourceFile.fileName ? sourceFile.text : undefined)
+  return ts.createProgram({ rootNames: [sourceFile.fileName], options, host }).getTypeChecker()
+}
+
+function isValidationModule(specifier: string, fileName: string, config: ProjectConfig): boolean {
+  if (specifier === config.validation.importPath) return true
+  const { resolvedPath } = resolveModule(specifier, fileName)
+  if (!resolvedPath) return false
+  return isWithin(resolveWorkspacePath(config.validation.directory), resolvedPath)
+}
+
+// `Service.member`, `Service?.member` and `Service['member']`
+function accessedMember(node: ts.Node): { member: string; name: ts.Node } | null {
+  const parent = node.parent
+  if (ts.isPropertyAccessExpression(parent) && parent.expression === node) {
+    return { member: parent.name.text, name: parent.name }
+  }
+  if (
+    ts.isElementAccessExpression(parent) &&
+    parent.expression === node &&
+    ts.isStringLiteralLike(parent.argumentExpression)
+  ) {
+    return { member: parent.argumentExpression.text, name: parent.argumentExpression }
+  }
+  return null
+}
+
+function isCallee(node: ts.Node): boolean {
+  return ts.isCallExpression(node.parent) && node.parent.expression === node
+}
+
+// Identifiers inside `typeof X` types and import/export clauses aren't runtime uses
+function isIgnoredPosition(node: ts.Node): boolean {
+  for (let current = node.parent; current; current = current.parent) {
+    if (ts.isTypeQueryNode(current) || ts.isImportDeclaration(current)) return true
+    if (ts.isExportDeclaration(current) || ts.isExportAssignment(current)) return true
+    if (ts.isStatement(current)) return false
+  }
+  return false
+}
+
+export function analyzeServiceUsage(
+  sourceFile: ts.SourceFile,
+  config: ProjectConfig,
+): ServiceUsage {
+  const services = [config.validation.validationService, config.validation.formatterService]
+  const usage: ServiceUsage = { imports: [], bindings: [], references: [] }
+
+  const validationImports = sourceFile.statements.filter(
+    (statement): statement is ts.ImportDeclaration & { moduleSpecifier: ts.StringLiteral } =>
+      ts.isImportDeclaration(statement) &&
+      ts.isStringLiteral(statement.moduleSpecifier) &&
+      isValidationModule(statement.moduleSpecifier.text, sourceFile.fileName, config),
+  )
+  if (validationImports.length === 0) return usage
+
+  const checker = createFileChecker(sourceFile)
+  const symbolOf = (node: ts.Node) => {
+    if (ts.isShorthandPropertyAssignment(node.parent) && node.parent.name === node) {
+      return checker.getShorthandAssignmentValueSymbol(node.parent)
+    }
+    return checker.getSymbolAtLocation(node)
+  }
+
+  const serviceSymbols = new Map<ts.Symbol, { service: string; via: ServiceReference['via'] }>()
+  const namespaceSymbols = new Set<ts.Symbol>()
+  const memberSymbols = new Map<ts.Symbol, { service: string; member: string }>()
+
+  for (const statement of validationImports) {
+    usage.imports.push({
+      source: statement.moduleSpecifier.text,
+      statement: statement.getText(sourceFile),
+      location: getLocation(sourceFile, statement),
+    })
+
+    const clause = statement.importClause
+    if (!clause) continue
+    const addBinding = (imported: string, name: ts.Identifier, typeOnly: boolean) => {
+      const service = services.includes(imported) ? imported : null
+      usage.bindings.push({
+        imported,
+        local: name.text,
+        service,
+        typeOnly,
+        location: getLocation(sourceFile, name),
+      })
+      const symbol = checker.getSymbolAtLocation(name)
+      if (!symbol || typeOnly) return
+      if (service) serviceSymbols.set(symbol, { service, via: 'import' })
+      if (imported === '*') namespaceSymbols.add(symbol)
+    }
+
+    if (clause.name) addBinding('default', clause.name, clause.isTypeOnly)
+    const bindings = clause.namedBindings
+    if (bindings && ts.isNamespaceImport(bindings)) {
+      addBinding('*', bindings.name, clause.isTypeOnly)
+    } else if (bindings && ts.isNamedImports(bindings)) {
+      for (const element of bindings.elements) {
+        const imported = (element.propertyName || element.name).text
+        addBinding(imported, element.name, clause.isTypeOnly || element.isTypeOnly)
+      }
+    }
+  }
+
+  if (usage.bindings.length === 0) return usage
+  const apis = loadServiceApis(config)
+
+  const addReference = (
+    service: string,
+    member: string | null,
+    via: ServiceReference['via'],
+    local: string,
+    node: ts.Node, // The member name, or the reference itself
+    callee: ts.Node,
+  ) => {
+    usage.references.push({
+      service,
+      member,
+      via,
+      local,
+      called: isCallee(callee),
+      known: member === null ? null : hasServiceMember(apis.get(service), member),
+      location: getLocation(sourceFile, node),
+      span: { start: node.getStart(sourceFile), end: node.end },
+    })
+  }
+
+  // A service reached through an import, an alias or a namespace
+  const useService = (node: ts.Node, service: string, via: ServiceReference['via']) => {
+    const local = node.getText(sourceFile)
+    const access = accessedMember(node)
+    if (access) {
+      addReference(service, access.member, via, local, access.name, node.parent)
+      return
+    }
+
+    const parent = node.parent
+    if (ts.isVariableDeclaration(parent) && parent.initializer === node) {
+      // `const V = ValidationService`: uses of V are followed instead
+      if (ts.isIdentifier(parent.name)) {
+        const symbol = checker.getSymbolAtLocation(parent.name)
+        if (symbol) serviceSymbols.set(symbol, { service, via: 'alias' })
+        return
+      }
+      // `const { isValidEmail, formatPhone: format } = ValidationService`
+      if (ts.isObjectBindingPattern(parent.name)) {
+        for (const element of parent.name.elements) {
+          const key = element.propertyName || element.name
+          if (element.dotDotDotToken || !(ts.isIdentifier(key) || ts.isStringLiteral(key))) continue
+          const symbol = ts.isIdentifier(element.name) && checker.getSymbolAtLocation(element.name)
+          if (symbol) memberSymbols.set(symbol, { service, member: key.text })
+        }
+        return
+      }
+    }
+
+    addReference(service, null, via, local, node, node)
+  }
+
+  const visit = (node: ts.Node): void => {
+    if (ts.isIdentifier(node) && !isIgnoredPosition(node)) {
+      const symbol = symbolOf(node)
+      const target = symbol && serviceSymbols.get(symbol)
+      const member = symbol && memberSymbols.get(symbol)
+
+      if (target) {
+        useService(node, target.service, target.via)
+      } else if (member) {
+        const isDeclaration = ts.isBindingElement(node.parent) && node.parent.name === node
+        if (!isDeclaration) {
+          addReference(member.service, member.member, 'destructured', node.text, node, node)
+        }
+      } else if (symbol && namespaceSymbols.has(symbol)) {
+        // `validation.ValidationService...`
+        const access = accessedMember(node)
+        if (access && services.includes(access.member)) {
+          useService(node.parent, access.member, 'namespace')
+          return
+        }
+      }
+    }
+    ts.forEachChild(node, visit)
+  }
+  visit(sourceFile)
+
+  return usage
+}
+
+// Unique members used on a service, in order of first use
+export function usedMembers(usage: ServiceUsage, service: string): string[] {
+  const members = usage.references
+    .filter(reference => reference.service === service && reference.member !== null)
+    .map(reference => reference.member!)
+  return [...new Set(members)]
+}
+
+export function usesService(usage: ServiceUsage, service: string): boolean {
+  return usage.references.some(reference => reference.service === service)
+}
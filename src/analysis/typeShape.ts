@@ -0,0 +1,233 @@
+import path from 'path'
+import ts from 'typescript'
+import { getCompilerOptions } from './project.js'
+
+/**
+ * Shapes of exported types and zod schemas
+ *   - Reads what a value of an exported type looks like with the type checker: its properties,
+ *     which are optional, nested objects, arrays, string literal unions and dates
+ *   - For a zod schema export that's the schema's output type (`z.infer`), so it needs zod's
+ *     types to resolve from the file; the checks chained on each property (`.email()`, `.url()`)
+ *     are read from the schema's source as hints
+ */
+
+export type ShapeType =
+  | { kind: 'string' | 'number' | 'boolean' | 'date' | 'unknown'; text: string }
+  | { kind: 'enum'; values: string[]; text: string }
+  | { kind: 'object'; properties: ShapeProperty[]; text: string }
+  | { kind: 'array'; element: ShapeType; text: string }
+
+export interface ShapeProperty {
+  name: string
+  optional: boolean
+  type: ShapeType
+  hints: string[] // zod methods chained on the property's schema: ['string', 'email', 'min']
+  doc: string | null
+}
+
+export interface ExportShape {
+  name: string
+  file: string // Absolute
+  source: 'schema' | 'type' // A zod schema, or a type alias or interface
+  type: ShapeType
+}
+
+// Deep enough for any form; guards against recursive types
+const MAX_DEPTH = 6
+
+const NULLISH = ts.TypeFlags.Undefined | ts.TypeFlags.Null | ts.TypeFlags.Void
+
+// `z.string().email().min(2)` -> ['string', 'email', 'min']
+function chainedMethods(expression: ts.Expression): string[] {
+  const methods: string[] = []
+  let current: ts.Expression = expression
+  while (ts.isCallExpression(current) || ts.isPropertyAccessExpression(current)) {
+    if (ts.isPropertyAccessExpression(current)) methods.unshift(current.name.text)
+    current = current.expression
+  }
+  return methods
+}
+
+// The schema an identifier refers to (`address: addressSchema`), through imports
+function declaredSchema(checker: ts.TypeChecker, identifier: ts.Identifier): ts.Expression | null {
+  let symbol = checker.getSymbolAtLocation(identifier)
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) symbol = checker.getAliasedSymbol(symbol)
+  const declaration = symbol?.valueDeclaration
+  return declaration && ts.isVariableDeclaration(declaration) && declaration.initializer
+    ? declaration.initializer
+    : null
+}
+
+/**
+ * Methods chained on each property of a z.object() schema, by path: `address.city`, and
+ * `phones.[].number` for the items of an array. Follows schemas referenced by name.
+ */
+function collectHints(
+  checker: ts.TypeChecker,
+  expression: ts.Expression,
+  prefix: string,
+  hints: Map<string, string[]>,
+  depth = 0,
+): void {
+  if (depth > MAX_DEPTH) return
+  const addProperties = (object: ts.ObjectLiteralExpression) => {
+    for (const property of object.properties) {
+      if (!ts.isPropertyAssignment(property)) continue
+      if (!(ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))) continue
+      const key = `${prefix}${property.name.text}`
+      hints.set(key, chainedMethods(property.initializer))
+      collectHints(checker, property.initializer, `${key}.`, hints, depth + 1)
+    }
+  }
+
+  let current: ts.Expression = expression
+  while (ts.isCallExpression(current) || ts.isPropertyAccessExpression(current)) {
+    if (ts.isCallExpression(current) && ts.isPropertyAccessExpression(current.expression)) {
+      const method = current.expression.name.text
+      const [argument] = current.arguments
+      const object = argument && ts.isObjectLiteralExpression(argument) ? argument : null
+      if (method === 'object' && object) return addProperties(object)
+      // `base.extend({...})`: the new properties, then the base schema's
+      if (method === 'extend' && object) addProperties(object)
+      if (method === 'array' && argument) {
+        return collectHints(checker, argument, `${prefix.slice(0, -1)}.[].`, hints, depth + 1)
+      }
+    }
+    current = current.expression
+  }
+  if (ts.isIdentifier(current)) {
+    const declared = declaredSchema(checker, current)
+    if (declared) collectHints(checker, declared, prefix, hints, depth + 1)
+  }
+}
+
+function describeType(
+  checker: ts.TypeChecker,
+  type: ts.Type,
+  path: string,
+  hints: Map<string, string[]>,
+  depth: number,
+): ShapeType {
+  const text = checker.typeToString(type)
+  if (depth > MAX_DEPTH) return { kind: 'unknown', text }
+
+  if (type.isUnion()) {
+    const members = type.types.filter(member => !(member.flags & NULLISH))
+    if (members.length > 0 && members.every(member => member.isStringLiteral())) {
+      const values = members.map(member => (member as ts.StringLiteralType).value)
+      return { kind: 'enum', values, text }
+    }
+    if (members.every(member => member.flags & ts.TypeFlags.BooleanLiteral)) {
+      return { kind: 'boolean', text }
+    }
+    if (members.length === 1) return describeType(checker, members[0], path, hints, depth)
+    return { kind: 'unknown', text }
+  }
+
+  if (type.flags & (ts.TypeFlags.StringLike & ~ts.TypeFlags.StringLiteral)) {
+    return { kind: 'string', text }
+  }
+  if (type.isStringLiteral()) return { kind: 'enum', values: [type.value], text }
+  if (type.flags & ts.TypeFlags.NumberLike) return { kind: 'number', text }
+  if (type.flags & ts.TypeFlags.BooleanLike) return { kind: 'boolean', text }
+  if (checker.isArrayType(type)) {
+    const [element] = checker.getTypeArguments(type as ts.TypeReference)
+    return {
+      kind: 'array',
+      element: describeType(checker, element, `${path}.[]`, hints, depth + 1),
+      text,
+    }
+  }
+  if (type.getSymbol()?.getName() === 'Date') return { kind: 'date', text }
+  if (!(type.flags & ts.TypeFlags.Object) || type.getCallSignatures().length > 0) {
+    return { kind: 'unknown', text }
+  }
+
+  const properties = checker.getPropertiesOfType(type).flatMap(property => {
+    if (property.flags & ts.SymbolFlags.Method) return []
+    const propertyType = checker.getTypeOfSymbol(property)
+    if (propertyType.getCallSignatures().length > 0) return []
+    const key = path ? `${path}.${property.name}` : property.name
+    const optional =
+      Boolean(property.flags & ts.SymbolFlags.Optional) ||
+      (propertyType.isUnion() && propertyType.types.some(member => member.flags & NULLISH))
+    const doc = ts.displayPartsToString(property.getDocumentationComment(checker))
+    return [
+      {
+        name: property.name,
+        optional,
+        type: describeType(checker, propertyType, key, hints, depth + 1),
+        hints: hints.get(key) || [],
+        doc: doc || null,
+      },
+    ]
+  })
+  // zod's inferred types list required properties first; the schema's order is the author's
+  const order = [...hints.keys()]
+  const position = (property: ShapeProperty) => {
+    const index = order.indexOf(path ? `${path}.${property.name}` : property.name)
+    return index < 0 ? order.length : index
+  }
+  properties.sort((a, b) => position(a) - position(b))
+  return { kind: 'object', properties, text }
+}
+
+// The exported symbol named `name`, through re-exports
+function findExport(
+  checker: ts.TypeChecker,
+  sourceFile: ts.SourceFile,
+  name: string,
+): ts.Symbol | undefined {
+  const moduleSymbol = checker.getSymbolAtLocation(sourceFile)
+  const symbol = moduleSymbol && checker.getExportsOfModule(moduleSymbol).find(s => s.name === name)
+  return symbol && symbol.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(symbol) : symbol
+}
+
+/**
+ * The shape of the type or zod schema `name` exported from `file`. A name that's both (a schema
+ * and its `z.infer` type) is read as the schema. Throws when it can't be read.
+ */
+export function readExportShape(file: string, name: string): ExportShape {
+  const fileName = path.resolve(file)
+  // Without strictNullChecks, zod's output types make every key optional
+  const options = {
+    ...getCompilerOptions(fileName),
+    strictNullChecks: true,
+    noEmit: true,
+    types: [],
+  }
+  const program = ts.createProgram([fileName], options)
+  const checker = program.getTypeChecker()
+  const sourceFile = program.getSourceFile(fileName)
+  if (!sourceFile) throw new Error(`Can't read ${file}`)
+
+  const symbol = findExport(checker, sourceFile, name)
+  if (!symbol) throw new Error(`${path.basename(file)} doesn't export ${name}`)
+
+  if (symbol.flags & ts.SymbolFlags.Variable) {
+    const declaration = symbol.valueDeclaration!
+    const schemaType = checker.getTypeOfSymbolAtLocation(symbol, declaration)
+    const output = schemaType.getProperty('_output')
+    if (!output) {
+      const reason =
+        schemaType.flags & ts.TypeFlags.Any
+          ? "zod's types can't be resolved from it; install the project's dependencies"
+          : "it isn't a zod schema"
+      throw new Error(`Can't read the shape of ${name}: ${reason}`)
+    }
+
+    const hints = new Map<string, string[]>()
+    if (ts.isVariableDeclaration(declaration) && declaration.initializer) {
+      collectHints(checker, declaration.initializer, '', hints)
+    }
+    const type = describeType(checker, checker.getTypeOfSymbol(output), '', hints, 0)
+    return { name, file: fileName, source: 'schema', type }
+  }
+
+  if (symbol.flags & (ts.SymbolFlags.TypeAlias | ts.SymbolFlags.Interface)) {
+    const type = describeType(checker, checker.getDeclaredTypeOfSymbol(symbol), '', new Map(), 0)
+    return { name, file: fileName, source: 'type', type }
+  }
+
+  throw new Error(`${name} in ${path.basename(file)} is neither a zod schema nor a type`)
+}
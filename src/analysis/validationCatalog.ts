@@ -0,0 +1,456 @@
+import fs from 'fs'
+import path from 'path'
+import ts from 'typescript'
+import { ProjectConfig } from '../config.js'
+import { resolveWorkspacePath, toWorkspaceRelative } from '../workspace.js'
+import { listSourceFiles } from './graph.js'
+import { getCompilerOptions, getLocation, resolveModule } from './project.js'
+import { unwrapObject } from './serviceApi.js'
+
+/**
+ * Validation library catalog
+ *   - Parses every source file under validation.directory (nested folders included) into a
+ *     catalog of validators, formatters and schemas: name, signature, JSDoc and location
+ *   - Signatures come from the type checker, so inferred return types are filled in
+ *   - Regex constants from the library's config.ts are listed, and each entry names the ones
+ *     it uses, so a validator can be picked by the pattern it applies
+ *   - Cached until a file in the directory changes
+ */
+
+export type CatalogKind = 'validator' | 'formatter' | 'schema'
+
+export interface CatalogLocation {
+  file: string // Workspace-relative
+  line: number
+  column: number
+}
+
+export interface CatalogEntry {
+  name: string // `Service.member` for service members
+  kind: CatalogKind
+  service: string | null
+  signature: string
+  doc: string | null
+  tags: { name: string; text: string }[] // @param, @returns, @example...
+  regexConstants: string[]
+  fields?: string[] // Top-level keys of a z.object() schema
+  exported: boolean
+  location: CatalogLocation
+}
+
+export interface RegexConstant {
+  name: string // `PATTERNS.EMAIL` for regexes grouped in an object
+  pattern: string
+  flags: string
+  doc: string | null
+  usedBy: string[]
+  location: CatalogLocation
+}
+
+export interface ServiceSummary {
+  name: string
+  kind: CatalogKind
+  members: number
+  location: CatalogLocation
+}
+
+export interface ValidationCatalog {
+  directory: string // Workspace-relative
+  files: string[] // Workspace-relative
+  configFile: string | null
+  services: ServiceSummary[]
+  regexConstants: RegexConstant[]
+  entries: CatalogEntry[]
+}
+
+// Folder conventions of the validation library, checked before naming conventions
+const FOLDER_KINDS: Record<string, CatalogKind> = {
+  validators: 'validator',
+  formatters: 'formatter',
+  schemas: 'schema',
+}
+const VALIDATOR_NAME = /^(is|has|validate|check|can)[A-Z_]|Validator$/
+const FORMATTER_NAME = /^(format|normalize|mask|parse|to)[A-Z_]|Formatter$/
+const MAX_SIGNATURE_LENGTH = 300
+
+let cached: { key: string; catalog: ValidationCatalog } | null = null
+
+function locationOf(sourceFile: ts.SourceFile, node: ts.Node): CatalogLocation {
+  return { file: toWorkspaceRelative(sourceFile.fileName), ...getLocation(sourceFile, node) }
+}
+
+function hasExportModifier(node: ts.Node): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) || []).some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword)
+  )
+}
+
+function isFunctionLike(
+  node: ts.Node | undefined,
+): node is ts.ArrowFunction | ts.FunctionExpression {
+  return Boolean(node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node)))
+}
+
+// `z.object(...)`, `z.string().email()`, `baseSchema.extend(...)` and the like
+function isSchemaExpression(node: ts.Expression, zodNames: Set<string>): boolean {
+  let current: ts.Expression = node
+  while (ts.isCallExpression(current) || ts.isPropertyAccessExpression(current)) {
+    current = current.expression
+  }
+  return ts.isIdentifier(current) && (zodNames.has(current.text) || /Schema$/.test(current.text))
+}
+
+// Keys of the object passed to the innermost z.object()
+function schemaFields(node: ts.Expression): string[] | undefined {
+  let current: ts.Expression = node
+  while (ts.isCallExpression(current) || ts.isPropertyAccessExpression(current)) {
+    if (
+      ts.isCallExpression(current) &&
+      ts.isPropertyAccessExpression(current.expression) &&
+      current.expression.name.text === 'object' &&
+      current.arguments[0] &&
+      ts.isObjectLiteralExpression(current.arguments[0])
+    ) {
+      return current.arguments[0].properties.flatMap(property =>
+        property.name && ts.isIdentifier(property.name) ? [property.name.text] : [],
+      )
+    }
+    current = current.expression
+  }
+  return undefined
+}
+
+function compact(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim()
+  return flat.length > MAX_SIGNATURE_LENGTH ? `${flat.slice(0, MAX_SIGNATURE_LENGTH)}…` : flat
+}
+
+// Names the file imports zod under
+function zodImports(sourceFile: ts.SourceFile): Set<string> {
+  const names = new Set(['z'])
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) {
+      continue
+    }
+    if (statement.moduleSpecifier.text !== 'zod') continue
+    const bindings = statement.importClause?.namedBindings
+    if (bindings && ts.isNamespaceImport(bindings)) names.add(bindings.name.text)
+    if (bindings && ts.isNamedImports(bindings)) {
+      bindings.elements.forEach(element => names.add(element.name.text))
+    }
+  }
+  return names
+}
+
+function classify(file: string, directory: string, name: string): CatalogKind | null {
+  const [folder] = path.relative(directory, file).split(path.sep)
+  if (FOLDER_KINDS[folder]) return FOLDER_KINDS[folder]
+  if (VALIDATOR_NAME.test(name)) return 'validator'
+  if (FORMATTER_NAME.test(name)) return 'formatter'
+  return null
+}
+
+// Regex literals and `new RegExp()` at the top of config.ts, including ones grouped in objects
+function collectRegexConstants(sourceFile: ts.SourceFile): Omit<RegexConstant, 'usedBy'>[] {
+  const constants: Omit<RegexConstant, 'usedBy'>[] = []
+
+  const add = (name: string, value: ts.Expression, docNode: ts.Node) => {
+    let pattern: string | null = null
+    let flags = ''
+    if (ts.isRegularExpressionLiteral(value)) {
+      const end = value.text.lastIndexOf('/')
+      pattern = value.text.slice(1, end)
+      flags = value.text.slice(end + 1)
+    } else if (
+      ts.isNewExpression(value) &&
+      ts.isIdentifier(value.expression) &&
+      value.expression.text === 'RegExp'
+    ) {
+      const [source, flagsArg] = value.arguments || []
+      pattern = source && ts.isStringLiteralLike(source) ? source.text : source?.getText() || ''
+      flags = flagsArg && ts.isStringLiteralLike(flagsArg) ? flagsArg.text : ''
+    }
+
+    if (pattern !== null) {
+      const doc = ts
+        .getJSDocCommentsAndTags(docNode)
+        .filter(ts.isJSDoc)
+        .map(jsDoc => ts.getTextOfJSDocComment(jsDoc.comment) || '')
+        .join('\n')
+      constants.push({
+        name,
+        pattern,
+        flags,
+        doc: doc || null,
+        location: locationOf(sourceFile, docNode),
+      })
+      return
+    }
+
+    const object = unwrapObject(value)
+    for (const property of object?.properties || []) {
+      if (!ts.isPropertyAssignment(property)) continue
+      if (!(ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))) continue
+      add(`${name}.${property.name.text}`, property.initializer, property)
+    }
+  }
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isVariableStatement(statement)) continue
+    for (const declaration of statement.declarationList.declarations) {
+      if (!ts.isIdentifier(declaration.name) || !declaration.initializer) continue
+      add(declaration.name.text, declaration.initializer, declaration)
+    }
+  }
+  return constants
+}
+
+// Local names that refer to config.ts exports: the export's name, or '' for a namespace
+function configBindings(sourceFile: ts.SourceFile, configFile: string | null): Map<string, string> {
+  const bindings = new Map<string, string>()
+  if (!configFile) return bindings
+
+  if (path.resolve(sourceFile.fileName) === configFile) {
+    for (const statement of sourceFile.statements) {
+      if (!ts.isVariableStatement(statement)) continue
+      for (const declaration of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name)) continue
+        bindings.set(declaration.name.text, declaration.name.text)
+      }
+    }
+    return bindings
+  }
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) {
+      continue
+    }
+    const { resolvedPath } = resolveModule(statement.moduleSpecifier.text, sourceFile.fileName)
+    if (resolvedPath !== configFile) continue
+    const named = statement.importClause?.namedBindings
+    if (named && ts.isNamespaceImport(named)) bindings.set(named.name.text, '')
+    if (named && ts.isNamedImports(named)) {
+      for (const element of named.elements) {
+        bindings.set(element.name.text, (element.propertyName || element.name).text)
+      }
+    }
+  }
+  return bindings
+}
+
+// The regex constants a declaration refers to, by their config.ts names
+function usedConstants(
+  node: ts.Node,
+  bindings: Map<string, string>,
+  constantNames: Set<string>,
+): string[] {
+  const used = new Set<string>()
+  const visit = (current: ts.Node) => {
+    if (ts.isIdentifier(current) && bindings.has(current.text)) {
+      const isPropertyName =
+        ts.isPropertyAccessExpression(current.parent) && current.parent.name === current
+      const isDeclarationName =
+        (ts.isVariableDeclaration(current.parent) ||
+          ts.isParameter(current.parent) ||
+          ts.isBindingElement(current.parent)) &&
+        current.parent.name === current
+
+      if (!isPropertyName && !isDeclarationName) {
+        // Follow `PATTERNS.EMAIL` as far as it names a constant
+        let name = bindings.get(current.text)!
+        let expression: ts.Node = current
+        let matched = constantNames.has(name) ? name : null
+        while (
+          ts.isPropertyAccessExpression(expression.parent) &&
+          expression.parent.expression === expression
+        ) {
+          name = name ? `${name}.${expression.parent.name.text}` : expression.parent.name.text
+          expression = expression.parent
+          if (constantNames.has(name)) matched = name
+        }
+        if (matched) used.add(matched)
+      }
+    }
+    ts.forEachChild(current, visit)
+  }
+  visit(node)
+  return [...used].sort()
+}
+
+function describeSymbol(checker: ts.TypeChecker, nameNode: ts.Node) {
+  const symbol = checker.getSymbolAtLocation(nameNode)
+  if (!symbol) return { doc: null, tags: [] }
+  const doc = ts.displayPartsToString(symbol.getDocumentationComment(checker))
+  const tags = symbol.getJsDocTags(checker).map(tag => ({
+    name: tag.name,
+    text: ts.displayPartsToString(tag.text),
+  }))
+  return { doc: doc || null, tags }
+}
+
+function signatureOf(checker: ts.TypeChecker, name: string, nameNode: ts.Node, node: ts.Node) {
+  const symbol = checker.getSymbolAtLocation(nameNode)
+  const signatures = symbol
+    ? checker.getTypeOfSymbolAtLocation(symbol, nameNode).getCallSignatures()
+    : []
+  if (signatures.length > 0) {
+    return signatures.map(signature => `${name}${checker.signatureToString(signature)}`).join('; ')
+  }
+  return compact(node.getText())
+}
+
+function buildCatalog(
+  directory: string,
+  files: string[],
+  config: ProjectConfig,
+): ValidationCatalog {
+  const options = { ...getCompilerOptions(files[0] || directory), noEmit: true, types: [] }
+  const program = ts.createProgram(files, options)
+  const checker = program.getTypeChecker()
+  const services = [config.validation.validationService, config.validation.formatterService]
+  const serviceKinds: Record<string, CatalogKind> = {
+    [config.validation.validationService]: 'validator',
+    [config.validation.formatterService]: 'formatter',
+  }
+
+  const configPath = path.join(directory, 'config.ts')
+  const configFile = files.includes(configPath) ? configPath : null
+  const configSource = configFile ? program.getSourceFile(configFile) : undefined
+  const constants = configSource ? collectRegexConstants(configSource) : []
+  const constantNames = new Set(constants.map(constant => constant.name))
+
+  const entries: CatalogEntry[] = []
+  const serviceSummaries: ServiceSummary[] = []
+
+  for (const file of files) {
+    const sourceFile = program.getSourceFile(file)
+    if (!sourceFile) continue
+    const bindings = configBindings(sourceFile, configFile)
+    const zodNames = zodImports(sourceFile)
+
+    const addEntry = (
+      name: string,
+      kind: CatalogKind,
+      nameNode: ts.Node,
+      node: ts.Node,
+      extra: { service?: string; exported: boolean; initializer?: ts.Expression },
+    ) => {
+      const isSchema = kind === 'schema' && extra.initializer
+      entries.push({
+        name: extra.service ? `${extra.service}.${name}` : name,
+        kind,
+        service: extra.service || null,
+        signature: isSchema
+          ? compact(extra.initializer!.getText())
+          : signatureOf(checker, name, nameNode, node),
+        ...describeSymbol(checker, nameNode),
+        regexConstants: usedConstants(node, bindings, constantNames),
+        ...(isSchema ? { fields: schemaFields(extra.initializer!) } : {}),
+        exported: extra.exported,
+        location: locationOf(sourceFile, node),
+      })
+    }
+
+    // Members of ValidationService / FormatterService, however the service is declared
+    const addServiceMembers = (
+      service: string,
+      node: ts.Node,
+      members: readonly (ts.ClassElement | ts.ObjectLiteralElementLike)[],
+      isClass: boolean,
+    ) => {
+      let count = 0
+      for (const member of members) {
+        const memberName = member.name
+        if (!memberName || !(ts.isIdentifier(memberName) || ts.isStringLiteral(memberName))) {
+          continue
+        }
+        const modifiers = ts.canHaveModifiers(member) ? ts.getModifiers(member) || [] : []
+        if (modifiers.some(modifier => modifier.kind === ts.SyntaxKind.PrivateKeyword)) continue
+        if (isClass && !modifiers.some(modifier => modifier.kind === ts.SyntaxKind.StaticKeyword)) {
+          continue
+        }
+        const isFunction =
+          ts.isMethodDeclaration(member) ||
+          ((ts.isPropertyAssignment(member) || ts.isPropertyDeclaration(member)) &&
+            isFunctionLike(member.initializer))
+        if (!isFunction) continue
+        addEntry(memberName.text, serviceKinds[service], memberName, member, {
+          service,
+          exported: true,
+        })
+        count++
+      }
+      serviceSummaries.push({
+        name: service,
+        kind: serviceKinds[service],
+        members: count,
+        location: locationOf(sourceFile, node),
+      })
+    }
+
+    for (const statement of sourceFile.statements) {
+      const exported = hasExportModifier(statement)
+
+      const className = ts.isClassDeclaration(statement) ? statement.name?.text : undefined
+      if (className && services.includes(className)) {
+        addServiceMembers(className, statement, (statement as ts.ClassDeclaration).members, true)
+        continue
+      }
+
+      if (ts.isFunctionDeclaration(statement) && statement.name) {
+        const kind = classify(file, directory, statement.name.text)
+        if (kind) addEntry(statement.name.text, kind, statement.name, statement, { exported })
+        continue
+      }
+
+      if (!ts.isVariableStatement(statement)) continue
+      for (const declaration of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name) || !declaration.initializer) continue
+        const name = declaration.name.text
+        const initializer = declaration.initializer
+
+        const object = services.includes(name) ? unwrapObject(initializer) : null
+        if (object) {
+          addServiceMembers(name, declaration, object.properties, false)
+        } else if (isFunctionLike(initializer)) {
+          const kind = classify(file, directory, name)
+          if (kind) addEntry(name, kind, declaration.name, declaration, { exported })
+        } else if (isSchemaExpression(initializer, zodNames)) {
+          addEntry(name, 'schema', declaration.name, declaration, { exported, initializer })
+        }
+      }
+    }
+  }
+
+  return {
+    directory: toWorkspaceRelative(directory),
+    files: files.map(toWorkspaceRelative),
+    configFile: configFile && toWorkspaceRelative(configFile),
+    services: serviceSummaries,
+    regexConstants: constants.map(constant => ({
+      ...constant,
+      usedBy: entries
+        .filter(entry => entry.regexConstants.includes(constant.name))
+        .map(entry => entry.name),
+    })),
+    entries,
+  }
+}
+
+export function getValidationCatalog(config: ProjectConfig): ValidationCatalog {
+  const directory = resolveWorkspacePath(config.validation.directory)
+  const files = fs.existsSync(directory)
+    ? listSourceFiles([directory], config.exclude).map(file => path.resolve(file))
+    : []
+
+  const key = JSON.stringify([
+    config.validation,
+    files.map(file => [file, fs.statSync(file).mtimeMs]),
+  ])
+  if (cached && cached.key === key) return cached.catalog
+
+  const catalog = buildCatalog(directory, files, config)
+  cached = { key, catalog }
+  return catalog
+}
@@ -0,0 +1,119 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import { z } from 'zod'
+import { CheckerIssue } from './check.js'
+
+/**
+ * Baselines
+ *   - Record the issues a codebase already has so only new ones fail a build
+ *   - Issues are fingerprinted by rule, file and matched text (not line numbers), so edits
+ *     elsewhere in a file don't turn old issues into new ones
+ *   - Repeated identical matches are counted, so adding one more copy is still reported
+ */
+
+export type BaselineState = 'new' | 'unchanged'
+
+export interface BaselineEntry {
+  path: string
+  ruleId: string
+  match: string
+  count: number
+}
+
+const BaselineSchema = z.object({
+  version: z.literal(1),
+  createdAt: z.string(),
+  entries: z.record(
+    z.object({
+      path: z.string(),
+      ruleId: z.string(),
+      match: z.string(),
+      count: z.number().int().positive(),
+    }),
+  ),
+})
+
+export type Baseline = z.infer<typeof BaselineSchema>
+
+export interface BaselineFile {
+  path: string // Workspace-relative
+  issues: CheckerIssue[]
+}
+
+export function fingerprint(path: string, issue: Pick<CheckerIssue, 'ruleId' | 'match'>): string {
+  const normalized = issue.match.trim().replace(/\s+/g, ' ')
+  return crypto
+    .createHash('sha256')
+    .update(`${issue.ruleId}\0${path}\0${normalized}`)
+    .digest('hex')
+    .slice(0, 24)
+}
+
+export function createBaseline(files: BaselineFile[]): Baseline {
+  const entries: Record<string, BaselineEntry> = {}
+  for (const file of files) {
+    for (const issue of file.issues) {
+      const key = fingerprint(file.path, issue)
+      entries[key] = entries[key] || {
+        path: file.path,
+        ruleId: issue.ruleId,
+        match: issue.match,
+        count: 0,
+      }
+      entries[key].count++
+    }
+  }
+  return { version: 1, createdAt: new Date().toISOString(), entries }
+}
+
+export function readBaseline(baselinePath: string): Baseline {
+  let raw: unknown
+  try {
+    raw = JSON.parse(fs.readFileSync(baselinePath, 'utf-8'))
+  } catch (error) {
+    throw new Error(`Could not read baseline ${baselinePath}: ${(error as Error).message}`)
+  }
+  const result = BaselineSchema.safeParse(raw)
+  if (!result.success) {
+    throw new Error(`Invalid baseline ${baselinePath}: ${result.error.issues[0].message}`)
+  }
+  return result.data
+}
+
+export function writeBaseline(baselinePath: string, baseline: Baseline): void {
+  fs.writeFileSync(baselinePath, JSON.stringify(baseline, null, 2) + '\n', 'utf-8')
+}
+
+/**
+ * The state of each issue against the baseline, plus how many recorded issues are gone. With
+ * `checkedPaths` (a partial check, e.g. changed files only) recorded issues in other files
+ * aren't counted as gone: they just weren't looked at.
+ */
+export function compareWithBaseline(
+  files: BaselineFile[],
+  baseline: Baseline,
+  checkedPaths?: Set<string>,
+): { states: Map<CheckerIssue, BaselineState>; absent: number } {
+  const remaining = new Map(
+    Object.entries(baseline.entries).map(([key, entry]) => [key, entry.count]),
+  )
+  const states = new Map<CheckerIssue, BaselineState>()
+
+  for (const file of files) {
+    for (const issue of file.issues) {
+      const key = fingerprint(file.path, issue)
+      const left = remaining.get(key) || 0
+      if (left > 0) {
+        remaining.set(key, left - 1)
+        states.set(issue, 'unchanged')
+      } else {
+        states.set(issue, 'new')
+      }
+    }
+  }
+
+  const absent = [...remaining]
+    .filter(([key]) => !checkedPaths || checkedPaths.has(baseline.entries[key].path))
+    .reduce((total, [, count]) => total + count, 0)
+  return { states, absent }
+}
@@ -0,0 +1,81 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import { loadServiceApis } from '../analysis/serviceApi.js'
+import { ProjectConfig } from '../config.js'
+import type { FileCheckResult } from './check.js'
+import { CheckerRule } from './rules.js'
+
+/**
+ * Checker result cache
+ *   - Results are reused while a file's content hash and the check settings are unchanged,
+ *     so repeated checks only scan files that were edited since the last call
+ *   - mtime and size are compared first, so unchanged files aren't even read
+ *   - Lives as long as the server process; the oldest entries go first past MAX_ENTRIES
+ */
+
+const MAX_ENTRIES = 20_000
+
+interface CacheEntry {
+  signature: string
+  mtimeMs: number
+  size: number
+  hash: string
+  result: FileCheckResult
+}
+
+const entries = new Map<string, CacheEntry>()
+
+function hash(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex')
+}
+
+// Everything besides the file's content that shapes its result
+export function checkSignature(
+  config: ProjectConfig,
+  rules: CheckerRule[],
+  contextLines: number,
+): string {
+  const ruleKeys = rules.map(rule => ({ ...rule, pattern: rule.pattern && String(rule.pattern) }))
+  // Unknown-member findings depend on what the services define
+  const apis = [...loadServiceApis(config).values()].map(api => [api.open, [...api.members.keys()]])
+  return hash(
+    JSON.stringify({ rules: ruleKeys, validation: config.validation, contextLines, apis }),
+  )
+}
+
+export class CheckCache {
+  hits = 0
+  misses = 0
+
+  constructor(private readonly signature: string) {}
+
+  // The cached result for an unmodified file. Without content only mtime and size are
+  // compared; with it, the content hash decides and the entry's stat is refreshed.
+  get(filePath: string, stat: fs.Stats, content?: string): FileCheckResult | null {
+    const entry = entries.get(filePath)
+    if (!entry || entry.signature !== this.signature) return null
+
+    const unmodified = entry.mtimeMs === stat.mtimeMs && entry.size === stat.size
+    if (content === undefined ? !unmodified : entry.hash !== hash(content)) return null
+
+    entry.mtimeMs = stat.mtimeMs
+    entry.size = stat.size
+    this.hits++
+    return entry.result
+  }
+
+  set(filePath: string, stat: fs.Stats, content: string, result: FileCheckResult): void {
+    this.misses++
+    entries.delete(filePath)
+    entries.set(filePath, {
+      signature: this.signature,
+      mtimeMs: stat.mtimeMs,
+      size: stat.size,
+      hash: hash(content),
+      result,
+    })
+    if (entries.size > MAX_ENTRIES) {
+      entries.delete(entries.keys().next().value!)
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import fs from 'fs'
+import path from 'path'
+import {
+  findDefaultBranch,
+  getDiff,
+  getPrefix,
+  listUntrackedFiles,
+  mergeBase as getMergeBase,
+  refExists,
+  revParse,
+} from '../git/index.js'
+
+/**
+ * Changed files for diff-scoped checks
+ *   - working-tree: staged, unstaged and untracked changes, compared with HEAD
+ *   - ref: the working tree (plus untracked files) compared with a base ref, by default the
+ *     merge-base of the default branch and HEAD
+ *   - Each file maps to the lines added or modified on the new side; added and untracked files
+ *     count as changed throughout
+ */
+
+export type ChangeScope = 'working-tree' | 'ref'
+
+export interface ChangeOptions {
+  scope: ChangeScope
+  baseRef?: string // ref scope only (default: the repository's default branch)
+  mergeBase?: boolean // ref scope only: compare with the merge-base of baseRef and HEAD (default: true)
+}
+
+export interface ChangedFiles {
+  base: { ref: string; commit: string; mergeBase: boolean }
+  lines: Map<string, Set<number> | null> // Absolute path -> changed lines; null for the whole file
+}
+
+// Git's empty tree, so a repository without commits diffs as all-new
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904'
+
+async function resolveBase(cwd: string, options: ChangeOptions): Promise<ChangedFiles['base']> {
+  if (options.scope === 'working-tree') {
+    const commit = (await refExists(cwd, 'HEAD')) ? await revParse(cwd, 'HEAD') : EMPTY_TREE
+    return { ref: 'HEAD', commit, mergeBase: false }
+  }
+
+  const ref = options.baseRef || (await findDefaultBranch(cwd))
+  if (!(await refExists(cwd, ref))) {
+    throw new Error(`Base ref '${ref}' does not exist.`)
+  }
+  const mergeBase = options.mergeBase ?? true
+  const commit = mergeBase ? await getMergeBase(cwd, ref, 'HEAD') : await revParse(cwd, ref)
+  return { ref, commit, mergeBase }
+}
+
+// Files changed under targetPath (a directory or a single file)
+export async function findChangedFiles(
+  targetPath: string,
+  options: ChangeOptions,
+): Promise<ChangedFiles> {
+  const isDirectory = fs.statSync(targetPath).isDirectory()
+  const cwd = isDirectory ? targetPath : path.dirname(targetPath)
+  const pathspec = [isDirectory ? '.' : path.basename(targetPath)]
+
+  // Git reports paths from the repository root; keep them in the caller's form of cwd
+  const prefix = await getPrefix(cwd)
+  const toLocal = (file: string) => path.join(cwd, path.relative(prefix, file))
+
+  const base = await resolveBase(cwd, options)
+  const lines = new Map<string, Set<number> | null>()
+
+  for (const file of await getDiff(cwd, { base: base.commit, contextLines: 0, pathspec })) {
+    if (file.status === 'deleted' || file.binary) continue
+    const added = file.hunks.flatMap(hunk =>
+      hunk.lines.filter(line => line.type === 'add').map(line => line.newLine!),
+    )
+    lines.set(toLocal(file.path), file.status === 'added' ? null : new Set(added))
+  }
+
+  for (const file of await listUntrackedFiles(cwd, { pathspec })) {
+    lines.set(toLocal(file), null)
+  }
+
+  return { base, lines }
+}
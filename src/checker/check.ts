@@ -0,0 +1,323 @@
+import fs from 'fs'
+import path from 'path'
+import { globSync } from 'glob'
+import { parseSourceFile } from '../analysis/project.js'
+import { closestMember, loadServiceApis } from '../analysis/serviceApi.js'
+import { analyzeServiceUsage, ServiceUsage, usesService } from '../analysis/serviceUsage.js'
+import { ProjectConfig } from '../config.js'
+import { resolveWorkspacePath, toWorkspaceRelative } from '../workspace.js'
+import { CheckCache, checkSignature } from './cache.js'
+import { ChangedFiles, ChangeOptions, findChangedFiles } from './changes.js'
+import {
+  dedupeFindings,
+  Finding,
+  findRuleMatches,
+  findSelectorMatches,
+  findSuppressions,
+  isSuppressed,
+  LineIndex,
+  toFinding,
+} from './findings.js'
+import { CheckerRule, loadCheckerRules, ruleAppliesTo, Severity } from './rules.js'
+
+/**
+ * Validation checker core
+ *   - Shared by the validationChecker tool and the `validation-checker` CLI
+ *   - Lists the target's files, runs the enabled rules on each and returns per-file issues
+ *   - Can be limited to the files (or lines) changed in git; unchanged files reuse cached results
+ */
+
+export interface CheckerIssue {
+  ruleId: string
+  message: string
+  severity: Severity
+  line: number
+  column: number
+  endLine: number
+  endColumn: number // Exclusive
+  content: string // The first matched line, trimmed
+  match: string
+  context: { startLine: number; lines: string[] }
+  alsoMatched: string[]
+  suggestion: string
+}
+
+export interface FileCheckResult {
+  path: string // Absolute
+  usesValidationImport: boolean
+  usesValidationService: boolean
+  usesFormatterService: boolean
+  issueCount: number
+  suppressedCount: number
+  issues: CheckerIssue[]
+  suggestedFix: string | null
+  error?: string
+}
+
+export interface CheckResult {
+  target: string
+  files: string[]
+  results: FileCheckResult[]
+  // Before the changed-lines filter (the same as results without it), for baseline comparisons
+  allResults: FileCheckResult[]
+  rules: CheckerRule[]
+  disabledRules: string[]
+  rulesFile: string | null
+  changes: { base: ChangedFiles['base']; changedFiles: number; linesOnly: boolean } | null
+  cache: { hits: number; misses: number }
+}
+
+export interface CheckOptions {
+  target?: string // Directory or file (default: validationChecker.target from config)
+  files?: string[] // Check exactly these files instead of walking the target
+  contextLines?: number
+  changes?: ChangeOptions & { linesOnly?: boolean } // Only check what changed in git
+  cache?: boolean // Reuse results for files whose content hasn't changed (default: true)
+}
+
+// Generate a suggestion based on the issue
+function getSuggestion(
+  match: string,
+  config: ProjectConfig,
+  usesValidationService: boolean,
+  usesFormatterService: boolean,
+): string {
+  const { importPath, validationService, formatterService } = config.validation
+
+  if (match.includes('.test(')) {
+    return `Use ${validationService}.createValidator() or a specific validator from ${importPath} instead of regex tests`
+  } else if (match.includes('.match(')) {
+    return `Use ${validationService}.createValidator() or a specific validator from ${importPath} instead of regex matching`
+  } else if (match.includes('trim') || match.includes('replace') || match.includes('substring')) {
+    return `Consider using ${formatterService}.formatValue() for consistent string formatting`
+  } else {
+    return `Consider using the appropriate method from ${usesValidationService ? '' : `${validationService} or `}${usesFormatterService ? '' : `${formatterService} `}instead`
+  }
+}
+
+// Members used on a service that its sources don't define, with a "did you mean" for each
+function findUnknownMembers(
+  usage: ServiceUsage,
+  rule: CheckerRule,
+  content: string,
+  index: LineIndex,
+  contextLines: number,
+  config: ProjectConfig,
+): { finding: Finding; suggestion: string }[] {
+  const apis = loadServiceApis(config)
+  return usage.references
+    .filter(reference => reference.known === false)
+    .map(reference => {
+      const { start, end } = reference.span
+      const closest = closestMember(apis.get(reference.service)!, reference.member!)
+      return {
+        finding: {
+          ...toFinding(rule, start, end, content, index, contextLines),
+          message: `${reference.service}.${reference.member} is not defined in ${config.validation.directory}`,
+        },
+        suggestion: closest
+          ? `Did you mean ${reference.service}.${closest}?`
+          : `Use a member defined by ${reference.service} in ${config.validation.directory}`,
+      }
+    })
+}
+
+// Check source text for validation issues, as if it were the file at `filePath` (which needn't
+// exist yet: the component generator checks code before writing it)
+export function checkContent(
+  filePath: string,
+  content: string,
+  config: ProjectConfig,
+  allRules: CheckerRule[],
+  contextLines = 2,
+): FileCheckResult {
+  const { importPath, validationService, formatterService } = config.validation
+
+  const index = new LineIndex(content)
+  const rules = allRules.filter(rule => ruleAppliesTo(rule, toWorkspaceRelative(filePath)))
+
+  // Which services the file really uses, through whatever names it imports them under
+  const sourceFile = parseSourceFile(filePath, content)
+  const usage = analyzeServiceUsage(sourceFile, config)
+  const usesValidationImport = usage.imports.length > 0
+  const usesValidationService = usesService(usage, validationService)
+  const usesFormatterService = usesService(usage, formatterService)
+
+  // Selector rules run on the AST, pattern rules on the text
+  const suggestions = new Map<Finding, string>()
+  const matches = rules.flatMap(rule => {
+    if (rule.builtin && rule.id === 'unknown-service-method') {
+      const unknown = findUnknownMembers(usage, rule, content, index, contextLines, config)
+      unknown.forEach(({ finding, suggestion }) => suggestions.set(finding, suggestion))
+      return unknown.map(({ finding }) => finding)
+    }
+    return rule.selector
+      ? findSelectorMatches(sourceFile, rule, index, contextLines)
+      : findRuleMatches(content, rule, index, contextLines)
+  })
+
+  // Drop suppressed matches, then keep one finding per overlapping span
+  const suppressions = findSuppressions(index)
+  const active = matches.filter(finding => !isSuppressed(finding, suppressions))
+  const findings = dedupeFindings(active, rules.map(rule => rule.id))
+  const rulesById = new Map(rules.map(rule => [rule.id, rule]))
+
+  const issues = findings.map(finding => ({
+    ruleId: finding.ruleId,
+    message: finding.message,
+    severity: finding.severity,
+    line: finding.range.start.line,
+    column: finding.range.start.column,
+    endLine: finding.range.end.line,
+    endColumn: finding.range.end.column,
+    content: index.lines[finding.range.start.line - 1].trim(),
+    match: finding.match,
+    context: finding.context,
+    alsoMatched: finding.alsoMatched,
+    suggestion:
+      rulesById.get(finding.ruleId)?.suggestion ??
+      suggestions.get(finding) ??
+      getSuggestion(finding.match, config, usesValidationService, usesFormatterService),
+  }))
+
+  return {
+    path: filePath,
+    usesValidationImport,
+    usesValidationService,
+    usesFormatterService,
+    issueCount: issues.length,
+    suppressedCount: matches.length - active.length,
+    issues,
+    suggestedFix:
+      issues.length > 0 && !usesValidationImport
+        ? `import { ${validationService}, ${formatterService} } from "${importPath}";`
+        : null,
+  }
+}
+
+// Check a file for validation issues
+export async function checkFile(
+  filePath: string,
+  config: ProjectConfig,
+  allRules: CheckerRule[],
+  contextLines = 2,
+  cache?: CheckCache,
+): Promise<FileCheckResult> {
+  try {
+    const stat = await fs.promises.stat(filePath)
+    const unmodified = cache?.get(filePath, stat)
+    if (unmodified) return unmodified
+
+    const content = await fs.promises.readFile(filePath, 'utf-8')
+    const unchanged = cache?.get(filePath, stat, content)
+    if (unchanged) return unchanged
+
+    const result = checkContent(filePath, content, config, allRules, contextLines)
+    cache?.set(filePath, stat, content, result)
+    return result
+  } catch (error) {
+    return {
+      path: filePath,
+      usesValidationImport: false,
+      usesValidationService: false,
+      usesFormatterService: false,
+      issueCount: 0,
+      suppressedCount: 0,
+      issues: [],
+      suggestedFix: null,
+      error: `Error checking file: ${(error as Error).message}`,
+    }
+  }
+}
+
+// Only issues that touch a changed line; null keeps them all
+function restrictToLines(result: FileCheckResult, lines: Set<number> | null): FileCheckResult {
+  if (lines === null) return result
+  const issues = result.issues.filter(issue => {
+    for (let line = issue.line; line <= issue.endLine; line++) {
+      if (lines.has(line)) return true
+    }
+    return false
+  })
+  return {
+    ...result,
+    issues,
+    issueCount: issues.length,
+    suggestedFix: issues.length > 0 ? result.suggestedFix : null,
+  }
+}
+
+function resolveTarget(target: string): string {
+  const targetPath = resolveWorkspacePath(target)
+  if (!fs.existsSync(targetPath)) {
+    throw new Error(`Target not found: ${target}`)
+  }
+  return targetPath
+}
+
+const CHECKED_FILE = /\.(tsx|jsx|ts|js)$/
+
+// Files the checker scans: JS/TS sources outside the excluded directories
+function isCheckedFile(filePath: string, config: ProjectConfig): boolean {
+  const segments = filePath.split(path.sep)
+  return CHECKED_FILE.test(filePath) && !config.exclude.some(dir => segments.includes(dir))
+}
+
+// The source files under a directory target, or the target file itself
+export function listTargetFiles(target: string, config: ProjectConfig): string[] {
+  const targetPath = resolveTarget(target)
+  if (!fs.statSync(targetPath).isDirectory()) {
+    return [targetPath]
+  }
+
+  return globSync(`${targetPath}/**/*.{tsx,jsx,ts,js}`, {
+    absolute: true,
+    ignore: config.exclude.map(dir => `**/${dir}/**`),
+  }).sort()
+}
+
+export async function runCheck(
+  config: ProjectConfig,
+  options: CheckOptions = {},
+): Promise<CheckResult> {
+  const target = options.target || config.validationChecker.target
+  const contextLines = options.contextLines ?? 2
+  const { rules, disabled, path: rulesFile } = loadCheckerRules(config)
+
+  let files: string[]
+  let changed: ChangedFiles | null = null
+  if (options.files) {
+    files = options.files
+  } else if (options.changes) {
+    changed = await findChangedFiles(resolveTarget(target), options.changes)
+    files = [...changed.lines.keys()].filter(file => isCheckedFile(file, config)).sort()
+  } else {
+    files = listTargetFiles(target, config)
+  }
+
+  const cache = new CheckCache(checkSignature(config, rules, contextLines))
+  const results = await Promise.all(
+    files.map(file =>
+      checkFile(file, config, rules, contextLines, options.cache === false ? undefined : cache),
+    ),
+  )
+
+  const linesOnly = Boolean(changed && options.changes?.linesOnly)
+  return {
+    target,
+    files,
+    results: linesOnly
+      ? results.map(result => restrictToLines(result, changed!.lines.get(result.path) ?? null))
+      : results,
+    allResults: results,
+    rules,
+    disabledRules: disabled,
+    rulesFile,
+    changes: changed && {
+      base: changed.base,
+      changedFiles: files.length,
+      linesOnly,
+    },
+    cache: { hits: cache.hits, misses: cache.misses },
+  }
+}
@@ -0,0 +1,282 @@
+#!/usr/bin/env node
+import fs from 'fs'
+import path from 'path'
+import { getProjectConfig, resolveConfigPaths } from '../config.js'
+import {
+  configureWorkspace,
+  getConfiguredWorkspaceRoots,
+  getWorkspaceRoots,
+  toWorkspaceRelative,
+} from '../workspace.js'
+import {
+  BaselineState,
+  compareWithBaseline,
+  createBaseline,
+  readBaseline,
+  writeBaseline,
+} from './baseline.js'
+import { CheckerIssue, FileCheckResult, runCheck } from './check.js'
+import { ReportFile, ReportInput, toJUnit, toSarif, toText } from './report.js'
+import { SEVERITY_RANK, Severity } from './rules.js'
+
+/**
+ * validation-checker CLI
+ *   - Runs the validationChecker rules outside Cursor, for pre-commit hooks and CI
+ *   - Exit codes: 0 passed, 1 an issue at or above --fail-on, 2 usage or config error
+ */
+
+const USAGE = `Usage: validation-checker [target] [options]
+
+Checks files under target (default: validationChecker.target from .cursor-tools.json).
+
+Options:
+  --format <text|json|sarif|junit>  Report format (default: text)
+  --output <file>                   Write the report to a file instead of stdout
+  --fail-on <high|medium|low|none>  Lowest severity that fails the run (default: high)
+  --baseline <file>                 Only fail on issues not recorded in this baseline
+  --update-baseline                 Record the current issues in the --baseline file and exit 0
+  --changed                         Only check files with uncommitted or untracked changes
+  --since <ref>                     Only check files changed since the merge-base of ref and HEAD
+  --changed-lines                   With --changed or --since: only report issues on changed lines
+  --context <lines>                 Lines of context in json output (default: 2)
+  --workspace <dir>                 Workspace root (repeatable; default: current directory)
+  -h, --help                        Show this help
+`
+
+const FORMATS = ['text', 'json', 'sarif', 'junit'] as const
+const THRESHOLDS = ['high', 'medium', 'low', 'none'] as const
+
+interface CliOptions {
+  target?: string
+  format: (typeof FORMATS)[number]
+  output?: string
+  failOn: (typeof THRESHOLDS)[number]
+  baseline?: string
+  updateBaseline: boolean
+  changed: boolean
+  since?: string
+  changedLines: boolean
+  contextLines: number
+  help: boolean
+}
+
+class UsageError extends Error {}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    format: 'text',
+    failOn: 'high',
+    updateBaseline: false,
+    changed: false,
+    changedLines: false,
+    contextLines: 2,
+    help: false,
+  }
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    const value = () => {
+      const next = argv[++i]
+      if (next === undefined) throw new UsageError(`${arg} needs a value`)
+      return next
+    }
+
+    switch (arg) {
+      case '-h':
+      case '--help':
+        options.help = true
+        break
+      case '--format': {
+        const format = value()
+        if (!FORMATS.includes(format as CliOptions['format'])) {
+          throw new UsageError(`Unknown format '${format}'`)
+        }
+        options.format = format as CliOptions['format']
+        break
+      }
+      case '--output':
+        options.output = value()
+        break
+      case '--fail-on': {
+        const threshold = value()
+        if (!THRESHOLDS.includes(threshold as CliOptions['failOn'])) {
+          throw new UsageError(`Unknown severity '${threshold}'`)
+        }
+        options.failOn = threshold as CliOptions['failOn']
+        break
+      }
+      case '--baseline':
+        options.baseline = value()
+        break
+      case '--update-baseline':
+        options.updateBaseline = true
+        break
+      case '--changed':
+        options.changed = true
+        break
+      case '--since':
+        options.since = value()
+        break
+      case '--changed-lines':
+        options.changedLines = true
+        break
+      case '--context':
+        options.contextLines = Number(value())
+        if (!Number.isInteger(options.contextLines) || options.contextLines < 0) {
+          throw new UsageError('--context must be a non-negative integer')
+        }
+        break
+      case '--workspace':
+        value() // Read by getConfiguredWorkspaceRoots
+        break
+      default:
+        if (arg.startsWith('-')) throw new UsageError(`Unknown option '${arg}'`)
+        if (options.target) throw new UsageError(`Unexpected argument '${arg}'`)
+        options.target = arg
+    }
+  }
+
+  if (options.updateBaseline && !options.baseline) {
+    throw new UsageError('--update-baseline needs --baseline <file>')
+  }
+  if (options.changed && options.since) {
+    throw new UsageError('Use either --changed or --since, not both')
+  }
+  if (options.updateBaseline && (options.changed || options.since)) {
+    throw new UsageError('--update-baseline records every issue; drop --changed and --since')
+  }
+  if (options.changedLines && !options.changed && !options.since) {
+    throw new UsageError('--changed-lines needs --changed or --since <ref>')
+  }
+  return options
+}
+
+function toReportPath(filePath: string): string {
+  return toWorkspaceRelative(filePath).split(path.sep).join('/')
+}
+
+function failsThreshold(severity: Severity, failOn: CliOptions['failOn']): boolean {
+  return failOn !== 'none' && SEVERITY_RANK[severity] >= SEVERITY_RANK[failOn]
+}
+
+function render(format: CliOptions['format'], input: ReportInput, absent: number): string {
+  switch (format) {
+    case 'sarif':
+      return toSarif(input)
+    case 'junit':
+      return toJUnit(input)
+    case 'json': {
+      const { files, baselineStates } = input
+      const report = {
+        files: files.map(file => ({
+          ...file,
+          issues: file.issues.map(issue => ({
+            ...issue,
+            ...(baselineStates ? { baselineState: baselineStates.get(issue) } : {}),
+          })),
+        })),
+        ...(baselineStates ? { fixedSinceBaseline: absent } : {}),
+      }
+      return JSON.stringify(report, null, 2) + '\n'
+    }
+    default:
+      return toText(input)
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const options = parseArgs(argv)
+  if (options.help) {
+    process.stdout.write(USAGE)
+    return 0
+  }
+
+  const workspaceRoots = getConfiguredWorkspaceRoots(argv)
+  if (workspaceRoots.length > 0) configureWorkspace(workspaceRoots)
+  const config = getProjectConfig()
+  if (config.workspace.additionalRoots.length > 0) {
+    configureWorkspace([
+      ...getWorkspaceRoots(),
+      ...resolveConfigPaths(config.workspace.additionalRoots),
+    ])
+  }
+
+  const scope = options.since ? 'ref' : options.changed ? 'working-tree' : null
+  const check = await runCheck(config, {
+    target: options.target,
+    contextLines: options.contextLines,
+    ...(scope
+      ? { changes: { scope, baseRef: options.since, linesOnly: options.changedLines } }
+      : {}),
+  })
+  const toReportFile = (result: FileCheckResult): ReportFile => ({
+    path: toReportPath(result.path),
+    issues: result.issues,
+    ...(result.error ? { error: result.error } : {}),
+  })
+  const files = check.results.map(toReportFile)
+
+  // Baseline paths are relative to where the command runs, like --output
+  const baselinePath = options.baseline && path.resolve(options.baseline)
+  if (baselinePath && options.updateBaseline) {
+    writeBaseline(baselinePath, createBaseline(files))
+    const total = files.reduce((count, file) => count + file.issues.length, 0)
+    console.error(`Recorded ${total} issue${total === 1 ? '' : 's'} in ${options.baseline}`)
+    return 0
+  }
+
+  let baselineStates: Map<CheckerIssue, BaselineState> | undefined
+  let absent = 0
+  if (baselinePath && fs.existsSync(baselinePath)) {
+    // With --changed or --since, only the files that were checked can have fixed issues
+    const checkedPaths = scope ? new Set(files.map(file => file.path)) : undefined
+    // Compared before the --changed-lines filter, so recorded copies of a match on untouched
+    // lines claim their baseline entries first and a new copy on a changed line stays new
+    const reported = new Set(files.flatMap(file => file.issues))
+    const compared = check.allResults.map(toReportFile).map(file => ({
+      ...file,
+      issues: [
+        ...file.issues.filter(issue => !reported.has(issue)),
+        ...file.issues.filter(issue => reported.has(issue)),
+      ],
+    }))
+    const baseline = readBaseline(baselinePath)
+    ;({ states: baselineStates, absent } = compareWithBaseline(compared, baseline, checkedPaths))
+  } else if (baselinePath) {
+    console.error(`Baseline ${options.baseline} not found; every issue counts as new`)
+  }
+
+  const report = render(options.format, { files, rules: check.rules, baselineStates }, absent)
+  if (options.output) {
+    fs.writeFileSync(options.output, report, 'utf-8')
+  } else {
+    process.stdout.write(report)
+  }
+
+  // Only issues the baseline doesn't already cover can fail the run
+  const failing = files.flatMap(file =>
+    file.issues.filter(
+      issue =>
+        baselineStates?.get(issue) !== 'unchanged' &&
+        failsThreshold(issue.severity, options.failOn),
+    ),
+  )
+  const errors = files.filter(file => file.error)
+  if (failing.length > 0) {
+    const count = `${failing.length} issue${failing.length === 1 ? '' : 's'}`
+    console.error(`${count} at or above '${options.failOn}'`)
+  }
+  return errors.length > 0 ? 2 : failing.length > 0 ? 1 : 0
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code
+  },
+  error => {
+    console.error(
+      error instanceof UsageError ? `${error.message}\n\n${USAGE}` : `Error: ${error.message || error}`,
+    )
+    process.exitCode = 2
+  },
+)
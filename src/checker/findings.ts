@@ -0,0 +1,187 @@
+import ts from 'typescript'
+import { CheckerRule, Severity, SEVERITY_RANK } from './rules.js'
+import { querySelectorAll } from './selector.js'
+
+/**
+ * Rule matching and finding locations
+ *   - Every occurrence of a rule is reported, not just the first one per file
+ *   - Positions come from the match offset, so multi-line matches and repeated snippets
+ *     land on the right line
+ *   - Overlapping findings from different rules collapse into the most severe one
+ *   - `// validation-checker-disable-next-line <id>...` silences rules on the following line
+ */
+
+export interface Position {
+  line: number // 1-based
+  column: number // 1-based
+}
+
+export interface Range {
+  start: Position
+  end: Position // Exclusive
+}
+
+export interface Finding {
+  ruleId: string
+  message: string
+  severity: Severity
+  range: Range
+  offset: { start: number; end: number }
+  match: string
+  context: { startLine: number; lines: string[] } // The matched lines plus surrounding ones
+  alsoMatched: string[] // Other rules that flagged the same code
+}
+
+// Offsets where each line starts, for turning match offsets into positions
+export class LineIndex {
+  readonly lines: string[]
+  private readonly starts: number[] = [0]
+
+  constructor(content: string) {
+    this.lines = content.split('\n')
+    let offset = 0
+    for (const line of this.lines.slice(0, -1)) {
+      offset += line.length + 1
+      this.starts.push(offset)
+    }
+  }
+
+  positionAt(offset: number): Position {
+    let low = 0
+    let high = this.starts.length - 1
+    while (low < high) {
+      const mid = (low + high + 1) >> 1
+      if (this.starts[mid] <= offset) low = mid
+      else high = mid - 1
+    }
+    return { line: low + 1, column: offset - this.starts[low] + 1 }
+  }
+
+  context(startLine: number, endLine: number, contextLines: number) {
+    const first = Math.max(1, startLine - contextLines)
+    const last = Math.min(this.lines.length, endLine + contextLines)
+    return { startLine: first, lines: this.lines.slice(first - 1, last) }
+  }
+}
+
+export function toFinding(
+  rule: CheckerRule,
+  start: number,
+  end: number,
+  content: string,
+  index: LineIndex,
+  contextLines: number,
+): Finding {
+  const range = { start: index.positionAt(start), end: index.positionAt(end) }
+  return {
+    ruleId: rule.id,
+    message: rule.message,
+    severity: rule.severity,
+    range,
+    offset: { start, end },
+    match: content.slice(start, end),
+    context: index.context(range.start.line, range.end.line, contextLines),
+    alsoMatched: [],
+  }
+}
+
+// All matches of a pattern rule; the pattern is run globally whatever flags it was written with
+export function findRuleMatches(
+  content: string,
+  rule: CheckerRule,
+  index: LineIndex,
+  contextLines = 2,
+): Finding[] {
+  if (!rule.pattern) return []
+  const flags = rule.pattern.flags.includes('g') ? rule.pattern.flags : `${rule.pattern.flags}g`
+  const pattern = new RegExp(rule.pattern.source, flags)
+  const findings: Finding[] = []
+
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(content)) !== null) {
+    if (match[0] === '') {
+      pattern.lastIndex++ // Don't loop forever on empty matches
+      continue
+    }
+    const start = match.index
+    findings.push(toFinding(rule, start, start + match[0].length, content, index, contextLines))
+  }
+
+  return findings
+}
+
+// All nodes a selector rule matches
+export function findSelectorMatches(
+  sourceFile: ts.SourceFile,
+  rule: CheckerRule,
+  index: LineIndex,
+  contextLines = 2,
+): Finding[] {
+  if (!rule.selector) return []
+  return querySelectorAll(sourceFile, rule.selector).map(node =>
+    toFinding(rule, node.getStart(sourceFile), node.end, sourceFile.text, index, contextLines),
+  )
+}
+
+const DISABLE_NEXT_LINE = /(?:\/\/|\/\*)\s*validation-checker-disable-next-line\b(.*)$/
+
+// Suppressed rule ids by line number; null means every rule
+export function findSuppressions(index: LineIndex): Map<number, Set<string> | null> {
+  const suppressions = new Map<number, Set<string> | null>()
+  index.lines.forEach((line, i) => {
+    const match = line.match(DISABLE_NEXT_LINE)
+    if (!match) return
+    // Ids run up to a closing `*/` or a `-- reason`
+    const ids = match[1].split(/\*\/|\s--\s/)[0].split(/[\s,]+/).filter(Boolean)
+    suppressions.set(i + 2, ids.length > 0 ? new Set(ids) : null)
+  })
+  return suppressions
+}
+
+// Whether rule `ruleId` is silenced on `line` (1-based)
+export function isRuleSuppressed(
+  ruleId: string,
+  line: number,
+  suppressions: Map<number, Set<string> | null>,
+): boolean {
+  if (!suppressions.has(line)) return false
+  const ids = suppressions.get(line)
+  return ids === null || ids!.has(ruleId)
+}
+
+export function isSuppressed(
+  finding: Finding,
+  suppressions: Map<number, Set<string> | null>,
+): boolean {
+  return isRuleSuppressed(finding.ruleId, finding.range.start.line, suppressions)
+}
+
+// Keep one finding per overlapping span: the most severe, then the earliest rule to match
+export function dedupeFindings(findings: Finding[], ruleOrder: string[]): Finding[] {
+  const rank = (finding: Finding) => [
+    -SEVERITY_RANK[finding.severity],
+    ruleOrder.indexOf(finding.ruleId),
+    finding.offset.start,
+  ]
+  const sorted = [...findings].sort((a, b) => {
+    const [x, y] = [rank(a), rank(b)]
+    return x[0] - y[0] || x[1] - y[1] || x[2] - y[2]
+  })
+
+  const kept: Finding[] = []
+  for (const finding of sorted) {
+    const overlapping = kept.find(
+      other =>
+        other.ruleId !== finding.ruleId &&
+        finding.offset.start < other.offset.end &&
+        other.offset.start < finding.offset.end,
+    )
+    if (overlapping) {
+      if (!overlapping.alsoMatched.includes(finding.ruleId)) overlapping.alsoMatched.push(finding.ruleId)
+      continue
+    }
+    kept.push(finding)
+  }
+
+  return kept.sort((a, b) => a.offset.start - b.offset.start)
+}
@@ -0,0 +1,169 @@
+import { BaselineState } from './baseline.js'
+import { CheckerIssue } from './check.js'
+import { CheckerRule, Severity } from './rules.js'
+
+/**
+ * Checker reports
+ *   - text: one `path:line:column severity [rule] message` line per issue, for terminals
+ *   - sarif: SARIF 2.1.0 for code scanning UIs
+ *   - junit: JUnit XML, one test suite per file, for CI test reporters
+ */
+
+export const CHECKER_NAME = 'validation-checker'
+
+export interface ReportFile {
+  path: string // Workspace-relative, forward slashes
+  issues: CheckerIssue[]
+  error?: string
+}
+
+export interface ReportInput {
+  files: ReportFile[]
+  rules: CheckerRule[]
+  baselineStates?: Map<CheckerIssue, BaselineState>
+}
+
+const SARIF_LEVEL: Record<Severity, 'error' | 'warning' | 'note'> = {
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+}
+
+export function toText({ files, baselineStates }: ReportInput): string {
+  const lines: string[] = []
+  let total = 0
+  for (const file of files) {
+    if (file.error) lines.push(`${file.path}: error ${file.error}`)
+    for (const issue of file.issues) {
+      total++
+      const state = baselineStates?.get(issue) === 'unchanged' ? ' (baseline)' : ''
+      lines.push(
+        `${file.path}:${issue.line}:${issue.column} ${issue.severity} [${issue.ruleId}] ${issue.message}${state}`,
+      )
+    }
+  }
+  const withIssues = files.filter(file => file.issues.length > 0).length
+  lines.push(
+    total === 0
+      ? `No issues in ${files.length} file${files.length === 1 ? '' : 's'}`
+      : `${total} issue${total === 1 ? '' : 's'} in ${withIssues} of ${files.length} files`,
+  )
+  return lines.join('\n') + '\n'
+}
+
+export function toSarif({ files, rules, baselineStates }: ReportInput): string {
+  const ruleIndex = new Map(rules.map((rule, i) => [rule.id, i]))
+
+  const results = files.flatMap(file =>
+    file.issues.map(issue => ({
+      ruleId: issue.ruleId,
+      ...(ruleIndex.has(issue.ruleId) ? { ruleIndex: ruleIndex.get(issue.ruleId) } : {}),
+      level: SARIF_LEVEL[issue.severity],
+      message: { text: `${issue.message}. ${issue.suggestion}` },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: encodeURI(file.path), uriBaseId: '%SRCROOT%' },
+            region: {
+              startLine: issue.line,
+              startColumn: issue.column,
+              endLine: issue.endLine,
+              endColumn: issue.endColumn,
+              snippet: { text: issue.match },
+            },
+          },
+        },
+      ],
+      ...(baselineStates?.has(issue) ? { baselineState: baselineStates.get(issue) } : {}),
+    })),
+  )
+
+  const log = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: CHECKER_NAME,
+            rules: rules.map(rule => ({
+              id: rule.id,
+              shortDescription: { text: rule.message },
+              defaultConfiguration: { level: SARIF_LEVEL[rule.severity] },
+              ...(rule.suggestion ? { help: { text: rule.suggestion } } : {}),
+            })),
+          },
+        },
+        results,
+        invocations: [
+          {
+            executionSuccessful: files.every(file => !file.error),
+            toolExecutionNotifications: files
+              .filter(file => file.error)
+              .map(file => ({
+                level: 'error',
+                message: { text: file.error },
+                locations: [
+                  { physicalLocation: { artifactLocation: { uri: encodeURI(file.path) } } },
+                ],
+              })),
+          },
+        ],
+      },
+    ],
+  }
+  return JSON.stringify(log, null, 2) + '\n'
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '') // Not allowed in XML 1.0
+}
+
+export function toJUnit({ files }: ReportInput): string {
+  const totalTests = files.reduce((total, file) => total + Math.max(1, file.issues.length), 0)
+  const totalFailures = files.reduce((total, file) => total + file.issues.length, 0)
+  const totalErrors = files.filter(file => file.error).length
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${CHECKER_NAME}" tests="${totalTests}" failures="${totalFailures}" errors="${totalErrors}">`,
+  ]
+
+  for (const file of files) {
+    const path = escapeXml(file.path)
+    const tests = Math.max(1, file.issues.length)
+    lines.push(
+      `  <testsuite name="${path}" tests="${tests}" failures="${file.issues.length}" errors="${file.error ? 1 : 0}">`,
+    )
+
+    if (file.error) {
+      lines.push(`    <testcase name="check" classname="${path}">`)
+      lines.push(`      <error message="${escapeXml(file.error)}"/>`)
+      lines.push('    </testcase>')
+    } else if (file.issues.length === 0) {
+      lines.push(`    <testcase name="validation" classname="${path}"/>`)
+    }
+
+    for (const issue of file.issues) {
+      const name = escapeXml(`${issue.ruleId} at ${issue.line}:${issue.column}`)
+      lines.push(`    <testcase name="${name}" classname="${path}">`)
+      lines.push(
+        `      <failure message="${escapeXml(issue.message)}" type="${issue.severity}">${escapeXml(
+          `${file.path}:${issue.line}:${issue.column}\n${issue.match}\n${issue.suggestion}`,
+        )}</failure>`,
+      )
+      lines.push('    </testcase>')
+    }
+
+    lines.push('  </testsuite>')
+  }
+
+  lines.push('</testsuites>')
+  return lines.join('\n') + '\n'
+}
@@ -0,0 +1,208 @@
+import fs from 'fs'
+import { minimatch } from 'minimatch'
+import { z } from 'zod'
+import { ProjectConfig, resolveConfigPaths } from '../config.js'
+import { parseSelector, Selector } from './selector.js'
+
+/**
+ * Validation checker rules
+ *   - Built-in patterns that indicate validation or formatting done outside the central services
+ *   - Project rules come from the rules file (validationChecker.rulesFile): a regex or an AST
+ *     selector each, optionally limited to file globs; built-ins can be disabled there by id
+ *   - Every rule has a stable id so findings can be traced, deduplicated and suppressed
+ */
+
+export type Severity = 'high' | 'medium' | 'low'
+
+export const SEVERITY_RANK: Record<Severity, number> = { high: 3, medium: 2, low: 1 }
+
+export interface CheckerRule {
+  id: string
+  pattern?: RegExp // Exactly one of pattern and selector (built-ins may have neither)
+  selector?: Selector
+  message: string
+  severity: Severity
+  files?: string[] // Globs (workspace-relative) the rule is limited to
+  exclude?: string[]
+  suggestion?: string
+  builtin: boolean
+}
+
+export const BUILTIN_RULES: CheckerRule[] = [
+  {
+    id: 'field-validation',
+    pattern:
+      /\b(email|password|phone|name|address|zip|postal|code|username|url)\b.*?(validate|validation|valid|invalid|pattern|regex|match|test)/i,
+    message: 'Contains field validation that might need ValidationService',
+    severity: 'medium',
+    builtin: true,
+  },
+  {
+    id: 'regex-test',
+    pattern: /\.test\(\s*\/[^/]+\/\s*\)/,
+    message: 'Using regex test() directly instead of ValidationService',
+    severity: 'high',
+    builtin: true,
+  },
+  {
+    id: 'regex-match',
+    pattern: /\.match\(\s*\/[^/]+\/\s*\)/,
+    message: 'Using regex match() directly instead of ValidationService',
+    severity: 'high',
+    builtin: true,
+  },
+  {
+    id: 'new-regexp',
+    pattern: /new RegExp\(/,
+    message: 'Creating RegExp directly instead of using ValidationService',
+    severity: 'high',
+    builtin: true,
+  },
+  {
+    id: 'string-formatting',
+    pattern:
+      /\.(substring|substr|slice|trim|replace|replaceAll|padStart|padEnd|toLowerCase|toUpperCase)\(/,
+    message: 'String manipulation that might need FormatterService',
+    severity: 'low',
+    builtin: true,
+  },
+  {
+    id: 'custom-validator',
+    pattern: /\b(validation|validator|validate|validateField|isValid)\s*=\s*function|=>\s*{/,
+    message: 'Custom validation function that might duplicate ValidationService functionality',
+    severity: 'medium',
+    builtin: true,
+  },
+  {
+    id: 'unknown-service-method',
+    // No pattern: found by resolving service usage against the validation module's sources
+    message: 'Uses a ValidationService or FormatterService member that does not exist',
+    severity: 'high',
+    builtin: true,
+  },
+]
+
+const CustomRuleSchema = z
+  .object({
+    id: z.string().regex(/^[\w-]+$/, 'Use letters, digits, _ and -'),
+    pattern: z.string().min(1).optional(), // Regular expression source
+    flags: z.string().regex(/^[dimsuy]*$/, 'Only d, i, m, s, u and y').optional(),
+    selector: z.string().min(1).optional(), // AST selector, see selector.ts
+    message: z.string().min(1),
+    severity: z.enum(['high', 'medium', 'low']).default('medium'),
+    files: z.array(z.string()).optional(),
+    exclude: z.array(z.string()).optional(),
+    suggestion: z.string().optional(),
+  })
+  .strict()
+  .refine(rule => Boolean(rule.pattern) !== Boolean(rule.selector), {
+    message: 'Give exactly one of pattern or selector',
+  })
+
+export const RulesFileSchema = z
+  .object({
+    disable: z.array(z.string()).default([]), // Rule ids, built-in or custom
+    rules: z.array(CustomRuleSchema).default([]),
+  })
+  .strict()
+
+export class RulesFileError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: string[] = [],
+  ) {
+    super(issues.length > 0 ? `${message}:\n${issues.map(issue => `  - ${issue}`).join('\n')}` : message)
+    this.name = 'RulesFileError'
+  }
+}
+
+export interface LoadedRules {
+  rules: CheckerRule[] // Enabled rules, built-ins first
+  disabled: string[]
+  path: string | null // null when there is no rules file
+}
+
+let cached: (LoadedRules & { mtimeMs: number }) | null = null
+
+function readRulesFile(rulesPath: string): LoadedRules {
+  let raw: unknown
+  try {
+    raw = JSON.parse(fs.readFileSync(rulesPath, 'utf-8'))
+  } catch (error) {
+    throw new RulesFileError(
+      `Could not parse ${rulesPath}: ${error instanceof Error ? error.message : String(error)}`,
+    )
+  }
+
+  const result = RulesFileSchema.safeParse(raw)
+  if (!result.success) {
+    throw new RulesFileError(
+      `Invalid rules file ${rulesPath}`,
+      result.error.issues.map(
+        issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`,
+      ),
+    )
+  }
+
+  const issues: string[] = []
+  const custom: CheckerRule[] = []
+  const ids = new Set(BUILTIN_RULES.map(rule => rule.id))
+
+  result.data.rules.forEach((rule, i) => {
+    if (ids.has(rule.id)) {
+      issues.push(`rules.${i}.id: '${rule.id}' is already used`)
+      return
+    }
+    ids.add(rule.id)
+    try {
+      custom.push({
+        id: rule.id,
+        pattern: rule.pattern !== undefined ? new RegExp(rule.pattern, rule.flags) : undefined,
+        selector: rule.selector !== undefined ? parseSelector(rule.selector) : undefined,
+        message: rule.message,
+        severity: rule.severity,
+        files: rule.files,
+        exclude: rule.exclude,
+        suggestion: rule.suggestion,
+        builtin: false,
+      })
+    } catch (error) {
+      issues.push(`rules.${i}: ${(error as Error).message}`)
+    }
+  })
+
+  for (const id of result.data.disable) {
+    if (!ids.has(id)) issues.push(`disable: unknown rule id '${id}'`)
+  }
+
+  if (issues.length > 0) throw new RulesFileError(`Invalid rules file ${rulesPath}`, issues)
+
+  const disabled = new Set(result.data.disable)
+  return {
+    rules: [...BUILTIN_RULES, ...custom].filter(rule => !disabled.has(rule.id)),
+    disabled: [...disabled],
+    path: rulesPath,
+  }
+}
+
+// Built-in plus project rules, reloaded whenever the rules file changes
+export function loadCheckerRules(config: ProjectConfig): LoadedRules {
+  const [rulesPath] = resolveConfigPaths([config.validationChecker.rulesFile])
+
+  if (!fs.existsSync(rulesPath)) {
+    return { rules: BUILTIN_RULES, disabled: [], path: null }
+  }
+
+  const { mtimeMs } = fs.statSync(rulesPath)
+  if (!cached || cached.path !== rulesPath || cached.mtimeMs !== mtimeMs) {
+    cached = { ...readRulesFile(rulesPath), mtimeMs }
+  }
+  return cached
+}
+
+// Whether a rule applies to a workspace-relative path
+export function ruleAppliesTo(rule: CheckerRule, relativePath: string): boolean {
+  const matches = (globs: string[]) => globs.some(glob => minimatch(relativePath, glob, { dot: true }))
+  if (rule.files && !matches(rule.files)) return false
+  return !(rule.exclude && matches(rule.exclude))
+}
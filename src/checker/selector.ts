@@ -0,0 +1,158 @@
+import ts from 'typescript'
+
+/**
+ * AST selectors for custom checker rules
+ *   - A small CSS-like syntax over TypeScript syntax kinds:
+ *       NewExpression[expression="Intl.NumberFormat"]
+ *       CallExpression[expression.name="email"][expression.expression^="z.string"]
+ *       JsxAttribute[name="pattern"]
+ *       ArrowFunction > Block CallExpression[expression="alert"]
+ *   - Attributes follow property paths from the node and compare against the source text:
+ *     `=` equals, `^=` starts with, `$=` ends with, `*=` contains, `~=` matches a regex
+ *   - `A B` matches B anywhere inside A, `A > B` only as a direct child; `*` matches any kind
+ */
+
+type AttributeOperator = '=' | '^=' | '$=' | '*=' | '~='
+
+interface AttributeTest {
+  path: string[]
+  operator: AttributeOperator | null // null: the property only has to exist
+  value: string
+  regex: RegExp | null
+}
+
+interface Compound {
+  kind: ts.SyntaxKind | null // null for `*`
+  attributes: AttributeTest[]
+}
+
+// Compounds left to right; combinators[i] joins compounds[i] and compounds[i + 1]
+export interface Selector {
+  source: string
+  compounds: Compound[]
+  combinators: ('descendant' | 'child')[]
+}
+
+export class SelectorError extends Error {
+  constructor(selector: string, reason: string) {
+    super(`Invalid selector '${selector}': ${reason}`)
+    this.name = 'SelectorError'
+  }
+}
+
+const COMPOUND = /^(\*|[A-Za-z]+)((?:\[[^\]]*\])*)/
+const ATTRIBUTE = /\[\s*([\w.]+)\s*(?:(=|\^=|\$=|\*=|~=)\s*(?:"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|([^\]\s]+)))?\s*\]/g
+
+export function parseSelector(source: string): Selector {
+  const selector: Selector = { source, compounds: [], combinators: [] }
+  let rest = source.trim()
+  if (!rest) throw new SelectorError(source, 'empty selector')
+
+  while (rest) {
+    const match = rest.match(COMPOUND)
+    if (!match) throw new SelectorError(source, `unexpected '${rest}'`)
+
+    let kind: ts.SyntaxKind | null = null
+    if (match[1] !== '*') {
+      const value = (ts.SyntaxKind as unknown as Record<string, ts.SyntaxKind | undefined>)[match[1]]
+      if (value === undefined) throw new SelectorError(source, `unknown syntax kind '${match[1]}'`)
+      kind = value
+    }
+
+    const attributes: AttributeTest[] = []
+    for (const [, path, operator, doubleQuoted, singleQuoted, bare] of match[2].matchAll(ATTRIBUTE)) {
+      const value = (doubleQuoted ?? singleQuoted ?? bare ?? '').replace(/\\(.)/g, '$1')
+      let regex: RegExp | null = null
+      if (operator === '~=') {
+        try {
+          regex = new RegExp(value)
+        } catch (error) {
+          throw new SelectorError(source, (error as Error).message)
+        }
+      }
+      attributes.push({
+        path: path.split('.'),
+        operator: (operator as AttributeOperator) || null,
+        value,
+        regex,
+      })
+    }
+    if (attributes.length !== (match[2].match(/\[/g) || []).length) {
+      throw new SelectorError(source, `malformed attribute in '${match[2]}'`)
+    }
+    selector.compounds.push({ kind, attributes })
+
+    rest = rest.slice(match[0].length)
+    const combinator = rest.match(/^\s*(>)?\s*/)!
+    rest = rest.slice(combinator[0].length)
+    if (rest) selector.combinators.push(combinator[1] ? 'child' : 'descendant')
+    else if (combinator[1]) throw new SelectorError(source, "nothing after '>'")
+  }
+
+  return selector
+}
+
+function propertyText(node: ts.Node, path: string[], sourceFile: ts.SourceFile): string | null {
+  let value: unknown = node
+  for (const key of path) {
+    if (value === null || typeof value !== 'object') return null
+    value = (value as Record<string, unknown>)[key]
+  }
+  if (value === undefined || value === null) return null
+  if (typeof value === 'object' && 'kind' in value && 'pos' in value) {
+    return (value as ts.Node).getText(sourceFile)
+  }
+  return typeof value === 'object' ? '' : String(value)
+}
+
+function matchesCompound(node: ts.Node, compound: Compound, sourceFile: ts.SourceFile): boolean {
+  if (compound.kind !== null && node.kind !== compound.kind) return false
+  return compound.attributes.every(test => {
+    const text = propertyText(node, test.path, sourceFile)
+    if (text === null) return false
+    switch (test.operator) {
+      case null:
+        return true
+      case '=':
+        return text === test.value
+      case '^=':
+        return text.startsWith(test.value)
+      case '$=':
+        return text.endsWith(test.value)
+      case '*=':
+        return text.includes(test.value)
+      case '~=':
+        return test.regex!.test(text)
+    }
+  })
+}
+
+// Match compounds right to left, walking up through the node's ancestors
+function matchesFrom(
+  node: ts.Node,
+  selector: Selector,
+  index: number,
+  sourceFile: ts.SourceFile,
+): boolean {
+  if (!matchesCompound(node, selector.compounds[index], sourceFile)) return false
+  if (index === 0) return true
+
+  if (selector.combinators[index - 1] === 'child') {
+    return Boolean(node.parent) && matchesFrom(node.parent, selector, index - 1, sourceFile)
+  }
+  for (let ancestor = node.parent; ancestor; ancestor = ancestor.parent) {
+    if (matchesFrom(ancestor, selector, index - 1, sourceFile)) return true
+  }
+  return false
+}
+
+export function querySelectorAll(sourceFile: ts.SourceFile, selector: Selector): ts.Node[] {
+  const matches: ts.Node[] = []
+  const last = selector.compounds.length - 1
+  const visit = (node: ts.Node) => {
+    if (matchesFrom(node, selector, last, sourceFile)) matches.push(node)
+    ts.forEachChild(node, visit)
+  }
+  visit(sourceFile)
+  return matches
+}
@@ -0,0 +1,98 @@
+import fs from 'fs'
+import path from 'path'
+import { resolveWorkspacePath, toWorkspaceRelative } from '../workspace.js'
+import { createUnifiedDiff } from './edits.js'
+
+/**
+ * Change sets
+ *   - Plans the files a tool wants to write against what's on disk: created, overwritten,
+ *     updated in place, unchanged, skipped or in conflict
+ *   - Nothing is written while any file is in conflict, so a generation either lands whole or
+ *     not at all
+ *   - Every change carries a unified diff, so the same result serves as a preview (dryRun) and
+ *     as a record of what was written
+ *   - Every planned path must resolve inside the workspace, companions and barrels included
+ */
+
+// What to do with a file that already exists: fail the change set, keep it, or replace it
+export type OverwritePolicy = 'error' | 'skip' | 'replace'
+
+export interface PlannedFile {
+  path: string // Absolute
+  content: string
+  // Derive the new content from the existing file (e.g. adding an export to a barrel);
+  // such files are updated in place whatever the overwrite policy
+  update?: (existing: string) => string
+}
+
+export interface FileChange {
+  path: string // Workspace-relative
+  action: 'create' | 'overwrite' | 'update' | 'unchanged' | 'skip' | 'conflict'
+  content: string // The file as it would be written
+  diff: string // Against the file on disk; empty when unchanged or skipped
+  written: boolean
+}
+
+export interface ChangeSet {
+  dryRun: boolean
+  applied: boolean
+  changes: FileChange[]
+  conflicts: string[] // Existing files the 'error' policy refused to replace
+}
+
+function planFile(file: PlannedFile, overwrite: OverwritePolicy): FileChange {
+  const filePath = resolveWorkspacePath(file.path)
+  const relativePath = toWorkspaceRelative(filePath)
+  const existing = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null
+  const change = (action: FileChange['action'], content: string): FileChange => ({
+    path: relativePath,
+    action,
+    content,
+    diff:
+      action === 'skip' || action === 'conflict'
+        ? ''
+        : createUnifiedDiff(relativePath, existing ?? '', content),
+    written: false,
+  })
+
+  if (existing === null) return change('create', file.update ? file.update('') : file.content)
+  if (file.update) {
+    const updated = file.update(existing)
+    return change(updated === existing ? 'unchanged' : 'update', updated)
+  }
+  if (existing === file.content) return change('unchanged', existing)
+  if (overwrite === 'replace') return change('overwrite', file.content)
+  return overwrite === 'skip' ? change('skip', existing) : change('conflict', file.content)
+}
+
+export function planChangeSet(
+  files: PlannedFile[],
+  options: { overwrite: OverwritePolicy; dryRun: boolean },
+): ChangeSet {
+  const changes = files.map(file => planFile(file, options.overwrite))
+  return {
+    dryRun: options.dryRun,
+    applied: false,
+    changes,
+    conflicts: changes.filter(change => change.action === 'conflict').map(change => change.path),
+  }
+}
+
+// Write the planned changes, unless it's a dry run or something is in conflict
+export async function applyChangeSet(
+  changeSet: ChangeSet,
+  files: PlannedFile[],
+): Promise<ChangeSet> {
+  if (changeSet.dryRun || changeSet.conflicts.length > 0) return changeSet
+
+  const toWrite = new Set(['create', 'overwrite', 'update'])
+  for (const [index, change] of changeSet.changes.entries()) {
+    if (!toWrite.has(change.action)) continue
+    const filePath = resolveWorkspacePath(files[index].path)
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.promises.writeFile(filePath, change.content, 'utf-8')
+    change.written = true
+  }
+  changeSet.applied = true
+  return changeSet
+}
@@ -0,0 +1,192 @@
+/**
+ * Text edits and unified diffs
+ *   - A codemod is a list of non-overlapping edits against the original text
+ *   - Edits are applied back to front so earlier offsets stay valid
+ *   - createUnifiedDiff renders the before/after pair as a `git apply`-able patch
+ */
+
+export interface TextEdit {
+  start: number // Offset into the original text
+  end: number // Exclusive; equal to start for an insertion
+  newText: string
+}
+
+export function applyTextEdits(text: string, edits: TextEdit[]): string {
+  const sorted = [...edits].sort((a, b) => b.start - a.start || b.end - a.end)
+  let result = text
+  let lastStart = Infinity
+  for (const edit of sorted) {
+    if (edit.end > lastStart) {
+      throw new Error(`Overlapping edits at offset ${edit.start}`)
+    }
+    result = result.slice(0, edit.start) + edit.newText + result.slice(edit.end)
+    lastStart = edit.start
+  }
+  return result
+}
+
+type LineOp = { type: 'context' | 'add' | 'del'; text: string }
+
+// The edit script between the lines of a and b with Myers' algorithm: the work grows with the
+// number of changed lines rather than the size of the file, and each step only keeps the
+// diagonals it reached (2d + 1 of them), so small edits to large files stay cheap
+function myersDiff(a: string[], b: string[]): LineOp[] {
+  const n = a.length
+  const m = b.length
+  const trace: Int32Array[] = [] // trace[d][k + d]: the furthest x on diagonal k after d edits
+  let done = false
+  for (let d = 0; !done; d++) {
+    const previous = trace[d - 1]
+    const v = new Int32Array(2 * d + 1)
+    for (let k = -d; k <= d; k += 2) {
+      let x: number
+      if (d === 0) x = 0
+      else if (k === -d || (k !== d && previous[k - 1 + d - 1] < previous[k + 1 + d - 1])) {
+        x = previous[k + 1 + d - 1] // Down: b[y] is added
+      } else {
+        x = previous[k - 1 + d - 1] + 1 // Right: a[x] is deleted
+      }
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[k + d] = x
+      if (x >= n && y >= m) {
+        done = true
+        break
+      }
+    }
+    trace.push(v)
+  }
+
+  // Walk back from the end, one edit per step
+  const ops: LineOp[] = []
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const k = x - y
+    let previousX = 0
+    let previousY = 0
+    if (d > 0) {
+      const previous = trace[d - 1]
+      const down = k === -d || (k !== d && previous[k - 1 + d - 1] < previous[k + 1 + d - 1])
+      const previousK = down ? k + 1 : k - 1
+      previousX = previous[previousK + d - 1]
+      previousY = previousX - previousK
+    }
+    while (x > previousX && y > previousY) {
+      ops.push({ type: 'context', text: a[--x] })
+      y--
+    }
+    if (d > 0) {
+      if (x === previousX) ops.push({ type: 'add', text: b[--y] })
+      else ops.push({ type: 'del', text: a[--x] })
+    }
+  }
+  ops.reverse()
+
+  // Deletions before additions within each change
+  const ordered: LineOp[] = []
+  let change: LineOp[] = []
+  for (const op of [...ops, { type: 'context' as const, text: '' }]) {
+    if (op.type !== 'context') {
+      change.push(op)
+      continue
+    }
+    const deleted = change.filter(changed => changed.type === 'del')
+    ordered.push(...deleted, ...change.filter(changed => changed.type === 'add'))
+    change = []
+    ordered.push(op)
+  }
+  ordered.pop()
+  return ordered
+}
+
+// The shared prefix and suffix are context; the region between them is diffed
+function diffLines(oldLines: string[], newLines: string[]): LineOp[] {
+  let prefix = 0
+  while (
+    prefix < oldLines.length &&
+    prefix < newLines.length &&
+    oldLines[prefix] === newLines[prefix]
+  ) {
+    prefix++
+  }
+  let suffix = 0
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const a = oldLines.slice(prefix, oldLines.length - suffix)
+  const b = newLines.slice(prefix, newLines.length - suffix)
+  return [
+    ...oldLines.slice(0, prefix).map(text => ({ type: 'context' as const, text })),
+    ...myersDiff(a, b),
+    ...oldLines.slice(oldLines.length - suffix).map(text => ({ type: 'context' as const, text })),
+  ]
+}
+
+// Follows a last line that has no newline, as in git's diffs; being part of the line, it also
+// makes `a` and `a\n` differ
+const NO_NEWLINE = '\n\\ No newline at end of file'
+
+// A trailing newline ends the last line rather than starting an empty one
+function splitLines(text: string): string[] {
+  const lines = text.split('\n')
+  if (lines[lines.length - 1] === '') lines.pop()
+  else lines[lines.length - 1] += NO_NEWLINE
+  return lines
+}
+
+// Empty string when nothing changed
+export function createUnifiedDiff(
+  filePath: string,
+  oldText: string,
+  newText: string,
+  contextLines = 3,
+): string {
+  if (oldText === newText) return ''
+
+  const ops = diffLines(splitLines(oldText), splitLines(newText))
+  const changed = ops.map((op, index) => (op.type === 'context' ? -1 : index)).filter(i => i >= 0)
+
+  // Group changes whose context windows touch into one hunk
+  const ranges: [number, number][] = []
+  for (const index of changed) {
+    const start = Math.max(0, index - contextLines)
+    const end = Math.min(ops.length, index + contextLines + 1)
+    const last = ranges[ranges.length - 1]
+    if (last && start <= last[1]) {
+      last[1] = end
+    } else {
+      ranges.push([start, end])
+    }
+  }
+
+  const lines = [`--- a/${filePath}`, `+++ b/${filePath}`]
+  for (const [start, end] of ranges) {
+    // Line numbers where the hunk starts on each side
+    let oldStart = 1
+    let newStart = 1
+    for (const op of ops.slice(0, start)) {
+      if (op.type !== 'add') oldStart++
+      if (op.type !== 'del') newStart++
+    }
+    const hunk = ops.slice(start, end)
+    const oldCount = hunk.filter(op => op.type !== 'add').length
+    const newCount = hunk.filter(op => op.type !== 'del').length
+    lines.push(
+      `@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`,
+    )
+    for (const op of hunk) {
+      lines.push(`${op.type === 'add' ? '+' : op.type === 'del' ? '-' : ' '}${op.text}`)
+    }
+  }
+
+  return lines.join('\n') + '\n'
+}
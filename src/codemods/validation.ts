@@ -0,0 +1,257 @@
+import ts from 'typescript'
+import { getLocation, SourceLocation } from '../analysis/project.js'
+import { findSuppressions, isRuleSuppressed, LineIndex } from '../checker/findings.js'
+import { ProjectConfig } from '../config.js'
+import { TextEdit } from './edits.js'
+
+/**
+ * Validation codemods
+ *   - Rewrites inline `/regex/.test(value)` email and phone checks into ValidationService calls
+ *   - Follows regexes stored in a local const (`EMAIL_REGEX.test(value)`), and removes the const
+ *     once nothing else refers to it
+ *   - Calls ValidationService by its local name when the file already imports it (`as VS`);
+ *     otherwise adds it to the validation module import, or inserts that import
+ *   - Leaves checks alone where a disable comment silences the checker's `regex-test` rule
+ */
+
+export type ValidationKind = 'email' | 'phone'
+
+// The checker rule whose findings these rewrites fix
+const FIXED_RULE = 'regex-test'
+
+export interface ValidationRewrite {
+  kind: ValidationKind
+  location: SourceLocation
+  before: string
+  after: string
+}
+
+export interface ValidationFixPlan {
+  edits: TextEdit[]
+  rewrites: ValidationRewrite[]
+  importAdded: boolean
+  removedConstants: string[] // Regex consts the rewrites left unused, deleted
+  unusedConstants: string[] // Left unused but declared alongside other variables, so kept
+}
+
+// Decide what a regex checks from its name (when it has one) and then its pattern
+export function classifyRegex(pattern: string, name = ''): ValidationKind | null {
+  if (/e-?mail/i.test(name)) return 'email'
+  if (/phone|mobile|^tel/i.test(name)) return 'phone'
+
+  const body = pattern.slice(1, pattern.lastIndexOf('/'))
+  if (body.includes('@')) return 'email'
+
+  const digits = /\\d|\[0-9\]/.test(body)
+  const letters = /\\w|[a-z]-[a-z]|[A-Z]-[A-Z]/.test(body)
+  if (!digits || letters) return null
+
+  // A leading +, an area code in parentheses, or room for at least seven digits
+  const longRun = [...body.matchAll(/\{(\d+)(?:,(\d*))?\}/g)].some(
+    ([, min, max]) => Number(max || min) >= 7,
+  )
+  return /\\\+|\\\(/.test(body) || longRun ? 'phone' : null
+}
+
+function unwrap(expression: ts.Expression): ts.Expression {
+  while (ts.isParenthesizedExpression(expression)) expression = expression.expression
+  return expression
+}
+
+interface RegexConstant {
+  pattern: string
+  declaration: ts.VariableDeclaration
+}
+
+// const EMAIL_REGEX = /.../ anywhere in the file
+function collectRegexConstants(sourceFile: ts.SourceFile): Map<string, RegexConstant> {
+  const constants = new Map<string, RegexConstant>()
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isVariableDeclaration(node) &&
+      ts.isIdentifier(node.name) &&
+      node.initializer &&
+      ts.isRegularExpressionLiteral(unwrap(node.initializer)) &&
+      ts.isVariableDeclarationList(node.parent) &&
+      node.parent.flags & ts.NodeFlags.Const
+    ) {
+      const pattern = unwrap(node.initializer).getText(sourceFile)
+      constants.set(node.name.text, { pattern, declaration: node })
+    }
+    ts.forEachChild(node, visit)
+  }
+  visit(sourceFile)
+  return constants
+}
+
+// Identifiers named `name` other than its declaration, property names and `ignored`
+function countReferences(sourceFile: ts.SourceFile, name: string, ignored: Set<ts.Node>): number {
+  let count = 0
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isIdentifier(node) &&
+      node.text === name &&
+      !ignored.has(node) &&
+      !(ts.isVariableDeclaration(node.parent) && node.parent.name === node) &&
+      !(ts.isPropertyAccessExpression(node.parent) && node.parent.name === node)
+    ) {
+      count++
+    }
+    ts.forEachChild(node, visit)
+  }
+  visit(sourceFile)
+  return count
+}
+
+// The lines of a statement, with the comments directly above it and one of the blank lines
+// around it, so nothing is left behind
+function statementRemoval(sourceFile: ts.SourceFile, statement: ts.Statement): TextEdit {
+  const text = sourceFile.text
+  let start = statement.getStart(sourceFile)
+  const comments = ts.getLeadingCommentRanges(text, statement.getFullStart()) || []
+  for (const comment of [...comments].reverse()) {
+    if (/\n[ \t]*\r?\n/.test(text.slice(comment.end, start))) break
+    start = comment.pos
+  }
+  start = text.lastIndexOf('\n', start - 1) + 1
+  const lineEnd = text.indexOf('\n', statement.end)
+  let end = lineEnd === -1 ? text.length : lineEnd + 1
+  const blankAfter = text.slice(end).match(/^[ \t]*\r?\n/)
+  const blankBefore = start === 0 || /\n[ \t]*\r?\n$/.test(text.slice(0, start))
+  if (blankAfter && blankBefore) end += blankAfter[0].length
+  return { start, end, newText: '' }
+}
+
+// The local name `name` is imported under from the validation module (`as VS`), if it is
+function findValidationImport(sourceFile: ts.SourceFile, importPath: string, name: string) {
+  let named: ts.NamedImports | null = null
+  let local: string | null = null
+
+  for (const statement of sourceFile.statements) {
+    if (
+      !ts.isImportDeclaration(statement) ||
+      !ts.isStringLiteral(statement.moduleSpecifier) ||
+      statement.moduleSpecifier.text !== importPath
+    ) {
+      continue
+    }
+    const clause = statement.importClause
+    if (!clause || clause.isTypeOnly || !clause.namedBindings) continue
+    if (ts.isNamedImports(clause.namedBindings)) {
+      const element = clause.namedBindings.elements.find(
+        e => (e.propertyName || e.name).text === name && !e.isTypeOnly,
+      )
+      local = local || (element ? element.name.text : null)
+      named = named || clause.namedBindings
+    }
+  }
+
+  return { local, named }
+}
+
+function importEdit(
+  sourceFile: ts.SourceFile,
+  importPath: string,
+  name: string,
+  named: ts.NamedImports | null,
+): TextEdit {
+  // import { FormatterService } from '@/lib/validation' → import { FormatterService, ValidationService } ...
+  if (named && named.elements.length > 0) {
+    const last = named.elements[named.elements.length - 1]
+    return { start: last.end, end: last.end, newText: `, ${name}` }
+  }
+
+  const imports = sourceFile.statements.filter(ts.isImportDeclaration)
+  const lastImport = imports[imports.length - 1]
+  if (lastImport) {
+    // Match the file's quote and semicolon style
+    const quote = lastImport.moduleSpecifier.getText(sourceFile)[0]
+    const semicolon = lastImport.getText(sourceFile).endsWith(';') ? ';' : ''
+    return {
+      start: lastImport.end,
+      end: lastImport.end,
+      newText: `\nimport { ${name} } from ${quote}${importPath}${quote}${semicolon}`,
+    }
+  }
+
+  // No imports yet: after any 'use client' style directives
+  let start = 0
+  for (const statement of sourceFile.statements) {
+    if (!ts.isExpressionStatement(statement) || !ts.isStringLiteral(statement.expression)) break
+    start = statement.end
+  }
+  return start === 0
+    ? { start: 0, end: 0, newText: `import { ${name} } from '${importPath}'\n\n` }
+    : { start, end: start, newText: `\n\nimport { ${name} } from '${importPath}'` }
+}
+
+export function planValidationFixes(
+  sourceFile: ts.SourceFile,
+  config: ProjectConfig,
+): ValidationFixPlan {
+  const { importPath, validationService, methods } = config.validation
+  const constants = collectRegexConstants(sourceFile)
+  const suppressions = findSuppressions(new LineIndex(sourceFile.text))
+  const { local, named } = findValidationImport(sourceFile, importPath, validationService)
+  const service = local || validationService
+  const edits: TextEdit[] = []
+  const rewrites: ValidationRewrite[] = []
+  const rewrittenConstants = new Map<string, Set<ts.Node>>() // Name -> the rewritten receivers
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      node.expression.name.text === 'test' &&
+      node.arguments.length === 1
+    ) {
+      const receiver = unwrap(node.expression.expression)
+      let kind: ValidationKind | null = null
+      if (ts.isRegularExpressionLiteral(receiver)) {
+        kind = classifyRegex(receiver.getText(sourceFile))
+      } else if (ts.isIdentifier(receiver) && constants.has(receiver.text)) {
+        kind = classifyRegex(constants.get(receiver.text)!.pattern, receiver.text)
+      }
+
+      const location = getLocation(sourceFile, node)
+      if (kind && !isRuleSuppressed(FIXED_RULE, location.line, suppressions)) {
+        const before = node.getText(sourceFile)
+        const after = `${service}.${methods[kind]}(${node.arguments[0].getText(sourceFile)})`
+        edits.push({ start: node.getStart(sourceFile), end: node.end, newText: after })
+        rewrites.push({ kind, location, before, after })
+        if (ts.isIdentifier(receiver)) {
+          const receivers = rewrittenConstants.get(receiver.text) || new Set()
+          rewrittenConstants.set(receiver.text, receivers.add(receiver))
+        }
+        return // The argument can't hold another check worth rewriting separately
+      }
+    }
+    ts.forEachChild(node, visit)
+  }
+  visit(sourceFile)
+
+  const importAdded = rewrites.length > 0 && !local
+  if (importAdded) edits.push(importEdit(sourceFile, importPath, validationService, named))
+
+  // Consts only the rewritten checks used; exported ones may be used elsewhere
+  const removedConstants: string[] = []
+  const unusedConstants: string[] = []
+  for (const [name, receivers] of rewrittenConstants) {
+    const { declaration } = constants.get(name)!
+    const statement = declaration.parent.parent
+    if (countReferences(sourceFile, name, receivers) > 0 || !ts.isVariableStatement(statement)) {
+      continue
+    }
+    if (statement.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword)) {
+      continue
+    }
+    if (statement.declarationList.declarations.length > 1) {
+      unusedConstants.push(name)
+      continue
+    }
+    edits.push(statementRemoval(sourceFile, statement))
+    removedConstants.push(name)
+  }
+
+  return { edits, rewrites, importAdded, removedConstants, unusedConstants }
+}
@@ -0,0 +1,188 @@
+import fs from 'fs'
+import path from 'path'
+import { z } from 'zod'
+import { getWorkspaceRoot } from './workspace.js'
+
+/**
+ * Project configuration
+ *   - Read from `.cursor-tools.json` in the primary workspace root
+ *   - Holds the project conventions tools used to hardcode (validation module,
+ *     service names, dev server URL, output directories and templates, LLM provider and models,
+ *     excludes)
+ *   - Every field is optional; anything missing falls back to the defaults below
+ */
+
+export const PROJECT_CONFIG_FILENAME = '.cursor-tools.json'
+
+export const ProjectConfigSchema = z
+  .object({
+    workspace: z
+      .object({
+        // Extra workspace roots, relative to the config file
+        additionalRoots: z.array(z.string()).default([]),
+      })
+      .strict()
+      .default({}),
+    validation: z
+      .object({
+        importPath: z.string().min(1).default('@/lib/validation'), // How components import the module
+        directory: z.string().min(1).default('src/lib/validation'), // Where its sources live
+        validationService: z.string().min(1).default('ValidationService'),
+        formatterService: z.string().min(1).default('FormatterService'),
+        // Boolean ValidationService methods that inline regex checks are rewritten to
+        methods: z
+          .object({
+            email: z.string().min(1).default('isValidEmail'),
+            phone: z.string().min(1).default('isValidPhone'),
+          })
+          .strict()
+          .default({}),
+      })
+      .strict()
+      .default({}),
+    validationChecker: z
+      .object({
+        target: z.string().min(1).default('src/components'),
+        // Custom rules and disabled built-ins, relative to the config file
+        rulesFile: z.string().min(1).default('.validation-rules.json'),
+      })
+      .strict()
+      .default({}),
+    screenshot: z
+      .object({
+        baseUrl: z.string().url().default('http://localhost:3000'),
+      })
+      .strict()
+      .default({}),
+    componentGenerator: z
+      .object({
+        outputDirs: z
+          .object({
+            form: z.string().default('src/components/forms'),
+            field: z.string().default('src/components/fields'),
+            display: z.string().default('src/components'),
+            page: z.string().default('src/pages'),
+            layout: z.string().default('src/components/layouts'),
+          })
+          .strict()
+          .default({}),
+        // Project templates (`<type>.tsx`) that replace the built-in ones
+        templatesDir: z.string().min(1).default('src/templates'),
+      })
+      .strict()
+      .default({}),
+    documentation: z
+      .object({
+        directory: z.string().min(1).default('docs'),
+        // The search index, rebuilt from the docs whenever they change
+        indexFile: z.string().min(1).default('node_modules/.cache/cursor-tools/docs-index.json'),
+      })
+      .strict()
+      .default({}),
+    llm: z
+      .object({
+        provider: z.enum(['openai', 'anthropic', 'openai-compatible']).default('openai'),
+        baseUrl: z.string().url().optional(), // e.g. http://localhost:11434/v1 for Ollama
+        apiKeyEnv: z.string().min(1).optional(), // Env var holding the key, if not the provider's usual one
+        timeoutMs: z.number().int().positive().default(60_000),
+        maxRetries: z.number().int().min(0).default(2),
+      })
+      .strict()
+      .default({}),
+    // Per-tool model overrides; unset tools use the provider's default model
+    models: z
+      .object({
+        architect: z.string().min(1).optional(),
+        componentGenerator: z.string().min(1).optional(),
+        codeReview: z.string().min(1).optional(),
+      })
+      .strict()
+      .default({}),
+    // Directory names skipped by every tool that walks the workspace
+    exclude: z.array(z.string()).default(['node_modules', '.git', 'dist', 'build']),
+    tools: z
+      .object({
+        // Extra tool module directories, relative to the config file; only loaded when the
+        // server allows workspace tools
+        directories: z.array(z.string()).default([]),
+      })
+      .strict()
+      .default({}),
+  })
+  .strict()
+
+export type ProjectConfig = z.infer<typeof ProjectConfigSchema>
+
+export class ProjectConfigError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: string[] = [],
+  ) {
+    super(issues.length > 0 ? `${message}:\n${issues.map(issue => `  - ${issue}`).join('\n')}` : message)
+    this.name = 'ProjectConfigError'
+  }
+}
+
+export interface LoadedProjectConfig {
+  config: ProjectConfig
+  path: string | null // null when no config file was found and defaults are in use
+}
+
+let cached: (LoadedProjectConfig & { mtimeMs: number }) | null = null
+
+// Parse and validate a config file, reporting problems by field path
+function readConfigFile(configPath: string): ProjectConfig {
+  let raw: unknown
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, 'utf-8'))
+  } catch (error) {
+    throw new ProjectConfigError(
+      `Could not parse ${configPath}: ${error instanceof Error ? error.message : String(error)}`,
+    )
+  }
+
+  const result = ProjectConfigSchema.safeParse(raw)
+  if (!result.success) {
+    throw new ProjectConfigError(
+      `Invalid ${PROJECT_CONFIG_FILENAME}`,
+      result.error.issues.map(
+        issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`,
+      ),
+    )
+  }
+
+  return result.data
+}
+
+/**
+ * Load the project config from the primary workspace root. The result is cached
+ * and reloaded whenever the file changes, so edits apply without a restart.
+ */
+export function loadProjectConfig(): LoadedProjectConfig {
+  const configPath = path.join(getWorkspaceRoot(), PROJECT_CONFIG_FILENAME)
+
+  if (!fs.existsSync(configPath)) {
+    if (!cached || cached.path !== null) {
+      cached = { config: ProjectConfigSchema.parse({}), path: null, mtimeMs: 0 }
+    }
+    return cached
+  }
+
+  const { mtimeMs } = fs.statSync(configPath)
+  if (!cached || cached.path !== configPath || cached.mtimeMs !== mtimeMs) {
+    cached = { config: readConfigFile(configPath), path: configPath, mtimeMs }
+  }
+
+  return cached
+}
+
+export function getProjectConfig(): ProjectConfig {
+  return loadProjectConfig().config
+}
+
+// Resolve paths listed in the config relative to the config file's directory
+export function resolveConfigPaths(paths: string[]): string[] {
+  const { path: configPath } = loadProjectConfig()
+  const baseDir = configPath ? path.dirname(configPath) : getWorkspaceRoot()
+  return paths.map(entry => path.resolve(baseDir, entry))
+}
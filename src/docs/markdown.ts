@@ -0,0 +1,80 @@
+/**
+ * Markdown structure
+ *   - Title, summary and sections of a documentation file
+ *   - Headings inside fenced code blocks (`# comment` in a shell sample) aren't headings
+ *   - Each section knows its heading path (`Setup > Installation`) and the lines it spans
+ */
+
+export interface DocSection {
+  heading: string
+  level: number // 1 for `#`, 2 for `##`...
+  path: string[] // The headings above it and its own: ['Setup', 'Installation']
+  content: string // The text up to the next heading, subsections excluded
+  startLine: number // 1-based, the heading's line
+  endLine: number // The last non-blank line before the next heading
+}
+
+const HEADING = /^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/
+const FENCE = /^\s*(```|~~~)/
+
+export function extractTitle(content: string): string {
+  const titleMatch = content.match(/^# (.+)$/m)
+  return titleMatch ? titleMatch[1].trim() : 'Untitled Document'
+}
+
+export function extractSummary(content: string): string {
+  // The first line of the paragraph after the title
+  const paragraphMatch = content.match(/^# .+\r?\n\r?\n(.+)/)
+  const summary = paragraphMatch ? paragraphMatch[1].trim() : ''
+
+  // Limit summary length to 200 characters
+  return summary.length > 200 ? summary.substring(0, 197) + '...' : summary
+}
+
+export function extractSections(content: string): DocSection[] {
+  const lines = content.split(/\r?\n/)
+  const sections: DocSection[] = []
+  const stack: { level: number; heading: string }[] = []
+  let current: { heading: string; level: number; path: string[]; start: number } | null = null
+  let fence: string | null = null
+
+  const close = (end: number) => {
+    if (!current) return
+    // Trailing blank lines belong to no one
+    let last = end
+    while (last > current.start && lines[last - 1].trim() === '') last--
+    sections.push({
+      heading: current.heading,
+      level: current.level,
+      path: current.path,
+      content: lines.slice(current.start, last).join('\n').trim(),
+      startLine: current.start,
+      endLine: last,
+    })
+  }
+
+  lines.forEach((line, index) => {
+    const fenceMatch = line.match(FENCE)
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1]
+      else if (fenceMatch[1] === fence) fence = null
+      return
+    }
+    const match = fence ? null : line.match(HEADING)
+    if (!match) return
+
+    close(index)
+    const level = match[1].length
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) stack.pop()
+    stack.push({ level, heading: match[2] })
+    current = {
+      heading: match[2],
+      level,
+      path: stack.map(entry => entry.heading),
+      start: index + 1,
+    }
+  })
+  close(lines.length)
+
+  return sections
+}
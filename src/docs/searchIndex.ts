@@ -0,0 +1,322 @@
+import fs from 'fs'
+import { globSync } from 'glob'
+import path from 'path'
+import { DocSection, extractSections, extractSummary, extractTitle } from './markdown.js'
+import { Token, tokenize, TOKENIZER_VERSION } from './text.js'
+
+/**
+ * Documentation search index
+ *   - Every section of every markdown file under the docs directory is a document: its heading
+ *     path, line range, length and the positions of each stemmed term (see text.ts)
+ *   - Persisted as JSON (documentation.indexFile) and refreshed incrementally: a file is only
+ *     re-read when its mtime or size changed, deleted files are dropped
+ *   - Queries are ranked with BM25; words in a heading count HEADING_WEIGHT times, and
+ *     `"quoted phrases"` must appear in the section word for word
+ */
+
+export interface IndexedSection {
+  heading: string
+  path: string[]
+  startLine: number
+  endLine: number
+  length: number // Indexed words, heading included
+  bodyStart: number // Positions before this are the heading's
+  terms: Record<string, number[]> // Stem -> positions
+}
+
+export interface IndexedFile {
+  mtimeMs: number
+  size: number
+  title: string
+  summary: string
+  sections: IndexedSection[]
+}
+
+export interface DocumentationIndex {
+  version: 1
+  tokenizer: number
+  directory: string // Absolute
+  files: Record<string, IndexedFile> // By path relative to the directory, with forward slashes
+}
+
+export interface IndexRefresh {
+  indexed: number // Files read since the last query
+  reused: number
+  removed: number
+}
+
+export interface SearchHit {
+  file: string
+  title: string
+  heading: string
+  headingPath: string[]
+  startLine: number
+  endLine: number
+  score: number
+  snippet: { startLine: number; endLine: number; text: string }
+}
+
+// The usual BM25 parameters
+const K1 = 1.2
+const B = 0.75
+const HEADING_WEIGHT = 2
+const MAX_SNIPPET_LENGTH = 200
+
+// The last index read or written, so unchanged indexes aren't parsed again
+let loaded: { indexFile: string; mtimeMs: number; index: DocumentationIndex } | null = null
+
+function emptyIndex(directory: string): DocumentationIndex {
+  return { version: 1, tokenizer: TOKENIZER_VERSION, directory, files: {} }
+}
+
+function readIndex(indexFile: string, directory: string): DocumentationIndex {
+  if (!fs.existsSync(indexFile)) return emptyIndex(directory)
+  const { mtimeMs } = fs.statSync(indexFile)
+  if (loaded && loaded.indexFile === indexFile && loaded.mtimeMs === mtimeMs) {
+    return loaded.index.directory === directory ? loaded.index : emptyIndex(directory)
+  }
+
+  let index: DocumentationIndex
+  try {
+    index = JSON.parse(fs.readFileSync(indexFile, 'utf-8'))
+  } catch {
+    // A corrupt or half-written index is rebuilt
+    return emptyIndex(directory)
+  }
+  const usable =
+    index &&
+    index.version === 1 &&
+    index.tokenizer === TOKENIZER_VERSION &&
+    index.directory === directory &&
+    typeof index.files === 'object'
+  if (!usable) return emptyIndex(directory)
+  loaded = { indexFile, mtimeMs, index }
+  return index
+}
+
+// Written to a temporary file first so a concurrent reader never sees half an index
+async function writeIndex(indexFile: string, index: DocumentationIndex): Promise<void> {
+  const temporary = `${indexFile}.${process.pid}.tmp`
+  try {
+    await fs.promises.mkdir(path.dirname(indexFile), { recursive: true })
+    await fs.promises.writeFile(temporary, JSON.stringify(index), 'utf-8')
+    await fs.promises.rename(temporary, indexFile)
+    loaded = { indexFile, mtimeMs: fs.statSync(indexFile).mtimeMs, index }
+  } catch {
+    // A read-only workspace still gets results, the index is just rebuilt next time
+    await fs.promises.rm(temporary, { force: true })
+  }
+}
+
+function indexSection(section: Omit<DocSection, 'level'>): IndexedSection {
+  const { heading, startLine, endLine } = section
+  const headingTokens = tokenize(heading)
+  // A gap after the heading, so a phrase can't run from the heading into the text
+  const bodyStart = (headingTokens[headingTokens.length - 1]?.position ?? -1) + 2
+  const bodyTokens = tokenize(section.content).map(token => ({
+    ...token,
+    position: token.position + bodyStart,
+  }))
+
+  const terms: Record<string, number[]> = {}
+  for (const { term, position } of [...headingTokens, ...bodyTokens]) {
+    if (!terms[term]) terms[term] = []
+    terms[term].push(position)
+  }
+  return {
+    heading,
+    path: section.path,
+    startLine,
+    endLine,
+    length: headingTokens.length + bodyTokens.length,
+    bodyStart,
+    terms,
+  }
+}
+
+function indexMarkdown(content: string, stat: fs.Stats): IndexedFile {
+  const title = extractTitle(content)
+  const sections = extractSections(content).map(indexSection)
+
+  // Text before the first heading (or a file without headings) is indexed under the title
+  const lines = content.split(/\r?\n/)
+  const preambleEnd = sections.length > 0 ? sections[0].startLine - 1 : lines.length
+  const preamble = lines.slice(0, preambleEnd).join('\n')
+  if (preamble.trim()) {
+    let endLine = preambleEnd
+    while (endLine > 1 && lines[endLine - 1].trim() === '') endLine--
+    sections.unshift(
+      indexSection({ heading: '', path: [], startLine: 1, endLine, content: preamble }),
+    )
+  }
+
+  return {
+    mtimeMs: stat.mtimeMs,
+    size: stat.size,
+    title,
+    summary: extractSummary(content),
+    sections,
+  }
+}
+
+/**
+ * The index of every markdown file under `directory` (absolute), brought up to date with the
+ * files on disk and saved back to `indexFile` when anything changed
+ */
+export async function refreshDocumentationIndex(
+  directory: string,
+  indexFile: string,
+  exclude: string[] = [],
+): Promise<{ index: DocumentationIndex; refresh: IndexRefresh }> {
+  const previous = readIndex(indexFile, directory)
+  const files = globSync('**/*.md', {
+    cwd: directory,
+    nodir: true,
+    ignore: exclude.map(dir => `**/${dir}/**`),
+  })
+    .map(file => file.split(path.sep).join('/'))
+    .sort()
+
+  const index = emptyIndex(directory)
+  const refresh: IndexRefresh = { indexed: 0, reused: 0, removed: 0 }
+  for (const file of files) {
+    const filePath = path.join(directory, file)
+    const stat = await fs.promises.stat(filePath)
+    const known = previous.files[file]
+    if (known && known.mtimeMs === stat.mtimeMs && known.size === stat.size) {
+      index.files[file] = known
+      refresh.reused++
+      continue
+    }
+    index.files[file] = indexMarkdown(await fs.promises.readFile(filePath, 'utf-8'), stat)
+    refresh.indexed++
+  }
+  refresh.removed = Object.keys(previous.files).filter(file => !index.files[file]).length
+
+  if (refresh.indexed > 0 || refresh.removed > 0 || !fs.existsSync(indexFile)) {
+    await writeIndex(indexFile, index)
+  }
+  return { index, refresh }
+}
+
+interface ParsedQuery {
+  terms: string[] // Every distinct stem, phrases' included
+  phrases: Token[][]
+}
+
+// `form "field array" validation` -> terms form, field, array, valid; one phrase
+export function parseQuery(query: string): ParsedQuery {
+  const phrases: Token[][] = []
+  const rest = query.replace(/"([^"]*)"/g, (_, phrase: string) => {
+    const tokens = tokenize(phrase)
+    if (tokens.length > 1) phrases.push(tokens)
+    // A one-word phrase is just a term
+    return tokens.length === 1 ? ` ${phrase} ` : ' '
+  })
+  const terms = [
+    ...tokenize(rest.replace(/"/g, ' ')).map(token => token.term),
+    ...phrases.flat().map(token => token.term),
+  ]
+  return { terms: [...new Set(terms)], phrases }
+}
+
+// Whether the phrase's terms appear at the same distances from each other as in the query
+function containsPhrase(section: IndexedSection, phrase: Token[]): boolean {
+  const [first, ...others] = phrase
+  const positions = others.map(token => new Set(section.terms[token.term] || []))
+  return (section.terms[first.term] || []).some(start =>
+    others.every((token, i) => positions[i].has(start + token.position - first.position)),
+  )
+}
+
+function termFrequency(section: IndexedSection, term: string): number {
+  const positions = section.terms[term] || []
+  const inHeading = positions.filter(position => position < section.bodyStart).length
+  return positions.length + (HEADING_WEIGHT - 1) * inHeading
+}
+
+// The line of the section with the most query terms, and its neighbours unless they're blank
+function snippetFor(lines: string[], section: IndexedSection, terms: Set<string>) {
+  const termsOn = (line: number) =>
+    new Set(
+      tokenize(lines[line - 1] || '')
+        .map(token => token.term)
+        .filter(term => terms.has(term)),
+    ).size
+  const isBlank = (line: number) => !lines[line - 1]?.trim()
+
+  // The heading only when the text doesn't mention any of them
+  let best = section.startLine
+  let bestCount = section.heading ? 0 : termsOn(best)
+  for (let line = section.startLine + 1; line <= section.endLine; line++) {
+    const count = termsOn(line)
+    if (count > bestCount) {
+      best = line
+      bestCount = count
+    }
+  }
+
+  const startLine = best > section.startLine && !isBlank(best - 1) ? best - 1 : best
+  const endLine = best < section.endLine && !isBlank(best + 1) ? best + 1 : best
+  let text = lines.slice(startLine - 1, endLine).join('\n')
+  if (text.length > MAX_SNIPPET_LENGTH) text = text.substring(0, MAX_SNIPPET_LENGTH - 3) + '...'
+  return { startLine, endLine, text }
+}
+
+// The best `limit` sections for `query`, best first
+export async function searchDocumentationIndex(
+  index: DocumentationIndex,
+  query: string,
+  limit: number,
+): Promise<SearchHit[]> {
+  const { terms, phrases } = parseQuery(query)
+  if (terms.length === 0) return []
+
+  const sections = Object.entries(index.files).flatMap(([file, indexed]) =>
+    indexed.sections.map(section => ({ file, title: indexed.title, section })),
+  )
+  if (sections.length === 0) return []
+  const averageLength =
+    sections.reduce((total, { section }) => total + section.length, 0) / sections.length || 1
+
+  const idf = new Map(
+    terms.map(term => {
+      const containing = sections.filter(({ section }) => section.terms[term]).length
+      const value = Math.log(1 + (sections.length - containing + 0.5) / (containing + 0.5))
+      return [term, value]
+    }),
+  )
+
+  const scored = sections.flatMap(entry => {
+    const { section } = entry
+    if (!phrases.every(phrase => containsPhrase(section, phrase))) return []
+    const normalizer = K1 * (1 - B + (B * section.length) / averageLength)
+    const score = terms.reduce((total, term) => {
+      const frequency = termFrequency(section, term)
+      return total + (idf.get(term)! * frequency * (K1 + 1)) / (frequency + normalizer)
+    }, 0)
+    return score > 0 ? [{ ...entry, score }] : []
+  })
+  scored.sort((a, b) => b.score - a.score)
+
+  const lines = new Map<string, string[]>()
+  const termSet = new Set(terms)
+  const hits: SearchHit[] = []
+  for (const { file, title, section, score } of scored.slice(0, limit)) {
+    if (!lines.has(file)) {
+      const content = await fs.promises.readFile(path.join(index.directory, file), 'utf-8')
+      lines.set(file, content.split(/\r?\n/))
+    }
+    hits.push({
+      file,
+      title,
+      heading: section.heading || title,
+      headingPath: section.path,
+      startLine: section.startLine,
+      endLine: section.endLine,
+      score: Math.round(score * 1000) / 1000,
+      snippet: snippetFor(lines.get(file)!, section, termSet),
+    })
+  }
+  return hits
+}
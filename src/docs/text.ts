@@ -0,0 +1,138 @@
+/**
+ * Tokenising and stemming for the documentation index
+ *   - Words are runs of letters and digits, lowercased; markdown punctuation and link targets
+ *     are dropped
+ *   - Stop words aren't indexed but keep their position, so a phrase still has to appear with
+ *     the same gaps
+ *   - English words are reduced to their Porter stem: `validating`, `validation` and
+ *     `validates` all index as `valid`
+ */
+
+export interface Token {
+  term: string // The stem
+  position: number // The word's index in the text, counting stop words
+}
+
+// Bump when tokenising or stemming changes, so persisted indexes are rebuilt
+export const TOKENIZER_VERSION = 1
+
+const STOP_WORDS = new Set(
+  (
+    'a an and are as at be but by for from has have if in into is it its of on or so such ' +
+    'that the their then there these they this to was were will with'
+  ).split(' '),
+)
+
+const WORD = /[\p{L}\p{N}]+/gu
+const LINK_TARGET = /\]\([^)]*\)/g
+
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  let position = 0
+  for (const [word] of text.replace(LINK_TARGET, ']').toLowerCase().matchAll(WORD)) {
+    if (!STOP_WORDS.has(word)) tokens.push({ term: stem(word), position })
+    position++
+  }
+  return tokens
+}
+
+// Porter's algorithm (https://tartarus.org/martin/PorterStemmer/)
+const CONSONANT = '[^aeiou]'
+const VOWEL = '[aeiouy]'
+const CONSONANTS = `${CONSONANT}[^aeiouy]*`
+const VOWELS = `${VOWEL}[aeiou]*`
+const MEASURE_ABOVE_0 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}`)
+const MEASURE_1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}(${VOWELS})?$`)
+const MEASURE_ABOVE_1 = new RegExp(`^(${CONSONANTS})?${VOWELS}${CONSONANTS}${VOWELS}${CONSONANTS}`)
+const HAS_VOWEL = new RegExp(`^(${CONSONANTS})?${VOWEL}`)
+const ENDS_CVC = new RegExp(`^${CONSONANTS}${VOWEL}[^aeiouwxy]$`)
+
+const STEP_2: Record<string, string> = {
+  ational: 'ate',
+  tional: 'tion',
+  enci: 'ence',
+  anci: 'ance',
+  izer: 'ize',
+  bli: 'ble',
+  alli: 'al',
+  entli: 'ent',
+  eli: 'e',
+  ousli: 'ous',
+  ization: 'ize',
+  ation: 'ate',
+  ator: 'ate',
+  alism: 'al',
+  iveness: 'ive',
+  fulness: 'ful',
+  ousness: 'ous',
+  aliti: 'al',
+  iviti: 'ive',
+  biliti: 'ble',
+  logi: 'log',
+}
+
+const STEP_3: Record<string, string> = {
+  icate: 'ic',
+  ative: '',
+  alize: 'al',
+  iciti: 'ic',
+  ical: 'ic',
+  ful: '',
+  ness: '',
+}
+
+const STEP_2_SUFFIX = new RegExp(`^(.+?)(${Object.keys(STEP_2).join('|')})$`)
+const STEP_3_SUFFIX = new RegExp(`^(.+?)(${Object.keys(STEP_3).join('|')})$`)
+const STEP_4_SUFFIX =
+  /^(.+?)(al|ance|ence|er|ic|able|ible|ant|ement|ment|ent|ou|ism|ate|iti|ous|ive|ize)$/
+
+export function stem(word: string): string {
+  // Numbers, identifiers with digits and non-English words are kept as they are
+  if (word.length < 3 || !/^[a-z]+$/.test(word)) return word
+
+  // A leading y is a consonant
+  let w = word[0] === 'y' ? `Y${word.slice(1)}` : word
+  let match: RegExpMatchArray | null
+
+  // Step 1a: plurals
+  if ((match = w.match(/^(.+?)(ss|i)es$/))) w = match[1] + match[2]
+  else if ((match = w.match(/^(.+?)([^s])s$/))) w = match[1] + match[2]
+
+  // Step 1b: -eed, -ed, -ing
+  if ((match = w.match(/^(.+?)eed$/))) {
+    if (MEASURE_ABOVE_0.test(match[1])) w = w.slice(0, -1)
+  } else if ((match = w.match(/^(.+?)(ed|ing)$/)) && HAS_VOWEL.test(match[1])) {
+    w = match[1]
+    if (/(at|bl|iz)$/.test(w)) w += 'e'
+    else if (/([^aeiouylsz])\1$/.test(w)) w = w.slice(0, -1)
+    else if (ENDS_CVC.test(w)) w += 'e'
+  }
+
+  // Step 1c: -y after a vowel
+  if ((match = w.match(/^(.+?)y$/)) && HAS_VOWEL.test(match[1])) w = `${match[1]}i`
+
+  // Steps 2 and 3: double and single suffixes
+  if ((match = w.match(STEP_2_SUFFIX)) && MEASURE_ABOVE_0.test(match[1])) {
+    w = match[1] + STEP_2[match[2]]
+  }
+  if ((match = w.match(STEP_3_SUFFIX)) && MEASURE_ABOVE_0.test(match[1])) {
+    w = match[1] + STEP_3[match[2]]
+  }
+
+  // Step 4: -ant, -ence...
+  if ((match = w.match(STEP_4_SUFFIX))) {
+    if (MEASURE_ABOVE_1.test(match[1])) w = match[1]
+  } else if ((match = w.match(/^(.+?)([st])ion$/))) {
+    const base = match[1] + match[2]
+    if (MEASURE_ABOVE_1.test(base)) w = base
+  }
+
+  // Step 5: a final -e, and -ll
+  if ((match = w.match(/^(.+?)e$/))) {
+    const base = match[1]
+    if (MEASURE_ABOVE_1.test(base) || (MEASURE_1.test(base) && !ENDS_CVC.test(base))) w = base
+  }
+  if (/ll$/.test(w) && MEASURE_ABOVE_1.test(w)) w = w.slice(0, -1)
+
+  return w[0] === 'Y' ? `y${w.slice(1)}` : w
+}
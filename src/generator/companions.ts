@@ -0,0 +1,250 @@
+import fs from 'fs'
+import path from 'path'
+import { PlannedFile } from '../codemods/changeSet.js'
+import { getWorkspaceRoots, isWithin } from '../workspace.js'
+import { fieldLabel, FieldSpec } from './fields.js'
+import type { Formatting, TestPlacement } from './style.js'
+
+/**
+ * Companion files for generated components
+ *   - A test (`Name.test.tsx`) with Testing Library, for Vitest or Jest depending on what the
+ *     nearest package.json uses; next to the component or in `__tests__`, as the project does
+ *   - A Storybook story (`Name.stories.tsx`, CSF 3)
+ *   - An export in the output directory's barrel `index.ts`, added to the existing file in its
+ *     style when there is one, else in the project's
+ *   - Written against the props the built-in templates give each component type
+ */
+
+export type ComponentType = 'form' | 'field' | 'display' | 'page' | 'layout'
+
+export type Companion = 'test' | 'story' | 'index'
+
+export type TestFramework = 'vitest' | 'jest'
+
+export interface CompanionOptions {
+  name: string
+  type: ComponentType
+  directory: string // Absolute; the output directory, where the barrel is
+  file: string // Absolute; the component's file, in the directory or a folder of its own
+  tests?: TestPlacement | null // Defaults to a colocated `.test.tsx`
+  fields: Pick<FieldSpec, 'name' | 'label' | 'required'>[]
+  code: string // The component's source
+  formatting?: Formatting // The project's, for a barrel with no exports to follow yet
+}
+
+const STORY_GROUPS: Record<ComponentType, string> = {
+  form: 'Forms',
+  field: 'Fields',
+  display: 'Components',
+  page: 'Pages',
+  layout: 'Layouts',
+}
+
+const FIELD_EXAMPLE_IMPORTS = [
+  "import { useForm } from 'react-hook-form';",
+  "import { Form } from '@/components/ui/form';",
+]
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')
+}
+
+function findPackageJson(directory: string): string | null {
+  const root = getWorkspaceRoots().find(candidate => isWithin(candidate, directory))
+  let dir = directory
+  while (true) {
+    const candidate = path.join(dir, 'package.json')
+    if (fs.existsSync(candidate)) return candidate
+    const parent = path.dirname(dir)
+    if (parent === dir || (root && dir === root)) return null
+    dir = parent
+  }
+}
+
+export function detectTestFramework(directory: string): TestFramework {
+  const packageJson = findPackageJson(directory)
+  if (!packageJson) return 'vitest'
+  try {
+    const { dependencies = {}, devDependencies = {} } = JSON.parse(
+      fs.readFileSync(packageJson, 'utf-8'),
+    )
+    const installed = { ...dependencies, ...devDependencies }
+    if ('vitest' in installed) return 'vitest'
+    return 'jest' in installed ? 'jest' : 'vitest'
+  } catch {
+    return 'vitest'
+  }
+}
+
+// `./Name`, `../Name` or `./Name/Name`: the component's module as seen from a directory
+function moduleSpecifier(fromDirectory: string, file: string): string {
+  const specifier = path
+    .relative(fromDirectory, file)
+    .split(path.sep)
+    .join('/')
+    .replace(/\.[jt]sx?$/, '')
+    .replace(/\/index$/, '')
+  return specifier.startsWith('.') ? specifier : `./${specifier}`
+}
+
+// Companions are named after the component's file: `contact-form.test.tsx` for `contact-form.tsx`
+function baseName(options: CompanionOptions): string {
+  const base = path.basename(options.file).replace(/\.[jt]sx?$/, '')
+  return base === 'index' ? options.name : base
+}
+
+function isDefaultExport(options: CompanionOptions): boolean {
+  const named = new RegExp(`export\\s+(function|const|class)\\s+${options.name}\\b`)
+  return !named.test(options.code) && /export\s+default\b/.test(options.code)
+}
+
+// How a file in the directory imports the component: named, or the default export under its name
+function importStatement(options: CompanionOptions, fromDirectory: string): string {
+  const specifier = moduleSpecifier(fromDirectory, options.file)
+  return isDefaultExport(options)
+    ? `import ${options.name} from '${specifier}';`
+    : `import { ${options.name} } from '${specifier}';`
+}
+
+// A form bound to a field component, as the field template expects
+function fieldExample(name: string): string {
+  return `function Example() {
+  const form = useForm({ defaultValues: { value: '' } });
+  return (
+    <Form {...form}>
+      <${name} form={form} name="value" label="Value" />
+    </Form>
+  );
+}`
+}
+
+export function testFile(options: CompanionOptions, framework: TestFramework): PlannedFile {
+  const { name, type, fields } = options
+  const { location, suffix } = options.tests || { location: 'colocated', suffix: '.test' }
+  const componentDirectory = path.dirname(options.file)
+  const directory =
+    location === '__tests__' ? path.join(componentDirectory, '__tests__') : componentDirectory
+  const mock = framework === 'vitest' ? 'vi.fn()' : 'jest.fn()'
+  const imports = [
+    type === 'form'
+      ? "import { fireEvent, render, screen, waitFor } from '@testing-library/react';"
+      : "import { render, screen } from '@testing-library/react';",
+    ...(framework === 'vitest' ? ["import { describe, expect, it, vi } from 'vitest';"] : []),
+    ...(type === 'field' ? FIELD_EXAMPLE_IMPORTS : []),
+    importStatement(options, directory),
+  ]
+
+  const cases: string[] = []
+  if (type === 'form') {
+    const labels = fields
+      .map(field => {
+        const label = escapeRegex(fieldLabel(field))
+        return `    expect(screen.getByLabelText(/${label}/)).toBeTruthy();`
+      })
+      .join('\n')
+    cases.push(`  it('renders its fields', () => {
+    render(<${name} onSubmit={${mock}} />);
+${labels || "    expect(screen.getByRole('button', { name: /submit/i })).toBeTruthy();"}
+  });`)
+
+    if (fields.some(field => field.required)) {
+      cases.push(`  it('does not submit without the required fields', async () => {
+    const onSubmit = ${mock};
+    render(<${name} onSubmit={onSubmit} />);
+    fireEvent.click(screen.getByRole('button', { name: /submit/i }));
+    await waitFor(() => expect(onSubmit).not.toHaveBeenCalled());
+  });`)
+    }
+  } else if (type === 'field') {
+    cases.push(`  it('renders its label', () => {
+    render(<Example />);
+    expect(screen.getByLabelText(/Value/)).toBeTruthy();
+  });`)
+  } else {
+    cases.push(`  it('renders', () => {
+    const { container } = render(<${name} />);
+    expect(container.firstChild).toBeTruthy();
+  });`)
+  }
+
+  const example = type === 'field' ? `\n${fieldExample(name)}\n` : ''
+  return {
+    path: path.join(directory, `${baseName(options)}${suffix}.tsx`),
+    content: `${imports.join('\n')}
+${example}
+describe('${name}', () => {
+${cases.join('\n\n')}
+});
+`,
+  }
+}
+
+export function storyFile(options: CompanionOptions): PlannedFile {
+  const { name, type } = options
+  const directory = path.dirname(options.file)
+  const imports = [
+    "import type { Meta, StoryObj } from '@storybook/react';",
+    ...(type === 'field' ? FIELD_EXAMPLE_IMPORTS : []),
+    importStatement(options, directory),
+  ]
+  const story =
+    type === 'form'
+      ? '{\n  args: {\n    onSubmit: data => console.log(data),\n  },\n}'
+      : type === 'field'
+        ? '{\n  render: () => <Example />,\n}'
+        : '{}'
+  const example = type === 'field' ? `\n${fieldExample(name)}\n` : ''
+
+  return {
+    path: path.join(directory, `${baseName(options)}.stories.tsx`),
+    content: `${imports.join('\n')}
+
+const meta: Meta<typeof ${name}> = {
+  title: '${STORY_GROUPS[type]}/${name}',
+  component: ${name},
+};
+
+export default meta;
+
+type Story = StoryObj<typeof ${name}>;
+${example}
+export const Default: Story = ${story};
+`,
+  }
+}
+
+// Adds the component to the directory's index.ts, in the quote and semicolon style it uses
+export function barrelFile(options: CompanionOptions): PlannedFile {
+  const { name, formatting } = options
+  const isDefault = isDefaultExport(options)
+  const specifier = moduleSpecifier(options.directory, options.file)
+  const update = (existing: string) => {
+    const alreadyExported = new RegExp(`from\\s+['"]${escapeRegex(specifier)}(\\.[jt]sx?)?['"]`)
+    if (alreadyExported.test(existing)) return existing
+
+    let quote = /from\s+"/.test(existing) && !/from\s+'/.test(existing) ? '"' : "'"
+    let semicolon = /from\s+['"][^'"]+['"]\s*$/m.test(existing) ? '' : ';'
+    if (!/from\s+['"]/.test(existing) && formatting) {
+      quote = formatting.quotes === 'double' ? '"' : "'"
+      semicolon = formatting.semicolons ? ';' : ''
+    }
+    const binding = isDefault ? `{ default as ${name} }` : `{ ${name} }`
+    const line = `export ${binding} from ${quote}${specifier}${quote}${semicolon}\n`
+    const separator = existing === '' || existing.endsWith('\n') ? '' : '\n'
+    return existing + separator + line
+  }
+  return { path: path.join(options.directory, 'index.ts'), content: update(''), update }
+}
+
+export function companionFiles(companions: Companion[], options: CompanionOptions): PlannedFile[] {
+  return companions.map(companion => {
+    switch (companion) {
+      case 'test':
+        return testFile(options, detectTestFramework(options.directory))
+      case 'story':
+        return storyFile(options)
+      case 'index':
+        return barrelFile(options)
+    }
+  })
+}
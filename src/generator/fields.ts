@@ -0,0 +1,799 @@
+import { z } from 'zod'
+import {
+  closestMember,
+  hasServiceMember,
+  loadServiceApis,
+  ServiceApi,
+} from '../analysis/serviceApi.js'
+import { ProjectConfig } from '../config.js'
+
+/**
+ * Typed form fields
+ *   - The field spec componentGenerator takes: a kind, whether it's required, validation rules
+ *     and a FormatterService reference
+ *   - Renders each spec as its zod schema, default value and input (the shadcn/ui components the
+ *     built-in templates use), plus the imports those inputs need
+ *   - Fields can be nested: objects render their fields under the object's key, arrays of objects
+ *     as react-hook-form field arrays, arrays of plain values as a list edited on one field
+ *   - Email and phone fields are checked with the ValidationService methods configured in
+ *     validation.methods; references to service members are checked against the services'
+ *     sources and unknown ones come back as warnings
+ */
+
+export const FIELD_KINDS = [
+  'string',
+  'textarea',
+  'email',
+  'phone',
+  'url',
+  'password',
+  'number',
+  'date',
+  'select',
+  'radio',
+  'checkbox',
+] as const
+
+export type FieldKind = (typeof FIELD_KINDS)[number]
+
+const message = z.string().optional() // Replaces the default error message
+
+export const ValidationRuleSchema = z.discriminatedUnion('rule', [
+  // Length for text, the value for numbers, an ISO date (YYYY-MM-DD) for dates
+  z.object({ rule: z.literal('min'), value: z.union([z.number(), z.string()]), message }),
+  z.object({ rule: z.literal('max'), value: z.union([z.number(), z.string()]), message }),
+  // An inline regex, or a ValidationService member holding one (`patterns.zip`)
+  z.object({
+    rule: z.literal('pattern'),
+    regex: z.string().optional(),
+    flags: z.string().optional(),
+    ref: z.string().optional(),
+    message,
+  }),
+  // A boolean ValidationService method called with the value (`isValidZip`)
+  z.object({ rule: z.literal('service'), method: z.string(), message }),
+])
+
+export const FieldSpecSchema = z.object({
+  name: z.string(),
+  type: z.enum(FIELD_KINDS).default('string'),
+  label: z.string().optional(), // Defaults to the capitalised name
+  required: z.boolean().default(false),
+  requiredMessage: z.string().optional(),
+  validations: z.array(ValidationRuleSchema).default([]),
+  // FormatterService: a formatValue type ('phone'), or a method and the type it's passed
+  formatter: z
+    .union([z.string(), z.object({ method: z.string(), type: z.string().optional() })])
+    .optional(),
+  options: z // For select and radio fields
+    .array(z.union([z.string(), z.object({ value: z.string(), label: z.string() })]))
+    .optional(),
+  placeholder: z.string().optional(),
+})
+
+export type ValidationRule = z.infer<typeof ValidationRuleSchema>
+export type FieldSpec = z.infer<typeof FieldSpecSchema>
+
+export interface RenderedFields {
+  schema: string // The z.object() entries, one per line
+  defaultValues: string // The defaultValues entries, one per line
+  formFields: string // A <FormField> per field
+  imports: string[] // For the inputs the fields use
+  warnings: string[]
+}
+
+// A form's fields with their nesting: an object's fields sit under its key, and an array repeats
+// its item's fields (a field array) or holds plain values (a list, `field` being one of them)
+export type FormNode =
+  // dateValue: the form holds a Date; numberValue: a number, for schemas that don't coerce
+  | { node: 'field'; field: FieldSpec; dateValue?: boolean; numberValue?: boolean }
+  | { node: 'object'; name: string; label?: string; required: boolean; children: FormNode[] }
+  | { node: 'array'; name: string; label?: string; required: boolean; children: FormNode[] }
+  | { node: 'list'; field: FieldSpec }
+
+export interface RenderedFormNodes extends RenderedFields {
+  fieldArrays: string[] // A useFieldArray() call per field array, for the component's body
+}
+
+// A field as the renderer sees it
+type RenderedField = FieldSpec & { dateValue?: boolean; numberValue?: boolean }
+
+interface RenderContext {
+  validationService: string
+  formatterService: string
+  methods: Record<string, string>
+  apis: Map<string, ServiceApi>
+  warnings: string[]
+}
+
+const TEXT_KINDS = new Set<FieldKind>([
+  'string',
+  'textarea',
+  'email',
+  'phone',
+  'url',
+  'password',
+  'date',
+])
+
+const INPUT_TYPES: Partial<Record<FieldKind, string>> = {
+  email: 'email',
+  phone: 'tel',
+  url: 'url',
+  password: 'password',
+  number: 'number',
+  date: 'date',
+}
+
+const UI_IMPORTS: Record<string, { names: string[]; module: string }> = {
+  button: { names: ['Button'], module: '@/components/ui/button' },
+  input: { names: ['Input'], module: '@/components/ui/input' },
+  textarea: { names: ['Textarea'], module: '@/components/ui/textarea' },
+  select: {
+    names: ['Select', 'SelectContent', 'SelectItem', 'SelectTrigger', 'SelectValue'],
+    module: '@/components/ui/select',
+  },
+  radio: { names: ['RadioGroup', 'RadioGroupItem'], module: '@/components/ui/radio-group' },
+  checkbox: { names: ['Checkbox'], module: '@/components/ui/checkbox' },
+}
+
+// The label the form template renders for a field
+export function fieldLabel(field: { name: string; label?: string }): string {
+  return field.label || field.name.charAt(0).toUpperCase() + field.name.slice(1)
+}
+
+function quote(text: string): string {
+  return `'${text.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+}
+
+// Text for a JSX child, as an expression when it has characters JSX would read
+function jsxText(text: string): string {
+  return /[{}<>]/.test(text) ? `{${quote(text)}}` : text
+}
+
+function indent(text: string, spaces: number): string {
+  const prefix = ' '.repeat(spaces)
+  return text
+    .split('\n')
+    .map(line => (line ? prefix + line : line))
+    .join('\n')
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : quote(name)
+}
+
+function regexLiteral(source: string, flags = ''): string {
+  return `/${source.replace(/(^|[^\\])\//g, '$1\\/')}/${flags}`
+}
+
+function checkMember(context: RenderContext, service: string, member: string): void {
+  const api = context.apis.get(service)
+  if (hasServiceMember(api, member) !== false) return
+  const suggestion = closestMember(api!, member)
+  context.warnings.push(
+    `${service}.${member} doesn't exist${suggestion ? `; did you mean ${suggestion}?` : ''}`,
+  )
+}
+
+// The configured ValidationService method for a kind, unless the service is known to lack it
+function kindMethod(context: RenderContext, kind: FieldKind): string | null {
+  const method = context.methods[kind]
+  if (!method) return null
+  const api = context.apis.get(context.validationService)
+  return hasServiceMember(api, method) === false ? null : method
+}
+
+function optionValues(field: FieldSpec): { value: string; label: string }[] {
+  return (field.options || []).map(option =>
+    typeof option === 'string' ? { value: option, label: option } : option,
+  )
+}
+
+function formatterCall(field: FieldSpec, context: RenderContext, value: string): string | null {
+  if (!field.formatter) return null
+  const { method, type } =
+    typeof field.formatter === 'string'
+      ? { method: 'formatValue', type: field.formatter }
+      : field.formatter
+  checkMember(context, context.formatterService, method)
+  const args = type ? `${value}, ${quote(type)}` : value
+  return `${context.formatterService}.${method}(${args})`
+}
+
+// The zod schema of one field
+function fieldSchema(field: RenderedField, context: RenderContext): string {
+  const kind = field.type || 'string'
+  const label = fieldLabel(field)
+  const { validationService } = context
+  if (field.dateValue) {
+    const text = quote(field.requiredMessage || `${label} is required`)
+    return field.required
+      ? `z.coerce.date({ required_error: ${text}, invalid_type_error: ${text} })`
+      : 'z.coerce.date().optional()'
+  }
+
+  const checks: string[] = [] // Methods of the base schema
+  const refinements: string[] = [] // Applied after them
+  const withMessage = (fallback: string, custom?: string) => quote(custom || fallback)
+  const ignore = (rule: ValidationRule) =>
+    context.warnings.push(`${field.name}: the ${rule.rule} rule doesn't apply to ${kind} fields`)
+
+  for (const rule of field.validations || []) {
+    switch (rule.rule) {
+      case 'min':
+      case 'max': {
+        const bound = rule.rule === 'min' ? 'at least' : 'at most'
+        if (kind === 'date' && typeof rule.value === 'string') {
+          const operator = rule.rule === 'min' ? '>=' : '<='
+          const text = withMessage(`${label} must be ${bound} ${rule.value}`, rule.message)
+          const check = `value => !value || value ${operator} ${quote(rule.value)}`
+          refinements.push(`.refine(${check}, ${text})`)
+        } else if (typeof rule.value === 'number' && (TEXT_KINDS.has(kind) || kind === 'number')) {
+          const unit = kind === 'number' ? '' : ' characters'
+          const text = withMessage(`${label} must be ${bound} ${rule.value}${unit}`, rule.message)
+          checks.push(`.${rule.rule}(${rule.value}, ${text})`)
+        } else {
+          ignore(rule)
+        }
+        break
+      }
+      case 'pattern': {
+        if (!TEXT_KINDS.has(kind)) {
+          ignore(rule)
+          break
+        }
+        if (!rule.regex === !rule.ref) {
+          context.warnings.push(`${field.name}: a pattern rule needs either regex or ref`)
+          break
+        }
+        if (rule.ref) checkMember(context, validationService, rule.ref.split('.')[0])
+        const pattern = rule.ref
+          ? `${validationService}.${rule.ref}`
+          : regexLiteral(rule.regex!, rule.flags)
+        checks.push(`.regex(${pattern}, ${withMessage(`${label} is invalid`, rule.message)})`)
+        break
+      }
+      case 'service': {
+        checkMember(context, validationService, rule.method)
+        const text = withMessage(`${label} is invalid`, rule.message)
+        refinements.push(`.refine(value => ${validationService}.${rule.method}(value), ${text})`)
+        break
+      }
+    }
+  }
+
+  const required = field.required || false
+  const requiredMessage = quote(field.requiredMessage || `${label} is required`)
+
+  if (kind === 'checkbox') {
+    const base = 'z.boolean()'
+    const mustCheck = required
+      ? [`.refine(value => value, ${quote(field.requiredMessage || `${label} must be checked`)})`]
+      : []
+    return base + [...mustCheck, ...refinements].join('')
+  }
+
+  if (kind === 'select' || kind === 'radio') {
+    const options = optionValues(field)
+    if (options.length > 0) {
+      const values = options.map(option => quote(option.value)).join(', ')
+      return required
+        ? `z.enum([${values}], { required_error: ${requiredMessage} })${refinements.join('')}`
+        : `z.enum([${values}])${refinements.join('')}.optional()`
+    }
+    context.warnings.push(`${field.name}: ${kind} fields need options`)
+  }
+
+  if (kind === 'number') {
+    const base = required
+      ? `z.coerce.number({ invalid_type_error: ${requiredMessage} })`
+      : 'z.coerce.number()'
+    return base + checks.join('') + refinements.join('') + (required ? '' : '.optional()')
+  }
+
+  // Text: the kind's own check, then the rules
+  const method = kindMethod(context, kind)
+  if (method) {
+    const text = quote(`Enter a valid ${kind === 'phone' ? 'phone number' : kind}`)
+    refinements.unshift(`.refine(value => ${validationService}.${method}(value), ${text})`)
+  } else if (kind === 'email' || kind === 'url') {
+    checks.unshift(`.${kind}(${quote(`Enter a valid ${kind}`)})`)
+  } else if (kind === 'date') {
+    const text = quote('Enter a valid date')
+    refinements.unshift(`.refine(value => !Number.isNaN(Date.parse(value)), ${text})`)
+  }
+
+  if (required) checks.unshift(`.min(1, ${requiredMessage})`)
+  const schema = 'z.string()' + checks.join('') + refinements.join('')
+  // An optional field may stay empty, whatever its other rules say
+  return required || schema === 'z.string()' ? schema : `${schema}.or(z.literal(''))`
+}
+
+function defaultValue(field: RenderedField): string {
+  const kind = field.type || 'string'
+  if (kind === 'checkbox') return 'false'
+  if (kind === 'number' || field.dateValue) return 'undefined'
+  if ((kind === 'select' || kind === 'radio') && optionValues(field).length > 0) return 'undefined'
+  return "''"
+}
+
+// An item appended to a field array needs a value for every required field
+function appendValue(field: RenderedField): string {
+  if (!field.required) return defaultValue(field)
+  const [option] = optionValues(field)
+  if (field.type === 'number') return '0'
+  if (field.dateValue) return 'new Date()'
+  if ((field.type === 'select' || field.type === 'radio') && option) return quote(option.value)
+  return defaultValue(field)
+}
+
+// The control for a field bound to `field` from FormField's render prop, and the UI it uses.
+// `bound` controls take their placeholder and disabled state from the field template's props.
+function fieldControl(
+  field: RenderedField,
+  context: RenderContext,
+  bound = false,
+): { jsx: string; uses: string } {
+  const kind = field.type || 'string'
+  const placeholder = bound
+    ? ' placeholder={placeholder}'
+    : field.placeholder
+      ? ` placeholder=${JSON.stringify(field.placeholder)}`
+      : ''
+  const disabled = bound ? ' disabled={disabled}' : ''
+  const formatted = formatterCall(field, context, 'field.value')
+
+  if (formatted && !TEXT_KINDS.has(kind) && kind !== 'number') {
+    context.warnings.push(`${field.name}: formatters only apply to text and number inputs`)
+  }
+
+  const options = optionValues(field)
+  if (kind === 'select' && options.length > 0) {
+    const items = options
+      .map(option => {
+        const value = JSON.stringify(option.value)
+        return `<SelectItem value=${value}>${jsxText(option.label)}</SelectItem>`
+      })
+      .join('\n')
+    return {
+      uses: 'select',
+      jsx: `<Select onValueChange={field.onChange} defaultValue={field.value}${disabled}>
+  <FormControl>
+    <SelectTrigger>
+      <SelectValue${placeholder} />
+    </SelectTrigger>
+  </FormControl>
+  <SelectContent>
+${indent(items, 4)}
+  </SelectContent>
+</Select>`,
+    }
+  }
+
+  if (kind === 'radio' && options.length > 0) {
+    const items = options
+      .map(
+        option => `<FormItem className="flex items-center gap-2">
+  <FormControl>
+    <RadioGroupItem value=${JSON.stringify(option.value)} />
+  </FormControl>
+  <FormLabel>${jsxText(option.label)}</FormLabel>
+</FormItem>`,
+      )
+      .join('\n')
+    return {
+      uses: 'radio',
+      jsx: `<FormControl>
+  <RadioGroup onValueChange={field.onChange} defaultValue={field.value}${disabled}>
+${indent(items, 4)}
+  </RadioGroup>
+</FormControl>`,
+    }
+  }
+
+  if (kind === 'checkbox') {
+    return {
+      uses: 'checkbox',
+      jsx: `<FormControl>
+  <Checkbox checked={field.value} onCheckedChange={field.onChange}${disabled} />
+</FormControl>`,
+    }
+  }
+
+  // The date input works in strings; the form keeps the Date
+  if (field.dateValue) {
+    return {
+      uses: 'input',
+      jsx: `<FormControl>
+  <Input
+    type="date"${placeholder}
+    {...field}
+    value={field.value ? field.value.toISOString().slice(0, 10) : ''}
+    onChange={event => field.onChange(event.target.valueAsDate ?? undefined)}${disabled}
+  />
+</FormControl>`,
+    }
+  }
+
+  // The input gives a string, which only a z.coerce.number() schema accepts
+  if (field.numberValue && kind === 'number' && !formatted) {
+    return {
+      uses: 'input',
+      jsx: `<FormControl>
+  <Input
+    type="number"${placeholder}
+    {...field}
+    value={field.value ?? ''}
+    onChange={event =>
+      field.onChange(event.target.value === '' ? undefined : event.target.valueAsNumber)
+    }${disabled}
+  />
+</FormControl>`,
+    }
+  }
+
+  const value = formatted ? ` value={${formatted}}` : ''
+  const attributes = `${placeholder} {...field}${value}${disabled}`
+  if (kind === 'textarea') {
+    return {
+      uses: 'textarea',
+      jsx: `<FormControl>\n  <Textarea${attributes} />\n</FormControl>`,
+    }
+  }
+
+  // A formatted number is displayed as text, and stored without the formatting
+  const formattedNumber = Boolean(formatted) && kind === 'number'
+  const type = formattedNumber ? 'text' : INPUT_TYPES[kind]
+  const typeAttribute = type ? ` type="${type}"` : ''
+  const inputMode = formattedNumber ? ' inputMode="decimal"' : ''
+  const number = formattedNumber
+    ? " onChange={event => field.onChange(event.target.value.replace(/[^\\d.-]/g, ''))}"
+    : kind === 'number'
+      ? " value={field.value ?? ''}"
+      : ''
+  return {
+    uses: 'input',
+    jsx: `<FormControl>
+  <Input${typeAttribute}${inputMode}${attributes}${number} />
+</FormControl>`,
+  }
+}
+
+// `name` is the attribute's value: a string, or an expression for the fields of a field array
+function formField(field: FieldSpec, control: string, name = JSON.stringify(field.name)): string {
+  const label = `<FormLabel>${jsxText(fieldLabel(field))}</FormLabel>`
+  // Checkboxes sit before their label
+  const item =
+    field.type === 'checkbox'
+      ? `<FormItem className="flex items-center gap-2">
+${indent(control, 2)}
+  ${label}
+  <FormMessage />
+</FormItem>`
+      : `<FormItem>
+  ${label}
+${indent(control, 2)}
+  <FormMessage />
+</FormItem>`
+  return `<FormField
+  control={form.control}
+  name=${name}
+  render={({ field }) => (
+${indent(item, 4)}
+  )}
+/>`
+}
+
+function uiImports(uses: Set<string>): string[] {
+  return [...uses]
+    .sort()
+    .map(use => `import { ${UI_IMPORTS[use].names.join(', ')} } from '${UI_IMPORTS[use].module}';`)
+}
+
+function createRenderContext(config: ProjectConfig): RenderContext {
+  const { validationService, formatterService, methods } = config.validation
+  return {
+    validationService,
+    formatterService,
+    methods,
+    apis: loadServiceApis(config),
+    warnings: [],
+  }
+}
+
+interface RenderState {
+  context: RenderContext
+  uses: Set<string>
+  fieldArrays: string[]
+}
+
+interface RenderedNode {
+  key: string
+  schema: string
+  defaultValue: string
+  appendValue: string
+  jsx: string
+}
+
+// Where a node sits: `address.`, or `phones.${index}.` for the items of a field array
+interface Scope {
+  path: string
+  inArray: boolean
+}
+
+// A FormField's name attribute
+function nameAttribute(scope: Scope, name: string): string {
+  return scope.inArray ? `{\`${scope.path}${name}\`}` : JSON.stringify(`${scope.path}${name}`)
+}
+
+function objectLiteral(entries: [string, string][]): string {
+  if (entries.length === 0) return '{}'
+  const lines = entries.map(([key, value]) => indent(`${propertyKey(key)}: ${value},`, 2))
+  return `{\n${lines.join('\n')}\n}`
+}
+
+function fieldset(label: string, body: string): string {
+  return `<fieldset className="space-y-4">
+  <legend className="font-medium">${jsxText(label)}</legend>
+${indent(body, 2)}
+</fieldset>`
+}
+
+// An array of plain values on one FormField: an input per item, or a checkbox per option
+function listField(field: FieldSpec, name: string, state: RenderState): string {
+  const kind = field.type || 'string'
+  const items = '(field.value ?? [])'
+  const label = `<FormLabel>${jsxText(fieldLabel(field))}</FormLabel>`
+  const options = optionValues(field)
+  let body: string
+
+  if ((kind === 'select' || kind === 'radio') && options.length > 0) {
+    state.uses.add('checkbox')
+    body = options
+      .map(option => {
+        const value = quote(option.value)
+        return `<FormItem className="flex items-center gap-2">
+  <FormControl>
+    <Checkbox
+      checked={field.value?.includes(${value})}
+      onCheckedChange={checked =>
+        field.onChange(
+          checked
+            ? [...${items}, ${value}]
+            : ${items}.filter(item => item !== ${value}),
+        )
+      }
+    />
+  </FormControl>
+  <FormLabel>${jsxText(option.label)}</FormLabel>
+</FormItem>`
+      })
+      .join('\n')
+  } else {
+    state.uses.add('input')
+    state.uses.add('button')
+    const type = INPUT_TYPES[kind] ? ` type="${INPUT_TYPES[kind]}"` : ''
+    const parse = kind === 'number' ? 'Number(event.target.value)' : 'event.target.value'
+    const empty = kind === 'number' ? '0' : "''"
+    body = `{field.value?.map((value, itemIndex) => (
+  <div key={itemIndex} className="flex gap-2">
+    <FormControl>
+      <Input${type}
+        value={value}
+        onChange={event =>
+          field.onChange(
+            ${items}.map((item, i) => (i === itemIndex ? ${parse} : item)),
+          )
+        }
+      />
+    </FormControl>
+    <Button
+      type="button"
+      variant="outline"
+      onClick={() => field.onChange(${items}.filter((_, i) => i !== itemIndex))}
+    >
+      Remove
+    </Button>
+  </div>
+))}
+<Button
+  type="button"
+  variant="outline"
+  onClick={() => field.onChange([...${items}, ${empty}])}
+>
+  Add
+</Button>`
+  }
+
+  return `<FormField
+  control={form.control}
+  name=${name}
+  render={({ field }) => (
+    <FormItem>
+      ${label}
+${indent(body, 6)}
+      <FormMessage />
+    </FormItem>
+  )}
+/>`
+}
+
+function camelCase(path: string): string {
+  return path
+    .split('.')
+    .map((part, index) => (index === 0 ? part : part.charAt(0).toUpperCase() + part.slice(1)))
+    .join('')
+}
+
+function renderNode(node: FormNode, scope: Scope, state: RenderState): RenderedNode | null {
+  const { context } = state
+  const renderChildren = (children: FormNode[], childScope: Scope) =>
+    children.flatMap(child => renderNode(child, childScope, state) || [])
+
+  switch (node.node) {
+    case 'field': {
+      const field: RenderedField = {
+        ...node.field,
+        dateValue: node.dateValue,
+        numberValue: node.numberValue,
+      }
+      const control = fieldControl(field, context)
+      state.uses.add(control.uses)
+      return {
+        key: field.name,
+        schema: fieldSchema(field, context),
+        defaultValue: defaultValue(field),
+        appendValue: appendValue(field),
+        jsx: formField(field, control.jsx, nameAttribute(scope, field.name)),
+      }
+    }
+
+    case 'object': {
+      const childScope = { ...scope, path: `${scope.path}${node.name}.` }
+      const children = renderChildren(node.children, childScope)
+      const entries = (value: (child: RenderedNode) => string) =>
+        objectLiteral(children.map(child => [child.key, value(child)]))
+      return {
+        key: node.name,
+        schema: `z.object(${entries(child => child.schema)})${node.required ? '' : '.optional()'}`,
+        defaultValue: entries(child => child.defaultValue),
+        appendValue: entries(child => child.appendValue),
+        jsx: fieldset(
+          fieldLabel(node),
+          children.map(child => child.jsx).join('\n\n'),
+        ),
+      }
+    }
+
+    case 'array': {
+      const path = `${scope.path}${node.name}`
+      // Hooks can't be called per item, so a field array's items can't hold another
+      if (scope.inArray) {
+        const at = path.replace(/\.\$\{index\}\./g, '[].')
+        context.warnings.push(`${at}: field arrays in field arrays aren't generated`)
+        return null
+      }
+      const array = `${camelCase(path)}Array`
+      state.fieldArrays.push(
+        `const ${array} = useFieldArray({ control: form.control, name: '${path}' });`,
+      )
+      state.uses.add('button')
+
+      const children = renderChildren(node.children, { path: `${path}.\${index}.`, inArray: true })
+      const item = objectLiteral(children.map(child => [child.key, child.appendValue]))
+      const schema = objectLiteral(children.map(child => [child.key, child.schema]))
+      const body = `{${array}.fields.map((item, index) => (
+  <div key={item.id} className="space-y-4 rounded-md border p-4">
+${indent(children.map(child => child.jsx).join('\n\n'), 4)}
+    <Button type="button" variant="outline" onClick={() => ${array}.remove(index)}>
+      Remove
+    </Button>
+  </div>
+))}
+<Button
+  type="button"
+  variant="outline"
+  onClick={() =>
+    ${array}.append(${indent(item, 4).trimStart()})
+  }
+>
+  Add
+</Button>`
+      return {
+        key: node.name,
+        schema: `z.array(z.object(${schema}))${node.required ? '' : '.optional()'}`,
+        defaultValue: '[]',
+        appendValue: '[]',
+        jsx: fieldset(fieldLabel(node), body),
+      }
+    }
+
+    case 'list': {
+      const { field } = node
+      const label = fieldLabel(field)
+      const item = { ...field, required: true, requiredMessage: `Fill in or remove each ${label}` }
+      return {
+        key: field.name,
+        schema: `z.array(${fieldSchema(item, context)})${field.required ? '' : '.optional()'}`,
+        defaultValue: '[]',
+        appendValue: '[]',
+        jsx: listField(field, nameAttribute(scope, field.name), state),
+      }
+    }
+  }
+}
+
+// Schema entries, default values, form fields and field arrays for the form template
+export function renderFormNodes(nodes: FormNode[], config: ProjectConfig): RenderedFormNodes {
+  const state: RenderState = {
+    context: createRenderContext(config),
+    uses: new Set(),
+    fieldArrays: [],
+  }
+  const root = { path: '', inArray: false }
+  const rendered = nodes.flatMap(node => renderNode(node, root, state) || [])
+
+  return {
+    schema: rendered.map(node => indent(`${propertyKey(node.key)}: ${node.schema},`, 2)).join('\n'),
+    defaultValues: rendered
+      .map(node => indent(`${propertyKey(node.key)}: ${node.defaultValue},`, 6))
+      .join('\n'),
+    formFields: rendered.map(node => indent(node.jsx, 8)).join('\n\n'),
+    fieldArrays: state.fieldArrays,
+    imports: uiImports(state.uses),
+    warnings: [...new Set(state.context.warnings)],
+  }
+}
+
+// Schema entries, default values and form fields for the form template
+export function renderFields(fields: FieldSpec[], config: ProjectConfig): RenderedFields {
+  const { fieldArrays, ...rendered } = renderFormNodes(
+    fields.map(field => ({ node: 'field', field })),
+    config,
+  )
+  return rendered
+}
+
+// The control for the field template, which binds one field through its props
+export function renderFieldControl(
+  field: FieldSpec,
+  config: ProjectConfig,
+): { control: string; imports: string[]; warnings: string[] } {
+  const context = createRenderContext(config)
+  const { jsx, uses } = fieldControl(field, context, true)
+  return {
+    control: jsx,
+    imports: uiImports(new Set([uses])),
+    warnings: [...new Set(context.warnings)],
+  }
+}
+
+// A line per field for the LLM prompt
+export function describeField(field: FieldSpec, config: ProjectConfig): string {
+  const { validationService, formatterService } = config.validation
+  const parts = [`${field.type || 'string'}${field.required ? ', required' : ''}`]
+  if (field.label) parts.push(`label "${field.label}"`)
+  const options = optionValues(field)
+  if (options.length > 0) parts.push(`options: ${options.map(option => option.value).join(', ')}`)
+  for (const rule of field.validations || []) {
+    const pattern =
+      rule.rule === 'pattern' &&
+      (rule.ref ? `${validationService}.${rule.ref}` : regexLiteral(rule.regex || '', rule.flags))
+    const text =
+      rule.rule === 'pattern'
+        ? `matches ${pattern}`
+        : rule.rule === 'service'
+          ? `${validationService}.${rule.method}(value) is true`
+          : `${rule.rule} ${rule.value}`
+    parts.push(rule.message ? `${text} ("${rule.message}")` : text)
+  }
+  if (field.formatter) {
+    const { method, type } =
+      typeof field.formatter === 'string'
+        ? { method: 'formatValue', type: field.formatter }
+        : field.formatter
+    parts.push(`displayed with ${formatterService}.${method}(value${type ? `, '${type}'` : ''})`)
+  }
+  return `- ${field.name}: ${parts.join('; ')}`
+}
@@ -0,0 +1,193 @@
+import fs from 'fs'
+import { listSourceFiles } from '../analysis/graph.js'
+import { ExportShape, readExportShape, ShapeProperty, ShapeType } from '../analysis/typeShape.js'
+import { getValidationCatalog } from '../analysis/validationCatalog.js'
+import { ProjectConfig } from '../config.js'
+import { getWorkspaceRoots, resolveWorkspacePath, toWorkspaceRelative } from '../workspace.js'
+import { describeField, FieldKind, FieldSpec, FormNode } from './fields.js'
+
+/**
+ * Forms scaffolded from an existing zod schema or TypeScript type
+ *   - `from` names the export: `userSchema`, `User`, or `src/api/types.ts#User`; bare names are
+ *     looked up among the validation library's schemas first (validationSystem's `schemas`), then
+ *     in every source file of the workspace
+ *   - The shape comes from the type checker (see analysis/typeShape.ts) and becomes the form's
+ *     fields: kinds from the types, zod checks and names, required unless optional, nested
+ *     objects, and arrays as field arrays or lists
+ *   - A schema is imported by the form as is; a type gets a schema generated from its shape
+ */
+
+export interface FormSource {
+  shape: ExportShape
+  nodes: FormNode[]
+  fields: FieldSpec[] // The top-level plain fields, for companions and the LLM prompt
+  warnings: string[]
+}
+
+// Kinds a string property's name implies, when its schema doesn't say
+const NAME_KINDS: [RegExp, FieldKind][] = [
+  [/e-?mail/i, 'email'],
+  [/phone|mobile|^tel$/i, 'phone'],
+  [/url|website|homepage|link/i, 'url'],
+  [/password|secret/i, 'password'],
+  [/description|notes?$|bio$|comment|message|summary/i, 'textarea'],
+]
+
+// zod checks that imply a kind
+const HINT_KINDS: Record<string, FieldKind> = {
+  email: 'email',
+  url: 'url',
+  date: 'date',
+  datetime: 'date',
+}
+
+function stringKind(property: ShapeProperty): FieldKind {
+  const hinted = property.hints.find(hint => HINT_KINDS[hint])
+  if (hinted) return HINT_KINDS[hinted]
+  return NAME_KINDS.find(([pattern]) => pattern.test(property.name))?.[1] || 'string'
+}
+
+// `shipTo` -> `Ship to`
+function humanize(name: string): string {
+  const words = name
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .trim()
+    .toLowerCase()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+// A plain field for a property of type `type`; null for what a form can't edit
+function plainField(property: ShapeProperty, type: ShapeType): FieldSpec | null {
+  const base = {
+    name: property.name,
+    label: humanize(property.name),
+    required: !property.optional,
+    validations: [],
+  }
+  switch (type.kind) {
+    case 'string':
+      return { ...base, type: stringKind(property) }
+    case 'number':
+      return { ...base, type: 'number' }
+    case 'boolean':
+      return { ...base, type: 'checkbox', required: false }
+    case 'date':
+      return { ...base, type: 'date' }
+    case 'enum':
+      return { ...base, type: type.values.length <= 3 ? 'radio' : 'select', options: type.values }
+    default:
+      return null
+  }
+}
+
+function group(property: ShapeProperty) {
+  return { name: property.name, label: humanize(property.name), required: !property.optional }
+}
+
+function toNodes(properties: ShapeProperty[], path: string, warnings: string[]): FormNode[] {
+  return properties.flatMap((property): FormNode[] => {
+    const { type } = property
+    const at = `${path}${property.name}`
+    const skip = (reason: string) => {
+      warnings.push(`${at} (${type.text}) ${reason}; add it to the form by hand`)
+      return []
+    }
+
+    if (type.kind === 'object') {
+      const children = toNodes(type.properties, `${at}.`, warnings)
+      if (children.length === 0) return skip('has no fields a form can edit')
+      return [{ node: 'object', ...group(property), children }]
+    }
+
+    if (type.kind === 'array') {
+      const { element } = type
+      if (element.kind === 'object') {
+        const children = toNodes(element.properties, `${at}.[].`, warnings)
+        if (children.length === 0) return skip('has items with no fields a form can edit')
+        return [{ node: 'array', ...group(property), children }]
+      }
+      const item = plainField(property, element)
+      if (!item || item.type === 'checkbox' || item.type === 'date') {
+        return skip("isn't a list a form can edit")
+      }
+      // Several values of an enum are picked from the options
+      const field = item.options ? { ...item, type: 'select' as const } : item
+      return [{ node: 'list', field }]
+    }
+
+    const field = plainField(property, type)
+    if (!field) return skip("isn't a type a form can edit")
+    const dateValue = type.kind === 'date'
+    return [{ node: 'field', field, dateValue, numberValue: type.kind === 'number' }]
+  })
+}
+
+const exportPattern = (name: string) => {
+  const escaped = name.replace(/\$/g, '\\$')
+  return new RegExp(`export\\s+(?:declare\\s+)?(?:const|let|var|type|interface)\\s+${escaped}\\b`)
+}
+
+// The file that exports `name`: the validation library's schema of that name, or the one source
+// file in the workspace that declares it
+function findSourceFile(name: string, config: ProjectConfig): string {
+  const schemas = getValidationCatalog(config).entries.filter(
+    entry => entry.kind === 'schema' && entry.exported && entry.name === name,
+  )
+  if (schemas.length === 1) return resolveWorkspacePath(schemas[0].location.file)
+
+  const pattern = exportPattern(name)
+  const matches = listSourceFiles(getWorkspaceRoots(), config.exclude).filter(file =>
+    pattern.test(fs.readFileSync(file, 'utf-8')),
+  )
+  if (matches.length === 1) return matches[0]
+  if (matches.length === 0) {
+    throw new Error(`No exported zod schema or type named ${name}; pass it as path#${name}`)
+  }
+  const files = matches.map(toWorkspaceRelative).join(', ')
+  throw new Error(`${name} is exported from ${files}; pass the one to use as path#${name}`)
+}
+
+export function loadFormSource(from: string, config: ProjectConfig): FormSource {
+  const separator = from.lastIndexOf('#')
+  const name = separator >= 0 ? from.slice(separator + 1) : from
+  if (!/^[A-Za-z_$][\w$]*$/.test(name)) throw new Error(`'${name}' isn't an export name`)
+  const file =
+    separator >= 0 ? resolveWorkspacePath(from.slice(0, separator)) : findSourceFile(name, config)
+  if (!fs.existsSync(file)) throw new Error(`${from.slice(0, separator)} doesn't exist`)
+
+  const shape = readExportShape(file, name)
+  if (shape.type.kind !== 'object') {
+    throw new Error(`${name} is ${shape.type.text}, not an object a form can edit`)
+  }
+
+  const warnings: string[] = []
+  const nodes = toNodes(shape.type.properties, '', warnings)
+  const fields = nodes.flatMap(node => (node.node === 'field' ? [node.field] : []))
+  return { shape, nodes, fields, warnings }
+}
+
+// The fields for the LLM prompt, nested the way the form nests them
+export function describeFormNodes(nodes: FormNode[], config: ProjectConfig, depth = 0): string {
+  const prefix = '  '.repeat(depth)
+  return nodes
+    .map(node => {
+      switch (node.node) {
+        case 'field': {
+          const line = describeField(node.field, config)
+          return prefix + (node.dateValue ? `${line}; the value is a Date` : line)
+        }
+        case 'list':
+          return `${prefix}${describeField(node.field, config)}; an array of these values`
+        case 'object':
+        case 'array': {
+          const what =
+            node.node === 'object' ? 'an object' : 'an array of objects, edited with useFieldArray'
+          const required = node.required ? ', required' : ''
+          const children = describeFormNodes(node.children, config, depth + 1)
+          return `${prefix}- ${node.name}: ${what}${required}, with:\n${children}`
+        }
+      }
+    })
+    .join('\n')
+}
@@ -0,0 +1,747 @@
+import fs from 'fs'
+import path from 'path'
+import ts from 'typescript'
+import { listSourceFiles } from '../analysis/graph.js'
+import { parseSourceFile } from '../analysis/project.js'
+import { applyTextEdits, TextEdit } from '../codemods/edits.js'
+import { ProjectConfig } from '../config.js'
+import {
+  getWorkspaceRoots,
+  isWithin,
+  resolveWorkspacePath,
+  toWorkspaceRelative,
+} from '../workspace.js'
+import type { ComponentType } from './companions.js'
+
+/**
+ * Component style
+ *   - Samples existing components of the type being generated, from its output directory first
+ *     and then the rest of the workspace, and keeps the conventions most of them share: export
+ *     and declaration style, props naming, the modules UI components come from, formatting,
+ *     file naming and placement, where tests go
+ *   - restyleComponent rewrites generated code to follow them; formatCode applies just the
+ *     formatting (semicolons, quotes, indentation)
+ *   - What each file contributes is cached by mtime; test locations are checked on every call
+ */
+
+// Name.tsx, Name/Name.tsx or Name/index.tsx
+export type FileLayout = 'file' | 'folder' | 'folder-index'
+
+export interface Formatting {
+  semicolons: boolean
+  quotes: 'single' | 'double'
+  indent: string
+}
+
+export interface TestPlacement {
+  location: 'colocated' | '__tests__'
+  suffix: '.test' | '.spec'
+}
+
+export interface SharedImport {
+  module: string
+  names: string[] // What the samples import from it
+  share: number // Fraction of the samples importing it
+}
+
+export interface ComponentStyle {
+  type: ComponentType
+  samples: string[] // Workspace-relative
+  directory: string | null // Workspace-relative; where most samples live
+  fileNaming: 'PascalCase' | 'kebab-case'
+  fileLayout: FileLayout
+  exportStyle: 'named' | 'default'
+  declaration: 'function' | 'arrow'
+  props: { naming: 'ComponentProps' | 'Props'; declaration: 'interface' | 'type' }
+  reactImport: boolean // `import React from 'react'`, which the new JSX transform doesn't need
+  uiLibrary: string | null // e.g. `@/components/ui/*` or `@mui/material`
+  formLibrary: string | null
+  schemaLibrary: string | null
+  imports: SharedImport[] // Imported by at least half of the samples
+  componentSources: Record<string, string> // Component -> the (non-relative) module it comes from
+  tests: TestPlacement | null // null when no sample has a test
+  formatting: Formatting
+}
+
+interface SampleTraits {
+  name: string
+  fileNaming: ComponentStyle['fileNaming']
+  fileLayout: FileLayout
+  exportStyle: ComponentStyle['exportStyle'] | null
+  declaration: ComponentStyle['declaration'] | null
+  propsNaming: ComponentStyle['props']['naming'] | null
+  propsDeclaration: ComponentStyle['props']['declaration'] | null
+  reactImport: boolean
+  imports: Map<string, string[]>
+  semicolons: boolean | null
+  quotes: Formatting['quotes'] | null
+  indent: string | null
+}
+
+const MAX_SAMPLES = 12
+const EXAMPLE_MAX_LINES = 120
+
+const COMPONENT_FILE = /\.[jt]sx$/
+const NON_COMPONENT_FILE = /\.(test|spec|stories)\.[jt]sx$/
+
+const UI_COMPONENTS = new Set([
+  'Button',
+  'Input',
+  'Label',
+  'Select',
+  'Checkbox',
+  'Textarea',
+  'TextField',
+  'Switch',
+  'Card',
+  'Dialog',
+  'Form',
+  'FormField',
+  'FormControl',
+  'FormItem',
+  'FormLabel',
+  'FormMessage',
+])
+const FORM_LIBRARIES = ['react-hook-form', 'formik', 'react-final-form', '@tanstack/react-form']
+const SCHEMA_LIBRARIES = ['zod', 'yup', 'valibot', 'joi', 'superstruct']
+
+// What the built-in templates produce, used for anything the samples don't settle
+const DEFAULT_STYLE: Omit<ComponentStyle, 'type'> = {
+  samples: [],
+  directory: null,
+  fileNaming: 'PascalCase',
+  fileLayout: 'file',
+  exportStyle: 'named',
+  declaration: 'function',
+  props: { naming: 'ComponentProps', declaration: 'interface' },
+  reactImport: true,
+  uiLibrary: '@/components/ui/*',
+  formLibrary: 'react-hook-form',
+  schemaLibrary: 'zod',
+  imports: [],
+  componentSources: {},
+  tests: null,
+  formatting: { semicolons: true, quotes: 'single', indent: '  ' },
+}
+
+// Statements (and members) that end in a semicolon when the project uses them
+const SEMICOLON_KINDS = new Set([
+  ts.SyntaxKind.ImportDeclaration,
+  ts.SyntaxKind.ExportDeclaration,
+  ts.SyntaxKind.ExportAssignment,
+  ts.SyntaxKind.VariableStatement,
+  ts.SyntaxKind.ExpressionStatement,
+  ts.SyntaxKind.ReturnStatement,
+  ts.SyntaxKind.ThrowStatement,
+  ts.SyntaxKind.BreakStatement,
+  ts.SyntaxKind.ContinueStatement,
+  ts.SyntaxKind.TypeAliasDeclaration,
+  ts.SyntaxKind.PropertyDeclaration,
+])
+const MEMBER_KINDS = new Set([ts.SyntaxKind.PropertySignature, ts.SyntaxKind.MethodSignature])
+
+const sampleCache = new Map<
+  string,
+  { mtimeMs: number; type: ComponentType | null; traits: SampleTraits | null }
+>()
+
+function isPascalCase(name: string): boolean {
+  return /^[A-Z][A-Za-z0-9]*$/.test(name)
+}
+
+function componentName(file: string): string {
+  const base = path.basename(file).replace(COMPONENT_FILE, '')
+  return base === 'index' ? path.basename(path.dirname(file)) : base
+}
+
+// The kind of component a file holds, judged by its path and what it uses
+function classify(file: string, text: string): ComponentType | null {
+  if (!/<[A-Za-z]/.test(text)) return null // No JSX
+  const segments = toWorkspaceRelative(file).split('/')
+  const base = path.basename(file).replace(COMPONENT_FILE, '')
+  const name = componentName(file)
+  if (segments.includes('pages') || (segments.includes('app') && base === 'page')) return 'page'
+  if (/layout/i.test(name) || segments.includes('layouts')) return 'layout'
+  if (/(Field|Input|Select|Checkbox|Picker)$/.test(name) || segments.includes('fields')) {
+    return 'field'
+  }
+  if (/\buseForm(ik)?\b|<form[\s>]|<Formik\b/.test(text)) return 'form'
+  return 'display'
+}
+
+function detectIndent(text: string): string | null {
+  let tabs = 0
+  let smallest = Infinity
+  for (const line of text.split('\n')) {
+    const indent = /^[ \t]+/.exec(line)?.[0]
+    if (!indent || /^\s*\*/.test(line)) continue // Doc comment continuation lines
+    if (indent.startsWith('\t')) tabs++
+    else if (indent.length >= 2) smallest = Math.min(smallest, indent.length)
+  }
+  if (tabs > 0 && smallest === Infinity) return '\t'
+  return smallest === Infinity ? null : ' '.repeat(smallest)
+}
+
+// Semicolon-terminated statements against unterminated ones
+function countSemicolons(sourceFile: ts.SourceFile): { with: number; without: number } {
+  const counts = { with: 0, without: 0 }
+  const visit = (node: ts.Node) => {
+    if (SEMICOLON_KINDS.has(node.kind)) {
+      if (node.getText(sourceFile).endsWith(';')) counts.with++
+      else counts.without++
+    }
+    ts.forEachChild(node, visit)
+  }
+  visit(sourceFile)
+  return counts
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  if (!ts.canHaveModifiers(node)) return false
+  return (ts.getModifiers(node) || []).some(modifier => modifier.kind === kind)
+}
+
+function describeSample(file: string, text: string): SampleTraits {
+  const sourceFile = parseSourceFile(file, text)
+  const base = path.basename(file).replace(COMPONENT_FILE, '')
+  const name = componentName(file)
+  const folder = path.basename(path.dirname(file))
+  const fileLayout: FileLayout =
+    base === 'index' ? 'folder-index' : folder === base ? 'folder' : 'file'
+
+  const traits: SampleTraits = {
+    name,
+    fileNaming: isPascalCase(name) ? 'PascalCase' : 'kebab-case',
+    fileLayout,
+    exportStyle: null,
+    declaration: null,
+    propsNaming: null,
+    propsDeclaration: null,
+    reactImport: false,
+    imports: new Map(),
+    semicolons: null,
+    quotes: null,
+    indent: detectIndent(text),
+  }
+
+  let namedExport = false
+  let defaultExport = false
+  const quotes = { single: 0, double: 0 }
+  for (const statement of sourceFile.statements) {
+    if (ts.isImportDeclaration(statement) && ts.isStringLiteral(statement.moduleSpecifier)) {
+      const module = statement.moduleSpecifier.text
+      quotes[statement.moduleSpecifier.getText(sourceFile).startsWith('"') ? 'double' : 'single']++
+      const clause = statement.importClause
+      const names = clause?.name ? [clause.name.text] : []
+      const bindings = clause?.namedBindings
+      if (bindings && ts.isNamespaceImport(bindings)) names.push(bindings.name.text)
+      if (bindings && ts.isNamedImports(bindings)) {
+        names.push(...bindings.elements.map(element => (element.propertyName || element.name).text))
+      }
+      if (module === 'react' && (clause?.name || (bindings && ts.isNamespaceImport(bindings)))) {
+        traits.reactImport = true
+      }
+      traits.imports.set(module, [...(traits.imports.get(module) || []), ...names])
+      continue
+    }
+
+    if (ts.isExportAssignment(statement)) defaultExport = true
+    const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword)
+    const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword)
+
+    const functionName = ts.isFunctionDeclaration(statement) && statement.name?.text
+    if (functionName && isPascalCase(functionName)) {
+      traits.declaration ??= 'function'
+      if (isDefault) defaultExport = true
+      else if (exported) namedExport = true
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        const initializer = declaration.initializer
+        if (!ts.isIdentifier(declaration.name) || !isPascalCase(declaration.name.text)) continue
+        if (!initializer) continue
+        // Arrow functions, also when wrapped: memo(() => ...), forwardRef((props, ref) => ...)
+        const isFunction = (node: ts.Node) =>
+          ts.isArrowFunction(node) || ts.isFunctionExpression(node)
+        const isComponent =
+          isFunction(initializer) ||
+          (ts.isCallExpression(initializer) && initializer.arguments.some(isFunction))
+        if (!isComponent) continue
+        traits.declaration ??= 'arrow'
+        if (exported) namedExport = true
+      }
+    } else if (
+      (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) &&
+      statement.name.text.endsWith('Props') &&
+      !traits.propsNaming
+    ) {
+      traits.propsNaming = statement.name.text === 'Props' ? 'Props' : 'ComponentProps'
+      traits.propsDeclaration = ts.isInterfaceDeclaration(statement) ? 'interface' : 'type'
+    }
+  }
+
+  // A default export only counts when the component isn't also exported by name
+  traits.exportStyle = namedExport ? 'named' : defaultExport ? 'default' : null
+  if (quotes.single + quotes.double > 0) {
+    traits.quotes = quotes.double > quotes.single ? 'double' : 'single'
+  }
+  const semicolons = countSemicolons(sourceFile)
+  if (semicolons.with + semicolons.without > 0) {
+    traits.semicolons = semicolons.with >= semicolons.without
+  }
+  return traits
+}
+
+// The component's test, next to it or in a __tests__ directory beside it
+function findTest(file: string): TestPlacement | null {
+  const directory = path.dirname(file)
+  const base = path.basename(file).replace(COMPONENT_FILE, '')
+  for (const suffix of ['.test', '.spec'] as const) {
+    for (const extension of ['.tsx', '.ts', '.jsx', '.js']) {
+      const testName = `${base}${suffix}${extension}`
+      if (fs.existsSync(path.join(directory, testName))) return { location: 'colocated', suffix }
+      if (fs.existsSync(path.join(directory, '__tests__', testName))) {
+        return { location: '__tests__', suffix }
+      }
+    }
+  }
+  return null
+}
+
+function loadSample(file: string): { type: ComponentType | null; traits: SampleTraits | null } {
+  const { mtimeMs } = fs.statSync(file)
+  const cached = sampleCache.get(file)
+  if (cached && cached.mtimeMs === mtimeMs) return cached
+
+  const text = fs.readFileSync(file, 'utf-8')
+  const type = classify(file, text)
+  const entry = { mtimeMs, type, traits: type ? describeSample(file, text) : null }
+  sampleCache.set(file, entry)
+  return entry
+}
+
+// The most common non-null value; ties go to the first one seen
+function majority<T>(values: (T | null | undefined)[], fallback: T): T {
+  const counts = new Map<T, number>()
+  for (const value of values) {
+    if (value !== null && value !== undefined) counts.set(value, (counts.get(value) || 0) + 1)
+  }
+  let best = fallback
+  let bestCount = 0
+  for (const [value, count] of counts) {
+    if (count > bestCount) {
+      best = value
+      bestCount = count
+    }
+  }
+  return best
+}
+
+// `@/components/ui/button` -> `@/components/ui/*`; packages stay as they are
+function libraryOf(module: string): string {
+  return /\/ui\/[^/]+$/.test(module) ? module.replace(/\/[^/]+$/, '/*') : module
+}
+
+function candidateFiles(type: ComponentType, config: ProjectConfig): string[] {
+  const preferred = resolveWorkspacePath(config.componentGenerator.outputDirs[type])
+  const files = listSourceFiles(getWorkspaceRoots(), config.exclude).filter(
+    file => COMPONENT_FILE.test(file) && !NON_COMPONENT_FILE.test(file),
+  )
+  const inPreferred = (file: string) => isWithin(preferred, file)
+  return [...files.filter(inPreferred), ...files.filter(file => !inPreferred(file))]
+}
+
+export function learnComponentStyle(type: ComponentType, config: ProjectConfig): ComponentStyle {
+  const samples: { file: string; traits: SampleTraits }[] = []
+  for (const file of candidateFiles(type, config)) {
+    if (samples.length >= MAX_SAMPLES) break
+    const sample = loadSample(file)
+    if (sample.type === type && sample.traits) samples.push({ file, traits: sample.traits })
+  }
+  if (samples.length === 0) return { type, ...DEFAULT_STYLE }
+
+  const traits = samples.map(sample => sample.traits)
+  const pick = <K extends keyof SampleTraits>(key: K, fallback: NonNullable<SampleTraits[K]>) =>
+    majority(
+      traits.map(trait => trait[key] as NonNullable<SampleTraits[K]> | null),
+      fallback,
+    )
+
+  const fileLayout = pick('fileLayout', 'file')
+  const directories = samples.map(({ file }) => {
+    const directory = path.dirname(file)
+    return toWorkspaceRelative(fileLayout === 'file' ? directory : path.dirname(directory))
+  })
+
+  // Modules by how many samples import them, and where each component comes from
+  const importers = new Map<string, { count: number; names: Set<string> }>()
+  const sources = new Map<string, string[]>()
+  const uiModules: string[] = []
+  for (const trait of traits) {
+    for (const [module, names] of trait.imports) {
+      const entry = importers.get(module) || { count: 0, names: new Set<string>() }
+      entry.count++
+      names.forEach(name => entry.names.add(name))
+      importers.set(module, entry)
+      if (module.startsWith('.')) continue // Relative to the sample, not to the new component
+      for (const name of names.filter(isPascalCase)) {
+        sources.set(name, [...(sources.get(name) || []), module])
+        if (UI_COMPONENTS.has(name)) uiModules.push(libraryOf(module))
+      }
+    }
+  }
+  const libraryUsed = (libraries: string[]) =>
+    majority(
+      traits.map(trait => libraries.find(library => trait.imports.has(library))),
+      null as string | null,
+    )
+
+  const testPlacement = majority(
+    samples.map(({ file }) => {
+      const test = findTest(file)
+      return test && `${test.location} ${test.suffix}`
+    }),
+    null as string | null,
+  )
+
+  return {
+    type,
+    samples: samples.map(({ file }) => toWorkspaceRelative(file)),
+    directory: majority(directories, null as string | null),
+    fileNaming: pick('fileNaming', 'PascalCase'),
+    fileLayout,
+    exportStyle: pick('exportStyle', DEFAULT_STYLE.exportStyle),
+    declaration: pick('declaration', DEFAULT_STYLE.declaration),
+    props: {
+      naming: pick('propsNaming', DEFAULT_STYLE.props.naming),
+      declaration: pick('propsDeclaration', DEFAULT_STYLE.props.declaration),
+    },
+    reactImport: majority(
+      traits.map(trait => trait.reactImport),
+      DEFAULT_STYLE.reactImport,
+    ),
+    uiLibrary: majority(uiModules, null as string | null),
+    formLibrary: libraryUsed(FORM_LIBRARIES),
+    schemaLibrary: libraryUsed(SCHEMA_LIBRARIES),
+    imports: [...importers]
+      .filter(([, { count }]) => count * 2 >= samples.length)
+      .map(([module, { count, names }]) => ({
+        module,
+        names: [...names],
+        share: Math.round((count / samples.length) * 100) / 100,
+      }))
+      .sort((a, b) => b.share - a.share || a.module.localeCompare(b.module)),
+    componentSources: Object.fromEntries(
+      [...sources].map(([name, modules]) => [name, majority(modules, modules[0])]),
+    ),
+    tests: testPlacement
+      ? {
+          location: testPlacement.split(' ')[0] as TestPlacement['location'],
+          suffix: testPlacement.split(' ')[1] as TestPlacement['suffix'],
+        }
+      : null,
+    formatting: {
+      semicolons: pick('semicolons', DEFAULT_STYLE.formatting.semicolons),
+      quotes: pick('quotes', DEFAULT_STYLE.formatting.quotes),
+      indent: pick('indent', DEFAULT_STYLE.formatting.indent),
+    },
+  }
+}
+
+// Where the component goes: the configured directory unless it doesn't exist and the samples
+// live somewhere else
+export function componentFilePath(
+  name: string,
+  outputDir: string,
+  style: ComponentStyle,
+): { directory: string; file: string } {
+  const configured = resolveWorkspacePath(outputDir)
+  const directory =
+    fs.existsSync(configured) || !style.directory
+      ? configured
+      : resolveWorkspacePath(style.directory)
+  const base =
+    style.fileNaming === 'kebab-case'
+      ? name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase()
+      : name
+  switch (style.fileLayout) {
+    case 'folder':
+      return { directory, file: path.join(directory, base, `${base}.tsx`) }
+    case 'folder-index':
+      return { directory, file: path.join(directory, base, 'index.tsx') }
+    default:
+      return { directory, file: path.join(directory, `${base}.tsx`) }
+  }
+}
+
+// Conventions as instructions for the LLM
+export function describeStyle(style: ComponentStyle): string[] {
+  const { props, formatting } = style
+  const propsName = props.naming === 'Props' ? 'Props' : 'ComponentNameProps'
+  const indentation =
+    formatting.indent === '\t' ? 'tabs' : `${formatting.indent.length}-space indentation`
+  const lines = [
+    style.exportStyle === 'named'
+      ? 'Export the component by name, not as the default export'
+      : 'Export the component as the default export',
+    style.declaration === 'function'
+      ? 'Declare the component as a function declaration'
+      : 'Declare the component as an arrow function assigned to a const',
+    `Declare its props as \`${props.declaration} ${propsName}\``,
+    style.reactImport
+      ? "Import React (`import React from 'react'`)"
+      : "Don't import React just for JSX; import only the hooks and types you use",
+    `Use ${formatting.quotes} quotes, ${formatting.semicolons ? 'semicolons' : 'no semicolons'} ` +
+      `and ${indentation}`,
+  ]
+  if (style.uiLibrary) lines.push(`Build the UI with components from ${style.uiLibrary}`)
+  const sources = Object.entries(style.componentSources).slice(0, 15)
+  if (sources.length > 0) {
+    lines.push(
+      `Import components from where the project does: ${sources
+        .map(([name, module]) => `${name} from '${module}'`)
+        .join(', ')}`,
+    )
+  }
+  return lines
+}
+
+// The shortest sample, as an example of the project's code
+export function exampleComponent(style: ComponentStyle): { file: string; code: string } | null {
+  let example: { file: string; code: string } | null = null
+  for (const file of style.samples) {
+    try {
+      const code = fs.readFileSync(resolveWorkspacePath(file), 'utf-8')
+      if (!example || code.length < example.code.length) example = { file, code }
+    } catch {
+      // Removed since it was sampled
+    }
+  }
+  if (!example) return null
+  const lines = example.code.split('\n')
+  return lines.length > EXAMPLE_MAX_LINES
+    ? { file: example.file, code: `${lines.slice(0, EXAMPLE_MAX_LINES).join('\n')}\n// ...` }
+    : example
+}
+
+// What the response reports about the learned style
+export function summarizeStyle(style: ComponentStyle) {
+  const { type, samples, imports, componentSources, ...conventions } = style
+  return { sampled: samples.length, samples: samples.slice(0, 5), ...conventions }
+}
+
+function hasSyntaxErrors(code: string, fileName: string): boolean {
+  const { diagnostics = [] } = ts.transpileModule(code, {
+    fileName,
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve },
+  })
+  return diagnostics.length > 0
+}
+
+function printImport(module: string, defaultName: string | null, names: string[]): string {
+  const clause = [defaultName, names.length > 0 ? `{ ${names.join(', ')} }` : null]
+    .filter(Boolean)
+    .join(', ')
+  return `import ${clause} from '${module}';`
+}
+
+// Moves UI component imports to the modules the project imports them from, and drops the React
+// default import when the project doesn't use it
+function restyleImports(code: string, fileName: string, style: ComponentStyle): string {
+  const sourceFile = parseSourceFile(fileName, code)
+  const edits: TextEdit[] = []
+  const moved = new Map<string, string[]>()
+  const declarations = sourceFile.statements.filter(ts.isImportDeclaration)
+
+  for (const declaration of declarations) {
+    const clause = declaration.importClause
+    if (!clause || clause.isTypeOnly || !ts.isStringLiteral(declaration.moduleSpecifier)) continue
+    const module = declaration.moduleSpecifier.text
+    let defaultName = clause.name?.text ?? null
+    const bindings = clause.namedBindings
+    if (bindings && !ts.isNamedImports(bindings)) continue
+
+    const kept: string[] = []
+    for (const element of bindings?.elements || []) {
+      const imported = element.name.text
+      const target = UI_COMPONENTS.has(imported) && style.componentSources[imported]
+      if (!element.propertyName && !element.isTypeOnly && target && target !== module) {
+        moved.set(target, [...(moved.get(target) || []), element.name.text])
+      } else {
+        kept.push(element.getText(sourceFile))
+      }
+    }
+    if (module === 'react' && defaultName === 'React' && !style.reactImport) defaultName = null
+    if (kept.length === (bindings?.elements.length || 0) && defaultName === clause.name?.text) {
+      continue
+    }
+    const start = declaration.getStart(sourceFile)
+    edits.push(
+      defaultName || kept.length > 0
+        ? { start, end: declaration.end, newText: printImport(module, defaultName, kept) }
+        : { start, end: code.indexOf('\n', declaration.end) + 1 || code.length, newText: '' },
+    )
+  }
+  if (moved.size === 0) return applyTextEdits(code, edits)
+
+  // Into an existing import of the module, or a new one with the others
+  const lines: string[] = []
+  for (const [module, names] of moved) {
+    const existing = declarations.find(
+      declaration =>
+        ts.isStringLiteral(declaration.moduleSpecifier) &&
+        declaration.moduleSpecifier.text === module &&
+        !edits.some(edit => edit.start === declaration.getStart(sourceFile)),
+    )
+    const clause = existing?.importClause
+    const bindings = clause?.namedBindings
+    if (existing && !clause?.isTypeOnly && (!bindings || ts.isNamedImports(bindings))) {
+      const existingNames = (bindings?.elements || []).map(element => element.getText(sourceFile))
+      const defaultName = clause?.name?.text ?? null
+      edits.push({
+        start: existing.getStart(sourceFile),
+        end: existing.end,
+        newText: printImport(module, defaultName, [...existingNames, ...names]),
+      })
+    } else {
+      lines.push(printImport(module, null, names))
+    }
+  }
+  if (lines.length > 0) {
+    // Before the last import, which may itself be rewritten or removed
+    const last = declarations[declarations.length - 1]
+    const at = last ? last.getStart(sourceFile) : 0
+    edits.push({ start: at, end: at, newText: `${lines.join('\n')}\n` })
+  }
+  return applyTextEdits(code, edits)
+}
+
+// Props naming and declaration, function or arrow, named or default export
+function restyleDeclarations(
+  code: string,
+  fileName: string,
+  name: string,
+  style: ComponentStyle,
+): string {
+  let result = code
+  if (style.props.naming === 'Props') {
+    result = result.replace(new RegExp(`\\b${name}Props\\b`, 'g'), 'Props')
+  }
+  const propsName = style.props.naming === 'Props' ? 'Props' : `${name}Props`
+  const sourceFile = parseSourceFile(fileName, result)
+  const edits: TextEdit[] = []
+  const hasDefaultExport = sourceFile.statements.some(
+    statement =>
+      ts.isExportAssignment(statement) || hasModifier(statement, ts.SyntaxKind.DefaultKeyword),
+  )
+  let exportDefault = false
+
+  for (const statement of sourceFile.statements) {
+    if (
+      style.props.declaration === 'type' &&
+      ts.isInterfaceDeclaration(statement) &&
+      statement.name.text === propsName
+    ) {
+      // interface Props extends Base { ... } -> type Props = Base & { ... };
+      const bases = (statement.heritageClauses || [])
+        .flatMap(clause => clause.types)
+        .map(type => `${type.getText(sourceFile)} & `)
+        .join('')
+      const keyword = result.lastIndexOf('interface', statement.name.getStart(sourceFile))
+      const open = result.indexOf('{', statement.name.end)
+      edits.push(
+        { start: keyword, end: open, newText: `type ${propsName} = ${bases}` },
+        { start: statement.end, end: statement.end, newText: ';' },
+      )
+    }
+
+    const isComponent =
+      ts.isFunctionDeclaration(statement) && statement.name?.text === name && statement.body
+    if (!isComponent || hasModifier(statement, ts.SyntaxKind.DefaultKeyword)) continue
+    const exported = hasModifier(statement, ts.SyntaxKind.ExportKeyword)
+    const named = style.exportStyle === 'named'
+    const start = statement.getStart(sourceFile)
+
+    if (style.declaration === 'arrow') {
+      const body = statement.body!.getStart(sourceFile)
+      edits.push(
+        { start, end: statement.name!.end, newText: `${named ? 'export ' : ''}const ${name} = ` },
+        { start: body, end: body, newText: '=> ' },
+        { start: statement.end, end: statement.end, newText: ';' },
+      )
+    } else if (exported !== named) {
+      const keyword = result.indexOf('function', start)
+      edits.push({ start, end: keyword, newText: named ? 'export ' : '' })
+    }
+    exportDefault = !named && !hasDefaultExport
+  }
+  const restyled = applyTextEdits(result, edits)
+  return exportDefault ? `${restyled.trimEnd()}\n\nexport default ${name};\n` : restyled
+}
+
+// Semicolons, quotes and indentation; code that doesn't parse is returned as it is
+export function formatCode(code: string, fileName: string, formatting: Formatting): string {
+  if (hasSyntaxErrors(code, fileName)) return code
+  const sourceFile = parseSourceFile(fileName, code)
+  const edits: TextEdit[] = []
+  const quote = formatting.quotes === 'single' ? "'" : '"'
+
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isStringLiteral(node) &&
+      !ts.isJsxAttribute(node.parent) &&
+      !ts.isImportTypeNode(node.parent)
+    ) {
+      const raw = node.getText(sourceFile)
+      const inner = raw.slice(1, -1)
+      if (raw[0] !== quote && !inner.includes(quote)) {
+        const start = node.getStart(sourceFile)
+        edits.push({ start, end: node.end, newText: quote + inner + quote })
+      }
+    }
+
+    const isStatement = SEMICOLON_KINDS.has(node.kind)
+    const isMember = MEMBER_KINDS.has(node.kind)
+    if (isStatement || isMember) {
+      const text = node.getText(sourceFile)
+      const following = code.slice(node.end)
+      const lineEnds = /^[ \t]*(\r?\n|$)/.test(following)
+      if (!formatting.semicolons && text.endsWith(';')) {
+        // Keep the ones a following `(`, `[` or template would otherwise continue
+        const next = following.replace(/^(\s|\/\/[^\n]*|\/\*[\s\S]*?\*\/)+/, '')[0]
+        if (!next || !'([`+-/'.includes(next)) {
+          edits.push({ start: node.end - 1, end: node.end, newText: '' })
+        }
+      } else if (formatting.semicolons && !/[;,]$/.test(text) && (isStatement || lineEnds)) {
+        edits.push({ start: node.end, end: node.end, newText: ';' })
+      }
+    }
+    ts.forEachChild(node, visit)
+  }
+  visit(sourceFile)
+
+  let result = applyTextEdits(code, edits)
+  const current = detectIndent(result)
+  if (current && current !== formatting.indent) {
+    const unit = current === '\t' ? 1 : current.length
+    result = result
+      .split('\n')
+      .map(line => {
+        const indent = /^[ \t]*/.exec(line)![0]
+        const width = indent.replace(/\t/g, ' '.repeat(unit)).length
+        const levels = formatting.indent.repeat(Math.floor(width / unit))
+        return levels + ' '.repeat(width % unit) + line.slice(indent.length)
+      })
+      .join('\n')
+  }
+  return result
+}
+
+// Generated code rewritten to follow the learned style
+export function restyleComponent(code: string, name: string, style: ComponentStyle): string {
+  const fileName = `${name}.tsx`
+  if (hasSyntaxErrors(code, fileName)) return code
+  let result = restyleImports(code, fileName, style)
+  result = restyleDeclarations(result, fileName, name, style)
+  return formatCode(result, fileName, style.formatting)
+}
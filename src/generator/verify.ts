@@ -0,0 +1,158 @@
+import fs from 'fs'
+import path from 'path'
+import ts from 'typescript'
+import { getCompilerOptions, getDeclarationFiles, resolveModule } from '../analysis/project.js'
+import { checkContent } from '../checker/check.js'
+import { loadCheckerRules } from '../checker/rules.js'
+import { ProjectConfig } from '../config.js'
+
+/**
+ * Verification of generated components, before they're written
+ *   - Parses the code with the TypeScript compiler, then typechecks it in memory as the file it
+ *     will become, with the project's tsconfig (paths aliases, strictness, its own .d.ts files)
+ *   - Runs the validationChecker rules on it; 'high' findings count as errors, as in the CLI
+ *   - Unused-code diagnostics (noUnusedLocals and friends) are warnings
+ *   - Typechecking is skipped, with a warning, when the project's dependencies aren't installed:
+ *     every JSX element would be an error otherwise
+ */
+
+export interface CodeDiagnostic {
+  stage: 'syntax' | 'types' | 'rules'
+  severity: 'error' | 'warning'
+  code: string // `TS2307`, or the checker rule's id
+  message: string
+  line: number // 1-based
+  column: number // 1-based
+}
+
+// Declared but never read: errors under noUnusedLocals/noUnusedParameters, but nothing's broken
+const UNUSED_CODES = new Set([6133, 6138, 6192, 6196, 6198, 6199, 6205])
+
+// Library and node_modules declarations don't change between checks; parsing them dominates
+const libraryFiles = new Map<string, { mtimeMs: number; sourceFile: ts.SourceFile }>()
+
+// The compiler's file names use forward slashes on every platform
+function isLibraryFile(fileName: string): boolean {
+  return fileName.includes('/node_modules/')
+}
+
+function toDiagnostic(diagnostic: ts.Diagnostic, stage: 'syntax' | 'types'): CodeDiagnostic {
+  const { line, character } =
+    diagnostic.file && diagnostic.start !== undefined
+      ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+      : { line: 0, character: 0 }
+  return {
+    stage,
+    severity:
+      diagnostic.category === ts.DiagnosticCategory.Error && !UNUSED_CODES.has(diagnostic.code)
+        ? 'error'
+        : 'warning',
+    code: `TS${diagnostic.code}`,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    line: line + 1,
+    column: character + 1,
+  }
+}
+
+// A compiler host that serves `code` as `file` and everything else from disk
+function createHost(file: string, code: string, options: ts.CompilerOptions): ts.CompilerHost {
+  const host = ts.createCompilerHost(options, true)
+  const { getSourceFile, fileExists, readFile } = host
+  const isTarget = (fileName: string) => path.resolve(fileName) === file
+
+  host.fileExists = fileName => isTarget(fileName) || fileExists.call(host, fileName)
+  host.readFile = fileName => (isTarget(fileName) ? code : readFile.call(host, fileName))
+  host.getSourceFile = (fileName, languageVersion, onError, shouldCreate) => {
+    if (isTarget(fileName)) return ts.createSourceFile(fileName, code, languageVersion, true)
+    if (!isLibraryFile(fileName)) {
+      return getSourceFile.call(host, fileName, languageVersion, onError, shouldCreate)
+    }
+
+    const mtimeMs = fs.existsSync(fileName) ? fs.statSync(fileName).mtimeMs : -1
+    const cached = libraryFiles.get(fileName)
+    if (cached && cached.mtimeMs === mtimeMs) return cached.sourceFile
+    const sourceFile = getSourceFile.call(host, fileName, languageVersion, onError, shouldCreate)
+    if (sourceFile) libraryFiles.set(fileName, { mtimeMs, sourceFile })
+    return sourceFile
+  }
+  return host
+}
+
+function parse(code: string, file: string): CodeDiagnostic[] {
+  const output = ts.transpileModule(code, {
+    fileName: file,
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve },
+  })
+  return (output.diagnostics || []).map(diagnostic => toDiagnostic(diagnostic, 'syntax'))
+}
+
+function typecheck(code: string, file: string): CodeDiagnostic[] {
+  if (!resolveModule('react', file).resolvedPath) {
+    return [
+      {
+        stage: 'types',
+        severity: 'warning',
+        code: 'skipped',
+        message:
+          "Not typechecked: react's types can't be resolved from here; install the project's " +
+          'dependencies',
+        line: 1,
+        column: 1,
+      },
+    ]
+  }
+
+  const options: ts.CompilerOptions = {
+    ...getCompilerOptions(file),
+    noEmit: true,
+    incremental: false,
+    composite: false,
+    skipLibCheck: true,
+  }
+  const program = ts.createProgram({
+    rootNames: [file, ...getDeclarationFiles(file)],
+    options,
+    host: createHost(file, code, options),
+  })
+  const sourceFile = program.getSourceFile(file)
+  if (!sourceFile) return []
+  return program
+    .getSemanticDiagnostics(sourceFile)
+    .map(diagnostic => toDiagnostic(diagnostic, 'types'))
+}
+
+function checkRules(code: string, file: string, config: ProjectConfig): CodeDiagnostic[] {
+  const { rules } = loadCheckerRules(config)
+  return checkContent(file, code, config, rules, 0).issues.map(issue => ({
+    stage: 'rules',
+    severity: issue.severity === 'high' ? 'error' : 'warning',
+    code: issue.ruleId,
+    message: `${issue.message}: ${issue.suggestion}`,
+    line: issue.line,
+    column: issue.column,
+  }))
+}
+
+// Everything wrong with `code` as the component file `file` (absolute); syntax errors stop there
+export function verifyComponent(
+  code: string,
+  file: string,
+  config: ProjectConfig,
+): CodeDiagnostic[] {
+  const target = path.resolve(file)
+  const syntax = parse(code, target)
+  if (syntax.some(diagnostic => diagnostic.severity === 'error')) return syntax
+  return [...syntax, ...typecheck(code, target), ...checkRules(code, target, config)]
+}
+
+export function hasErrors(diagnostics: CodeDiagnostic[]): boolean {
+  return diagnostics.some(diagnostic => diagnostic.severity === 'error')
+}
+
+// `12:5 TS2322 Type 'string' is not assignable...`, one per line, for the repair prompt
+export function formatDiagnostics(diagnostics: CodeDiagnostic[]): string {
+  return diagnostics
+    .map(({ line, column, code, message }) => `${line}:${column} ${code} ${message}`)
+    .join('\n')
+}
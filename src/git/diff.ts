@@ -0,0 +1,160 @@
+/**
+ * Unified diff parsing
+ *   - Turns `git diff` output into per-file hunks
+ *   - Every line records its number on the old side, the new side, or both (context lines)
+ *   - DiffParser takes one line at a time so large diffs can be parsed as they stream in
+ */
+
+export type DiffLineType = 'add' | 'del' | 'context'
+
+export interface DiffLine {
+  type: DiffLineType
+  content: string
+  oldLine: number | null
+  newLine: number | null
+}
+
+export interface DiffHunk {
+  header: string
+  oldStart: number
+  oldLines: number
+  newStart: number
+  newLines: number
+  lines: DiffLine[]
+}
+
+export interface FileDiff {
+  path: string
+  oldPath: string | null
+  status: 'added' | 'deleted' | 'modified' | 'renamed'
+  binary: boolean
+  additions: number
+  deletions: number
+  hunks: DiffHunk[]
+}
+
+// Git quotes paths with unusual characters: "a/caf\303\251.ts"
+export function unquoteGitPath(value: string): string {
+  if (!value.startsWith('"')) return value
+  const bytes: number[] = []
+  const inner = value.slice(1, -1)
+  for (let i = 0; i < inner.length; i++) {
+    if (inner[i] === '\\') {
+      const next = inner[i + 1]
+      if (/[0-7]/.test(next)) {
+        bytes.push(parseInt(inner.slice(i + 1, i + 4), 8))
+        i += 3
+        continue
+      }
+      const escapes: Record<string, string> = { n: '\n', t: '\t', '"': '"', '\\': '\\' }
+      bytes.push(...Buffer.from(escapes[next] ?? next))
+      i += 1
+      continue
+    }
+    bytes.push(...Buffer.from(inner[i]))
+  }
+  return Buffer.from(bytes).toString('utf-8')
+}
+
+function stripPathPrefix(value: string): string | null {
+  const unquoted = unquoteGitPath(value.trim())
+  if (unquoted === '/dev/null') return null
+  return unquoted.replace(/^[ab]\//, '')
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/
+
+export class DiffParser {
+  private files: FileDiff[] = []
+  private file: FileDiff | null = null
+  private hunk: DiffHunk | null = null
+  private oldLine = 0
+  private newLine = 0
+
+  push(line: string): void {
+    if (line.startsWith('diff --git ')) {
+      const match = line.match(/^diff --git (?:"a\/.*?"|a\/\S+|\S+) (.+)$/)
+      this.file = {
+        path: match ? stripPathPrefix(match[1]) || '' : '',
+        oldPath: null,
+        status: 'modified',
+        binary: false,
+        additions: 0,
+        deletions: 0,
+        hunks: [],
+      }
+      this.hunk = null
+      this.files.push(this.file)
+      return
+    }
+
+    const file = this.file
+    if (!file) return
+
+    // Extended header lines between "diff --git" and the first hunk
+    if (!this.hunk) {
+      if (line.startsWith('new file mode')) {
+        file.status = 'added'
+      } else if (line.startsWith('deleted file mode')) {
+        file.status = 'deleted'
+      } else if (line.startsWith('rename from ')) {
+        file.status = 'renamed'
+        file.oldPath = unquoteGitPath(line.slice('rename from '.length))
+      } else if (line.startsWith('rename to ')) {
+        file.path = unquoteGitPath(line.slice('rename to '.length))
+      } else if (line.startsWith('Binary files ')) {
+        file.binary = true
+      } else if (line.startsWith('+++ ')) {
+        const newPath = stripPathPrefix(line.slice(4))
+        if (newPath) file.path = newPath
+      }
+    }
+
+    const header = line.match(HUNK_HEADER)
+    if (header) {
+      this.hunk = {
+        header: line,
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        lines: [],
+      }
+      this.oldLine = this.hunk.oldStart
+      this.newLine = this.hunk.newStart
+      file.hunks.push(this.hunk)
+      return
+    }
+
+    const hunk = this.hunk
+    if (!hunk) return
+
+    if (line.startsWith('+')) {
+      hunk.lines.push({ type: 'add', content: line.slice(1), oldLine: null, newLine: this.newLine++ })
+      file.additions++
+    } else if (line.startsWith('-')) {
+      hunk.lines.push({ type: 'del', content: line.slice(1), oldLine: this.oldLine++, newLine: null })
+      file.deletions++
+    } else if (line.startsWith(' ')) {
+      hunk.lines.push({
+        type: 'context',
+        content: line.slice(1),
+        oldLine: this.oldLine++,
+        newLine: this.newLine++,
+      })
+    }
+    // "\ No newline at end of file" and blank trailing lines carry no content
+  }
+
+  finish(): FileDiff[] {
+    return this.files
+  }
+}
+
+export function parseUnifiedDiff(diff: string): FileDiff[] {
+  const parser = new DiffParser()
+  for (const line of diff.split('\n')) {
+    parser.push(line)
+  }
+  return parser.finish()
+}
@@ -0,0 +1,144 @@
+import { DiffParser, FileDiff } from './diff.js'
+import { BlameLine, GitStatus, LOG_FORMAT, LogEntry, parseBlame, parseLog, parseStatus } from './parsers.js'
+import { GitError, GitRunOptions, runGit, streamGitLines } from './run.js'
+
+/**
+ * Git module
+ *   - Typed helpers for the git operations tools need (diff, status, log, blame, refs)
+ *   - Everything goes through runGit/streamGitLines: argument arrays, no shell, timeouts
+ */
+
+// A ref starting with '-' would be read as an option, so refuse it outright
+function assertRef(ref: string, args: string[] = []): string {
+  if (!ref || ref.startsWith('-')) {
+    throw new GitError(`Invalid git ref '${ref}'`, args, null, '')
+  }
+  return ref
+}
+
+export async function refExists(cwd: string, ref: string): Promise<boolean> {
+  if (!ref || ref.startsWith('-')) return false
+  try {
+    await runGit(cwd, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`])
+    return true
+  } catch {
+    return false
+  }
+}
+
+export async function revParse(cwd: string, ref: string): Promise<string> {
+  return (await runGit(cwd, ['rev-parse', '--verify', `${assertRef(ref)}^{commit}`])).trim()
+}
+
+export async function mergeBase(cwd: string, a: string, b: string): Promise<string> {
+  return (await runGit(cwd, ['merge-base', assertRef(a), assertRef(b)])).trim()
+}
+
+// origin/HEAD when the remote has one, else a local main or master
+export async function findDefaultBranch(cwd: string): Promise<string> {
+  try {
+    const remoteHead = (
+      await runGit(cwd, ['symbolic-ref', '--quiet', '--short', 'refs/remotes/origin/HEAD'])
+    ).trim()
+    if (remoteHead) return remoteHead
+  } catch {
+    // No remote HEAD; try the usual names
+  }
+
+  for (const candidate of ['main', 'master']) {
+    if (await refExists(cwd, candidate)) return candidate
+  }
+
+  throw new Error(
+    'Could not find the default branch (no origin/HEAD, main or master). Pass a base ref explicitly.',
+  )
+}
+
+// Path of cwd relative to the repository root ('' at the root, else with a trailing '/')
+export async function getPrefix(cwd: string): Promise<string> {
+  return (await runGit(cwd, ['rev-parse', '--show-prefix'])).trim()
+}
+
+// Untracked files that aren't ignored, relative to the repository root
+export async function listUntrackedFiles(
+  cwd: string,
+  options: { pathspec?: string[] } & Pick<GitRunOptions, 'timeoutMs'> = {},
+): Promise<string[]> {
+  const args = ['ls-files', '--others', '--exclude-standard', '--full-name', '-z']
+  const output = await runGit(cwd, [...args, '--', ...(options.pathspec || [])], options)
+  return output.split('\0').filter(Boolean)
+}
+
+export interface DiffOptions extends Pick<GitRunOptions, 'timeoutMs'> {
+  base?: string // Commit or ref to compare against (working tree, or index with `staged`)
+  staged?: boolean // Diff the index instead of the working tree
+  pathspec?: string[]
+  contextLines?: number
+}
+
+// Run `git diff` and parse it as it streams, so large diffs never sit in one buffer
+export async function getDiff(cwd: string, options: DiffOptions = {}): Promise<FileDiff[]> {
+  const args = ['diff', '--no-color', '--no-ext-diff', '-M']
+  if (options.contextLines !== undefined) args.push(`--unified=${options.contextLines}`)
+  if (options.staged) args.push('--cached')
+  if (options.base) args.push(assertRef(options.base))
+  args.push('--', ...(options.pathspec || []))
+
+  const parser = new DiffParser()
+  for await (const line of streamGitLines(cwd, args, options)) {
+    parser.push(line)
+  }
+  return parser.finish()
+}
+
+export async function getStatus(
+  cwd: string,
+  options: { pathspec?: string[] } & Pick<GitRunOptions, 'timeoutMs'> = {},
+): Promise<GitStatus> {
+  const output = await runGit(
+    cwd,
+    ['status', '--porcelain=v2', '--branch', '-z', '--', ...(options.pathspec || [])],
+    options,
+  )
+  return parseStatus(output)
+}
+
+export interface LogOptions extends Pick<GitRunOptions, 'timeoutMs'> {
+  ref?: string
+  maxCount?: number
+  pathspec?: string[]
+}
+
+export async function getLog(cwd: string, options: LogOptions = {}): Promise<LogEntry[]> {
+  const args = ['log', `--format=${LOG_FORMAT}`, `--max-count=${options.maxCount ?? 50}`]
+  if (options.ref) args.push(assertRef(options.ref))
+  args.push('--', ...(options.pathspec || []))
+  return parseLog(await runGit(cwd, args, options))
+}
+
+export interface BlameOptions extends Pick<GitRunOptions, 'timeoutMs'> {
+  ref?: string
+  startLine?: number
+  endLine?: number
+}
+
+export async function getBlame(
+  cwd: string,
+  file: string,
+  options: BlameOptions = {},
+): Promise<BlameLine[]> {
+  const args = ['blame', '--porcelain']
+  if (options.startLine !== undefined) {
+    args.push('-L', `${options.startLine},${options.endLine ?? ''}`)
+  }
+  if (options.ref) args.push(assertRef(options.ref))
+  args.push('--', file)
+  return parseBlame(await runGit(cwd, args, options))
+}
+
+export { DiffParser, parseUnifiedDiff, unquoteGitPath } from './diff.js'
+export type { DiffHunk, DiffLine, DiffLineType, FileDiff } from './diff.js'
+export { parseBlame, parseLog, parseStatus } from './parsers.js'
+export type { BlameLine, GitStatus, LogEntry, StatusEntry } from './parsers.js'
+export { GitError, runGit, streamGitLines } from './run.js'
+export type { GitRunOptions } from './run.js'
@@ -0,0 +1,188 @@
+import { unquoteGitPath } from './diff.js'
+
+/**
+ * Parsers for git's machine-readable output formats
+ *   - status: `git status --porcelain=v2 --branch -z`
+ *   - log: `git log` with LOG_FORMAT below
+ *   - blame: `git blame --porcelain`
+ */
+
+export interface StatusEntry {
+  path: string
+  origPath: string | null // Source path for renames and copies
+  index: string // Staged change: M, A, D, R, C, T, U or '.'
+  workingTree: string // Unstaged change, same letters
+  staged: boolean
+  unstaged: boolean
+  untracked: boolean
+  ignored: boolean
+  conflicted: boolean
+}
+
+export interface GitStatus {
+  branch: string | null // null when HEAD is detached
+  commit: string | null // null before the first commit
+  upstream: string | null
+  ahead: number
+  behind: number
+  entries: StatusEntry[]
+}
+
+export function parseStatus(output: string): GitStatus {
+  const status: GitStatus = {
+    branch: null,
+    commit: null,
+    upstream: null,
+    ahead: 0,
+    behind: 0,
+    entries: [],
+  }
+
+  const records = output.split('\0')
+  for (let i = 0; i < records.length; i++) {
+    const record = records[i]
+    if (!record) continue
+
+    if (record.startsWith('# ')) {
+      const [key, ...rest] = record.slice(2).split(' ')
+      const value = rest.join(' ')
+      if (key === 'branch.oid') status.commit = value === '(initial)' ? null : value
+      if (key === 'branch.head') status.branch = value === '(detached)' ? null : value
+      if (key === 'branch.upstream') status.upstream = value
+      if (key === 'branch.ab') {
+        const match = value.match(/^\+(\d+) -(\d+)$/)
+        if (match) {
+          status.ahead = Number(match[1])
+          status.behind = Number(match[2])
+        }
+      }
+      continue
+    }
+
+    const kind = record[0]
+    const entry: StatusEntry = {
+      path: '',
+      origPath: null,
+      index: '.',
+      workingTree: '.',
+      staged: false,
+      unstaged: false,
+      untracked: false,
+      ignored: false,
+      conflicted: false,
+    }
+
+    if (kind === '?' || kind === '!') {
+      entry.path = record.slice(2)
+      entry.untracked = kind === '?'
+      entry.ignored = kind === '!'
+    } else {
+      // Fields before the path: 1 → 8, 2 → 9 (plus the rename score), u → 10
+      const fieldCount = kind === '1' ? 8 : kind === '2' ? 9 : 10
+      const fields = record.split(' ')
+      entry.path = fields.slice(fieldCount).join(' ')
+      entry.index = fields[1][0]
+      entry.workingTree = fields[1][1]
+      entry.conflicted = kind === 'u'
+      if (kind === '2') {
+        // The original path follows as its own NUL-terminated record
+        entry.origPath = records[++i] || null
+      }
+    }
+
+    entry.staged = entry.index !== '.' && !entry.untracked && !entry.ignored
+    entry.unstaged = entry.workingTree !== '.' && !entry.untracked && !entry.ignored
+    status.entries.push(entry)
+  }
+
+  return status
+}
+
+export interface LogEntry {
+  commit: string
+  parents: string[]
+  authorName: string
+  authorEmail: string
+  authorDate: string
+  subject: string
+  body: string
+}
+
+// Fields separated by US (0x1f), records by RS (0x1e); neither appears in normal text
+export const LOG_FORMAT = '%H%x1f%P%x1f%an%x1f%ae%x1f%aI%x1f%s%x1f%b%x1e'
+
+export function parseLog(output: string): LogEntry[] {
+  return output
+    .split('\x1e')
+    .map(record => record.replace(/^\n/, ''))
+    .filter(record => record.trim() !== '')
+    .map(record => {
+      const [commit, parents, authorName, authorEmail, authorDate, subject, body] =
+        record.split('\x1f')
+      return {
+        commit,
+        parents: parents ? parents.split(' ') : [],
+        authorName,
+        authorEmail,
+        authorDate,
+        subject,
+        body: (body || '').trim(),
+      }
+    })
+}
+
+export interface BlameLine {
+  line: number // Line number in the current file
+  originalLine: number // Line number in the commit that introduced it
+  commit: string
+  authorName: string
+  authorEmail: string
+  authorTime: string // ISO 8601
+  summary: string
+  originalPath: string
+  content: string
+}
+
+export function parseBlame(output: string): BlameLine[] {
+  const commits = new Map<string, Partial<BlameLine>>()
+  const lines: BlameLine[] = []
+  let current: { commit: string; originalLine: number; line: number } | null = null
+
+  for (const line of output.split('\n')) {
+    const header = line.match(/^([0-9a-f]{40}) (\d+) (\d+)/)
+    if (header) {
+      current = { commit: header[1], originalLine: Number(header[2]), line: Number(header[3]) }
+      if (!commits.has(current.commit)) commits.set(current.commit, {})
+      continue
+    }
+    if (!current) continue
+
+    const info = commits.get(current.commit)!
+    if (line.startsWith('\t')) {
+      lines.push({
+        line: current.line,
+        originalLine: current.originalLine,
+        commit: current.commit,
+        authorName: info.authorName || '',
+        authorEmail: info.authorEmail || '',
+        authorTime: info.authorTime || '',
+        summary: info.summary || '',
+        originalPath: info.originalPath || '',
+        content: line.slice(1),
+      })
+      current = null
+    } else if (line.startsWith('author ')) {
+      info.authorName = line.slice('author '.length)
+    } else if (line.startsWith('author-mail ')) {
+      info.authorEmail = line.slice('author-mail '.length).replace(/^<|>$/g, '')
+    } else if (line.startsWith('author-time ')) {
+      info.authorTime = new Date(Number(line.slice('author-time '.length)) * 1000).toISOString()
+    } else if (line.startsWith('summary ')) {
+      info.summary = line.slice('summary '.length)
+    } else if (line.startsWith('filename ')) {
+      info.originalPath = unquoteGitPath(line.slice('filename '.length))
+    }
+  }
+
+  return lines
+}
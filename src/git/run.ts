@@ -0,0 +1,162 @@
+import { spawn } from 'child_process'
+import readline from 'readline'
+
+/**
+ * Git process runner
+ *   - Runs git with an argument array and no shell, so paths and refs can't inject commands
+ *   - Collects output from the stream instead of a fixed maxBuffer, with an explicit size cap
+ *   - Kills git when it exceeds its timeout
+ */
+
+export interface GitRunOptions {
+  timeoutMs?: number
+  maxOutputBytes?: number
+}
+
+export const DEFAULT_GIT_TIMEOUT_MS = 30_000
+export const DEFAULT_GIT_MAX_OUTPUT_BYTES = 256 * 1024 * 1024
+
+export class GitError extends Error {
+  constructor(
+    message: string,
+    public readonly args: string[],
+    public readonly exitCode: number | null,
+    public readonly stderr: string,
+  ) {
+    super(message)
+    this.name = 'GitError'
+  }
+}
+
+// Options every git call gets: no pager, no colour, no prompts for credentials
+function gitEnv(): NodeJS.ProcessEnv {
+  return { ...process.env, GIT_TERMINAL_PROMPT: '0', GIT_PAGER: 'cat', LC_ALL: 'C' }
+}
+
+function describe(args: string[]): string {
+  return `git ${args.join(' ')}`
+}
+
+/**
+ * Run git in `cwd` and resolve with its stdout. Rejects with a GitError on a
+ * non-zero exit, a timeout, or output larger than `maxOutputBytes`.
+ */
+export function runGit(cwd: string, args: string[], options: GitRunOptions = {}): Promise<string> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_GIT_TIMEOUT_MS
+  const maxOutputBytes = options.maxOutputBytes ?? DEFAULT_GIT_MAX_OUTPUT_BYTES
+
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', ['-C', cwd, ...args], {
+      env: gitEnv(),
+      stdio: ['ignore', 'pipe', 'pipe'],
+      shell: false,
+    })
+
+    const chunks: Buffer[] = []
+    let outputBytes = 0
+    let stderr = ''
+    let failure: GitError | null = null
+
+    const fail = (message: string) => {
+      if (failure) return
+      failure = new GitError(message, args, null, stderr)
+      child.kill('SIGKILL')
+    }
+
+    const timer = setTimeout(() => fail(`${describe(args)} timed out after ${timeoutMs}ms`), timeoutMs)
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      outputBytes += chunk.length
+      if (outputBytes > maxOutputBytes) {
+        fail(`${describe(args)} produced more than ${maxOutputBytes} bytes of output`)
+        return
+      }
+      chunks.push(chunk)
+    })
+    child.stderr.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString('utf-8')
+    })
+
+    child.on('error', error => {
+      clearTimeout(timer)
+      reject(new GitError(`Could not run git: ${error.message}`, args, null, stderr))
+    })
+
+    child.on('close', code => {
+      clearTimeout(timer)
+      if (failure) {
+        reject(failure)
+      } else if (code !== 0) {
+        reject(
+          new GitError(
+            `${describe(args)} failed with exit code ${code}${stderr ? `: ${stderr.trim()}` : ''}`,
+            args,
+            code,
+            stderr,
+          ),
+        )
+      } else {
+        resolve(Buffer.concat(chunks).toString('utf-8'))
+      }
+    })
+  })
+}
+
+/**
+ * Stream git's stdout line by line, for output too large to hold at once.
+ * The timeout applies to the whole run; breaking out of the loop stops git.
+ */
+export async function* streamGitLines(
+  cwd: string,
+  args: string[],
+  options: Pick<GitRunOptions, 'timeoutMs'> = {},
+): AsyncGenerator<string> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_GIT_TIMEOUT_MS
+  const child = spawn('git', ['-C', cwd, ...args], {
+    env: gitEnv(),
+    stdio: ['ignore', 'pipe', 'pipe'],
+    shell: false,
+  })
+
+  let stderr = ''
+  let timedOut = false
+  child.stderr.on('data', (chunk: Buffer) => {
+    stderr += chunk.toString('utf-8')
+  })
+
+  const exited = new Promise<number | null>((resolve, reject) => {
+    child.on('error', error =>
+      reject(new GitError(`Could not run git: ${error.message}`, args, null, stderr)),
+    )
+    child.on('close', code => resolve(code))
+  })
+  // Surface spawn errors through the await below rather than as unhandled rejections
+  exited.catch(() => undefined)
+
+  const timer = setTimeout(() => {
+    timedOut = true
+    child.kill('SIGKILL')
+  }, timeoutMs)
+
+  try {
+    for await (const line of readline.createInterface({ input: child.stdout, crlfDelay: Infinity })) {
+      yield line
+    }
+
+    const code = await exited
+    if (timedOut) {
+      throw new GitError(`${describe(args)} timed out after ${timeoutMs}ms`, args, null, stderr)
+    }
+    if (code !== 0) {
+      throw new GitError(
+        `${describe(args)} failed with exit code ${code}${stderr ? `: ${stderr.trim()}` : ''}`,
+        args,
+        code,
+        stderr,
+      )
+    }
+  } finally {
+    clearTimeout(timer)
+    if (child.exitCode === null) child.kill('SIGKILL')
+  }
+}
@@ -1,176 +1,118 @@
-import bodyParser from 'body-parser'
-import cors from 'cors'
-import express, { Request, Response } from 'express'
-import { z } from 'zod'
-import {
-  architectToolDescription,
-  architectToolName,
-  ArchitectToolSchema,
-  runArchitectTool,
-} from './tools/architect'
-import {
-  codeReviewToolDescription,
-  codeReviewToolName,
-  CodeReviewToolSchema,
-  runCodeReviewTool,
-} from './tools/codeReview'
-import {
-  documentationHelperToolDescription,
-  documentationHelperToolName,
-  DocumentationHelperToolSchema,
-  runDocumentationHelperTool,
-} from './tools/documentationHelper'
-import {
-  fileAnalyzerToolDescription,
-  fileAnalyzerToolName,
-  FileAnalyzerToolSchema,
-  runFileAnalyzerTool,
-} from './tools/fileAnalyzer'
-import {
-  projectStructureToolDescription,
-  projectStructureToolName,
-  ProjectStructureToolSchema,
-  runProjectStructureTool,
-} from './tools/projectStructure'
-import {
-  runScreenshotTool,
-  screenshotToolDescription,
-  screenshotToolName,
-  ScreenshotToolSchema,
-} from './tools/screenshot'
-import {
-  runValidationSystemTool,
-  validationSystemToolDescription,
-  validationSystemToolName,
-  ValidationSystemToolSchema,
-} from './tools/validationSystem'
-
-const app = express()
-const port = 3130
-
-app.use(cors())
-app.use(bodyParser.json())
-
-// Define the response structure for a tool
-interface ToolResponse {
-  name: string
-  description: string
-  schema?: Record<string, any>
-}
-
-// Define the basic request structure for invoking a tool
-const InvokeToolRequestSchema = z.object({
-  name: z.string(),
-  arguments: z.record(z.any()).optional(),
-})
+#!/usr/bin/env node
+import 'dotenv/config'
+import path from 'path'
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
+import { getProjectConfig, resolveConfigPaths } from './config.js'
+import { createHttpApp } from './server/http.js'
+import { createMcpServer } from './server/mcp.js'
+import { createToolRegistry, ToolRegistry } from './tools/index.js'
+import { configureWorkspace, getConfiguredWorkspaceRoots, getWorkspaceRoots } from './workspace.js'
 
 /**
- * A simple endpoint to check if the server is running
- */
-app.get('/', (req: Request, res: Response) => {
-  res.send('MCP Server is running!')
-})
-
-/**
- * List available tools
+ * Entry point
+ *   - `cursor-tools` (default): MCP over stdio, which is what Cursor launches
+ *   - `cursor-tools --http [--port 3130]`: MCP over Streamable HTTP at /mcp,
+ *     plus the legacy GET /tools and POST /invoke routes
  *
- * Available tools:
- * - projectStructure: Analyzes the project structure and returns a representation of it
- * - validationSystem: Analyzes the validation and formatting system
- * - fileAnalyzer: Analyzes specific files to extract insights about their structure and patterns
- * - screenshot: Takes a screenshot of a URL or local path
- * - architect: Provides architecture recommendations for a given task and code
- * - codeReview: Reviews code changes against main branch
- * - documentationHelper: Searches through project documentation to find relevant information
+ * The transport can also be picked with MCP_TRANSPORT=stdio|http and the port with PORT.
+ * Extra tool modules are loaded from every `--tools-dir <dir>` and from CURSOR_TOOLS_DIRS, and
+ * from the config's tools.directories only with `--allow-workspace-tools`.
+ * Tools only touch files under the workspace roots (`--workspace <dir>`, CURSOR_TOOLS_WORKSPACE).
+ * Project conventions are read from .cursor-tools.json in the primary workspace root.
+ * API keys come from the environment (or a .env file in the current directory).
  */
-app.get('/tools', (req: Request, res: Response) => {
-  const tools: ToolResponse[] = [
-    {
-      name: projectStructureToolName,
-      description: projectStructureToolDescription,
-      schema: ProjectStructureToolSchema.shape,
-    },
-    {
-      name: validationSystemToolName,
-      description: validationSystemToolDescription,
-      schema: ValidationSystemToolSchema.shape,
-    },
-    {
-      name: fileAnalyzerToolName,
-      description: fileAnalyzerToolDescription,
-      schema: FileAnalyzerToolSchema.shape,
-    },
-    {
-      name: screenshotToolName,
-      description: screenshotToolDescription,
-      schema: ScreenshotToolSchema.shape,
-    },
-    {
-      name: architectToolName,
-      description: architectToolDescription,
-      schema: ArchitectToolSchema.shape,
-    },
-    {
-      name: codeReviewToolName,
-      description: codeReviewToolDescription,
-      schema: CodeReviewToolSchema.shape,
-    },
-    {
-      name: documentationHelperToolName,
-      description: documentationHelperToolDescription,
-      schema: DocumentationHelperToolSchema.shape,
-    },
-  ]
-
-  res.json(tools)
-})
 
-/**
- * Invoke a tool with the provided arguments
- */
-app.post('/invoke', async (req: Request, res: Response) => {
-  try {
-    const parseResult = InvokeToolRequestSchema.safeParse(req.body)
-
-    if (!parseResult.success) {
-      return res.status(400).json({
-        error: 'Invalid request format',
-        details: parseResult.error.format(),
-      })
-    }
-
-    const { name, arguments: args = {} } = parseResult.data
-
-    // Handle different tools
-    switch (name) {
-      case projectStructureToolName:
-        return res.json(await runProjectStructureTool(args))
-      case validationSystemToolName:
-        return res.json(await runValidationSystemTool(args))
-      case fileAnalyzerToolName:
-        return res.json(await runFileAnalyzerTool(args))
-      case screenshotToolName:
-        return res.json(await runScreenshotTool(args))
-      case architectToolName:
-        return res.json(await runArchitectTool(args))
-      case codeReviewToolName:
-        return res.json(await runCodeReviewTool(args))
-      case documentationHelperToolName:
-        return res.json(await runDocumentationHelperTool(args))
-      default:
-        return res.status(404).json({
-          error: `Tool '${name}' not found`,
-        })
-    }
-  } catch (error) {
-    console.error('Error invoking tool:', error)
-    return res.status(500).json({
-      error: 'Internal server error',
-      details: error instanceof Error ? error.message : String(error),
-    })
+const DEFAULT_PORT = 3130
+
+function getFlagValue(argv: string[], flag: string): string | undefined {
+  const index = argv.indexOf(flag)
+  return index >= 0 ? argv[index + 1] : undefined
+}
+
+async function startStdio(registry: ToolRegistry) {
+  const server = createMcpServer(registry)
+  const transport = new StdioServerTransport()
+  await server.connect(transport)
+
+  // stdout carries the protocol, so log to stderr
+  console.error('MCP Server is running on stdio')
+}
+
+function startHttp(registry: ToolRegistry, port: number) {
+  const app = createHttpApp(registry)
+
+  app.listen(port, () => {
+    console.log(`MCP Server is running at http://localhost:${port}`)
+    console.log(`Streamable HTTP endpoint: http://localhost:${port}/mcp`)
+  })
+}
+
+// Extra tool directories come from repeated --tools-dir flags and CURSOR_TOOLS_DIRS
+// (a path-delimiter separated list)
+function getToolDirs(argv: string[]): string[] {
+  const dirs: string[] = []
+  argv.forEach((arg, index) => {
+    if (arg === '--tools-dir' && argv[index + 1]) dirs.push(argv[index + 1])
+  })
+  if (process.env.CURSOR_TOOLS_DIRS) {
+    dirs.push(...process.env.CURSOR_TOOLS_DIRS.split(path.delimiter).filter(Boolean))
   }
-})
+  return dirs
+}
+
+// Tool modules named by the workspace's config run as the server, so loading them is opt-in
+function allowsWorkspaceTools(argv: string[]): boolean {
+  return (
+    argv.includes('--allow-workspace-tools') ||
+    process.env.CURSOR_TOOLS_ALLOW_WORKSPACE_TOOLS === '1'
+  )
+}
+
+async function main() {
+  const argv = process.argv.slice(2)
+
+  const workspaceRoots = getConfiguredWorkspaceRoots(argv)
+  if (workspaceRoots.length > 0) {
+    configureWorkspace(workspaceRoots)
+  }
+
+  // The config file lives in the primary root and may add further roots
+  const config = getProjectConfig()
+  if (config.workspace.additionalRoots.length > 0) {
+    configureWorkspace([
+      ...getWorkspaceRoots(),
+      ...resolveConfigPaths(config.workspace.additionalRoots),
+    ])
+  }
+  console.error(`Workspace roots: ${getWorkspaceRoots().join(', ')}`)
+
+  const workspaceToolDirs = resolveConfigPaths(config.tools.directories)
+  const loadWorkspaceTools = allowsWorkspaceTools(argv)
+  if (workspaceToolDirs.length > 0 && !loadWorkspaceTools) {
+    console.error(
+      'Skipping tools.directories from the workspace config; start the server with ' +
+        '--allow-workspace-tools (or CURSOR_TOOLS_ALLOW_WORKSPACE_TOOLS=1) to load them',
+    )
+  }
+  const registry = await createToolRegistry({
+    toolDirs: [...getToolDirs(argv), ...(loadWorkspaceTools ? workspaceToolDirs : [])],
+  })
+  const transport = argv.includes('--http') ? 'http' : process.env.MCP_TRANSPORT || 'stdio'
+
+  if (transport === 'http') {
+    const port = Number(getFlagValue(argv, '--port') || process.env.PORT || DEFAULT_PORT)
+    startHttp(registry, port)
+    return
+  }
+
+  if (transport !== 'stdio') {
+    throw new Error(`Unknown transport '${transport}'. Use 'stdio' or 'http'.`)
+  }
+
+  await startStdio(registry)
+}
 
-app.listen(port, () => {
-  console.log(`MCP Server is running at http://localhost:${port}`)
+main().catch(error => {
+  console.error('Failed to start MCP server:', error)
+  process.exit(1)
 })
@@ -0,0 +1,119 @@
+import {
+  CompletionRequest,
+  CompletionResult,
+  isRetryableStatus,
+  LlmError,
+  LlmProvider,
+  ModelPurpose,
+  ProviderOptions,
+  retryDelay,
+} from './provider.js'
+
+/**
+ * Anthropic provider
+ *   - Calls the Messages API directly with fetch, so no extra SDK is needed
+ *   - System messages are lifted into the top-level `system` field the API expects
+ */
+
+const ANTHROPIC_DEFAULT_MODELS: Record<ModelPurpose, string> = {
+  architect: 'claude-sonnet-4-5',
+  componentGenerator: 'claude-haiku-4-5',
+  codeReview: 'claude-sonnet-4-5',
+}
+
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com'
+const ANTHROPIC_VERSION = '2023-06-01'
+
+// The Messages API requires max_tokens on every request
+const DEFAULT_MAX_TOKENS = 4096
+
+export class AnthropicProvider implements LlmProvider {
+  readonly name = 'anthropic'
+
+  constructor(private options: ProviderOptions) {}
+
+  isAvailable(): boolean {
+    return Boolean(this.options.apiKey)
+  }
+
+  defaultModel(purpose: ModelPurpose): string {
+    return ANTHROPIC_DEFAULT_MODELS[purpose]
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    if (!this.isAvailable()) {
+      throw new LlmError(
+        'No Anthropic API key configured (ANTHROPIC_API_KEY, or the variable named by llm.apiKeyEnv)',
+        this.name,
+      )
+    }
+
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n')
+    const messages = request.messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({ role: message.role, content: message.content }))
+
+    const baseUrl = (this.options.baseUrl || ANTHROPIC_BASE_URL).replace(/\/$/, '')
+    const body = JSON.stringify({
+      model: request.model,
+      system: system || undefined,
+      messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+    })
+
+    let lastError: LlmError | null = null
+
+    for (let attempt = 0; attempt <= this.options.maxRetries; attempt++) {
+      if (attempt > 0) await retryDelay(attempt - 1)
+
+      let response: Response
+      try {
+        response = await fetch(`${baseUrl}/v1/messages`, {
+          method: 'POST',
+          headers: {
+            'content-type': 'application/json',
+            'x-api-key': this.options.apiKey!,
+            'anthropic-version': ANTHROPIC_VERSION,
+          },
+          body,
+          signal: AbortSignal.timeout(this.options.timeoutMs),
+        })
+      } catch (error) {
+        // Network failures and timeouts are worth another try
+        lastError = new LlmError(error instanceof Error ? error.message : String(error), this.name)
+        continue
+      }
+
+      if (!response.ok) {
+        const text = await response.text()
+        lastError = new LlmError(
+          `Anthropic API returned ${response.status}: ${text}`,
+          this.name,
+          response.status,
+        )
+        if (isRetryableStatus(response.status)) continue
+        throw lastError
+      }
+
+      const data = (await response.json()) as {
+        model?: string
+        content?: { type: string; text?: string }[]
+      }
+
+      return {
+        content: (data.content || [])
+          .filter(block => block.type === 'text')
+          .map(block => block.text || '')
+          .join(''),
+        model: data.model || request.model,
+        provider: this.name,
+      }
+    }
+
+    throw lastError ?? new LlmError('Anthropic request failed', this.name)
+  }
+}
@@ -0,0 +1,36 @@
+import { CompletionRequest, CompletionResult, LlmProvider, ModelPurpose } from './provider.js'
+
+/**
+ * Fake provider
+ *   - Deterministic stand-in for tests and offline runs
+ *   - Replies come from a fixed list (cycled) or a function of the request,
+ *     and every request is recorded for assertions
+ */
+
+export type FakeReply = string | ((request: CompletionRequest) => string)
+
+export class FakeProvider implements LlmProvider {
+  readonly name = 'fake'
+  readonly requests: CompletionRequest[] = []
+
+  constructor(private replies: FakeReply[] = ['Fake response.']) {}
+
+  isAvailable(): boolean {
+    return true
+  }
+
+  defaultModel(purpose: ModelPurpose): string {
+    return `fake-${purpose}`
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const reply = this.replies[this.requests.length % this.replies.length]
+    this.requests.push(request)
+
+    return {
+      content: typeof reply === 'function' ? reply(request) : reply,
+      model: request.model,
+      provider: this.name,
+    }
+  }
+}
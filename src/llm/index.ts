@@ -0,0 +1,78 @@
+import { getProjectConfig, ProjectConfig } from '../config.js'
+import { AnthropicProvider } from './anthropic.js'
+import { OpenAIProvider } from './openai.js'
+import { ChatMessage, CompletionResult, LlmProvider, ModelPurpose } from './provider.js'
+
+/**
+ * LLM entry point for tools
+ *   - Builds the provider named in the project config (`llm` section)
+ *   - Picks the model per tool (`models` section, else the provider's default)
+ *   - setLlmProvider() overrides everything, so tests can run offline
+ */
+
+let overrideProvider: LlmProvider | null = null
+
+// Usual env var for each provider's key; `llm.apiKeyEnv` can point elsewhere
+const API_KEY_ENV: Record<ProjectConfig['llm']['provider'], string> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  'openai-compatible': 'OPENAI_API_KEY',
+}
+
+export function createLlmProvider(config: ProjectConfig): LlmProvider {
+  const { provider, baseUrl, apiKeyEnv, timeoutMs, maxRetries } = config.llm
+  const options = {
+    apiKey: process.env[apiKeyEnv || API_KEY_ENV[provider]],
+    baseUrl,
+    timeoutMs,
+    maxRetries,
+  }
+
+  switch (provider) {
+    case 'anthropic':
+      return new AnthropicProvider(options)
+    case 'openai-compatible':
+      return new OpenAIProvider(options, true)
+    case 'openai':
+    default:
+      return new OpenAIProvider(options)
+  }
+}
+
+// Replace the configured provider (pass null to go back to the config)
+export function setLlmProvider(provider: LlmProvider | null): void {
+  overrideProvider = provider
+}
+
+export function getLlmProvider(): LlmProvider {
+  return overrideProvider ?? createLlmProvider(getProjectConfig())
+}
+
+export function getModelFor(purpose: ModelPurpose, provider = getLlmProvider()): string {
+  return getProjectConfig().models[purpose] || provider.defaultModel(purpose)
+}
+
+// Run a chat completion for a tool, using that tool's configured model
+export async function completeFor(
+  purpose: ModelPurpose,
+  messages: ChatMessage[],
+  options: { temperature?: number; maxTokens?: number } = {},
+): Promise<CompletionResult> {
+  const provider = getLlmProvider()
+  return provider.complete({
+    model: getModelFor(purpose, provider),
+    messages,
+    ...options,
+  })
+}
+
+export { FakeProvider } from './fake.js'
+export { parseJsonReply, stripCodeFences } from './json.js'
+export { LlmError } from './provider.js'
+export type {
+  ChatMessage,
+  CompletionRequest,
+  CompletionResult,
+  LlmProvider,
+  ModelPurpose,
+} from './provider.js'
@@ -0,0 +1,42 @@
+/**
+ * Helpers for reading structured output from model replies
+ *   - Models often wrap answers in markdown fences or add a sentence around them
+ */
+
+// Remove a surrounding ```lang ... ``` fence, if the reply has one; a reply cut off by the token
+// limit has no closing fence, so the block then runs to the end
+export function stripCodeFences(content: string): string {
+  const fenced = content.match(/```[\w-]*\s*\n([\s\S]*?)(?:\n?```|$)/)
+  return (fenced ? fenced[1] : content).trim()
+}
+
+/**
+ * Parse the JSON value in a model reply. Tries the whole (unfenced) reply first,
+ * then the outermost [...] or {...} span. Returns undefined when nothing parses.
+ */
+export function parseJsonReply(content: string): unknown {
+  const text = stripCodeFences(content)
+
+  try {
+    return JSON.parse(text)
+  } catch {
+    // Fall through to span extraction
+  }
+
+  for (const [open, close] of [
+    ['[', ']'],
+    ['{', '}'],
+  ]) {
+    const start = text.indexOf(open)
+    const end = text.lastIndexOf(close)
+    if (start >= 0 && end > start) {
+      try {
+        return JSON.parse(text.slice(start, end + 1))
+      } catch {
+        // Try the next shape
+      }
+    }
+  }
+
+  return undefined
+}
@@ -0,0 +1,91 @@
+import OpenAI from 'openai'
+import {
+  CompletionRequest,
+  CompletionResult,
+  LlmError,
+  LlmProvider,
+  ModelPurpose,
+  ProviderOptions,
+} from './provider.js'
+
+/**
+ * OpenAI provider
+ *   - Talks to api.openai.com, or to any server that speaks the OpenAI chat API
+ *     (Ollama, llama.cpp, vLLM, LM Studio) when `compatible` is set
+ *   - Local servers don't need a real key, so availability only requires a base URL there
+ */
+
+const OPENAI_DEFAULT_MODELS: Record<ModelPurpose, string> = {
+  architect: 'o3-mini-2025-01-31',
+  componentGenerator: 'gpt-4o-mini',
+  codeReview: 'gpt-4o-mini',
+}
+
+// Local servers usually run whatever model was pulled; this is Ollama's common default
+const COMPATIBLE_DEFAULT_MODEL = 'llama3.1'
+
+export class OpenAIProvider implements LlmProvider {
+  readonly name: string
+  private client: OpenAI | null = null
+
+  constructor(
+    private options: ProviderOptions,
+    private compatible = false,
+  ) {
+    this.name = compatible ? 'openai-compatible' : 'openai'
+  }
+
+  isAvailable(): boolean {
+    return this.compatible ? Boolean(this.options.baseUrl) : Boolean(this.options.apiKey)
+  }
+
+  defaultModel(purpose: ModelPurpose): string {
+    return this.compatible ? COMPATIBLE_DEFAULT_MODEL : OPENAI_DEFAULT_MODELS[purpose]
+  }
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        // The SDK insists on a key; local servers ignore it
+        apiKey: this.options.apiKey || 'not-needed',
+        baseURL: this.options.baseUrl,
+        timeout: this.options.timeoutMs,
+        maxRetries: this.options.maxRetries,
+      })
+    }
+    return this.client
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    if (!this.isAvailable()) {
+      throw new LlmError(
+        this.compatible
+          ? 'No base URL configured for the OpenAI-compatible provider (llm.baseUrl)'
+          : 'No OpenAI API key configured (OPENAI_API_KEY, or the variable named by llm.apiKeyEnv)',
+        this.name,
+      )
+    }
+
+    try {
+      const response = await this.getClient().chat.completions.create({
+        model: request.model,
+        messages: request.messages,
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+      })
+
+      return {
+        content: response.choices?.[0]?.message?.content ?? '',
+        model: response.model || request.model,
+        provider: this.name,
+      }
+    } catch (error) {
+      const status = error instanceof OpenAI.APIError ? error.status : undefined
+      throw new LlmError(
+        error instanceof Error ? error.message : String(error),
+        this.name,
+        status ?? undefined,
+      )
+    }
+  }
+}
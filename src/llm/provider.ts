@@ -0,0 +1,66 @@
+/**
+ * LLM provider layer
+ *   - One chat-completion interface for every tool that talks to a model
+ *   - Concrete providers live next to this file (OpenAI, Anthropic, OpenAI-compatible local servers)
+ *   - Tests can swap in a deterministic provider with setLlmProvider()
+ */
+
+export type ChatRole = 'system' | 'user' | 'assistant'
+
+export interface ChatMessage {
+  role: ChatRole
+  content: string
+}
+
+export interface CompletionRequest {
+  model: string
+  messages: ChatMessage[]
+  temperature?: number
+  maxTokens?: number
+}
+
+export interface CompletionResult {
+  content: string
+  model: string
+  provider: string
+}
+
+// The tools that pick a model; each can be overridden under `models` in the project config
+export type ModelPurpose = 'architect' | 'componentGenerator' | 'codeReview'
+
+export interface LlmProvider {
+  readonly name: string
+  // False when the provider is missing what it needs to run (usually an API key)
+  isAvailable(): boolean
+  defaultModel(purpose: ModelPurpose): string
+  complete(request: CompletionRequest): Promise<CompletionResult>
+}
+
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly status?: number,
+  ) {
+    super(message)
+    this.name = 'LlmError'
+  }
+}
+
+export interface ProviderOptions {
+  apiKey?: string
+  baseUrl?: string
+  timeoutMs: number
+  maxRetries: number
+}
+
+// HTTP statuses worth retrying: rate limits and transient server errors
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 409 || status === 429 || status >= 500
+}
+
+// Exponential backoff with a little jitter: ~0.5s, 1s, 2s, ...
+export function retryDelay(attempt: number): Promise<void> {
+  const delay = 500 * 2 ** attempt + Math.random() * 250
+  return new Promise(resolve => setTimeout(resolve, delay))
+}
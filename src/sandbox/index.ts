@@ -0,0 +1,217 @@
+import fs from 'fs'
+import path from 'path'
+import ts from 'typescript'
+import { Worker } from 'worker_threads'
+import { listSourceFiles } from '../analysis/graph.js'
+import { resolveModule } from '../analysis/project.js'
+import { ProjectConfig } from '../config.js'
+import { resolveWorkspacePath, toWorkspaceRelative } from '../workspace.js'
+import { toJsonSafe } from './values.js'
+import type {
+  CallOutcome,
+  SandboxCall,
+  SandboxModule,
+  SandboxRequest,
+  TargetKind,
+  WorkerMessage,
+} from './worker.js'
+
+/**
+ * Validation sandbox
+ *   - Transpiles the validation module (validation.directory) and the workspace files it
+ *     imports to CommonJS, and runs named validators, formatters, schemas and regex constants
+ *     on sample inputs in a worker thread
+ *   - The worker gets an empty environment (no API keys), a memory limit and captured
+ *     stdout/stderr, so console output can't corrupt the stdio transport
+ *   - It isn't a security sandbox: the code runs in the server's process, and only the builtins
+ *     it may require are restricted (see worker.ts), so only run code you'd run yourself
+ *   - Each call has a time limit; past it the worker is terminated and the remaining calls are
+ *     reported as not run
+ */
+
+export interface SandboxTarget {
+  target: string
+  file: string | null // Absolute path of the module expected to export it
+  inputs: unknown[][] // Argument lists
+}
+
+export interface TargetResult {
+  target: string
+  file: string | null // Workspace-relative
+  kind: TargetKind | null
+  error: string | null // Why it couldn't be run
+  outcomes: CallOutcome[]
+}
+
+export interface SandboxResult {
+  results: TargetResult[]
+  loadErrors: { file: string; message: string }[]
+  logs: string // What the module printed
+  timedOut: boolean
+}
+
+const MAX_MODULES = 500
+const MAX_LOG_LENGTH = 10_000
+const MEMORY_LIMIT_MB = 256
+
+const transpiled = new Map<string, { mtimeMs: number; code: string }>()
+
+function transpile(file: string): string {
+  const { mtimeMs } = fs.statSync(file)
+  const cached = transpiled.get(file)
+  if (cached && cached.mtimeMs === mtimeMs) return cached.code
+
+  const { outputText } = ts.transpileModule(fs.readFileSync(file, 'utf-8'), {
+    fileName: file,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2022,
+      esModuleInterop: true,
+      jsx: ts.JsxEmit.ReactJSX,
+    },
+  })
+  transpiled.set(file, { mtimeMs, code: outputText })
+  return outputText
+}
+
+// The entry files and every workspace module they import, transpiled
+function collectModules(entries: string[]): Record<string, SandboxModule> {
+  const modules: Record<string, SandboxModule> = {}
+  const queue = [...entries]
+
+  while (queue.length > 0) {
+    const file = queue.shift()!
+    if (modules[file]) continue
+    if (Object.keys(modules).length >= MAX_MODULES) {
+      throw new Error(`The validation module imports more than ${MAX_MODULES} workspace files`)
+    }
+
+    const module: SandboxModule = { code: transpile(file), dependencies: {}, unresolved: [] }
+    modules[file] = module
+
+    const { importedFiles } = ts.preProcessFile(fs.readFileSync(file, 'utf-8'), true, true)
+    for (const { fileName: specifier } of importedFiles) {
+      const { resolvedPath, external } = resolveModule(specifier, file)
+      if (external) continue // Loaded by Node from the workspace's node_modules
+      if (!resolvedPath || resolvedPath.endsWith('.d.ts')) {
+        if (!resolvedPath) module.unresolved.push(specifier)
+        continue
+      }
+      module.dependencies[specifier] = resolvedPath
+      queue.push(resolvedPath)
+    }
+  }
+  return modules
+}
+
+// Index files first: they show what the module means to export
+function orderEntries(files: string[]): string[] {
+  const isIndex = (file: string) => /^index\.[^.]+$/.test(path.basename(file))
+  return [...files.filter(isIndex), ...files.filter(file => !isIndex(file))]
+}
+
+export async function runInSandbox(
+  config: ProjectConfig,
+  targets: SandboxTarget[],
+  timeoutMs: number,
+): Promise<SandboxResult> {
+  const directory = resolveWorkspacePath(config.validation.directory)
+  if (!fs.existsSync(directory)) {
+    throw new Error(`Validation directory not found: ${config.validation.directory}`)
+  }
+
+  const entries = orderEntries(listSourceFiles([directory], config.exclude))
+  const calls: SandboxCall[] = targets.map(({ target, file, inputs }) => ({ target, file, inputs }))
+  const request: SandboxRequest = { modules: collectModules(entries), entries, calls }
+
+  const results: TargetResult[] = targets.map(({ target }) => ({
+    target,
+    file: null,
+    kind: null,
+    error: null,
+    outcomes: [],
+  }))
+  const result: SandboxResult = { results, loadErrors: [], logs: '', timedOut: false }
+
+  const worker = new Worker(new URL('./worker.js', import.meta.url), {
+    workerData: request,
+    env: {},
+    stdout: true,
+    stderr: true,
+    resourceLimits: { maxOldGenerationSizeMb: MEMORY_LIMIT_MB },
+  })
+  const capture = (chunk: Buffer) => {
+    if (result.logs.length < MAX_LOG_LENGTH) {
+      result.logs = (result.logs + chunk.toString()).slice(0, MAX_LOG_LENGTH)
+    }
+  }
+  worker.stdout.on('data', capture)
+  worker.stderr.on('data', capture)
+
+  // Where the worker is: the target and input it's running
+  let current = { index: 0, input: 0 }
+  let done = false
+
+  await new Promise<void>(resolve => {
+    let timer: NodeJS.Timeout
+    const finish = () => {
+      clearTimeout(timer)
+      worker.removeAllListeners()
+      void worker.terminate()
+      resolve()
+    }
+    const restartTimer = () => {
+      clearTimeout(timer)
+      timer = setTimeout(() => {
+        if (done) return finish() // Finished, but something keeps it from exiting
+        result.timedOut = true
+        const target = targets[current.index]
+        if (target && results[current.index].kind && current.input < target.inputs.length) {
+          results[current.index].outcomes.push({
+            args: target.inputs[current.input].map(arg => toJsonSafe(arg)),
+            error: { name: 'TimeoutError', message: `Did not finish within ${timeoutMs}ms` },
+            durationMs: timeoutMs,
+          })
+        }
+        finish()
+      }, timeoutMs)
+    }
+
+    worker.on('message', (message: WorkerMessage) => {
+      restartTimer()
+      if (message.type === 'target') {
+        const target = results[message.index]
+        target.file = message.file && toWorkspaceRelative(message.file)
+        target.kind = message.kind
+        target.error = message.error || null
+        current = { index: message.index, input: 0 }
+      } else if (message.type === 'outcome') {
+        results[message.index].outcomes.push(message.outcome)
+        current = { index: message.index, input: current.input + 1 }
+      } else {
+        // Wait for the exit, which flushes what it printed
+        done = true
+        result.loadErrors = message.loadErrors.map(({ file, message: text }) => ({
+          file: toWorkspaceRelative(file),
+          message: text,
+        }))
+      }
+    })
+    worker.on('error', error => {
+      result.loadErrors.push({ file: '', message: `Sandbox failed: ${error.message}` })
+      finish()
+    })
+    worker.on('exit', finish)
+    restartTimer()
+  })
+
+  // Targets the worker never reached
+  for (const target of results) {
+    if (!target.kind && !target.error) {
+      target.error = result.timedOut
+        ? 'Not run: the sandbox timed out'
+        : 'Not run: the sandbox stopped early'
+    }
+  }
+  return result
+}
@@ -0,0 +1,105 @@
+/**
+ * Sample inputs
+ *   - Picks inputs for a validator or formatter from the words in its name (and in the regex
+ *     constants it uses): `isValidEmail` and `EMAIL_REGEX` get valid and invalid emails
+ *   - Every set ends with the edge cases validators get wrong most: empty, blank, null and
+ *     undefined
+ *   - Schemas get an object built from the first sample of each field and one from the last
+ *     (invalid) sample, plus an empty object
+ */
+
+// Valid inputs first, invalid ones last
+const SAMPLE_SETS: { keywords: string[]; samples: unknown[] }[] = [
+  {
+    keywords: ['email', 'mail'],
+    samples: [
+      'user@example.com',
+      'first.last+tag@mail.example.co.uk',
+      'user@',
+      'user@example',
+      'no-at-sign.com',
+    ],
+  },
+  {
+    keywords: ['phone', 'mobile', 'tel'],
+    samples: [
+      '5551234567',
+      '(555) 123-4567',
+      '+1 555 123 4567',
+      '555-1234',
+      '12345678901234',
+      'phone',
+    ],
+  },
+  {
+    keywords: ['zip', 'postal', 'postcode'],
+    samples: ['12345', '12345-6789', '1234', 'ABCDE'],
+  },
+  {
+    keywords: ['url', 'link', 'website', 'site', 'href'],
+    samples: [
+      'https://example.com',
+      'http://example.com/path?q=1',
+      'example.com',
+      'ftp//nope',
+      'not a url',
+    ],
+  },
+  {
+    keywords: ['date', 'birth', 'dob', 'time'],
+    samples: ['2024-02-29', '12/31/2024', '2024-01-15T10:30:00Z', '2023-02-29', 'not a date'],
+  },
+  {
+    keywords: ['card', 'credit'],
+    samples: ['4111111111111111', '4111 1111 1111 1111', '4111111111111112', '1234'],
+  },
+  {
+    keywords: ['password', 'pass'],
+    samples: ['Str0ng!Passw0rd', 'password', 'short', 'ALLCAPS123'],
+  },
+  {
+    keywords: ['amount', 'price', 'currency', 'money', 'number', 'decimal', 'percent', 'age'],
+    samples: [1234.5, 0, '1234.56', '1,234.56', -1, 'abc', Number.NaN],
+  },
+  {
+    keywords: ['name', 'first', 'last'],
+    samples: ['Jane Doe', "O'Brien", 'Anne-Marie', 'J', 'Jane123'],
+  },
+]
+
+const EDGE_CASES: unknown[] = ['', '   ', null, undefined]
+
+const FALLBACK_SAMPLES: unknown[] = ['abc', '123', 'Hello World', 0]
+
+// Words of a camelCase, snake_case or dotted name: `isValidEmail` -> is, valid, email
+function words(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.toLowerCase())
+}
+
+function matchingSet(names: string[]): unknown[] | null {
+  const nameWords = names.flatMap(words)
+  // The last word is the most specific: `formatPhoneName` is about names
+  for (let i = nameWords.length - 1; i >= 0; i--) {
+    const set = SAMPLE_SETS.find(candidate => candidate.keywords.includes(nameWords[i]))
+    if (set) return set.samples
+  }
+  return null
+}
+
+// Inputs for a function, or the strings to test a regex constant against
+export function generateSamples(name: string, hints: string[] = []): unknown[] {
+  const samples = matchingSet([name]) || matchingSet(hints) || FALLBACK_SAMPLES
+  return [...samples, ...EDGE_CASES]
+}
+
+// Objects for a z.object() schema with the given fields
+export function generateSchemaSamples(fields: string[]): unknown[] {
+  const sets = fields.map(field => matchingSet([field]) || FALLBACK_SAMPLES)
+  const build = (pick: (samples: unknown[]) => unknown) =>
+    Object.fromEntries(fields.map((field, i) => [field, pick(sets[i])]))
+  return [build(samples => samples[0]), build(samples => samples[samples.length - 1]), {}]
+}
@@ -0,0 +1,45 @@
+/**
+ * Sandbox values
+ *   - Inputs and outputs cross the worker boundary and end up in JSON: undefined, NaN,
+ *     functions, dates, maps and cycles are described (`'[undefined]'`) rather than lost
+ */
+
+const MAX_DEPTH = 6
+
+// typeof, or the class of an object
+export function typeOf(value: unknown): string {
+  if (value === null) return 'null'
+  if (typeof value !== 'object') return typeof value
+  return value.constructor?.name || 'Object'
+}
+
+// A value JSON.stringify keeps as it is
+export function toJsonSafe(value: unknown, depth = 0, seen = new Set<unknown>()): unknown {
+  if (value === undefined) return '[undefined]'
+  if (typeof value === 'number' && !Number.isFinite(value)) return `[${value}]`
+  if (typeof value === 'bigint') return `[bigint ${value}n]`
+  if (typeof value === 'symbol') return `[${value.toString()}]`
+  if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`
+  if (value === null || typeof value !== 'object') return value
+
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? '[Invalid Date]' : value.toISOString()
+  }
+  if (value instanceof RegExp) return String(value)
+  if (value instanceof Error) return { name: value.name, message: value.message }
+  if (seen.has(value)) return '[Circular]'
+  if (depth >= MAX_DEPTH) return `[${typeOf(value)}]`
+
+  seen.add(value)
+  const inner = (item: unknown) => toJsonSafe(item, depth + 1, seen)
+  let result: unknown
+  if (Array.isArray(value) || value instanceof Set) {
+    result = [...value].map(inner)
+  } else if (value instanceof Map) {
+    result = Object.fromEntries([...value].map(([key, item]) => [String(key), inner(item)]))
+  } else {
+    result = Object.fromEntries(Object.entries(value).map(([key, item]) => [key, inner(item)]))
+  }
+  seen.delete(value)
+  return result
+}
@@ -0,0 +1,240 @@
+import { createRequire, isBuiltin } from 'module'
+import path from 'path'
+import vm from 'vm'
+import { parentPort, workerData } from 'worker_threads'
+import { toJsonSafe, typeOf } from './values.js'
+
+/**
+ * Sandbox worker
+ *   - Runs in its own thread: evaluates the transpiled (CommonJS) modules it was handed,
+ *     resolving workspace imports to those modules and packages through Node from the
+ *     importing file's location
+ *   - Workspace modules may only require the Node builtins in ALLOWED_BUILTINS (no fs,
+ *     child_process or network). This isn't a security boundary: packages load with Node's
+ *     full access, and so do globals such as `process`
+ *   - Targets resolve through own properties only, so `Service.constructor` isn't a target
+ *   - Calls each target on its inputs and posts every outcome as soon as it has one, so the
+ *     parent keeps the results gathered before a timeout
+ *   - Values are posted in JSON-safe form (see values.ts)
+ */
+
+export interface SandboxModule {
+  code: string // CommonJS
+  dependencies: Record<string, string> // Specifier -> module of the sandbox
+  unresolved: string[] // Workspace specifiers that couldn't be resolved
+}
+
+export interface SandboxCall {
+  target: string // `Service.member`, an export name or `export.member`
+  file: string | null // Module expected to export it, tried first
+  inputs: unknown[][] // Argument lists
+}
+
+export interface SandboxRequest {
+  modules: Record<string, SandboxModule>
+  entries: string[] // Modules searched for targets, in order
+  calls: SandboxCall[]
+}
+
+export type TargetKind = 'function' | 'schema' | 'regex'
+
+export interface CallOutcome {
+  args: unknown[]
+  output?: unknown
+  type?: string // typeof the output, or its class
+  error?: { name: string; message: string }
+  durationMs: number
+}
+
+export type WorkerMessage =
+  | { type: 'target'; index: number; file: string | null; kind: TargetKind | null; error?: string }
+  | { type: 'outcome'; index: number; outcome: CallOutcome }
+  | { type: 'done'; loadErrors: { file: string; message: string }[] }
+
+// Builtins with no access to files, processes or the network
+const ALLOWED_BUILTINS = new Set([
+  'assert',
+  'buffer',
+  'events',
+  'path',
+  'punycode',
+  'querystring',
+  'string_decoder',
+  'url',
+  'util',
+])
+
+// Members that reach the prototype chain or the Function constructor
+const FORBIDDEN_MEMBERS = new Set(['constructor', '__proto__', 'prototype'])
+
+const request = workerData as SandboxRequest
+const loaded = new Map<string, { exports: unknown }>()
+const loadErrors = new Map<string, string>()
+
+function post(message: WorkerMessage): void {
+  parentPort!.postMessage(message)
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+function load(file: string): unknown {
+  const cached = loaded.get(file)
+  if (cached) return cached.exports
+
+  const source = request.modules[file]
+  const module: { exports: unknown } = { exports: {} }
+  loaded.set(file, module)
+
+  const nodeRequire = createRequire(file)
+  const localRequire = (specifier: string) => {
+    const dependency = source.dependencies[specifier]
+    if (dependency) return load(dependency)
+    if (source.unresolved.includes(specifier)) {
+      throw new Error(`Cannot resolve '${specifier}' from ${file}`)
+    }
+    if (isBuiltin(specifier) && !ALLOWED_BUILTINS.has(specifier.replace(/^node:/, ''))) {
+      throw new Error(`'${specifier}' isn't available to the validation module`)
+    }
+    return nodeRequire(specifier)
+  }
+
+  const evaluate = vm.compileFunction(
+    source.code,
+    ['exports', 'require', 'module', '__filename', '__dirname'],
+    { filename: file },
+  )
+  evaluate.call(module.exports, module.exports, localRequire, module, file, path.dirname(file))
+  return module.exports
+}
+
+function tryLoad(file: string): unknown {
+  if (loadErrors.has(file)) return null
+  try {
+    return load(file)
+  } catch (error) {
+    loaded.delete(file)
+    loadErrors.set(file, errorMessage(error))
+    return null
+  }
+}
+
+// `value[member]` if it's the value's own property; inherited ones resolve to undefined
+function ownMember(value: unknown, member: string): unknown {
+  if (FORBIDDEN_MEMBERS.has(member)) return undefined
+  if (value === null || (typeof value !== 'object' && typeof value !== 'function')) return undefined
+  return Object.prototype.hasOwnProperty.call(value, member)
+    ? (value as Record<string, unknown>)[member]
+    : undefined
+}
+
+// The value a dotted target names, and the object it was read from (its `this`)
+function findTarget(call: SandboxCall): { value: unknown; owner: unknown; file: string } | null {
+  const [head, ...members] = call.target.split('.')
+  const files = call.file
+    ? [call.file, ...request.entries.filter(file => file !== call.file)]
+    : request.entries
+
+  for (const file of files) {
+    const exports = tryLoad(file)
+    let owner: unknown = exports
+    let value = ownMember(exports, head)
+    for (const member of members) {
+      if (value === undefined) break
+      owner = value
+      value = ownMember(value, member)
+    }
+    if (value !== undefined) return { value, owner, file }
+  }
+  return null
+}
+
+interface ZodLikeResult {
+  success: boolean
+  data?: unknown
+  error?: { issues: { path: (string | number)[]; code: string; message: string }[] }
+}
+
+interface ZodLike {
+  safeParse(input: unknown): ZodLikeResult
+  safeParseAsync?(input: unknown): Promise<ZodLikeResult>
+}
+
+function isSchema(value: unknown): value is ZodLike {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { safeParse?: unknown }).safeParse === 'function'
+  )
+}
+
+function kindOf(value: unknown): TargetKind | null {
+  if (value instanceof RegExp) return 'regex'
+  if (isSchema(value)) return 'schema'
+  if (typeof value === 'function') return 'function'
+  return null
+}
+
+async function invoke(value: unknown, owner: unknown, args: unknown[]): Promise<unknown> {
+  if (value instanceof RegExp) {
+    value.lastIndex = 0
+    return value.test(String(args[0]))
+  }
+  if (isSchema(value)) {
+    // Async refinements need safeParseAsync
+    const result =
+      typeof value.safeParseAsync === 'function'
+        ? await value.safeParseAsync(args[0])
+        : value.safeParse(args[0])
+    return result.success
+      ? { success: true, data: result.data }
+      : {
+          success: false,
+          issues: (result.error?.issues || []).map(({ path: issuePath, code, message }) => ({
+            path: issuePath.join('.'),
+            code,
+            message,
+          })),
+        }
+  }
+  if (typeof value !== 'function') throw new TypeError('Not a function')
+  return await value.apply(owner, args)
+}
+
+async function run(): Promise<void> {
+  for (const [index, call] of request.calls.entries()) {
+    const found = findTarget(call)
+    const kind = found && kindOf(found.value)
+    if (!found || !kind) {
+      const error = found
+        ? `${call.target} is a ${typeOf(found.value)}, not a function, schema or regex`
+        : `${call.target} is not exported by the validation module`
+      post({ type: 'target', index, file: found?.file ?? null, kind: null, error })
+      continue
+    }
+    post({ type: 'target', index, file: found.file, kind })
+
+    for (const args of call.inputs) {
+      const started = performance.now()
+      let result: Pick<CallOutcome, 'output' | 'type' | 'error'>
+      try {
+        const output = await invoke(found.value, found.owner, args)
+        result = { output: toJsonSafe(output), type: typeOf(output) }
+      } catch (error) {
+        const name = error instanceof Error ? error.name : 'Error'
+        result = { error: { name, message: errorMessage(error) } }
+      }
+      const durationMs = Math.round((performance.now() - started) * 1000) / 1000
+      const outcome = { args: args.map(arg => toJsonSafe(arg)), ...result, durationMs }
+      post({ type: 'outcome', index, outcome })
+    }
+  }
+
+  post({
+    type: 'done',
+    loadErrors: [...loadErrors].map(([file, message]) => ({ file, message })),
+  })
+}
+
+run()
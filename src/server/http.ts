@@ -0,0 +1,162 @@
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import bodyParser from 'body-parser'
+import cors from 'cors'
+import express, { Express, Request, Response } from 'express'
+import { z } from 'zod'
+import { zodToJsonSchema } from 'zod-to-json-schema'
+import { parseToolArguments, ToolMetadata, ToolRegistry } from '../tools/index.js'
+import { WorkspacePathError } from '../workspace.js'
+import { createMcpServer } from './mcp.js'
+
+/**
+ * HTTP server
+ *   - Serves MCP over Streamable HTTP at /mcp
+ *   - Keeps the legacy GET /tools and POST /invoke routes as a compatibility layer
+ */
+
+// Define the response structure for a tool
+interface ToolResponse {
+  name: string
+  description: string
+  schema?: Record<string, any>
+  metadata?: ToolMetadata
+}
+
+// Define the basic request structure for invoking a tool
+const InvokeToolRequestSchema = z.object({
+  name: z.string(),
+  arguments: z.record(z.any()).optional(),
+})
+
+// Convert a tool's zod schema into the JSON Schema we advertise
+function toJsonSchema(schema: z.ZodTypeAny): Record<string, any> {
+  return zodToJsonSchema(schema, { $refStrategy: 'none' }) as Record<string, any>
+}
+
+/**
+ * Handle one Streamable HTTP request. We run stateless: every request gets a
+ * fresh server and transport, so there are no sessions to track or clean up.
+ */
+async function handleMcpRequest(registry: ToolRegistry, req: Request, res: Response) {
+  const server = createMcpServer(registry)
+  const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined })
+
+  res.on('close', () => {
+    transport.close()
+    server.close()
+  })
+
+  try {
+    await server.connect(transport)
+    await transport.handleRequest(req, res, req.body)
+  } catch (error) {
+    console.error('Error handling MCP request:', error)
+    if (!res.headersSent) {
+      res.status(500).json({
+        jsonrpc: '2.0',
+        error: { code: -32603, message: 'Internal server error' },
+        id: null,
+      })
+    }
+  }
+}
+
+export function createHttpApp(registry: ToolRegistry): Express {
+  const app = express()
+
+  app.use(cors())
+  app.use(bodyParser.json())
+
+  /**
+   * A simple endpoint to check if the server is running
+   */
+  app.get('/', (req: Request, res: Response) => {
+    res.send('MCP Server is running!')
+  })
+
+  /**
+   * MCP Streamable HTTP endpoint
+   */
+  app.post('/mcp', (req: Request, res: Response) => handleMcpRequest(registry, req, res))
+
+  // Stateless mode has no server-initiated streams or sessions to delete
+  const methodNotAllowed = (req: Request, res: Response) => {
+    res.status(405).json({
+      jsonrpc: '2.0',
+      error: { code: -32000, message: 'Method not allowed.' },
+      id: null,
+    })
+  }
+  app.get('/mcp', methodNotAllowed)
+  app.delete('/mcp', methodNotAllowed)
+
+  /**
+   * List available tools
+   */
+  app.get('/tools', (req: Request, res: Response) => {
+    const tools: ToolResponse[] = registry.list().map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      schema: toJsonSchema(tool.schema),
+      metadata: tool.metadata,
+    }))
+
+    res.json(tools)
+  })
+
+  /**
+   * Invoke a tool with the provided arguments (legacy, pre-MCP clients)
+   */
+  app.post('/invoke', async (req: Request, res: Response) => {
+    try {
+      const parseResult = InvokeToolRequestSchema.safeParse(req.body)
+
+      if (!parseResult.success) {
+        res.status(400).json({
+          error: 'Invalid request format',
+          details: parseResult.error.format(),
+        })
+        return
+      }
+
+      const { name, arguments: args = {} } = parseResult.data
+      const tool = registry.get(name)
+
+      if (!tool) {
+        res.status(404).json({
+          error: `Tool '${name}' not found`,
+        })
+        return
+      }
+
+      // Enforce the tool's own schema so bad input never reaches the handler
+      const argsResult = parseToolArguments(tool, args)
+
+      if (!argsResult.success) {
+        res.status(400).json({
+          error: `Invalid arguments for tool '${name}'`,
+          issues: argsResult.issues,
+        })
+        return
+      }
+
+      res.json(await tool.handler(argsResult.data))
+    } catch (error) {
+      if (error instanceof WorkspacePathError) {
+        res.status(403).json({
+          error: 'Path rejected',
+          details: error.message,
+        })
+        return
+      }
+
+      console.error('Error invoking tool:', error)
+      res.status(500).json({
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      })
+    }
+  })
+
+  return app
+}
@@ -0,0 +1,85 @@
+import fs from 'fs'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { CallToolResult, ToolAnnotations } from '@modelcontextprotocol/sdk/types.js'
+import { ToolDefinition, ToolRegistry } from '../tools/index.js'
+
+/**
+ * MCP server
+ *   - Registers every tool in the registry with the SDK's McpServer so Cursor can talk to us directly
+ *   - The SDK converts each zod schema into the tool's JSON Schema inputSchema
+ */
+
+export const serverName = 'cursor-tools'
+// package.json is two levels up from both src/server and build/server
+const packageJson: { version: string } = JSON.parse(
+  fs.readFileSync(new URL('../../package.json', import.meta.url), 'utf-8'),
+)
+export const serverVersion = packageJson.version
+
+// Most tools already return MCP content blocks; the rest return plain objects
+// that we serialise into a single text block.
+export function toCallToolResult(result: unknown): CallToolResult {
+  if (
+    result &&
+    typeof result === 'object' &&
+    Array.isArray((result as { content?: unknown }).content)
+  ) {
+    return result as CallToolResult
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+  }
+}
+
+// Run a tool handler, reporting thrown errors as tool errors rather than protocol errors
+async function callTool(run: () => Promise<unknown>): Promise<CallToolResult> {
+  try {
+    return toCallToolResult(await run())
+  } catch (error) {
+    return {
+      isError: true,
+      content: [
+        {
+          type: 'text',
+          text: error instanceof Error ? error.message : String(error),
+        },
+      ],
+    }
+  }
+}
+
+// Translate our tool metadata into MCP tool annotations
+function toAnnotations(tool: ToolDefinition): ToolAnnotations {
+  const metadata = tool.metadata || {}
+  return {
+    title: metadata.title,
+    readOnlyHint: metadata.readOnly,
+    destructiveHint: metadata.destructive,
+    idempotentHint: metadata.idempotent,
+    openWorldHint: metadata.openWorld,
+  }
+}
+
+export function createMcpServer(registry: ToolRegistry): McpServer {
+  const server = new McpServer({ name: serverName, version: serverVersion })
+
+  for (const tool of registry.list()) {
+    server.registerTool(
+      tool.name,
+      {
+        description: tool.description,
+        inputSchema: tool.schema,
+        annotations: toAnnotations(tool),
+      },
+      args => callTool(() => tool.handler(args)),
+    )
+  }
+
+  return server
+}
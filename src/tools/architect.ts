@@ -1,10 +1,9 @@
 import { z } from "zod";
-import OpenAI from "openai";
-import { OPENAI_API_KEY } from "../env/keys.js";
+import { completeFor, getLlmProvider } from "../llm/index.js";
 
 /**
  * Architect tool
- *   - Calls an OpenAI model (o3-mini-01-31-24) to generate a series of steps
+ *   - Calls the configured LLM provider (models.architect picks the model) to generate a series of steps
  *   - Input: 'task' (description of the task), 'code' (one or more code files concatenated)
  */
 
@@ -22,10 +21,17 @@ export const ArchitectToolSchema = z.object({
 export async function runArchitectTool(
   args: z.infer<typeof ArchitectToolSchema>,
 ) {
-  // Instantiate the new OpenAI client
-  const openai = new OpenAI({
-    apiKey: OPENAI_API_KEY,
-  });
+  const provider = getLlmProvider();
+  if (!provider.isAvailable()) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `The ${provider.name} LLM provider is not configured (missing API key or base URL).`,
+        },
+      ],
+    };
+  }
 
   const { task, code } = args;
   const systemPrompt = `You are an expert software architect. Given a task and some code, outline the steps that an AI coding agent should take to complete or improve the code.`;
@@ -34,17 +40,12 @@ export async function runArchitectTool(
   const userPrompt = `Task: ${task}\n\nCode:\n${code}\n\nPlease provide a step-by-step plan.`;
 
   try {
-    const response = await openai.chat.completions.create({
-      model: "o3-mini-2025-01-31",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-    });
+    const response = await completeFor("architect", [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userPrompt },
+    ]);
 
-    // Extract the content from the assistant's message (if available)
-    const assistantMessage =
-      response.choices?.[0]?.message?.content ?? "No response from model.";
+    const assistantMessage = response.content || "No response from model.";
 
     return {
       content: [
@@ -60,7 +61,7 @@ export async function runArchitectTool(
       content: [
         {
           type: "text",
-          text: `OpenAI Error: ${error.message || error}`,
+          text: `LLM Error (${provider.name}): ${error.message || error}`,
         },
       ],
     };
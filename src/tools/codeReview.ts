@@ -1,46 +1,246 @@
 import { z } from "zod";
-import { execSync } from "child_process";
+import {
+  FileDiff,
+  findDefaultBranch,
+  getDiff,
+  GitError,
+  mergeBase as getMergeBase,
+  refExists,
+  revParse,
+} from "../git/index.js";
+import { completeFor, getLlmProvider, parseJsonReply } from "../llm/index.js";
+import { resolveWorkspacePath } from "../workspace.js";
 
 /**
  * CodeReview tool
- *   - Takes in a file path and runs "git diff main -- <filePath>"
- *   - Returns the diff along with instructions to review and fix issues
+ *   - Diffs a folder's changes against a base ref (the default branch, via merge-base by default),
+ *     or just the staged / unstaged changes, optionally limited by pathspecs
+ *   - Parses the diff into per-file hunks with old/new line numbers
+ *   - Optionally asks the LLM for structured findings, each tied to an exact hunk line
  */
 
 export const codeReviewToolName = "code-review";
 export const codeReviewToolDescription =
-  "Run a git diff against main on a specified file and provide instructions to review/fix issues.";
+  "Diff a folder's changes against a base branch (or staged/unstaged changes), parsed into per-file hunks, with optional LLM findings tied to exact lines.";
 
 export const CodeReviewToolSchema = z.object({
   folderPath: z.string().min(1, "A folder path is required."),
+  scope: z
+    .enum(["branch", "staged", "unstaged"])
+    .default("branch")
+    .describe(
+      "branch: working tree vs. the base ref; staged: index vs. HEAD; unstaged: working tree vs. index",
+    ),
+  baseRef: z
+    .string()
+    .min(1)
+    .optional()
+    .describe("Ref to compare against in branch scope (default: the repository's default branch)"),
+  mergeBase: z
+    .boolean()
+    .default(true)
+    .describe("Compare against the merge-base of baseRef and HEAD instead of baseRef's tip"),
+  pathspec: z
+    .array(z.string().min(1))
+    .optional()
+    .describe("Only include changes matching these git pathspecs"),
+  review: z
+    .boolean()
+    .default(false)
+    .describe("Ask the configured LLM for structured findings on the diff"),
 });
 
+const ReviewFindingSchema = z.object({
+  file: z.string(),
+  line: z.number().int(),
+  severity: z.enum(["critical", "major", "minor", "info"]),
+  category: z.enum([
+    "bug",
+    "security",
+    "performance",
+    "maintainability",
+    "style",
+    "testing",
+    "validation",
+  ]),
+  message: z.string(),
+  suggestion: z.string().optional(),
+});
+
+type ReviewFinding = z.infer<typeof ReviewFindingSchema>;
+
+// Keep the prompt to a size models handle comfortably
+const MAX_REVIEW_PROMPT_CHARS = 60_000;
+
+// Render hunks with explicit line numbers so the model can cite exact lines
+function formatDiffForReview(files: FileDiff[]): string {
+  let text = "";
+  for (const file of files) {
+    if (file.binary) continue;
+    text += `=== ${file.path} (${file.status}) ===\n`;
+    for (const hunk of file.hunks) {
+      text += `${hunk.header}\n`;
+      for (const line of hunk.lines) {
+        const number = line.type === "del" ? `old ${line.oldLine}` : `${line.newLine}`;
+        const marker = line.type === "add" ? "+" : line.type === "del" ? "-" : " ";
+        text += `${number.padStart(8)} ${marker} ${line.content}\n`;
+      }
+    }
+    if (text.length > MAX_REVIEW_PROMPT_CHARS) {
+      return `${text.slice(0, MAX_REVIEW_PROMPT_CHARS)}\n[diff truncated]\n`;
+    }
+  }
+  return text;
+}
+
+// Find the hunk line a finding points at: new-side lines first, then deleted lines
+function anchorFinding(files: FileDiff[], finding: ReviewFinding) {
+  const file = files.find(
+    candidate => candidate.path === finding.file || candidate.oldPath === finding.file,
+  );
+  if (!file) return null;
+
+  for (const side of ["new", "old"] as const) {
+    for (const hunk of file.hunks) {
+      const line = hunk.lines.find(candidate =>
+        side === "new"
+          ? candidate.newLine === finding.line
+          : candidate.type === "del" && candidate.oldLine === finding.line,
+      );
+      if (line) {
+        return {
+          ...finding,
+          file: file.path,
+          side,
+          hunk: hunk.header,
+          lineType: line.type,
+          lineContent: line.content,
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+async function reviewWithLlm(files: FileDiff[]) {
+  const systemPrompt = `You are a meticulous senior code reviewer. Review the diff and report concrete problems only.
+Each line of the diff is prefixed with its line number in the new file ("old N" for deleted lines).
+Respond with ONLY a JSON array. Each element must be:
+{"file": string, "line": number, "severity": "critical"|"major"|"minor"|"info", "category": "bug"|"security"|"performance"|"maintainability"|"style"|"testing"|"validation", "message": string, "suggestion": string}
+"line" must be a line number shown in the diff for that file. Return [] if there is nothing worth reporting.`;
+
+  const response = await completeFor(
+    "codeReview",
+    [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: formatDiffForReview(files) },
+    ],
+    { temperature: 0 },
+  );
+
+  const parsed = parseJsonReply(response.content);
+  if (!Array.isArray(parsed)) {
+    throw new Error("The model did not return a JSON array of findings.");
+  }
+
+  const findings = [];
+  const unanchored = [];
+  let invalid = 0;
+
+  for (const item of parsed) {
+    const result = ReviewFindingSchema.safeParse(item);
+    if (!result.success) {
+      invalid++;
+      continue;
+    }
+    const anchored = anchorFinding(files, result.data);
+    if (anchored) {
+      findings.push(anchored);
+    } else {
+      unanchored.push(result.data);
+    }
+  }
+
+  return { model: response.model, findings, unanchored, invalid };
+}
+
 export async function runCodeReviewTool(
   args: z.infer<typeof CodeReviewToolSchema>,
 ) {
-  const { folderPath } = args;
+  const { scope, mergeBase, pathspec = [], review } = args;
 
-  let diffOutput = "";
   try {
-    diffOutput = execSync(`git -C "${folderPath}" diff`, {
-      encoding: "utf-8",
-    });
-  } catch (error) {
-    // If there's an error (e.g., no git repo, or the file doesn't exist), include it in the response.
-    diffOutput = `Error running git diff: ${error}`;
-  }
+    const folderPath = resolveWorkspacePath(args.folderPath);
 
-  const instructions =
-    "Review this diff for any obvious issues. Fix them if found, then finalize the changes.";
+    let base: { ref: string; commit: string; mergeBase: boolean } | null = null;
 
-  const message = `Git Diff Output:\n${diffOutput}\n\nInstructions:\n${instructions}`;
+    if (scope === "branch") {
+      const ref = args.baseRef || (await findDefaultBranch(folderPath));
+      if (!(await refExists(folderPath, ref))) {
+        throw new Error(`Base ref '${ref}' does not exist.`);
+      }
+      const commit = mergeBase
+        ? await getMergeBase(folderPath, ref, "HEAD")
+        : await revParse(folderPath, ref);
+      base = { ref, commit, mergeBase };
+    }
 
-  return {
-    content: [
-      {
-        type: "text",
-        text: message,
+    const files = await getDiff(folderPath, {
+      base: base?.commit,
+      staged: scope === "staged",
+      pathspec,
+    });
+
+    const result: Record<string, unknown> = {
+      scope,
+      base,
+      pathspec,
+      summary: {
+        files: files.length,
+        additions: files.reduce((total, file) => total + file.additions, 0),
+        deletions: files.reduce((total, file) => total + file.deletions, 0),
       },
-    ],
-  };
+      files,
+    };
+
+    if (review && files.length > 0) {
+      const provider = getLlmProvider();
+      if (!provider.isAvailable()) {
+        result.review = {
+          error: `The ${provider.name} LLM provider is not configured (missing API key or base URL).`,
+        };
+      } else {
+        try {
+          result.review = await reviewWithLlm(files);
+        } catch (error: any) {
+          result.review = { error: `LLM Error (${provider.name}): ${error.message || error}` };
+        }
+      }
+    }
+
+    result.instructions = review
+      ? "Check each finding against its hunk line. Fix the valid ones, then finalize the changes."
+      : "Review this diff for any obvious issues. Fix them if found, then finalize the changes.";
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    };
+  } catch (error: any) {
+    // If there's an error (e.g., no git repo, or a bad ref), include it in the response.
+    const prefix = error instanceof GitError ? "Error running git" : "Error reviewing changes";
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${prefix}: ${error.message || error}`,
+        },
+      ],
+    };
+  }
 }
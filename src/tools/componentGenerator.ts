@@ -1,13 +1,57 @@
 import fs from 'fs'
-import OpenAI from 'openai'
 import path from 'path'
 import { z } from 'zod'
-import { OPENAI_API_KEY } from '../env/keys.js'
+import { importSpecifier } from '../analysis/project.js'
+import { applyChangeSet, planChangeSet, PlannedFile } from '../codemods/changeSet.js'
+import { getProjectConfig, ProjectConfig } from '../config.js'
+import { companionFiles } from '../generator/companions.js'
+import {
+  describeField,
+  FieldSpec,
+  FieldSpecSchema,
+  renderFieldControl,
+  renderFields,
+  renderFormNodes,
+} from '../generator/fields.js'
+import { describeFormNodes, FormSource, loadFormSource } from '../generator/formSource.js'
+import {
+  ComponentStyle,
+  componentFilePath,
+  describeStyle,
+  exampleComponent,
+  formatCode,
+  learnComponentStyle,
+  restyleComponent,
+  summarizeStyle,
+} from '../generator/style.js'
+import {
+  CodeDiagnostic,
+  formatDiagnostics,
+  hasErrors,
+  verifyComponent,
+} from '../generator/verify.js'
+import { ChatMessage, completeFor, getLlmProvider, stripCodeFences } from '../llm/index.js'
+import { resolveWorkspacePath, toWorkspaceRelative } from '../workspace.js'
 
 /**
  * Component Generator tool
  *   - Creates React components that follow validation patterns
- *   - Uses OpenAI to intelligently generate code with proper validation
+ *   - Fields are typed (kind, rules, formatter); templates get the matching zod schema, input and
+ *     FormatterService call for each
+ *   - A form can be built from an existing zod schema or type (`from`): its fields, required flags,
+ *     nested objects and arrays are read with the type checker, and a schema is imported rather
+ *     than redefined
+ *   - Uses the configured LLM provider to generate code with proper validation, or templates
+ *     (always with `generator: 'template'`, and when no provider is available)
+ *   - Follows the conventions of the project's existing components of the same type (imports,
+ *     export and props style, formatting, file naming and placement, test location), in both
+ *     template and LLM output
+ *   - Checks the code before writing it: parsed and typechecked in memory against the project's
+ *     tsconfig, then run through the validationChecker rules; errors in LLM output go back to the
+ *     model for a bounded number of repairs, and a component still in error isn't written
+ *   - Can add a test, a Storybook story and a barrel export next to the component
+ *   - Returns everything as a change set with diffs; `dryRun` previews it without writing, and
+ *     `overwrite` decides what happens to files that already exist
  */
 
 export const componentGeneratorToolName = 'componentGenerator'
@@ -18,36 +62,45 @@ export const ComponentGeneratorToolSchema = z.object({
   name: z.string(), // Component name
   type: z.enum(['form', 'field', 'display', 'page', 'layout']),
   description: z.string(), // Brief description of what the component should do
-  fields: z
-    .array(
-      z.object({
-        name: z.string(),
-        type: z.string(),
-        validations: z.array(z.string()).optional(),
-        formatting: z.string().optional(),
-      }),
-    )
-    .optional(),
+  fields: z.array(FieldSpecSchema).optional(), // Typed fields; a field component uses the first
+  from: z.string().optional(), // A form's zod schema or type: `userSchema`, `User` or `path#User`
   outputDir: z.string().optional(), // Where to output the file
+  generator: z.enum(['auto', 'template', 'llm']).default('auto'), // auto: the LLM when configured
+  companions: z.array(z.enum(['test', 'story', 'index'])).default([]), // Files to add alongside
+  overwrite: z.enum(['error', 'skip', 'replace']).default('error'), // For files that already exist
+  dryRun: z.boolean().default(false), // Return the change set without writing anything
+  learnStyle: z.boolean().default(true), // Follow the conventions of existing components
+  verify: z.boolean().default(true), // Check the code before writing; false writes it regardless
+  repairAttempts: z.number().int().min(0).max(5).default(2), // LLM rounds to fix verify errors
 })
 
-// Validates a component name
+type ComponentGeneratorArgs = z.infer<typeof ComponentGeneratorToolSchema>
+
+// Validates a component name; it becomes a file name, so anything path-like is refused
 function validateComponentName(name: string): string {
   // Convert to PascalCase if not already
-  if (!/^[A-Z][a-zA-Z0-9]*$/.test(name)) {
-    const pascalCase = name
-      .split(/[-_\s]+/)
-      .map(part => part.charAt(0).toUpperCase() + part.slice(1).toLowerCase())
-      .join('')
-    return pascalCase
+  const pascalCase = /^[A-Z][a-zA-Z0-9]*$/.test(name)
+    ? name
+    : name
+        .split(/[-_\s]+/)
+        .map(part => part.charAt(0).toUpperCase() + part.slice(1).toLowerCase())
+        .join('')
+  if (!/^[A-Za-z][A-Za-z0-9_-]*$/.test(pascalCase)) {
+    throw new Error(
+      `Invalid component name '${name}': use letters, digits, '-' and '_', starting with a letter`,
+    )
   }
-  return name
+  return pascalCase
 }
 
-// Load template for form components
-async function loadTemplate(type: string): Promise<string> {
+// Load the project's template for the type, or a built-in one
+async function loadTemplate(type: string, config: ProjectConfig): Promise<string> {
+  const { importPath, validationService, formatterService } = config.validation
+
   try {
-    const templatePath = path.join(process.cwd(), `src/templates/${type}.tsx`)
+    const templatePath = resolveWorkspacePath(
+      path.join(config.componentGenerator.templatesDir, `${type}.tsx`),
+    )
     if (fs.existsSync(templatePath)) {
       return await fs.promises.readFile(templatePath, 'utf-8')
     }
@@ -56,13 +109,13 @@ async function loadTemplate(type: string): Promise<string> {
     switch (type) {
       case 'form':
         return `import React from 'react';
-import { ValidationService, FormatterService } from '@/lib/validation';
+import { ${validationService}, ${formatterService} } from '${importPath}';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { Button } from '@/components/ui/button';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Input } from '@/components/ui/input';
+// FIELD_IMPORTS
 
 // Define the form schema using zod
 const formSchema = z.object({
@@ -93,13 +146,14 @@ export function COMPONENT_NAME({ onSubmit, defaultValues = {} }: COMPONENT_NAMEP
         <Button type="submit" className="w-full">Submit</Button>
       </form>
     </Form>
-  );}`
+  );
+}`
 
       case 'field':
         return `import React from 'react';
-import { ValidationService, FormatterService } from '@/lib/validation';
+import { ${validationService}, ${formatterService} } from '${importPath}';
 import { FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
-import { Input } from '@/components/ui/input';
+// FIELD_IMPORTS
 
 // Define component props
 interface COMPONENT_NAMEProps {
@@ -126,22 +180,13 @@ export function COMPONENT_NAME({
       render={({ field }) => (
         <FormItem>
           <FormLabel>{label}{required && <span className="text-destructive"> *</span>}</FormLabel>
-          <FormControl>
-            <Input
-              {...field}
-              placeholder={placeholder}
-              value={FormatterService.formatValue(field.value, "FORMATTING_TYPE")}
-              onChange={(e) => {
-                field.onChange(e.target.value);
-              }}
-              disabled={disabled}
-            />
-          </FormControl>
+          {/* FIELD_CONTROL */}
           <FormMessage />
         </FormItem>
       )}
     />
-  );}`
+  );
+}`
 
       default:
         return `import React from 'react';
@@ -155,7 +200,8 @@ export function COMPONENT_NAME({ }: COMPONENT_NAMEProps) {
     <div>
       {/* Component content */}
     </div>
-  );}`
+  );
+}`
     }
   } catch (error) {
     console.error('Error loading template:', error)
@@ -163,177 +209,409 @@ export function COMPONENT_NAME({ }: COMPONENT_NAMEProps) {
   }
 }
 
-// Generate code for the component using OpenAI's assistance
-async function generateComponentCode(
-  args: z.infer<typeof ComponentGeneratorToolSchema>,
-): Promise<string> {
-  try {
-    // Try to use template first
-    const templateCode = await loadTemplate(args.type)
-    if (templateCode && !OPENAI_API_KEY) {
-      // Basic template replacement without AI
-      let code = templateCode.replace(/COMPONENT_NAME/g, args.name)
-
-      // Handle fields
-      if (args.fields && args.fields.length > 0) {
-        let fieldsSchema = ''
-        let fieldsDefaultValues = ''
-        let formFields = ''
-
-        args.fields.forEach(field => {
-          // Add to schema
-          fieldsSchema += `  ${field.name}: z.string()`
-          if ((field.validations || []).includes('required')) {
-            fieldsSchema += `.min(1, "${field.name} is required")`
-          }
-          fieldsSchema += ',\n'
-
-          // Add default value
-          fieldsDefaultValues += `      ${field.name}: "",\n`
-
-          // Add form field
-          formFields += `        <FormField
-          control={form.control}
-          name="${field.name}"
-          render={({ field }) => (
-            <FormItem>
-              <FormLabel>${field.name.charAt(0).toUpperCase() + field.name.slice(1)}</FormLabel>
-              <FormControl>
-                <Input {...field} />
-              </FormControl>
-              <FormMessage />
-            </FormItem>
-          )}
-        />\n`
-        })
-
-        code = code.replace('  // FIELDS_SCHEMA', fieldsSchema)
-        code = code.replace('      // FIELDS_DEFAULT_VALUES', fieldsDefaultValues)
-        code = code.replace('        {/* FORM_FIELDS */}', formFields)
-      }
-
-      return code
+// Puts the fields' imports at the template's FIELD_IMPORTS line, or after its last import.
+// Modules the template already imports from are left alone.
+function insertImports(code: string, imports: string[]): string {
+  const lines = imports
+    .filter(line => {
+      const module = line.match(/from\s+(['"][^'"]+['"])/)?.[1].slice(1, -1)
+      return !module || !new RegExp(`from\\s+['"]${module}['"]`).test(code)
+    })
+    .map(line => `${line}\n`)
+    .join('')
+  if (/^\/\/ FIELD_IMPORTS\n/m.test(code)) return code.replace(/^\/\/ FIELD_IMPORTS\n/m, lines)
+  const last = [...code.matchAll(/^import\b[\s\S]*?\bfrom\s+['"][^'"]+['"];?[ \t]*\n/gm)].pop()
+  if (!last) return lines + code
+  const end = last.index! + last[0].length
+  return code.slice(0, end) + lines + code.slice(end)
+}
+
+// The form template's inline schema, with the comment above it
+const FORM_SCHEMA_DECLARATION =
+  /^(?:\/\/[^\n]*\n)?const formSchema = z\.object\(\{\n[\s\S]*?^\}\);?\n\n?/m
+
+// Field arrays are set up right after the form, and useFieldArray joins the useForm import
+function addFieldArrays(code: string, fieldArrays: string[], imports: string[]): string {
+  if (fieldArrays.length === 0) return code
+  const formAt = code.search(/=\s*useForm\b/)
+  const returnAt = formAt < 0 ? -1 : code.slice(formAt).search(/^[ \t]*return\b/m)
+  if (returnAt >= 0) {
+    const at = formAt + returnAt
+    const indentation = code.slice(at).match(/^[ \t]*/)![0]
+    const calls = fieldArrays.map(call => `${indentation}${call}\n`).join('')
+    code = `${code.slice(0, at)}${calls}\n${code.slice(at)}`
+  }
+
+  const formImport = /import\s*\{([^}]*)\}\s*from\s*(['"])react-hook-form\2/
+  if (!formImport.test(code)) {
+    imports.push("import { useFieldArray } from 'react-hook-form';")
+    return code
+  }
+  return code.replace(formImport, (_, names: string, quote: string) => {
+    const bindings = [...names.split(',').map(name => name.trim()), 'useFieldArray']
+      .filter(Boolean)
+      .sort()
+    return `import { ${bindings.join(', ')} } from ${quote}react-hook-form${quote}`
+  })
+}
+
+// Fill in the template's placeholders without the LLM
+function renderTemplate(
+  args: ComponentGeneratorArgs,
+  templateCode: string,
+  config: ProjectConfig,
+  file: string,
+  source: FormSource | null,
+): { code: string; warnings: string[] } {
+  let code = templateCode.replace(/COMPONENT_NAME/g, args.name)
+  const imports: string[] = []
+  const warnings: string[] = []
+
+  // Handle fields, given or read from the form's schema or type
+  const fields = args.fields || []
+  const rendered = source
+    ? renderFormNodes(source.nodes, config)
+    : fields.length > 0
+      ? { ...renderFields(fields, config), fieldArrays: [] }
+      : null
+  if (rendered && code.includes('FIELDS_SCHEMA')) {
+    // The schema the form is built from is imported, not redefined
+    const shape = source?.shape
+    if (shape?.source === 'schema' && FORM_SCHEMA_DECLARATION.test(code)) {
+      code = code.replace(FORM_SCHEMA_DECLARATION, '').replace(/\bformSchema\b/g, shape.name)
+      imports.push(`import { ${shape.name} } from '${importSpecifier(file, shape.file)}';`)
+    } else if (shape?.source === 'schema') {
+      warnings.push(
+        `The template's formSchema isn't a z.object() declaration; ${shape.name} was copied ` +
+          'into it instead of imported',
+      )
     }
+    code = code.replace(/^ *\/\/ FIELDS_SCHEMA$/m, () => rendered.schema)
+    code = code.replace(/^ *\/\/ FIELDS_DEFAULT_VALUES$/m, () => rendered.defaultValues)
+    code = code.replace(/^ *\{\/\* FORM_FIELDS \*\/\}$/m, () => rendered.formFields)
+    code = addFieldArrays(code, rendered.fieldArrays, imports)
+    imports.push(...rendered.imports)
+    warnings.push(...rendered.warnings)
+  }
 
-    // If OpenAI is available, use AI to generate better code
-    if (OPENAI_API_KEY) {
-      const openai = new OpenAI({
-        apiKey: OPENAI_API_KEY,
-      })
-
-      // Prepare field descriptions for the prompt
-      const fieldDescriptions = args.fields
-        ? args.fields
-            .map(field => {
-              const validations = field.validations
-                ? `Validations: ${field.validations.join(', ')}`
-                : ''
-              const formatting = field.formatting ? `Formatting: ${field.formatting}` : ''
-              return `- ${field.name} (${field.type}) ${validations} ${formatting}`
-            })
-            .join('\n')
-        : 'No specific fields defined.'
-
-      const systemPrompt = `You are an expert React developer with a focus on validation and form handling.
-You're generating a ${args.type} component named ${args.name} with proper validation using the project's ValidationService and FormatterService from @/lib/validation.
+  // A field component's control: the first field's kind and formatter, or a plain text input
+  if (code.includes('FIELD_CONTROL')) {
+    const field: FieldSpec = fields[0] || {
+      name: 'value',
+      type: 'string',
+      required: false,
+      validations: [],
+    }
+    const rendered = renderFieldControl(field, config)
+    code = code.replace(/^( *)\{\/\* FIELD_CONTROL \*\/\}$/m, (_, indentation: string) =>
+      rendered.control
+        .split('\n')
+        .map(line => indentation + line)
+        .join('\n'),
+    )
+    imports.push(...rendered.imports)
+    warnings.push(...rendered.warnings)
+  }
+
+  return { code: insertImports(code, imports), warnings }
+}
+
+// The prompt's part about the project's conventions, with an existing component as an example
+function conventionsPrompt(style: ComponentStyle): string {
+  const lines = [
+    `Follow the conventions of the project's existing ${style.type} components ` +
+      `(learned from ${style.samples.length}):`,
+    ...describeStyle(style).map(line => `- ${line}`),
+  ]
+  const example = exampleComponent(style)
+  if (example) {
+    lines.push('', `Here is one of them (${example.file}); match its style:`, example.code)
+  }
+  return lines.join('\n')
+}
+
+// The conversation asking the LLM provider for the component
+function componentPrompt(
+  args: ComponentGeneratorArgs,
+  config: ProjectConfig,
+  style: ComponentStyle | null,
+  file: string,
+  source: FormSource | null,
+): ChatMessage[] {
+  const { importPath, validationService, formatterService } = config.validation
+
+  // Prepare field descriptions for the prompt
+  const fieldDescriptions = source
+    ? describeFormNodes(source.nodes, config)
+    : args.fields
+      ? args.fields.map(field => describeField(field, config)).join('\n')
+      : 'No specific fields defined.'
+
+  const learned = style && style.samples.length > 0 ? style : null
+  const uiLibrary = learned
+    ? learned.uiLibrary && `UI components from ${learned.uiLibrary}`
+    : 'shadcn/ui components'
+  const formLibrary = learned ? learned.formLibrary : 'react-hook-form'
+  const schemaLibrary = learned ? learned.schemaLibrary : 'zod'
+
+  const systemPrompt = `You are an expert React developer with a focus on validation and form handling.
+You're generating a ${args.type} component named ${args.name} with proper validation using the project's ${validationService} and ${formatterService} from ${importPath}.
 
 Always follow these rules:
-1. Use the ValidationService for all field validations
-2. Use the FormatterService for all value formatting
+1. Use the ${validationService} for all field validations
+2. Use the ${formatterService} for all value formatting
 3. Follow modern React patterns with TypeScript
-4. Use shadcn/ui components
-5. For forms, use react-hook-form with zod validation
+4. Use ${uiLibrary || 'the same UI components as the project'}
+5. For forms, use ${formLibrary || "the project's form handling"} with ${schemaLibrary || 'its'} validation
 6. Make the code clean, professional, and well-documented
 7. Return ONLY the component code with no explanations or markdown`
 
-      const userPrompt = `Generate a ${args.type} component named ${args.name}.
+  const conventions = learned ? `\n\n${conventionsPrompt(learned)}` : ''
+  const shape = source?.shape
+  const specifier = shape && importSpecifier(file, shape.file)
+  const sourcePrompt = !shape
+    ? ''
+    : shape.source === 'schema'
+      ? `\n\nThe fields come from the zod schema ${shape.name}. Import it with ` +
+        `\`import { ${shape.name} } from '${specifier}'\` and use it as the form's schema; don't ` +
+        'redefine it. Edit arrays of objects with useFieldArray.'
+      : `\n\nThe fields mirror the ${shape.name} type from '${specifier}'. Edit arrays of ` +
+        'objects with useFieldArray.'
+  const userPrompt = `Generate a ${args.type} component named ${args.name}.
 
 Description: ${args.description}
 
 Fields:
-${fieldDescriptions}
+${fieldDescriptions}${sourcePrompt}
+
+The component should use proper validation and formatting from the central ${validationService} and ${formatterService}.${conventions}`
+
+  return [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt },
+  ]
+}
+
+// The component's code from the model, without the fences models like to add. The token budget
+// leaves room for a whole form: a reply cut short is broken TSX
+async function completeComponent(messages: ChatMessage[]): Promise<string> {
+  const response = await completeFor('componentGenerator', messages, {
+    temperature: 0.2,
+    maxTokens: 4000,
+  })
+  return stripCodeFences(response.content)
+}
+
+// Send the code back with what's wrong with it; the model sees its latest attempt only
+function repairPrompt(
+  messages: ChatMessage[],
+  code: string,
+  diagnostics: CodeDiagnostic[],
+): ChatMessage[] {
+  const errors = diagnostics.filter(diagnostic => diagnostic.severity === 'error')
+  return [
+    ...messages,
+    { role: 'assistant', content: code },
+    {
+      role: 'user',
+      content: `The component doesn't compile or breaks the project's validation rules:
+${formatDiagnostics(errors)}
+
+Fix these problems and return the whole corrected component, code only.`,
+    },
+  ]
+}
 
-The component should use proper validation and formatting from the central ValidationService and FormatterService.`
+interface Verification {
+  passed: boolean // No errors left
+  repairs: number // LLM rounds spent fixing errors
+  diagnostics: CodeDiagnostic[]
+}
 
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-        temperature: 0.2,
-        max_tokens: 1500,
-      })
+interface GeneratedComponent {
+  code: string
+  generator: 'llm' | 'template'
+  warnings: string[]
+  verification: Verification | null // Null when `verify` is off
+}
 
-      return response.choices[0].message.content || templateCode
+// The component's code, which generator produced it, and what verifying it found
+async function generateComponentCode(
+  args: ComponentGeneratorArgs,
+  config: ProjectConfig,
+  style: ComponentStyle | null,
+  file: string,
+  source: FormSource | null,
+): Promise<GeneratedComponent> {
+  const mode = args.generator || 'auto'
+  const provider = getLlmProvider()
+  const templateCode = await loadTemplate(args.type, config)
+  // Both generators' output is brought in line with what the samples do
+  const restyle = (code: string) =>
+    style && style.samples.length > 0 && code ? restyleComponent(code, args.name, style) : code
+  const verify = (code: string) =>
+    args.verify === false ? null : verifyComponent(code, file, config)
+  const fromTemplate = (warnings: string[] = []) => {
+    const rendered = renderTemplate(args, templateCode, config, file, source)
+    const code = restyle(rendered.code)
+    const diagnostics = verify(code)
+    return {
+      code,
+      generator: 'template' as const,
+      warnings: [...warnings, ...rendered.warnings],
+      verification: diagnostics && { passed: !hasErrors(diagnostics), repairs: 0, diagnostics },
     }
+  }
 
-    return templateCode
-  } catch (error) {
-    console.error('Error generating component:', error)
-    return ''
+  if (mode === 'llm' && !provider.isAvailable()) {
+    throw new Error("No LLM provider is configured; use generator 'template' or 'auto'")
+  }
+  if (mode === 'template' || !provider.isAvailable()) return fromTemplate()
+
+  const messages = componentPrompt(args, config, style, file, source)
+  let code: string
+  try {
+    code = restyle(await completeComponent(messages))
+    if (!code && mode === 'llm') throw new Error('The LLM returned no code')
+    if (!code) return fromTemplate(['The LLM returned no code; used the template instead'])
+  } catch (error: any) {
+    if (mode === 'llm') throw error
+    const reason = error.message || error
+    return fromTemplate([`LLM generation failed (${reason}); used the template instead`])
+  }
+
+  // Errors go back to the model, a bounded number of times; whatever remains is reported
+  const warnings: string[] = []
+  let diagnostics = verify(code)
+  let repairs = 0
+  while (diagnostics && hasErrors(diagnostics) && repairs < (args.repairAttempts ?? 2)) {
+    repairs++
+    try {
+      const repaired = restyle(await completeComponent(repairPrompt(messages, code, diagnostics)))
+      if (!repaired) break
+      code = repaired
+      diagnostics = verify(code)
+    } catch (error: any) {
+      warnings.push(`Repair attempt ${repairs} failed: ${error.message || error}`)
+      break
+    }
+  }
+
+  return {
+    code,
+    generator: 'llm',
+    warnings,
+    verification: diagnostics && { passed: !hasErrors(diagnostics), repairs, diagnostics },
   }
 }
 
-export async function runComponentGeneratorTool(
-  args: z.infer<typeof ComponentGeneratorToolSchema>,
-) {
+// What the call did, in one sentence; `verification` is set when it failed
+function resultMessage(
+  componentName: string,
+  outcome: {
+    conflicts: string[]
+    written: string[]
+    dryRun: boolean
+    verification: Verification | null
+  },
+): string {
+  const { conflicts, written, dryRun, verification } = outcome
+  if (conflicts.length > 0) {
+    const existing = conflicts.join(', ')
+    return `Nothing written: ${existing} already exist; set overwrite to replace or skip`
+  }
+  if (verification && !dryRun) {
+    const errors = verification.diagnostics.filter(
+      diagnostic => diagnostic.severity === 'error',
+    ).length
+    return (
+      `Nothing written: ${componentName} has ${errors} error(s) after ` +
+      `${verification.repairs} repair attempt(s); see verification.diagnostics, or set ` +
+      'verify to false to write it anyway'
+    )
+  }
+  if (dryRun) return `Preview of ${componentName}; nothing written`
+  if (written.length > 0) return `Wrote ${written.join(', ')}`
+  return 'Nothing written: the files are up to date or were skipped'
+}
+
+export async function runComponentGeneratorTool(args: ComponentGeneratorArgs) {
   try {
+    const config = getProjectConfig()
+
     // Validate component name
     const componentName = validateComponentName(args.name)
 
-    // Determine output directory
-    const projectRoot = path.join(process.cwd(), '..')
-    const outputDir =
-      args.outputDir ||
-      (args.type === 'page'
-        ? 'src/pages'
-        : args.type === 'form'
-          ? 'src/components/forms'
-          : args.type === 'field'
-            ? 'src/components/fields'
-            : args.type === 'layout'
-              ? 'src/components/layouts'
-              : 'src/components')
-
-    const fullOutputDir = path.join(projectRoot, outputDir)
-
-    // Ensure output directory exists
-    if (!fs.existsSync(fullOutputDir)) {
-      fs.mkdirSync(fullOutputDir, { recursive: true })
+    // The schema or type a form is built from
+    if (args.from && args.type !== 'form') {
+      throw new Error(`from only applies to form components, not ${args.type}`)
+    }
+    if (args.from && args.fields && args.fields.length > 0) {
+      throw new Error('Pass either fields or from, not both')
     }
+    const source = args.from ? loadFormSource(args.from, config) : null
 
-    // Generate component
-    const componentCode = await generateComponentCode({
-      ...args,
-      name: componentName,
-    })
+    // Conventions of the existing components of this type
+    const style = args.learnStyle === false ? null : learnComponentStyle(args.type, config)
+    const learned = style && style.samples.length > 0 ? style : null
+
+    // Determine output directory and file
+    const outputDir = args.outputDir || config.componentGenerator.outputDirs[args.type]
+    const { directory, file } = learned
+      ? componentFilePath(componentName, outputDir, learned)
+      : {
+          directory: resolveWorkspacePath(outputDir),
+          file: path.join(resolveWorkspacePath(outputDir), `${componentName}.tsx`),
+        }
 
-    // Determine file path
-    const filePath = path.join(fullOutputDir, `${componentName}.tsx`)
-
-    // Check if file already exists
-    if (fs.existsSync(filePath)) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(
-              {
-                success: false,
-                error: `Component ${componentName}.tsx already exists at ${outputDir}`,
-                generatedCode: componentCode,
-              },
-              null,
-              2,
-            ),
-          },
-        ],
-      }
+    // Generate component
+    const generated = await generateComponentCode(
+      { ...args, name: componentName },
+      config,
+      style,
+      file,
+      source,
+    )
+    const { code: componentCode, generator, verification } = generated
+    const warnings = [...(source?.warnings || []), ...generated.warnings]
+    if (!componentCode) {
+      throw new Error(`No template or generated code for a ${args.type} component`)
     }
 
-    // Write file
-    await fs.promises.writeFile(filePath, componentCode)
+    const companions = companionFiles(args.companions || [], {
+      name: componentName,
+      type: args.type,
+      directory,
+      file,
+      tests: learned?.tests,
+      fields: source ? source.fields : args.fields || [],
+      code: componentCode,
+      formatting: learned?.formatting,
+    }).map(companion =>
+      // The barrel keeps its own style; tests and stories take the project's formatting
+      learned && !companion.update
+        ? {
+            ...companion,
+            content: formatCode(companion.content, companion.path, learned.formatting),
+          }
+        : companion,
+    )
+    const files: PlannedFile[] = [{ path: file, content: componentCode }, ...companions]
+
+    // A component that still has errors is planned (so the diff can be seen) but not written
+    const dryRun = args.dryRun || false
+    const failed = verification !== null && !verification.passed
+    const plan = planChangeSet(files, { overwrite: args.overwrite || 'error', dryRun })
+    const changeSet = failed ? plan : await applyChangeSet(plan, files)
+
+    const conflicts = changeSet.conflicts
+    const written = changeSet.changes.filter(change => change.written).map(change => change.path)
+    const message = resultMessage(componentName, {
+      conflicts,
+      written,
+      dryRun,
+      verification: failed ? verification : null,
+    })
 
     return {
       content: [
@@ -341,11 +619,24 @@ export async function runComponentGeneratorTool(
           type: 'text',
           text: JSON.stringify(
             {
-              success: true,
-              message: `Component ${componentName}.tsx created at ${outputDir}/${componentName}.tsx`,
+              success: conflicts.length === 0 && !failed,
+              message,
               componentName,
-              filePath: `${outputDir}/${componentName}.tsx`,
-              componentCode,
+              filePath: toWorkspaceRelative(file),
+              generator,
+              ...(source
+                ? {
+                    source: {
+                      name: source.shape.name,
+                      kind: source.shape.source,
+                      file: toWorkspaceRelative(source.shape.file),
+                    },
+                  }
+                : {}),
+              ...(warnings.length > 0 ? { warnings } : {}),
+              ...(style ? { style: summarizeStyle(style) } : {}),
+              ...(verification ? { verification } : {}),
+              ...changeSet,
             },
             null,
             2,
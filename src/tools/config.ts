@@ -0,0 +1,60 @@
+import { z } from 'zod'
+import { loadProjectConfig, PROJECT_CONFIG_FILENAME } from '../config.js'
+import { getWorkspaceRoots } from '../workspace.js'
+
+/**
+ * Config tool
+ *   - Shows the effective project configuration (file values merged over defaults)
+ *   - Lets an agent check which conventions the other tools are applying
+ */
+
+export const configToolName = 'config'
+export const configToolDescription = `Shows the effective project settings from ${PROJECT_CONFIG_FILENAME} merged with defaults, plus the workspace roots.`
+
+export const ConfigToolSchema = z.object({
+  section: z
+    .enum([
+      'workspace',
+      'validation',
+      'validationChecker',
+      'screenshot',
+      'componentGenerator',
+      'documentation',
+      'llm',
+      'models',
+      'exclude',
+      'tools',
+    ])
+    .optional()
+    .describe('Only show one section of the config'),
+})
+
+export async function runConfigTool(args: z.infer<typeof ConfigToolSchema>) {
+  try {
+    const { config, path: configPath } = loadProjectConfig()
+
+    const result = {
+      configFile: configPath ?? `${PROJECT_CONFIG_FILENAME} not found, using defaults`,
+      workspaceRoots: getWorkspaceRoots(),
+      settings: args.section ? { [args.section]: config[args.section] } : config,
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    }
+  } catch (error: any) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error loading project config: ${error.message || error}`,
+        },
+      ],
+    }
+  }
+}
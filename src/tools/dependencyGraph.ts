@@ -0,0 +1,234 @@
+import fs from 'fs'
+import { globSync } from 'glob'
+import path from 'path'
+import { z } from 'zod'
+import {
+  buildDependencyGraph,
+  DependencyGraph,
+  findCycles,
+  findDependencies,
+  findImporters,
+  findOrphans,
+  ModuleNode,
+  Subgraph,
+  subgraph,
+  toDot,
+  toMermaid,
+} from '../analysis/graph.js'
+import { resolveModule } from '../analysis/project.js'
+import { getProjectConfig } from '../config.js'
+import { getWorkspaceRoots, resolveWorkspacePath, toWorkspaceRelative } from '../workspace.js'
+
+/**
+ * Dependency Graph tool
+ *   - Builds the module graph of the workspace from resolved imports (tsconfig aliases included)
+ *   - Answers who imports a file, what it depends on, where the cycles are and what is orphaned
+ *   - Renders results as JSON, Graphviz DOT or Mermaid
+ */
+
+export const dependencyGraphToolName = 'dependencyGraph'
+export const dependencyGraphToolDescription =
+  'Builds the project module dependency graph: importers of a file, its transitive dependencies, import cycles and orphaned modules, as JSON, DOT or Mermaid.'
+
+// Files that are expected to have no importers
+const DEFAULT_ENTRY_POINTS = [
+  '**/index.{ts,tsx,js,jsx,mjs,cjs}',
+  '**/main.{ts,tsx,js,jsx,mjs,cjs}',
+  '**/*.{test,spec,stories}.{ts,tsx,js,jsx}',
+  '**/*.config.{ts,js,mjs,cjs}',
+  '**/{app,pages}/**',
+  '**/__tests__/**',
+]
+
+export const DependencyGraphToolSchema = z.object({
+  query: z
+    .enum(['summary', 'importers', 'dependencies', 'cycles', 'orphans', 'graph'])
+    .default('summary'),
+  target: z
+    .string()
+    .optional()
+    .describe('File path or import specifier (e.g. @/lib/validation); required for importers/dependencies'),
+  rootDir: z.string().optional(), // Directory to scan (default: every workspace root)
+  depth: z.number().int().positive().optional(), // Limit importers/dependencies (default: transitive)
+  includeTypeOnly: z.boolean().default(true), // Count `import type` edges
+  entryPoints: z.array(z.string()).optional(), // Globs exempt from orphan detection
+  format: z.enum(['json', 'dot', 'mermaid']).default('json'),
+})
+
+type DependencyGraphArgs = z.infer<typeof DependencyGraphToolSchema>
+
+// A workspace file, or an import specifier resolved from the scan root
+function resolveTarget(target: string, scanRoots: string[]): string {
+  try {
+    const fullPath = resolveWorkspacePath(target)
+    if (fs.existsSync(fullPath) && fs.statSync(fullPath).isFile()) return fs.realpathSync(fullPath)
+  } catch {
+    // Not a workspace path; try it as a specifier
+  }
+
+  for (const root of scanRoots) {
+    const { resolvedPath } = resolveModule(target, path.join(root, '__dependencyGraph__.ts'))
+    if (resolvedPath) return resolvedPath
+  }
+
+  throw new Error(`Could not find '${target}' as a file or resolvable import`)
+}
+
+function listEntryPoints(scanRoots: string[], patterns: string[], exclude: string[]): Set<string> {
+  const entryPoints = new Set<string>()
+  for (const root of scanRoots) {
+    for (const file of globSync(patterns, {
+      cwd: root,
+      absolute: true,
+      nodir: true,
+      ignore: exclude.map(dir => `**/${dir}/**`),
+    })) {
+      entryPoints.add(file)
+    }
+  }
+  return entryPoints
+}
+
+function describeReached(
+  graph: DependencyGraph,
+  reached: Map<string, number>,
+  target: string,
+  query: 'importers' | 'dependencies',
+) {
+  return [...reached.entries()]
+    .sort(([a, depthA], [b, depthB]) => depthA - depthB || a.localeCompare(b))
+    .map(([file, depth]) => {
+      if (depth > 1) return { path: toWorkspaceRelative(file), depth }
+      // The import statements that make up a direct edge
+      const edges =
+        query === 'importers'
+          ? (graph.nodes.get(file)?.imports || []).filter(edge => edge.to === target)
+          : (graph.nodes.get(target)?.imports || []).filter(edge => edge.to === file)
+      return {
+        path: toWorkspaceRelative(file),
+        depth,
+        via: edges.map(edge => ({ line: edge.line, kind: edge.kind, typeOnly: edge.typeOnly })),
+      }
+    })
+}
+
+function render(format: DependencyGraphArgs['format'], result: unknown, graph: Subgraph): string {
+  if (format === 'dot') return toDot(graph, toWorkspaceRelative)
+  if (format === 'mermaid') return toMermaid(graph, toWorkspaceRelative)
+  return JSON.stringify(result, null, 2)
+}
+
+export async function runDependencyGraphTool(args: DependencyGraphArgs) {
+  const { query = 'summary', format = 'json' } = args
+
+  try {
+    const config = getProjectConfig()
+    const scanRoots = args.rootDir ? [resolveWorkspacePath(args.rootDir)] : getWorkspaceRoots()
+    const graph = await buildDependencyGraph(scanRoots, {
+      exclude: config.exclude,
+      includeTypeOnly: args.includeTypeOnly ?? true,
+    })
+
+    let result: unknown
+    let view: Subgraph
+
+    switch (query) {
+      case 'importers':
+      case 'dependencies': {
+        if (!args.target) throw new Error(`'target' is required for the ${query} query`)
+        const target = resolveTarget(args.target, scanRoots)
+        const reached =
+          query === 'importers'
+            ? findImporters(graph, target, args.depth)
+            : findDependencies(graph, target, args.depth)
+        const node = graph.nodes.get(target)
+        result = {
+          target: toWorkspaceRelative(target),
+          [query]: describeReached(graph, reached, target, query),
+          ...(query === 'dependencies' && node
+            ? { external: node.external, unresolved: node.unresolved }
+            : {}),
+        }
+        view = subgraph(graph, [target, ...reached.keys()])
+        break
+      }
+
+      case 'cycles': {
+        const cycles = findCycles(graph)
+        result = { cycleCount: cycles.length, cycles: cycles.map(cycle => cycle.map(toWorkspaceRelative)) }
+        view = subgraph(graph, cycles.flat())
+        break
+      }
+
+      case 'orphans': {
+        const entryPoints = listEntryPoints(
+          scanRoots,
+          args.entryPoints || DEFAULT_ENTRY_POINTS,
+          config.exclude,
+        )
+        const orphans = findOrphans(graph, entryPoints)
+        result = { orphanCount: orphans.length, orphans: orphans.map(toWorkspaceRelative) }
+        view = { nodes: orphans, edges: [] }
+        break
+      }
+
+      case 'graph': {
+        view = subgraph(graph, graph.nodes.keys())
+        result = {
+          nodes: view.nodes.map(toWorkspaceRelative),
+          edges: view.edges.map(edge => ({
+            ...edge,
+            from: toWorkspaceRelative(edge.from),
+            to: toWorkspaceRelative(edge.to),
+          })),
+        }
+        break
+      }
+
+      case 'summary':
+      default: {
+        const nodes = [...graph.nodes.values()]
+        const importerCount = (node: ModuleNode) => new Set(node.importedBy.map(edge => edge.from)).size
+        const importCount = (node: ModuleNode) => new Set(node.imports.map(edge => edge.to)).size
+        const byImporters = [...nodes].sort((a, b) => importerCount(b) - importerCount(a))
+        const byImports = [...nodes].sort((a, b) => importCount(b) - importCount(a))
+        result = {
+          modules: nodes.length,
+          edges: nodes.reduce((total, node) => total + importCount(node), 0),
+          cycles: findCycles(graph).length,
+          mostImported: byImporters.slice(0, 10).map(node => ({
+            path: toWorkspaceRelative(node.path),
+            importers: importerCount(node),
+          })),
+          mostDependencies: byImports.slice(0, 10).map(node => ({
+            path: toWorkspaceRelative(node.path),
+            imports: importCount(node),
+          })),
+          unresolvedImports: nodes
+            .filter(node => node.unresolved.length > 0)
+            .map(node => ({ path: toWorkspaceRelative(node.path), specifiers: node.unresolved })),
+        }
+        view = subgraph(graph, graph.nodes.keys())
+        break
+      }
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: render(format, result, view),
+        },
+      ],
+    }
+  } catch (error: any) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error building dependency graph: ${error.message || error}`,
+        },
+      ],
+    }
+  }
+}
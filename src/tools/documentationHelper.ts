@@ -1,48 +1,66 @@
 import * as fs from 'fs'
-import * as path from 'path'
 import { promisify } from 'util'
 import { z } from 'zod'
+import { getProjectConfig } from '../config.js'
+import { extractSections, extractTitle } from '../docs/markdown.js'
+import { refreshDocumentationIndex, searchDocumentationIndex } from '../docs/searchIndex.js'
+import { resolveWithin, resolveWorkspacePath } from '../workspace.js'
 
-const readdir = promisify(fs.readdir)
 const readFile = promisify(fs.readFile)
-const stat = promisify(fs.stat)
 
 /**
  * Documentation Helper tool
  *   - Indexes and searches through project documentation
  *   - Helps find relevant information in project docs
+ *   - Searches return ranked sections (BM25 over stemmed words, `"quoted phrases"` matched
+ *     exactly) with their heading path and line numbers; see docs/searchIndex.ts
  */
 
 export const documentationHelperToolName = 'documentationHelper'
 export const documentationHelperToolDescription =
-  'Searches through project documentation to find relevant information.'
+  'Searches through project documentation to find relevant information. Results are the best matching sections, ranked, with their heading path and line numbers.'
 
 export const DocumentationHelperToolSchema = z.object({
-  query: z.string().optional().describe('Search query to find relevant documentation'),
+  query: z
+    .string()
+    .optional()
+    .describe('Search query to find relevant documentation; "quoted phrases" must match exactly'),
   docFile: z.string().optional().describe('Specific documentation file to read'),
   section: z.string().optional().describe('Specific section within a documentation file'),
   listDocs: z
     .boolean()
     .optional()
     .describe('Whether to list all documentation files with summaries'),
+  limit: z
+    .number()
+    .int()
+    .min(1)
+    .max(50)
+    .optional()
+    .describe('Maximum number of search results (default 10)'),
 })
 
 type DocumentationHelperToolInput = z.infer<typeof DocumentationHelperToolSchema>
 
 interface DocumentationFile {
-  filename: string
+  filename: string // Relative to the docs directory
   title: string
   summary: string
-  sections: { heading: string; content: string }[]
+  sections: string[] // Headings
 }
 
 // Implementation
 export async function runDocumentationHelperTool(params: DocumentationHelperToolInput) {
-  // Get the project root
-  const projectRoot = process.cwd()
-
   // Locate the docs directory - typically at the project root
-  const docsDir = path.join(projectRoot, 'docs')
+  let docsDir: string
+  try {
+    docsDir = resolveWorkspacePath(getProjectConfig().documentation.directory)
+  } catch (error) {
+    return {
+      error: 'Documentation directory not found',
+      details: error instanceof Error ? error.message : String(error),
+    }
+  }
 
   // Check if the docs directory exists
   if (!fs.existsSync(docsDir)) {
@@ -62,14 +80,14 @@ export async function runDocumentationHelperTool(params: DocumentationHelperTool
           filename: doc.filename,
           title: doc.title,
           summary: doc.summary,
-          sections: doc.sections.map(s => s.heading),
+          sections: doc.sections,
         })),
       }
     }
 
     // Read a specific documentation file
     if (params.docFile) {
-      const filePath = path.join(docsDir, params.docFile)
+      const filePath = resolveWithin(docsDir, params.docFile)
 
       if (!fs.existsSync(filePath)) {
         return {
@@ -114,10 +132,15 @@ export async function runDocumentationHelperTool(params: DocumentationHelperTool
 
     // Search through documentation
     if (params.query) {
-      const results = await searchDocumentation(docsDir, params.query)
+      const { results, index } = await searchDocumentation(
+        docsDir,
+        params.query,
+        params.limit ?? 10,
+      )
       return {
         query: params.query,
         results,
+        index,
       }
     }
 
@@ -139,150 +162,29 @@ export async function runDocumentationHelperTool(params: DocumentationHelperTool
 }
 
 // Helper functions
-async function getDocumentationList(docsDir: string): Promise<DocumentationFile[]> {
-  const files = await readdir(docsDir)
-  const mdFiles = files.filter(file => file.endsWith('.md'))
-
-  const docs: DocumentationFile[] = []
-
-  for (const file of mdFiles) {
-    const filePath = path.join(docsDir, file)
-    const fileStat = await stat(filePath)
-
-    // Skip directories
-    if (fileStat.isDirectory()) continue
-
-    const content = await readFile(filePath, 'utf-8')
-    const title = extractTitle(content)
-    const summary = extractSummary(content)
-    const sections = extractSections(content)
-
-    docs.push({
-      filename: file,
-      title,
-      summary,
-      sections,
-    })
-  }
-
-  return docs
-}
-
-function extractTitle(content: string): string {
-  const titleMatch = content.match(/^# (.+)$/m)
-  return titleMatch ? titleMatch[1] : 'Untitled Document'
-}
-
-function extractSummary(content: string): string {
-  // Find the first paragraph after the title
-  const paragraphMatch = content.match(/^# .+\n\n(.+?)\n/s)
-  const summary = paragraphMatch ? paragraphMatch[1] : ''
-
-  // Limit summary length to 200 characters
-  return summary.length > 200 ? summary.substring(0, 197) + '...' : summary
-}
-
-function extractSections(content: string): { heading: string; content: string }[] {
-  const headingRegex = /^(#+) (.+)$/gm
-  const sections: { heading: string; content: string }[] = []
-
-  let match
-  let lastIndex = 0
-  let lastLevel = 0
-  let lastHeading = ''
-
-  // Find all headings
-  while ((match = headingRegex.exec(content)) !== null) {
-    // If this isn't the first heading, add the content of the previous section
-    if (lastHeading) {
-      const sectionContent = content.substring(lastIndex, match.index).trim()
-      sections.push({
-        heading: lastHeading,
-        content: sectionContent,
-      })
-    }
-
-    // Save this heading's information
-    lastLevel = match[1].length
-    lastHeading = match[2]
-    lastIndex = match.index + match[0].length
-  }
-
-  // Add the last section
-  if (lastHeading) {
-    const sectionContent = content.substring(lastIndex).trim()
-    sections.push({
-      heading: lastHeading,
-      content: sectionContent,
-    })
-  }
-
-  return sections
+async function loadIndex(docsDir: string) {
+  const config = getProjectConfig()
+  const indexFile = resolveWorkspacePath(config.documentation.indexFile)
+  return refreshDocumentationIndex(docsDir, indexFile, config.exclude)
 }
 
-async function searchDocumentation(docsDir: string, query: string): Promise<any[]> {
-  const docs = await getDocumentationList(docsDir)
-  const searchTerms = query
-    .toLowerCase()
-    .split(/\s+/)
-    .filter(term => term.length > 2)
-
-  if (searchTerms.length === 0) {
-    return []
-  }
-
-  const results = []
-
-  for (const doc of docs) {
-    const filePath = path.join(docsDir, doc.filename)
-    const content = await readFile(filePath, 'utf-8')
-
-    // Check if any search term is in the content
-    const hasMatch = searchTerms.some(term => content.toLowerCase().includes(term))
-
-    if (hasMatch) {
-      // Extract snippets containing the search terms
-      const snippets = extractSnippet(content, searchTerms)
-
-      if (snippets.length > 0) {
-        results.push({
-          filename: doc.filename,
-          title: doc.title,
-          snippets,
-        })
-      }
-    }
-  }
-
-  return results
+async function getDocumentationList(docsDir: string): Promise<DocumentationFile[]> {
+  const { index } = await loadIndex(docsDir)
+  return Object.entries(index.files).map(([filename, file]) => ({
+    filename,
+    title: file.title,
+    summary: file.summary,
+    // The text before the first heading has none
+    sections: file.sections.flatMap(section => (section.heading ? [section.heading] : [])),
+  }))
 }
 
-function extractSnippet(content: string, searchTerms: string[]): string[] {
-  const lines = content.split('\n')
-  const snippets: string[] = []
-  const maxSnippetLength = 200
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].toLowerCase()
-
-    // Check if the line contains any of the search terms
-    if (searchTerms.some(term => line.includes(term))) {
-      // Build a snippet with context (1 line before and after)
-      const start = Math.max(0, i - 1)
-      const end = Math.min(lines.length - 1, i + 1)
-      let snippet = lines.slice(start, end + 1).join('\n')
-
-      // Limit snippet length
-      if (snippet.length > maxSnippetLength) {
-        snippet = snippet.substring(0, maxSnippetLength - 3) + '...'
-      }
-
-      snippets.push(snippet)
-
-      // Skip the next few lines to avoid duplicate snippets
-      i += 1
-    }
-  }
-
-  return snippets
+async function searchDocumentation(docsDir: string, query: string, limit: number) {
+  const { index, refresh } = await loadIndex(docsDir)
+  const results = await searchDocumentationIndex(index, query, limit)
+  const sections = Object.values(index.files).reduce(
+    (total, file) => total + file.sections.length,
+    0,
+  )
+  return { results, index: { files: Object.keys(index.files).length, sections, ...refresh } }
 }
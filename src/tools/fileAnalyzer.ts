@@ -1,6 +1,12 @@
 import fs from 'fs'
 import path from 'path'
+import ts from 'typescript'
 import { z } from 'zod'
+import { extractExports, extractImports } from '../analysis/modules.js'
+import { parseSourceFile } from '../analysis/project.js'
+import { analyzeServiceUsage, usedMembers, usesService } from '../analysis/serviceUsage.js'
+import { getProjectConfig } from '../config.js'
+import { resolveWorkspacePath, toWorkspaceRelative } from '../workspace.js'
 
 /**
  * File Analyzer tool
@@ -13,61 +19,41 @@ export const fileAnalyzerToolDescription =
   'Analyzes specific files in the project to extract insights about their structure and patterns.'
 
 export const FileAnalyzerToolSchema = z.object({
-  filePath: z.string(),
-  analysis: z.enum(['basic', 'validation', 'imports', 'exports', 'dependencies']).optional(),
+  filePath: z.string().min(1, 'A file path is required.'),
+  analysis: z.enum(['basic', 'validation', 'imports', 'exports', 'dependencies']).default('basic'),
 })
 
 // Function to analyze a file for validation usage
-function analyzeValidationUsage(content: string): any {
+function analyzeValidationUsage(sourceFile: ts.SourceFile): any {
+  const config = getProjectConfig()
+  const { validationService, formatterService } = config.validation
+  const usage = analyzeServiceUsage(sourceFile, config)
   const analysis = {
-    usesValidationService: false,
-    usesFormatterService: false,
-    validationImports: [] as string[],
-    validationMethods: [] as string[],
-    formatterMethods: [] as string[],
+    usesValidationService: usesService(usage, validationService),
+    usesFormatterService: usesService(usage, formatterService),
+    validationImports: usage.imports.map(info => info.statement),
+    validationMethods: usedMembers(usage, validationService),
+    formatterMethods: usedMembers(usage, formatterService),
+    bindings: usage.bindings,
+    references: usage.references.map(({ span, ...reference }) => reference),
+    unknownMethods: usage.references
+      .filter(reference => reference.known === false)
+      .map(({ service, member, location }) => ({ service, method: member, ...location })),
     potentialIssues: [] as string[],
   }
 
-  // Check for imports
-  const validationImportRegex = /import\s+.*from\s+['"]@\/lib\/validation['"]/g
-  const validationImportMatches = content.match(validationImportRegex) || []
-
-  if (validationImportMatches.length > 0) {
-    analysis.validationImports = validationImportMatches
-
-    // Check if it imports ValidationService
-    if (content.includes('ValidationService')) {
-      analysis.usesValidationService = true
-
-      // Find ValidationService method calls
-      const validationMethodRegex = /ValidationService\.([\w]+)/g
-      let match
-      while ((match = validationMethodRegex.exec(content)) !== null) {
-        if (!analysis.validationMethods.includes(match[1])) {
-          analysis.validationMethods.push(match[1])
-        }
-      }
-    }
-
-    // Check if it imports FormatterService
-    if (content.includes('FormatterService')) {
-      analysis.usesFormatterService = true
-
-      // Find FormatterService method calls
-      const formatterMethodRegex = /FormatterService\.([\w]+)/g
-      let match
-      while ((match = formatterMethodRegex.exec(content)) !== null) {
-        if (!analysis.formatterMethods.includes(match[1])) {
-          analysis.formatterMethods.push(match[1])
-        }
-      }
+  if (usage.imports.length > 0) {
+    for (const unknown of analysis.unknownMethods) {
+      analysis.potentialIssues.push(
+        `${unknown.service}.${unknown.method} (line ${unknown.line}) is not defined in ${config.validation.directory}`,
+      )
     }
 
     // Look for potential validation issues
     const inlineValidationPatterns = [/\.test\(/, /\.match\(/, /\.replace\(/]
 
     for (const pattern of inlineValidationPatterns) {
-      if (pattern.test(content)) {
+      if (pattern.test(sourceFile.text)) {
         analysis.potentialIssues.push(
           'Possibly contains inline validation/formatting that could be moved to centralized services',
         )
@@ -79,90 +65,26 @@ function analyzeValidationUsage(content: string): any {
   return analysis
 }
 
-// Function to analyze imports in a file
-function analyzeImports(content: string): any {
-  const analysis = {
-    imports: [] as { source: string; specifiers: string[] }[],
+// Imports from the AST, with resolved targets reported relative to the workspace
+function analyzeImports(sourceFile: ts.SourceFile): any {
+  return {
+    imports: extractImports(sourceFile).map(info => ({
+      ...info,
+      resolvedPath: info.resolvedPath && toWorkspaceRelative(info.resolvedPath),
+    })),
   }
-
-  // Match all import statements
-  const importRegex = /import\s+{([^}]+)}\s+from\s+['"]([^'"]+)['"]/g
-  let match
-
-  while ((match = importRegex.exec(content)) !== null) {
-    const specifiersStr = match[1]
-    const source = match[2]
-
-    // Extract individual specifiers
-    const specifiers = specifiersStr
-      .split(',')
-      .map(s => s.trim())
-      .filter(s => s !== '')
-
-    analysis.imports.push({
-      source,
-      specifiers,
-    })
-  }
-
-  // Also catch default imports
-  const defaultImportRegex = /import\s+(\w+)\s+from\s+['"]([^'"]+)['"]/g
-  while ((match = defaultImportRegex.exec(content)) !== null) {
-    const specifier = match[1]
-    const source = match[2]
-
-    analysis.imports.push({
-      source,
-      specifiers: [specifier + ' (default)'],
-    })
-  }
-
-  return analysis
 }
 
-// Function to analyze exports in a file
-function analyzeExports(content: string): any {
-  const analysis = {
-    exports: [] as string[],
-    defaultExport: null as string | null,
-  }
-
-  // Match all named exports
-  const exportRegex = /export\s+(?:const|function|class|let|var|type|interface|enum)\s+(\w+)/g
-  let match
-
-  while ((match = exportRegex.exec(content)) !== null) {
-    analysis.exports.push(match[1])
-  }
-
-  // Also catch exports from object pattern
-  const exportFromPatternRegex = /export\s+{([^}]+)}/g
-  while ((match = exportFromPatternRegex.exec(content)) !== null) {
-    const exportsList = match[1]
-      .split(',')
-      .map(s => s.trim())
-      .filter(s => s !== '')
-
-    analysis.exports.push(...exportsList)
-  }
-
-  // Check for default export
-  const defaultExportRegex = /export\s+default\s+(?:function|class)?\s*(\w+)?/
-  const defaultMatch = content.match(defaultExportRegex)
-
-  if (defaultMatch) {
-    analysis.defaultExport = defaultMatch[1] || 'anonymous'
-  }
-
-  return analysis
+function analyzeExports(sourceFile: ts.SourceFile): any {
+  return extractExports(sourceFile)
 }
 
 export async function runFileAnalyzerTool(args: z.infer<typeof FileAnalyzerToolSchema>) {
   const { filePath, analysis = 'basic' } = args
-  const projectRoot = path.join(process.cwd(), '..')
-  const fullPath = path.join(projectRoot, filePath)
 
   try {
+    const fullPath = resolveWorkspacePath(filePath)
+
     // Check if the file exists
     if (!fs.existsSync(fullPath)) {
       return {
@@ -177,6 +99,7 @@ export async function runFileAnalyzerTool(args: z.infer<typeof FileAnalyzerToolS
 
     // Read the file content
     const content = await fs.promises.readFile(fullPath, 'utf-8')
+    const sourceFile = parseSourceFile(fullPath, content)
 
     // Perform requested analysis
     const result: any = {
@@ -187,20 +110,20 @@ export async function runFileAnalyzerTool(args: z.infer<typeof FileAnalyzerToolS
 
     switch (analysis) {
       case 'validation':
-        result.validation = analyzeValidationUsage(content)
+        result.validation = analyzeValidationUsage(sourceFile)
         break
 
       case 'imports':
-        result.imports = analyzeImports(content)
+        result.imports = analyzeImports(sourceFile)
         break
 
       case 'exports':
-        result.exports = analyzeExports(content)
+        result.exports = analyzeExports(sourceFile)
         break
 
       case 'dependencies':
-        result.imports = analyzeImports(content)
-        result.validation = analyzeValidationUsage(content)
+        result.imports = analyzeImports(sourceFile)
+        result.validation = analyzeValidationUsage(sourceFile)
         break
 
       case 'basic':
@@ -209,7 +132,7 @@ export async function runFileAnalyzerTool(args: z.infer<typeof FileAnalyzerToolS
         const lines = content.split('\n')
         result.preview = lines.slice(0, Math.min(20, lines.length)).join('\n')
         result.extension = path.extname(filePath)
-        result.imports = analyzeImports(content)
+        result.imports = analyzeImports(sourceFile)
 
         // Check for React component
         if (content.includes('import React') || content.includes("from 'react'")) {
@@ -227,9 +150,10 @@ export async function runFileAnalyzerTool(args: z.infer<typeof FileAnalyzerToolS
         }
 
         // Check for validation usage
-        if (content.includes('ValidationService') || content.includes('FormatterService')) {
+        const validation = analyzeValidationUsage(sourceFile)
+        if (validation.usesValidationService || validation.usesFormatterService) {
           result.usesValidation = true
-          result.validation = analyzeValidationUsage(content)
+          result.validation = validation
         }
         break
     }
@@ -0,0 +1,189 @@
+import {
+  architectToolDescription,
+  architectToolName,
+  ArchitectToolSchema,
+  runArchitectTool,
+} from './architect.js'
+import {
+  codeReviewToolDescription,
+  codeReviewToolName,
+  CodeReviewToolSchema,
+  runCodeReviewTool,
+} from './codeReview.js'
+import {
+  componentGeneratorToolDescription,
+  componentGeneratorToolName,
+  ComponentGeneratorToolSchema,
+  runComponentGeneratorTool,
+} from './componentGenerator.js'
+import { configToolDescription, configToolName, ConfigToolSchema, runConfigTool } from './config.js'
+import {
+  dependencyGraphToolDescription,
+  dependencyGraphToolName,
+  DependencyGraphToolSchema,
+  runDependencyGraphTool,
+} from './dependencyGraph.js'
+import {
+  documentationHelperToolDescription,
+  documentationHelperToolName,
+  DocumentationHelperToolSchema,
+  runDocumentationHelperTool,
+} from './documentationHelper.js'
+import {
+  fileAnalyzerToolDescription,
+  fileAnalyzerToolName,
+  FileAnalyzerToolSchema,
+  runFileAnalyzerTool,
+} from './fileAnalyzer.js'
+import {
+  projectStructureToolDescription,
+  projectStructureToolName,
+  ProjectStructureToolSchema,
+  runProjectStructureTool,
+} from './projectStructure.js'
+import { defineTool, loadToolModules, ToolDefinition, ToolRegistry } from './registry.js'
+import {
+  runScreenshotTool,
+  screenshotToolDescription,
+  screenshotToolName,
+  ScreenshotToolSchema,
+} from './screenshot.js'
+import {
+  runValidationCheckerTool,
+  validationCheckerToolDescription,
+  validationCheckerToolName,
+  ValidationCheckerToolSchema,
+} from './validationChecker.js'
+import {
+  runValidationCoverageTool,
+  validationCoverageToolDescription,
+  validationCoverageToolName,
+  ValidationCoverageToolSchema,
+} from './validationCoverage.js'
+import {
+  runValidationSystemTool,
+  validationSystemToolDescription,
+  validationSystemToolName,
+  ValidationSystemToolSchema,
+} from './validationSystem.js'
+
+/**
+ * Built-in tools
+ *   - Adding a tool means adding one entry here; every transport reads from the registry
+ */
+
+export const builtinTools: ToolDefinition[] = [
+  defineTool({
+    name: projectStructureToolName,
+    description: projectStructureToolDescription,
+    schema: ProjectStructureToolSchema,
+    handler: runProjectStructureTool,
+    metadata: { title: 'Project structure', readOnly: true, idempotent: true },
+  }),
+  defineTool({
+    name: validationSystemToolName,
+    description: validationSystemToolDescription,
+    schema: ValidationSystemToolSchema,
+    handler: runValidationSystemTool,
+    metadata: { title: 'Validation system', readOnly: false, destructive: true, openWorld: true },
+  }),
+  defineTool({
+    name: fileAnalyzerToolName,
+    description: fileAnalyzerToolDescription,
+    schema: FileAnalyzerToolSchema,
+    handler: runFileAnalyzerTool,
+    metadata: { title: 'File analyzer', readOnly: true, idempotent: true },
+  }),
+  defineTool({
+    name: dependencyGraphToolName,
+    description: dependencyGraphToolDescription,
+    schema: DependencyGraphToolSchema,
+    handler: runDependencyGraphTool,
+    metadata: { title: 'Dependency graph', readOnly: true, idempotent: true },
+  }),
+  defineTool({
+    name: validationCheckerToolName,
+    description: validationCheckerToolDescription,
+    schema: ValidationCheckerToolSchema,
+    handler: runValidationCheckerTool,
+    metadata: { title: 'Validation checker', readOnly: false, destructive: true, idempotent: true },
+  }),
+  defineTool({
+    name: validationCoverageToolName,
+    description: validationCoverageToolDescription,
+    schema: ValidationCoverageToolSchema,
+    handler: runValidationCoverageTool,
+    metadata: { title: 'Validation coverage', readOnly: true, idempotent: true },
+  }),
+  defineTool({
+    name: componentGeneratorToolName,
+    description: componentGeneratorToolDescription,
+    schema: ComponentGeneratorToolSchema,
+    handler: runComponentGeneratorTool,
+    metadata: { title: 'Component generator', readOnly: false, destructive: true, openWorld: true },
+  }),
+  defineTool({
+    name: screenshotToolName,
+    description: screenshotToolDescription,
+    schema: ScreenshotToolSchema,
+    handler: runScreenshotTool,
+    metadata: { title: 'Screenshot', readOnly: false, destructive: true, openWorld: true },
+  }),
+  defineTool({
+    name: architectToolName,
+    description: architectToolDescription,
+    schema: ArchitectToolSchema,
+    handler: runArchitectTool,
+    metadata: { title: 'Architect', readOnly: true, openWorld: true },
+  }),
+  defineTool({
+    name: codeReviewToolName,
+    description: codeReviewToolDescription,
+    schema: CodeReviewToolSchema,
+    handler: runCodeReviewTool,
+    metadata: { title: 'Code review', readOnly: true, openWorld: true },
+  }),
+  defineTool({
+    name: documentationHelperToolName,
+    description: documentationHelperToolDescription,
+    schema: DocumentationHelperToolSchema,
+    handler: runDocumentationHelperTool,
+    // Searches write the index to documentation.indexFile
+    metadata: { title: 'Documentation helper', readOnly: false, idempotent: true },
+  }),
+  defineTool({
+    name: configToolName,
+    description: configToolDescription,
+    schema: ConfigToolSchema,
+    handler: runConfigTool,
+    metadata: { title: 'Project config', readOnly: true, idempotent: true },
+  }),
+]
+
+export interface ToolRegistryOptions {
+  toolDirs?: string[] // Extra directories to load tool modules from
+}
+
+// Build the registry with the built-in tools plus any configured tool modules
+export async function createToolRegistry(options: ToolRegistryOptions = {}): Promise<ToolRegistry> {
+  const registry = new ToolRegistry()
+
+  for (const tool of builtinTools) {
+    registry.register(tool)
+  }
+
+  if (options.toolDirs && options.toolDirs.length > 0) {
+    const { loaded, errors } = await loadToolModules(registry, options.toolDirs)
+    for (const error of errors) {
+      console.error(`Error loading tool module: ${error}`)
+    }
+    if (loaded.length > 0) {
+      console.error(`Loaded extra tools: ${loaded.join(', ')}`)
+    }
+  }
+
+  return registry
+}
+
+export { defineTool, parseToolArguments, ToolRegistry } from './registry.js'
+export type { ToolArgumentIssue, ToolDefinition, ToolMetadata } from './registry.js'
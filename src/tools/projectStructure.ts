@@ -1,6 +1,8 @@
 import fs from 'fs'
 import path from 'path'
 import { z } from 'zod'
+import { getProjectConfig } from '../config.js'
+import { getWorkspaceRoots, resolveWorkspacePath } from '../workspace.js'
 
 /**
  * Project Structure tool
@@ -13,10 +15,10 @@ export const projectStructureToolDescription =
   'Analyzes the project structure and returns a representation of it.'
 
 export const ProjectStructureToolSchema = z.object({
-  rootDir: z.string().optional(),
-  depth: z.number().optional(),
+  rootDir: z.string().optional(), // Directory to scan (default: every workspace root)
+  depth: z.number().int().positive().default(5),
   includeDirs: z.array(z.string()).optional(),
-  excludeDirs: z.array(z.string()).optional(),
+  excludeDirs: z.array(z.string()).optional(), // Default: exclude from config
 })
 
 // Function to scan a directory recursively
@@ -98,17 +100,18 @@ async function scanDirectory(
 }
 
 export async function runProjectStructureTool(args: z.infer<typeof ProjectStructureToolSchema>) {
-  const rootDir = args.rootDir || process.cwd()
   const depth = args.depth || 5
   const includeDirs = args.includeDirs || []
-  const excludeDirs = args.excludeDirs || ['node_modules', '.git', 'dist', 'build']
 
   try {
-    // Go up one directory to get the actual project root
-    const projectRoot = path.resolve(rootDir, '..')
-
-    // Scan the project directory
-    const structure = await scanDirectory(projectRoot, projectRoot, depth, includeDirs, excludeDirs)
+    const excludeDirs = args.excludeDirs || getProjectConfig().exclude
+    const scanRoots = args.rootDir ? [resolveWorkspacePath(args.rootDir)] : getWorkspaceRoots()
+
+    // Scan each directory; a single root keeps the plain structure as the result
+    const structures = await Promise.all(
+      scanRoots.map(root => scanDirectory(root, root, depth, includeDirs, excludeDirs)),
+    )
+    const structure = structures.length === 1 ? structures[0] : structures
 
     return {
       content: [
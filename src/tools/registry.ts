@@ -0,0 +1,176 @@
+import fs from 'fs'
+import path from 'path'
+import { pathToFileURL } from 'url'
+import { z } from 'zod'
+
+/**
+ * Tool registry
+ *   - Single source of truth for the tools served over MCP and the legacy HTTP routes
+ *   - Can load extra tool modules from directories listed in the server configuration
+ */
+
+// Hints that clients use to decide how careful to be before calling a tool.
+// They mirror MCP's ToolAnnotations.
+export interface ToolMetadata {
+  title?: string
+  readOnly?: boolean // Never modifies anything
+  destructive?: boolean // May overwrite or delete existing data
+  idempotent?: boolean // Repeating a call with the same arguments has no extra effect
+  openWorld?: boolean // Talks to something outside the workspace (network, browser, LLM)
+}
+
+export interface ToolDefinition<Schema extends z.AnyZodObject = z.AnyZodObject> {
+  name: string
+  description: string
+  schema: Schema
+  handler: (args: z.infer<Schema>) => Promise<unknown>
+  metadata?: ToolMetadata
+}
+
+// Keeps the handler's argument type tied to the schema when declaring a tool
+export function defineTool<Schema extends z.AnyZodObject>(
+  definition: ToolDefinition<Schema>,
+): ToolDefinition {
+  return definition as unknown as ToolDefinition
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>()
+
+  register(tool: ToolDefinition): void {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool '${tool.name}' is already registered`)
+    }
+    this.tools.set(tool.name, tool)
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name)
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name)
+  }
+
+  list(): ToolDefinition[] {
+    return [...this.tools.values()]
+  }
+}
+
+// One problem with the arguments of a tool call, addressed by its field path
+export interface ToolArgumentIssue {
+  path: string
+  message: string
+  code: string
+}
+
+export type ToolArgumentsResult =
+  | { success: true; data: Record<string, unknown> }
+  | { success: false; issues: ToolArgumentIssue[] }
+
+/**
+ * Parse a tool call's arguments against the tool's own schema. On success the
+ * parsed data (with defaults applied) is what the handler should receive.
+ */
+export function parseToolArguments(tool: ToolDefinition, args: unknown): ToolArgumentsResult {
+  const result = tool.schema.safeParse(args ?? {})
+
+  if (result.success) {
+    return { success: true, data: result.data }
+  }
+
+  return {
+    success: false,
+    issues: result.error.issues.map(issue => ({
+      path: issue.path.length > 0 ? issue.path.join('.') : '(root)',
+      message: issue.message,
+      code: issue.code,
+    })),
+  }
+}
+
+const TOOL_MODULE_EXTENSIONS = ['.js', '.mjs', '.cjs']
+
+// Plugins may bring their own copy of zod, so check the shape rather than instanceof
+function isZodObject(value: unknown): value is z.AnyZodObject {
+  return (
+    !!value &&
+    typeof (value as z.AnyZodObject).safeParse === 'function' &&
+    typeof (value as z.AnyZodObject).shape === 'object'
+  )
+}
+
+// Check that something exported by a tool module looks like a ToolDefinition
+function isToolDefinition(value: unknown): value is ToolDefinition {
+  if (!value || typeof value !== 'object') return false
+  const tool = value as Partial<ToolDefinition>
+  return (
+    typeof tool.name === 'string' &&
+    tool.name.length > 0 &&
+    typeof tool.description === 'string' &&
+    isZodObject(tool.schema) &&
+    typeof tool.handler === 'function'
+  )
+}
+
+// A module may export a single tool as default, or an array as default or `tools`
+function getModuleTools(moduleExports: Record<string, unknown>): unknown[] {
+  const exported = moduleExports.tools ?? moduleExports.default
+  if (Array.isArray(exported)) return exported
+  return exported === undefined ? [] : [exported]
+}
+
+/**
+ * Load every tool module in the given directories and register its tools.
+ * A broken module is reported and skipped so one bad plugin can't take the
+ * whole server down.
+ */
+export async function loadToolModules(
+  registry: ToolRegistry,
+  directories: string[],
+): Promise<{ loaded: string[]; errors: string[] }> {
+  const loaded: string[] = []
+  const errors: string[] = []
+
+  for (const directory of directories) {
+    const dir = path.resolve(directory)
+
+    if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+      errors.push(`Tool directory not found: ${dir}`)
+      continue
+    }
+
+    const entries = await fs.promises.readdir(dir, { withFileTypes: true })
+    const files = entries
+      .filter(entry => entry.isFile() && TOOL_MODULE_EXTENSIONS.includes(path.extname(entry.name)))
+      .map(entry => path.join(dir, entry.name))
+      .sort()
+
+    for (const file of files) {
+      try {
+        const moduleExports = await import(pathToFileURL(file).href)
+        const tools = getModuleTools(moduleExports)
+
+        if (tools.length === 0) {
+          errors.push(`${file}: no tools exported (expected a default export or 'tools')`)
+          continue
+        }
+
+        for (const tool of tools) {
+          if (!isToolDefinition(tool)) {
+            errors.push(
+              `${file}: export is not a valid tool (needs name, description, zod object schema and handler)`,
+            )
+            continue
+          }
+          registry.register(tool)
+          loaded.push(tool.name)
+        }
+      } catch (error) {
+        errors.push(`${file}: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }
+  }
+
+  return { loaded, errors }
+}
@@ -1,16 +1,19 @@
 import puppeteer from "puppeteer";
 import { z } from "zod";
-import path from "path";
 import fs from "fs";
+import { getProjectConfig } from "../config.js";
+import { resolveWorkspacePath } from "../workspace.js";
+
 /**
  * Screenshot tool
- *   - Takes in either "url" (a full URL) or "relativePath" to open on localhost:3000
+ *   - Takes in either "url" (a full URL) or "relativePath" to open on the dev server
+ *     (screenshot.baseUrl in the project config, http://localhost:3000 by default)
  *   - Returns a base64-encoded PNG screenshot
  */
 
 export const screenshotToolName = "screenshot";
 export const screenshotToolDescription =
-  "Take a screenshot of a URL or a local path (relative URL appended to http://localhost:3000).";
+  "Take a screenshot of a URL or a local path (relative URL appended to the project's dev server URL, http://localhost:3000 by default).";
 
 export const ScreenshotToolSchema = z.object({
   url: z.string().optional(),
@@ -27,9 +30,11 @@ export async function runScreenshotTool(
     if (!args.relativePath) {
       throw new Error("Must provide either 'url' or 'relativePath'");
     }
-    finalUrl = `http://localhost:3000/${args.relativePath.replace(/^\//, "")}`;
+    const baseUrl = getProjectConfig().screenshot.baseUrl.replace(/\/$/, "");
+    finalUrl = `${baseUrl}/${args.relativePath.replace(/^\//, "")}`;
   }
-  const fullPathToScreenshot = path.resolve(args.fullPathToScreenshot);
+  // The screenshot must land inside the workspace
+  const fullPathToScreenshot = resolveWorkspacePath(args.fullPathToScreenshot);
 
   // Launch Puppeteer
   const browser = await puppeteer.launch();
@@ -1,12 +1,19 @@
 import fs from 'fs'
-import { globSync } from 'glob'
-import path from 'path'
 import { z } from 'zod'
+import { parseSourceFile } from '../analysis/project.js'
+import { CheckerIssue, FileCheckResult, runCheck } from '../checker/check.js'
+import { applyTextEdits, createUnifiedDiff } from '../codemods/edits.js'
+import { planValidationFixes, ValidationRewrite } from '../codemods/validation.js'
+import { getProjectConfig, ProjectConfig } from '../config.js'
+import { resolveWorkspacePath, toWorkspaceRelative } from '../workspace.js'
 
 /**
  * Validation Checker tool
  *   - Scans components for validation rule violations
  *   - Identifies cases where validation should use ValidationService
+ *   - With `fix`, rewrites inline email/phone regex checks into ValidationService calls,
+ *     returned as unified diffs and written to disk only with `apply`
+ *   - With `changes`, only scans the files (and optionally lines) changed in git
  */
 
 export const validationCheckerToolName = 'validationChecker'
@@ -14,151 +21,106 @@ export const validationCheckerToolDescription =
   'Scans components for validation rule compliance and suggests improvements.'
 
 export const ValidationCheckerToolSchema = z.object({
-  target: z.string().optional(), // Directory or file to scan (default: src/components)
-  fix: z.boolean().optional(), // Whether to suggest fixes
+  target: z.string().optional(), // Directory or file to scan (default: validationChecker.target from config)
+  fix: z.boolean().default(false), // Produce codemods (as unified diffs) for recognised checks
+  apply: z.boolean().default(false), // With fix: write the codemods to disk
+  contextLines: z.number().int().min(0).max(10).default(2), // Lines of context around each finding
+  changes: z.enum(['all', 'working-tree', 'ref']).default('all'), // Only git changes: working-tree or ref (since baseRef)
+  baseRef: z.string().min(1).optional(), // ref: compare against this (default: the default branch)
+  mergeBase: z.boolean().default(true), // ref: use the merge-base of baseRef and HEAD
+  changedLinesOnly: z.boolean().default(false), // With changes: only report issues on added or modified lines
 })
 
-// Patterns that indicate possible validation issues
-const VALIDATION_ISSUES = [
-  {
-    pattern:
-      /\b(email|password|phone|name|address|zip|postal|code|username|url)\b.*?(validate|validation|valid|invalid|pattern|regex|match|test)/i,
-    message: 'Contains field validation that might need ValidationService',
-    severity: 'medium',
-  },
-  {
-    pattern: /\.test\(\s*\/[^/]+\/\s*\)/,
-    message: 'Using regex test() directly instead of ValidationService',
-    severity: 'high',
-  },
-  {
-    pattern: /\.match\(\s*\/[^/]+\/\s*\)/,
-    message: 'Using regex match() directly instead of ValidationService',
-    severity: 'high',
-  },
-  {
-    pattern: /new RegExp\(/,
-    message: 'Creating RegExp directly instead of using ValidationService',
-    severity: 'high',
-  },
-  {
-    pattern:
-      /\.(substring|substr|slice|trim|replace|replaceAll|padStart|padEnd|toLowerCase|toUpperCase)\(/,
-    message: 'String manipulation that might need FormatterService',
-    severity: 'low',
-  },
-  {
-    pattern: /\b(validation|validator|validate|validateField|isValid)\s*=\s*function|=>\s*{/,
-    message: 'Custom validation function that might duplicate ValidationService functionality',
-    severity: 'medium',
-  },
-]
-
-// Check a file for validation issues
-async function checkFile(filePath: string): Promise<any> {
+interface FileFix {
+  path: string // Workspace-relative
+  rewrites?: ValidationRewrite[]
+  importAdded?: boolean
+  removedConstants?: string[]
+  unusedConstants?: string[]
+  diff?: string
+  applied?: boolean
+  error?: string
+}
+
+function countBy(
+  files: FileCheckResult[],
+  key: (issue: CheckerIssue) => string,
+): Record<string, number> {
+  const counts: Record<string, number> = {}
+  for (const issue of files.flatMap(file => file.issues)) {
+    counts[key(issue)] = (counts[key(issue)] || 0) + 1
+  }
+  return counts
+}
+
+// Plan the codemods for one file and, when asked, write them
+async function fixFile(
+  filePath: string,
+  config: ProjectConfig,
+  apply: boolean,
+): Promise<FileFix | null> {
+  const relativePath = toWorkspaceRelative(filePath)
   try {
     const content = await fs.promises.readFile(filePath, 'utf-8')
-    const issues: any[] = []
-
-    // Check if the file uses validation imports
-    const usesValidationImport = content.includes('@/lib/validation')
-    const usesValidationService = content.includes('ValidationService')
-    const usesFormatterService = content.includes('FormatterService')
-
-    // Check for validation issues
-    for (const issue of VALIDATION_ISSUES) {
-      const matches = content.match(issue.pattern)
-      if (matches) {
-        // Extract lines where issues were found
-        for (const match of matches) {
-          const lines = content.split('\n')
-          const lineIndex = lines.findIndex(line => line.includes(match))
-
-          if (lineIndex >= 0) {
-            issues.push({
-              pattern: issue.pattern.toString(),
-              message: issue.message,
-              severity: issue.severity,
-              line: lineIndex + 1,
-              content: lines[lineIndex].trim(),
-              suggestion: getSuggestion(match, issue, usesValidationService, usesFormatterService),
-            })
-          }
-        }
-      }
+    const plan = planValidationFixes(parseSourceFile(filePath, content), config)
+    if (plan.edits.length === 0) return null
+
+    const fixed = applyTextEdits(content, plan.edits)
+    if (apply) {
+      await fs.promises.writeFile(filePath, fixed, 'utf-8')
     }
 
     return {
-      path: filePath,
-      usesValidationImport,
-      usesValidationService,
-      usesFormatterService,
-      issueCount: issues.length,
-      issues,
-      suggestedFix:
-        issues.length > 0 && !usesValidationImport
-          ? `import { ValidationService, FormatterService } from "@/lib/validation";`
-          : null,
+      path: relativePath,
+      rewrites: plan.rewrites,
+      importAdded: plan.importAdded,
+      ...(plan.removedConstants.length > 0 ? { removedConstants: plan.removedConstants } : {}),
+      ...(plan.unusedConstants.length > 0 ? { unusedConstants: plan.unusedConstants } : {}),
+      diff: createUnifiedDiff(relativePath, content, fixed),
+      applied: apply,
     }
   } catch (error) {
     return {
-      path: filePath,
-      error: `Error checking file: ${(error as Error).message}`,
+      path: relativePath,
+      error: `Error fixing file: ${(error as Error).message}`,
     }
   }
 }
 
-// Generate a suggestion based on the issue
-function getSuggestion(
-  match: string,
-  issue: any,
-  usesValidationService: boolean,
-  usesFormatterService: boolean,
-): string {
-  if (match.includes('.test(')) {
-    return `Use ValidationService.createValidator() or a specific validator from @/lib/validation instead of regex tests`
-  } else if (match.includes('.match(')) {
-    return `Use ValidationService.createValidator() or a specific validator from @/lib/validation instead of regex matching`
-  } else if (match.includes('trim') || match.includes('replace') || match.includes('substring')) {
-    return `Consider using FormatterService.formatValue() for consistent string formatting`
-  } else {
-    return `Consider using the appropriate method from ${usesValidationService ? '' : 'ValidationService or '}${usesFormatterService ? '' : 'FormatterService '}instead`
-  }
-}
-
 export async function runValidationCheckerTool(args: z.infer<typeof ValidationCheckerToolSchema>) {
-  const projectRoot = path.join(process.cwd(), '..')
-  const target = args.target || 'src/components'
   const fix = args.fix || false
+  const apply = fix && (args.apply || false)
 
   try {
-    const targetPath = path.join(projectRoot, target)
-
-    // Check if target is a directory or file
-    const isDirectory = fs.existsSync(targetPath) && fs.statSync(targetPath).isDirectory()
-
-    let files: string[] = []
-    if (isDirectory) {
-      // Get all relevant files in the directory
-      files = globSync(`${targetPath}/**/*.{tsx,jsx,ts,js}`, { absolute: true })
-    } else {
-      // Single file
-      if (fs.existsSync(targetPath)) {
-        files = [targetPath]
-      } else {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Target not found: ${target}`,
-            },
-          ],
-        }
+    const config = getProjectConfig()
+    const target = args.target || config.validationChecker.target
+    if (!fs.existsSync(resolveWorkspacePath(target))) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Target not found: ${target}`,
+          },
+        ],
       }
     }
 
-    // Check each file
-    const results = await Promise.all(files.map(file => checkFile(file)))
+    const changes = args.changes || 'all'
+    const check = await runCheck(config, {
+      target,
+      contextLines: args.contextLines ?? 2,
+      ...(changes !== 'all'
+        ? {
+            changes: {
+              scope: changes,
+              baseRef: args.baseRef,
+              mergeBase: args.mergeBase ?? true,
+              linesOnly: args.changedLinesOnly || false,
+            },
+          }
+        : {}),
+    })
+    const { files, results, rules, disabledRules: disabled, rulesFile } = check
 
     // Filter out files with no issues
     const filesWithIssues = results.filter(result => result.issueCount > 0)
@@ -167,22 +129,49 @@ export async function runValidationCheckerTool(args: z.infer<typeof ValidationCh
     // Sort by issue count
     filesWithIssues.sort((a, b) => b.issueCount - a.issueCount)
 
+    const fixes = fix
+      ? (await Promise.all(files.map(file => fixFile(file, config, apply)))).filter(
+          (file): file is FileFix => file !== null,
+        )
+      : []
+
     const summary = {
+      rulesFile: rulesFile && toWorkspaceRelative(rulesFile),
+      rules: rules.map(rule => rule.id),
+      disabledRules: disabled,
+      ...(check.changes ? { changes: { scope: changes, ...check.changes } } : {}),
+      cache: check.cache,
       filesScanned: files.length,
       filesWithIssues: filesWithIssues.length,
       totalIssues,
+      suppressedIssues: results.reduce((total, file) => total + (file.suppressedCount || 0), 0),
       highSeverityIssues: filesWithIssues.reduce((count, file) => {
-        return count + file.issues.filter((issue: any) => issue.severity === 'high').length
+        return count + file.issues.filter(issue => issue.severity === 'high').length
       }, 0),
+      issuesBySeverity: countBy(filesWithIssues, issue => issue.severity),
+      issuesByRule: countBy(filesWithIssues, issue => issue.ruleId),
+      errors: results
+        .filter(result => result.error)
+        .map(result => ({ path: toWorkspaceRelative(result.path), error: result.error })),
       mostProblematicFiles: filesWithIssues.slice(0, 5).map(file => ({
-        path: path.relative(projectRoot, file.path),
+        path: toWorkspaceRelative(file.path),
         issueCount: file.issueCount,
       })),
       detail: filesWithIssues.map(file => ({
-        path: path.relative(projectRoot, file.path),
+        path: toWorkspaceRelative(file.path),
         issues: file.issues,
         suggestedFix: file.suggestedFix,
       })),
+      ...(fix
+        ? {
+            fixes: {
+              filesChanged: fixes.filter(file => !file.error).length,
+              rewrites: fixes.reduce((total, file) => total + (file.rewrites?.length || 0), 0),
+              applied: apply,
+              files: fixes,
+            },
+          }
+        : {}),
     }
 
     return {
@@ -0,0 +1,70 @@
+import { z } from 'zod'
+import { analyzeFormCoverage, FieldValidation } from '../analysis/formCoverage.js'
+import { listTargetFiles } from '../checker/check.js'
+import { getProjectConfig } from '../config.js'
+
+/**
+ * Validation Coverage tool
+ *   - Finds every form under a target: `useForm` calls, zod form schemas and `<FormField>` usages
+ *   - Reports, field by field, whether validation comes from the validation module
+ *     (ValidationService), an ad-hoc regex, only built-in checks, or nothing
+ *   - Gives coverage percentages per component and overall, so validation debt can be tracked
+ */
+
+export const validationCoverageToolName = 'validationCoverage'
+export const validationCoverageToolDescription =
+  'Reports which form fields are validated and how (ValidationService, ad-hoc regex, built-in checks or nothing), with coverage per component and overall.'
+
+export const ValidationCoverageToolSchema = z.object({
+  target: z.string().optional(), // Directory or file to scan (default: validationChecker.target from config)
+  includeFields: z.boolean().default(true), // List each component's fields, not just its coverage
+  below: z.number().min(0).max(100).optional(), // Only components under this service coverage %
+  validation: z.array(z.enum(['service', 'regex', 'basic', 'none'])).optional(), // Fields to list
+})
+
+export async function runValidationCoverageTool(
+  args: z.infer<typeof ValidationCoverageToolSchema>,
+) {
+  try {
+    const config = getProjectConfig()
+    const target = args.target || config.validationChecker.target
+    const report = analyzeFormCoverage(listTargetFiles(target, config), config)
+
+    const wanted = args.validation && new Set<FieldValidation>(args.validation)
+    const components = report.components
+      .filter(component => {
+        const percent = component.coverage.servicePercent
+        return args.below === undefined || (percent !== null && percent < args.below)
+      })
+      // Least covered first
+      .sort(
+        (a, b) =>
+          (a.coverage.servicePercent ?? 101) - (b.coverage.servicePercent ?? 101) ||
+          b.coverage.fields - a.coverage.fields,
+      )
+      .map(({ fields, ...component }) => ({
+        ...component,
+        ...(args.includeFields === false
+          ? {}
+          : { fields: wanted ? fields.filter(field => wanted.has(field.validation)) : fields }),
+      }))
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ target, summary: report.summary, components }, null, 2),
+        },
+      ],
+    }
+  } catch (error: any) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Error analyzing validation coverage: ${error.message || error}`,
+        },
+      ],
+    }
+  }
+}
@@ -1,20 +1,51 @@
 import fs from 'fs'
 import path from 'path'
 import { z } from 'zod'
+import {
+  CatalogEntry,
+  CatalogKind,
+  getValidationCatalog,
+  ValidationCatalog,
+} from '../analysis/validationCatalog.js'
+import { getProjectConfig, ProjectConfig } from '../config.js'
+import { runInSandbox, SandboxTarget } from '../sandbox/index.js'
+import { generateSamples, generateSchemaSamples } from '../sandbox/samples.js'
+import { resolveWithin, resolveWorkspacePath } from '../workspace.js'
 
 /**
  * Validation System Analysis tool
  *   - Examines the validation and formatting system in the codebase
  *   - Focuses on ValidationService, FormatterService, and related components
+ *   - Returns a parsed catalog (signatures, JSDoc, regex constants, locations) rather than
+ *     raw file contents; `specificFile` still returns one file's source
+ *   - `run` calls validators, formatters, schemas and regex constants on supplied or generated
+ *     inputs in a worker thread and returns what each returned or threw; it executes the
+ *     workspace's code, which isn't isolated from the machine (see sandbox/worker.ts)
  */
 
 export const validationSystemToolName = 'validationSystem'
 export const validationSystemToolDescription =
-  'Analyzes the validation and formatting system, providing details about its structure and capabilities.'
+  'Analyzes the validation and formatting system, providing details about its structure and capabilities. The run action executes the workspace validators and formatters on sample inputs, with the same access to the machine as the server.'
+
+const MAX_DEFAULT_TARGETS = 50
 
 export const ValidationSystemToolSchema = z.object({
-  action: z.enum(['overview', 'details', 'schemas', 'formatters', 'validators']).optional(),
+  action: z
+    .enum(['overview', 'details', 'schemas', 'formatters', 'validators', 'constants', 'run'])
+    .default('overview'),
   specificFile: z.string().optional(),
+  search: z.string().optional(), // Only entries whose name, JSDoc or regex constants mention this
+  // run: what to call (default: every exported validator, formatter and schema, with samples)
+  calls: z
+    .array(
+      z.object({
+        target: z.string().min(1), // e.g. FormatterService.formatValue, isValidEmail, EMAIL_REGEX
+        inputs: z.array(z.unknown()).optional(), // First arguments to try (default: generated)
+        args: z.array(z.unknown()).optional(), // Passed after each input, e.g. ['phone']
+      }),
+    )
+    .optional(),
+  timeoutMs: z.number().int().positive().max(60_000).default(5000), // run: limit per call
 })
 
 // Function to get file content if it exists
@@ -32,35 +63,93 @@ async function getFileContent(
   }
 }
 
-// Function to get all files in a directory with a specific extension
-async function getFilesInDirectory(dirPath: string, extension = '.ts'): Promise<string[]> {
-  try {
-    if (!fs.existsSync(dirPath)) return []
+function matchesSearch(entry: CatalogEntry, search: string | undefined): boolean {
+  if (!search) return true
+  const needle = search.toLowerCase()
+  return [entry.name, entry.doc || '', ...entry.regexConstants].some(text =>
+    text.toLowerCase().includes(needle),
+  )
+}
 
-    const entries = await fs.promises.readdir(dirPath, { withFileTypes: true })
-    const files = entries
-      .filter(entry => entry.isFile() && entry.name.endsWith(extension))
-      .map(entry => path.join(dirPath, entry.name))
+// What to call and with what: the requested calls, or every entry the search leaves
+function sandboxTargets(
+  catalog: ValidationCatalog,
+  entries: CatalogEntry[],
+  args: z.infer<typeof ValidationSystemToolSchema>,
+): SandboxTarget[] {
+  const fileOf = (entry: CatalogEntry | undefined) =>
+    entry ? resolveWorkspacePath(entry.location.file) : null
+
+  if (args.calls && args.calls.length > 0) {
+    return args.calls.map(call => {
+      const entry = catalog.entries.find(candidate => candidate.name === call.target)
+      const constant = catalog.regexConstants.find(candidate => candidate.name === call.target)
+      const inputs =
+        call.inputs ||
+        (entry?.kind === 'schema' && entry.fields
+          ? generateSchemaSamples(entry.fields)
+          : generateSamples(call.target, entry?.regexConstants || []))
+      return {
+        target: call.target,
+        file: fileOf(entry) || (constant ? resolveWorkspacePath(constant.location.file) : null),
+        inputs: inputs.map(input => [input, ...(call.args || [])]),
+      }
+    })
+  }
 
-    return files
-  } catch (error) {
-    console.error(`Error reading directory ${dirPath}:`, error)
-    return []
+  return entries
+    .filter(entry => entry.exported)
+    .slice(0, MAX_DEFAULT_TARGETS)
+    .map(entry => ({
+      target: entry.name,
+      file: fileOf(entry),
+      inputs: (entry.kind === 'schema'
+        ? generateSchemaSamples(entry.fields || [])
+        : generateSamples(entry.name, entry.regexConstants)
+      ).map(input => [input]),
+    }))
+}
+
+// `3 methods: a, b, c`
+function countedList(names: string[], noun: string): string {
+  const count = `${names.length} ${noun}${names.length === 1 ? '' : 's'}`
+  return names.length > 0 ? `${count}: ${names.join(', ')}` : count
+}
+
+// One line per service and for config.ts, from what the catalog actually found
+function summarize(catalog: ValidationCatalog, config: ProjectConfig) {
+  const describeService = (name: string) => {
+    const service = catalog.services.find(candidate => candidate.name === name)
+    if (!service) return `${name} not found in ${catalog.directory}`
+    const members = catalog.entries
+      .filter(entry => entry.service === name)
+      .map(entry => entry.name.slice(name.length + 1))
+    const { file, line } = service.location
+    return `${name} (${file}:${line}) has ${countedList(members, 'method')}`
+  }
+
+  const constants = catalog.regexConstants.map(constant => constant.name)
+  return {
+    validationService: describeService(config.validation.validationService),
+    formatterService: describeService(config.validation.formatterService),
+    config: catalog.configFile
+      ? `${catalog.configFile} defines ${countedList(constants, 'regex constant')}`
+      : 'config.ts not found',
   }
 }
 
 export async function runValidationSystemTool(args: z.infer<typeof ValidationSystemToolSchema>) {
-  const projectRoot = process.cwd()
   const action = args.action || 'overview'
   const specificFile = args.specificFile
 
-  // Path to the validation system
-  const validationDir = path.join(projectRoot, '..', 'src/lib/validation')
-
   try {
+    // Path to the validation system
+    const config = getProjectConfig()
+    const validationDir = resolveWorkspacePath(config.validation.directory)
+
     // If a specific file is requested
     if (specificFile) {
-      const filePath = path.join(validationDir, specificFile)
+      const filePath = resolveWithin(validationDir, specificFile)
       const fileResult = await getFileContent(filePath)
 
       if (!fileResult.exists) {
@@ -84,160 +173,81 @@ export async function runValidationSystemTool(args: z.infer<typeof ValidationSys
       }
     }
 
+    const catalog = getValidationCatalog(config)
+    const entries = catalog.entries.filter(entry => matchesSearch(entry, args.search))
+    const respond = (result: unknown) => ({
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(result, null, 2),
+        },
+      ],
+    })
+
     // Handle different actions
     switch (action) {
       case 'overview': {
-        // Get ValidationService details
-        const validationServicePath = path.join(validationDir, 'ValidationService.ts')
-        const validationServiceResult = await getFileContent(validationServicePath)
-
-        // Get FormatterService details
-        const formatterServicePath = path.join(validationDir, 'FormatterService.ts')
-        const formatterServiceResult = await getFileContent(formatterServicePath)
-
-        // Get config details
-        const configPath = path.join(validationDir, 'config.ts')
-        const configResult = await getFileContent(configPath)
-
-        // Get directory structure
-        const schemasDir = path.join(validationDir, 'schemas')
-        const formattersDir = path.join(validationDir, 'formatters')
-        const validatorsDir = path.join(validationDir, 'validators')
-
-        const schemaFiles = await getFilesInDirectory(schemasDir)
-        const formatterFiles = await getFilesInDirectory(formattersDir)
-        const validatorFiles = await getFilesInDirectory(validatorsDir)
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(
-                {
-                  structure: {
-                    validationServiceExists: validationServiceResult.exists,
-                    formatterServiceExists: formatterServiceResult.exists,
-                    configExists: configResult.exists,
-                    schemas: schemaFiles.map(file => path.basename(file)),
-                    formatters: formatterFiles.map(file => path.basename(file)),
-                    validators: validatorFiles.map(file => path.basename(file)),
-                  },
-                  servicesSummary: {
-                    validationService: validationServiceResult.exists
-                      ? 'ValidationService.ts exists and defines methods for validating form inputs'
-                      : 'ValidationService.ts not found',
-                    formatterService: formatterServiceResult.exists
-                      ? 'FormatterService.ts exists and defines methods for formatting values'
-                      : 'FormatterService.ts not found',
-                    config: configResult.exists
-                      ? 'config.ts exists and defines validation constants and regular expressions'
-                      : 'config.ts not found',
-                  },
-                },
-                null,
-                2,
-              ),
+        const count = (kind: CatalogKind) =>
+          catalog.entries.filter(entry => entry.kind === kind).length
+        const serviceNames = catalog.services.map(service => service.name)
+
+        return respond({
+          directory: catalog.directory,
+          structure: {
+            validationServiceExists: serviceNames.includes(config.validation.validationService),
+            formatterServiceExists: serviceNames.includes(config.validation.formatterService),
+            configExists: catalog.configFile !== null,
+            files: catalog.files.map(file => path.relative(catalog.directory, file)),
+            counts: {
+              validators: count('validator'),
+              formatters: count('formatter'),
+              schemas: count('schema'),
+              regexConstants: catalog.regexConstants.length,
             },
-          ],
-        }
+          },
+          servicesSummary: summarize(catalog, config),
+        })
       }
 
-      case 'details': {
-        // Get ValidationService details
-        const validationServicePath = path.join(validationDir, 'ValidationService.ts')
-        const validationServiceResult = await getFileContent(validationServicePath)
-
-        // Get FormatterService details
-        const formatterServicePath = path.join(validationDir, 'FormatterService.ts')
-        const formatterServiceResult = await getFileContent(formatterServicePath)
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(
-                {
-                  validationService: {
-                    exists: validationServiceResult.exists,
-                    content: validationServiceResult.content,
-                  },
-                  formatterService: {
-                    exists: formatterServiceResult.exists,
-                    content: formatterServiceResult.content,
-                  },
-                },
-                null,
-                2,
+      case 'details':
+        return respond({
+          services: catalog.services,
+          members: entries.filter(entry => entry.service !== null),
+        })
+
+      case 'schemas':
+        return respond({ schemas: entries.filter(entry => entry.kind === 'schema') })
+
+      case 'formatters':
+        return respond({ formatters: entries.filter(entry => entry.kind === 'formatter') })
+
+      case 'validators':
+        return respond({ validators: entries.filter(entry => entry.kind === 'validator') })
+
+      case 'constants':
+        return respond({
+          configFile: catalog.configFile,
+          regexConstants: catalog.regexConstants.filter(
+            constant =>
+              !args.search ||
+              [constant.name, constant.pattern, ...constant.usedBy].some(text =>
+                text.toLowerCase().includes(args.search!.toLowerCase()),
               ),
-            },
-          ],
-        }
-      }
-
-      case 'schemas': {
-        const schemasDir = path.join(validationDir, 'schemas')
-        const schemaFiles = await getFilesInDirectory(schemasDir)
-
-        const schemas: Record<string, string | undefined> = {}
-
-        for (const file of schemaFiles) {
-          const filename = path.basename(file)
-          const content = await getFileContent(file)
-          schemas[filename] = content.content
-        }
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ schemas }, null, 2),
-            },
-          ],
-        }
-      }
-
-      case 'formatters': {
-        const formattersDir = path.join(validationDir, 'formatters')
-        const formatterFiles = await getFilesInDirectory(formattersDir)
-
-        const formatters: Record<string, string | undefined> = {}
-
-        for (const file of formatterFiles) {
-          const filename = path.basename(file)
-          const content = await getFileContent(file)
-          formatters[filename] = content.content
-        }
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ formatters }, null, 2),
-            },
-          ],
-        }
-      }
-
-      case 'validators': {
-        const validatorsDir = path.join(validationDir, 'validators')
-        const validatorFiles = await getFilesInDirectory(validatorsDir)
-
-        const validators: Record<string, string | undefined> = {}
-
-        for (const file of validatorFiles) {
-          const filename = path.basename(file)
-          const content = await getFileContent(file)
-          validators[filename] = content.content
-        }
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({ validators }, null, 2),
-            },
-          ],
-        }
+          ),
+        })
+
+      case 'run': {
+        const targets = sandboxTargets(catalog, entries, args)
+        const run = await runInSandbox(config, targets, args.timeoutMs ?? 5000)
+        const truncated =
+          !args.calls?.length && entries.filter(entry => entry.exported).length > targets.length
+        return respond({
+          directory: catalog.directory,
+          ...run,
+          ...(truncated
+            ? { note: `Ran the first ${targets.length} entries; narrow them with search or calls` }
+            : {}),
+        })
       }
 
       default:
@@ -245,7 +255,7 @@ export async function runValidationSystemTool(args: z.infer<typeof ValidationSys
           content: [
             {
               type: 'text',
-              text: `Invalid action: ${action}. Valid actions are: overview, details, schemas, formatters, validators.`,
+              text: `Invalid action: ${action}. Valid actions are: overview, details, schemas, formatters, validators, constants, run.`,
             },
           ],
         }
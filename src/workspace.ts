@@ -0,0 +1,125 @@
+import fs from 'fs'
+import path from 'path'
+
+/**
+ * Workspace roots
+ *   - One setting shared by every tool for "where is the project"
+ *   - Every user-supplied path goes through resolveWorkspacePath, which refuses
+ *     anything that escapes the allowed roots (including through symlinks)
+ *
+ * Roots come from `--workspace <dir>` (repeatable), then CURSOR_TOOLS_WORKSPACE
+ * (a path-delimiter separated list), and fall back to the current directory.
+ * The first root is the primary one: relative paths resolve against it unless
+ * they only exist under another root.
+ */
+
+export class WorkspacePathError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WorkspacePathError'
+  }
+}
+
+let workspaceRoots: string[] = []
+
+// Resolve symlinks where possible so containment checks compare real locations
+function realPath(target: string): string {
+  try {
+    return fs.realpathSync(target)
+  } catch {
+    // The path doesn't exist (yet): resolve its closest existing parent instead
+    const parent = path.dirname(target)
+    if (parent === target) return target
+    return path.join(realPath(parent), path.basename(target))
+  }
+}
+
+// `..cache/x` is inside the root; only a `..` segment leaves it
+export function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target)
+  const escapes = relative === '..' || relative.startsWith(`..${path.sep}`)
+  return relative === '' || (!escapes && !path.isAbsolute(relative))
+}
+
+export function configureWorkspace(roots: string[]): void {
+  const resolved = roots.map(root => realPath(path.resolve(root)))
+
+  for (const root of resolved) {
+    if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+      throw new WorkspacePathError(`Workspace root is not a directory: ${root}`)
+    }
+  }
+
+  workspaceRoots = [...new Set(resolved)]
+}
+
+// Read workspace roots from CLI flags and the environment
+export function getConfiguredWorkspaceRoots(argv: string[]): string[] {
+  const roots: string[] = []
+  argv.forEach((arg, index) => {
+    if (arg === '--workspace' && argv[index + 1]) roots.push(argv[index + 1])
+  })
+  if (roots.length === 0 && process.env.CURSOR_TOOLS_WORKSPACE) {
+    roots.push(...process.env.CURSOR_TOOLS_WORKSPACE.split(path.delimiter).filter(Boolean))
+  }
+  return roots
+}
+
+export function getWorkspaceRoots(): string[] {
+  return workspaceRoots.length > 0 ? workspaceRoots : [realPath(process.cwd())]
+}
+
+export function getWorkspaceRoot(): string {
+  return getWorkspaceRoots()[0]
+}
+
+/**
+ * Resolve a path inside `baseDir`, rejecting anything that ends up outside it.
+ * Used for paths that must stay within a specific folder, such as a doc file
+ * within the docs directory.
+ */
+export function resolveWithin(baseDir: string, userPath: string): string {
+  const base = realPath(path.resolve(baseDir))
+  const resolved = realPath(path.resolve(base, userPath))
+
+  if (!isWithin(base, resolved)) {
+    throw new WorkspacePathError(`Path '${userPath}' resolves outside ${base} and was rejected`)
+  }
+
+  return resolved
+}
+
+/**
+ * Resolve a user-supplied path against the workspace roots. Absolute paths must
+ * already be inside a root; relative paths are tried against each root.
+ */
+export function resolveWorkspacePath(userPath = '.'): string {
+  const roots = getWorkspaceRoots()
+
+  if (path.isAbsolute(userPath)) {
+    const resolved = realPath(path.resolve(userPath))
+    if (roots.some(root => isWithin(root, resolved))) {
+      return resolved
+    }
+    throw new WorkspacePathError(
+      `Path '${userPath}' is outside the workspace roots (${roots.join(', ')}) and was rejected`,
+    )
+  }
+
+  const candidates = roots.map(root => realPath(path.resolve(root, userPath)))
+  const inside = candidates.filter((candidate, index) => isWithin(roots[index], candidate))
+
+  if (inside.length === 0) {
+    throw new WorkspacePathError(
+      `Path '${userPath}' escapes the workspace roots (${roots.join(', ')}) and was rejected`,
+    )
+  }
+
+  return inside.find(candidate => fs.existsSync(candidate)) || inside[0]
+}
+
+// Express a resolved path relative to whichever root contains it
+export function toWorkspaceRelative(target: string): string {
+  const root = getWorkspaceRoots().find(root => isWithin(root, target))
+  return root ? path.relative(root, target) || '.' : target
+}
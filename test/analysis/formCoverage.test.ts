@@ -0,0 +1,127 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { analyzeFormCoverage, CoverageReport } from '../../src/analysis/formCoverage.js'
+import { ProjectConfigSchema } from '../../src/config.js'
+import { configureWorkspace } from '../../src/workspace.js'
+
+const config = ProjectConfigSchema.parse({})
+let root: string
+let report: CoverageReport
+
+const write = (file: string, lines: string[]) => {
+  fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true })
+  fs.writeFileSync(path.join(root, file), lines.join('\n') + '\n')
+  return path.join(root, file)
+}
+
+const fieldsOf = (component: string) =>
+  report.components
+    .find(entry => entry.component === component)!
+    .fields.map(field => [field.name, field.validation, field.sources])
+
+beforeAll(() => {
+  root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'form-coverage-')))
+  configureWorkspace([root])
+  write('src/lib/validation/index.ts', [
+    'export class ValidationService {',
+    '  static isValidEmail(value: string) { return value.includes("@") }',
+    '}',
+    'export const isValidZip = (value: string) => value.length === 5',
+    'export const formatZip = (value: string) => value.trim()',
+  ])
+  const files = [
+    write('src/components/Signup.tsx', [
+      "import { useForm } from 'react-hook-form'",
+      "import { z } from 'zod'",
+      "import { ValidationService, isValidZip, formatZip } from '@/lib/validation'",
+      '',
+      'const formSchema = z',
+      '  .object({',
+      '    email: z.string().refine(ValidationService.isValidEmail),',
+      '    phone: z.string().regex(/^\\+?\\d{7,15}$/),',
+      '    name: z.string().min(1),',
+      '    nickname: z.string().optional(),',
+      '    address: z.object({ zip: z.string().refine(isValidZip), city: z.string() }),',
+      '    items: z.array(z.object({ sku: z.string().transform(formatZip) })),',
+      '  })',
+      "  .refine(data => data.nickname !== data.name, { path: ['nickname'] })",
+      '',
+      'export function Signup() {',
+      '  const form = useForm({ resolver: zodResolver(formSchema) })',
+      '  return <form />',
+      '}',
+    ]),
+    write('src/components/Legacy.tsx', [
+      '// Fields of a form declared by the parent',
+      'export const Legacy = ({ register }: Props) => {',
+      '  return (',
+      '    <form>',
+      "      <input {...register('age', { required: true })} />",
+      "      <input {...register('note')} />",
+      '      <FormField name="items.0.qty" rules={{ pattern: /\\d+/ }} />',
+      '      <FormField name={`items.${index}.qty`} />',
+      '    </form>',
+      '  )',
+      '}',
+    ]),
+    write('src/components/NoForms.tsx', ['export const NoForms = () => <div />']),
+  ]
+  report = analyzeFormCoverage(files, config)
+})
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+describe('analyzeFormCoverage', () => {
+  it('classifies the fields of a zod schema passed to useForm', () => {
+    expect(fieldsOf('Signup')).toEqual([
+      ['email', 'service', ['schema']],
+      ['phone', 'regex', ['schema']],
+      ['name', 'basic', ['schema']],
+      ['nickname', 'basic', ['refine']],
+      ['address.zip', 'service', ['schema']],
+      ['address.city', 'none', []],
+      ['items[].sku', 'none', []],
+    ])
+    expect(report.components.find(entry => entry.component === 'Signup')!.forms).toMatchObject([
+      { kind: 'useForm', schema: 'formSchema' },
+    ])
+  })
+
+  it('reads register calls and FormField rules, merging array item paths', () => {
+    expect(fieldsOf('Legacy')).toEqual([
+      ['age', 'basic', ['register']],
+      ['note', 'none', []],
+      ['items[].qty', 'regex', ['rules']],
+    ])
+    expect(report.components.find(entry => entry.component === 'Legacy')!.forms).toMatchObject([
+      { kind: 'fields', schema: null },
+    ])
+  })
+
+  it('sums coverage per component and overall', () => {
+    expect(report.components.map(entry => entry.component)).toEqual(['Signup', 'Legacy'])
+    expect(report.components[0].coverage).toEqual({
+      fields: 7,
+      service: 2,
+      regex: 1,
+      basic: 2,
+      none: 2,
+      servicePercent: 28.6,
+      validatedPercent: 71.4,
+    })
+    expect(report.summary).toMatchObject({
+      files: 2,
+      components: 2,
+      forms: 2,
+      fields: 10,
+      service: 2,
+      none: 3,
+      servicePercent: 20,
+      validatedPercent: 70,
+    })
+  })
+})
@@ -0,0 +1,90 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import {
+  buildDependencyGraph,
+  DependencyGraph,
+  findCycles,
+  findDependencies,
+  findImporters,
+  findOrphans,
+  subgraph,
+  toMermaid,
+} from '../../src/analysis/graph.js'
+import { configureWorkspace } from '../../src/workspace.js'
+
+// index → a → b → c → a is a cycle, d imports itself, types is only imported for types
+const FILES: Record<string, string> = {
+  'index.ts': "import { a } from './a'\nexport { a }\n",
+  'a.ts': "import { b } from './b'\nimport type { Shape } from './types'\nexport const a = b\n",
+  'b.ts': "import { c } from './c'\nimport React from 'react'\nexport const b = c\n",
+  'c.ts': "import { a } from './a'\nexport const c = () => a\n",
+  'd.ts': "import * as self from './d'\nimport { gone } from './missing'\nexport const d = 1\n",
+  'types.ts': 'export interface Shape { id: string }\n',
+}
+
+let root: string
+let graph: DependencyGraph
+const file = (name: string) => path.join(root, name)
+const names = (files: Iterable<string>) => [...files].map(f => path.basename(f)).sort()
+
+beforeAll(async () => {
+  root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'graph-')))
+  for (const [name, content] of Object.entries(FILES)) fs.writeFileSync(file(name), content)
+  configureWorkspace([root])
+  graph = await buildDependencyGraph([root])
+})
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+describe('buildDependencyGraph', () => {
+  it('links resolved imports and keeps packages and unresolved specifiers apart', () => {
+    const b = graph.nodes.get(file('b.ts'))!
+    expect(b.imports.map(edge => path.basename(edge.to))).toEqual(['c.ts'])
+    expect(b.external).toEqual(['react'])
+    expect(graph.nodes.get(file('d.ts'))!.unresolved).toEqual(['./missing'])
+    expect(graph.nodes.get(file('a.ts'))!.imports[1]).toMatchObject({ typeOnly: true, line: 2 })
+  })
+
+  it('can leave type-only imports out', async () => {
+    const withoutTypes = await buildDependencyGraph([root], { includeTypeOnly: false })
+    expect(withoutTypes.nodes.get(file('types.ts'))!.importedBy).toEqual([])
+  })
+})
+
+describe('graph queries', () => {
+  it('walks dependencies and importers with their distance', () => {
+    const dependencies = findDependencies(graph, file('index.ts'))
+    expect(dependencies.get(file('a.ts'))).toBe(1)
+    expect(dependencies.get(file('c.ts'))).toBe(3)
+    expect(names(findDependencies(graph, file('index.ts'), 1).keys())).toEqual(['a.ts'])
+    expect(names(findImporters(graph, file('a.ts')).keys())).toEqual(['b.ts', 'c.ts', 'index.ts'])
+  })
+
+  it('reports each cycle once, as a path back to its first file', () => {
+    const cycles = findCycles(graph).map(cycle => cycle.map(f => path.basename(f)))
+    expect(cycles).toHaveLength(2)
+    expect(cycles).toContainEqual(['a.ts', 'b.ts', 'c.ts', 'a.ts'])
+    expect(cycles).toContainEqual(['d.ts', 'd.ts'])
+  })
+
+  it('finds files nothing else imports', () => {
+    expect(names(findOrphans(graph, new Set([file('index.ts')])))).toEqual(['d.ts'])
+  })
+
+  it('renders the edges between the chosen files', () => {
+    const picked = subgraph(graph, [file('a.ts'), file('b.ts'), file('types.ts')])
+    expect(picked.edges).toHaveLength(2)
+    expect(toMermaid(picked, f => path.basename(f)).split('\n')).toEqual([
+      'graph LR',
+      '  n0["a.ts"]',
+      '  n1["b.ts"]',
+      '  n2["types.ts"]',
+      '  n0 --> n1',
+      '  n0 -.-> n2',
+    ])
+  })
+})
@@ -0,0 +1,37 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { findTsConfig } from '../../src/analysis/project.js'
+import { configureWorkspace } from '../../src/workspace.js'
+
+// A workspace inside a directory with its own tsconfig, which the workspace mustn't pick up
+let outer: string
+let root: string
+
+beforeAll(() => {
+  outer = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'project-')))
+  root = path.join(outer, 'app')
+  fs.mkdirSync(path.join(root, '..cache'), { recursive: true })
+  fs.mkdirSync(path.join(root, 'packages', 'ui', 'src'), { recursive: true })
+  fs.writeFileSync(path.join(outer, 'tsconfig.json'), '{}')
+  fs.writeFileSync(path.join(root, 'packages', 'ui', 'tsconfig.json'), '{}')
+  configureWorkspace([root])
+})
+
+afterAll(() => {
+  fs.rmSync(outer, { recursive: true, force: true })
+})
+
+describe('findTsConfig', () => {
+  it('finds the closest tsconfig above the file', () => {
+    expect(findTsConfig(path.join(root, 'packages', 'ui', 'src', 'a.ts'))).toBe(
+      path.join(root, 'packages', 'ui', 'tsconfig.json'),
+    )
+  })
+
+  it("doesn't leave the workspace root, including from folders named like '..cache'", () => {
+    expect(findTsConfig(path.join(root, 'src', 'a.ts'))).toBeNull()
+    expect(findTsConfig(path.join(root, '..cache', 'a.ts'))).toBeNull()
+  })
+})
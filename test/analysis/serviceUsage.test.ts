@@ -0,0 +1,139 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { parseSourceFile } from '../../src/analysis/project.js'
+import { closestMember, hasServiceMember, loadServiceApis } from '../../src/analysis/serviceApi.js'
+import { analyzeServiceUsage, usedMembers, usesService } from '../../src/analysis/serviceUsage.js'
+import { ProjectConfigSchema } from '../../src/config.js'
+import { configureWorkspace } from '../../src/workspace.js'
+
+const config = ProjectConfigSchema.parse({})
+let root: string
+
+const analyze = (file: string, lines: string[]) =>
+  analyzeServiceUsage(parseSourceFile(path.join(root, file), lines.join('\n')), config)
+
+beforeAll(() => {
+  root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'service-usage-')))
+  configureWorkspace([root])
+  const validation = path.join(root, 'src/lib/validation')
+  fs.mkdirSync(validation, { recursive: true })
+  fs.writeFileSync(
+    path.join(validation, 'index.ts'),
+    [
+      'export class ValidationService {',
+      '  static isValidEmail(value: string) { return true }',
+      '  static isValidPhone(value: string) { return true }',
+      '  static get rules() { return [] }',
+      '  private static secret = 1',
+      '  isInstance() { return true }',
+      '}',
+      'export const FormatterService = Object.freeze({',
+      '  formatCurrency: (value: number) => String(value),',
+      '  locale: "en-US",',
+      '  ...extras,',
+      '})',
+    ].join('\n'),
+  )
+})
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+describe('loadServiceApis', () => {
+  it('reads the members the services define', () => {
+    const apis = loadServiceApis(config)
+    const validation = apis.get('ValidationService')!
+    const formatter = apis.get('FormatterService')!
+
+    expect([...validation.members.values()].map(member => [member.name, member.kind])).toEqual([
+      ['isValidEmail', 'method'],
+      ['isValidPhone', 'method'],
+      ['rules', 'accessor'],
+    ])
+    expect(validation.open).toBe(false)
+    expect([...formatter.members.keys()]).toEqual(['formatCurrency', 'locale'])
+    expect(formatter.open).toBe(true)
+  })
+
+  it('tells known, unknown and undecidable members apart', () => {
+    const apis = loadServiceApis(config)
+    expect(hasServiceMember(apis.get('ValidationService'), 'isValidEmail')).toBe(true)
+    expect(hasServiceMember(apis.get('ValidationService'), 'name')).toBe(true)
+    expect(hasServiceMember(apis.get('ValidationService'), 'isValidEmial')).toBe(false)
+    expect(hasServiceMember(apis.get('FormatterService'), 'formatDate')).toBeNull()
+    expect(hasServiceMember(undefined, 'anything')).toBeNull()
+    expect(closestMember(apis.get('ValidationService')!, 'isValidEmial')).toBe('isValidEmail')
+    expect(closestMember(apis.get('ValidationService')!, 'parse')).toBeNull()
+  })
+})
+
+describe('analyzeServiceUsage', () => {
+  it('follows renamed imports, aliases and destructuring by symbol', () => {
+    const usage = analyze('src/components/Form.tsx', [
+      "import { ValidationService as VS, FormatterService } from '@/lib/validation'",
+      'const V = VS',
+      'const { isValidPhone, formatCurrency: format } = FormatterService',
+      'VS.isValidEmail(email) // ValidationService.notCounted()',
+      "V['isValidEmial'](email)",
+      'isValidPhone(phone)',
+      'format(total)',
+      'const label = "FormatterService.locale"',
+      'function shadow(VS: unknown) { return VS.missing }',
+    ])
+
+    expect(usage.bindings.map(binding => [binding.imported, binding.local, binding.service]))
+      .toEqual([
+        ['ValidationService', 'VS', 'ValidationService'],
+        ['FormatterService', 'FormatterService', 'FormatterService'],
+      ])
+    expect(
+      usage.references.map(reference => [
+        reference.service,
+        reference.member,
+        reference.via,
+        reference.called,
+        reference.known,
+        reference.location.line,
+      ]),
+    ).toEqual([
+      ['ValidationService', 'isValidEmail', 'import', true, true, 4],
+      ['ValidationService', 'isValidEmial', 'alias', true, false, 5],
+      ['FormatterService', 'isValidPhone', 'destructured', true, null, 6],
+      ['FormatterService', 'formatCurrency', 'destructured', true, true, 7],
+    ])
+    expect(usedMembers(usage, 'ValidationService')).toEqual(['isValidEmail', 'isValidEmial'])
+    expect(usesService(usage, 'FormatterService')).toBe(true)
+  })
+
+  it('finds services through a namespace import of a relative path', () => {
+    const usage = analyze('src/components/Namespace.tsx', [
+      "import * as validation from '../lib/validation'",
+      "import type { ValidationService } from '../lib/validation'",
+      'validation.ValidationService.isValidPhone(phone)',
+      'const service: typeof ValidationService = validation.ValidationService',
+    ])
+
+    expect(usage.imports.map(entry => entry.source)).toEqual([
+      '../lib/validation',
+      '../lib/validation',
+    ])
+    expect(usage.bindings.map(binding => [binding.local, binding.typeOnly])).toEqual([
+      ['validation', false],
+      ['ValidationService', true],
+    ])
+    expect(usage.references.map(reference => [reference.member, reference.via])).toEqual([
+      ['isValidPhone', 'namespace'],
+    ])
+  })
+
+  it('ignores files that do not import the validation module', () => {
+    const usage = analyze('src/components/Other.tsx', [
+      "import { ValidationService } from './elsewhere'",
+      'ValidationService.isValidEmail(email)',
+    ])
+    expect(usage).toEqual({ imports: [], bindings: [], references: [] })
+  })
+})
@@ -0,0 +1,144 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { getValidationCatalog } from '../../src/analysis/validationCatalog.js'
+import { ProjectConfigSchema } from '../../src/config.js'
+import { configureWorkspace } from '../../src/workspace.js'
+
+const config = ProjectConfigSchema.parse({})
+let root: string
+
+const write = (file: string, lines: string[]) => {
+  fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true })
+  fs.writeFileSync(path.join(root, file), lines.join('\n') + '\n')
+}
+
+beforeAll(() => {
+  root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'catalog-')))
+  configureWorkspace([root])
+  write('src/lib/validation/config.ts', [
+    '/** Addresses with a domain */',
+    'export const EMAIL_REGEX = /^[^@\\s]+@[^@\\s]+$/i',
+    'export const PATTERNS = {',
+    "  PHONE: new RegExp('^\\\\+?[0-9]{7,15}$'),",
+    '  ZIP: /^\\d{5}$/,',
+    '}',
+  ])
+  write('src/lib/validation/index.ts', [
+    "import { EMAIL_REGEX, PATTERNS as P } from './config'",
+    '',
+    'export class ValidationService {',
+    '  /**',
+    '   * Whether a value looks like an email address',
+    '   * @param value The address',
+    '   */',
+    '  static isValidEmail(value: string) {',
+    '    return EMAIL_REGEX.test(value)',
+    '  }',
+    '  static isValidPhone = (value: string): boolean => P.PHONE.test(value)',
+    '  static version = 2',
+    '  private static helper() {}',
+    '}',
+    '',
+    'export const FormatterService = {',
+    '  formatCurrency(value: number) {',
+    '    return `$${value.toFixed(2)}`',
+    '  },',
+    '}',
+  ])
+  write('src/lib/validation/validators/zip.ts', [
+    "import * as config from '../config'",
+    '',
+    'export function zip(value: string) {',
+    '  return config.PATTERNS.ZIP.test(value)',
+    '}',
+    'function normalizeZip(value: string) {',
+    '  return value.trim()',
+    '}',
+  ])
+  write('src/lib/validation/schemas.ts', [
+    "import { z } from 'zod'",
+    '',
+    'export const contactSchema = z.object({ email: z.string().email(), phone: z.string() })',
+    'const helper = 42',
+  ])
+})
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+describe('getValidationCatalog', () => {
+  it('lists the services and their members with signatures and docs', () => {
+    const catalog = getValidationCatalog(config)
+
+    expect(catalog.directory).toBe('src/lib/validation')
+    expect(catalog.configFile).toBe('src/lib/validation/config.ts')
+    expect(catalog.services).toMatchObject([
+      { name: 'ValidationService', kind: 'validator', members: 2 },
+      { name: 'FormatterService', kind: 'formatter', members: 1 },
+    ])
+
+    const email = catalog.entries.find(entry => entry.name === 'ValidationService.isValidEmail')
+    expect(email).toMatchObject({
+      kind: 'validator',
+      service: 'ValidationService',
+      signature: 'isValidEmail(value: string): boolean',
+      doc: 'Whether a value looks like an email address',
+      tags: [{ name: 'param', text: 'value The address' }],
+      regexConstants: ['EMAIL_REGEX'],
+      location: { file: 'src/lib/validation/index.ts', line: 8 },
+    })
+    expect(catalog.entries.find(entry => entry.name === 'FormatterService.formatCurrency'))
+      .toMatchObject({ kind: 'formatter', signature: 'formatCurrency(value: number): string' })
+  })
+
+  it('classifies functions by folder and name, and schemas by their zod calls', () => {
+    const entries = getValidationCatalog(config).entries
+    const byName = (name: string) => entries.find(entry => entry.name === name)
+
+    expect(byName('zip')).toMatchObject({
+      kind: 'validator',
+      exported: true,
+      regexConstants: ['PATTERNS.ZIP'],
+    })
+    expect(byName('normalizeZip')).toMatchObject({ kind: 'validator', exported: false })
+    expect(byName('contactSchema')).toMatchObject({
+      kind: 'schema',
+      fields: ['email', 'phone'],
+      signature: 'z.object({ email: z.string().email(), phone: z.string() })',
+    })
+    expect(byName('helper')).toBeUndefined()
+    expect(byName('ValidationService.version')).toBeUndefined()
+  })
+
+  it('lists the regex constants of config.ts with the entries using them', () => {
+    const constants = getValidationCatalog(config).regexConstants
+
+    const summary = constants.map(({ name, pattern, flags, doc, usedBy }) => ({
+      name,
+      pattern,
+      flags,
+      doc,
+      usedBy,
+    }))
+    expect(summary).toEqual([
+      {
+        name: 'EMAIL_REGEX',
+        pattern: '^[^@\\s]+@[^@\\s]+$',
+        flags: 'i',
+        doc: 'Addresses with a domain',
+        usedBy: ['ValidationService.isValidEmail'],
+      },
+      {
+        name: 'PATTERNS.PHONE',
+        pattern: '^\\+?[0-9]{7,15}$',
+        flags: '',
+        doc: null,
+        usedBy: ['ValidationService.isValidPhone'],
+      },
+      { name: 'PATTERNS.ZIP', pattern: '^\\d{5}$', flags: '', doc: null, usedBy: ['zip'] },
+    ])
+  })
+})
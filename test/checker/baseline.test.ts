@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import { compareWithBaseline, createBaseline } from '../../src/checker/baseline.js'
+import { CheckerIssue } from '../../src/checker/check.js'
+
+const issue = (ruleId: string, match: string) => ({ ruleId, match }) as CheckerIssue
+
+describe('compareWithBaseline', () => {
+  const baseline = createBaseline([
+    {
+      path: 'src/A.tsx',
+      issues: [issue('regex-test', '/a/.test('), issue('new-regexp', 'new RegExp(')],
+    },
+    { path: 'src/B.tsx', issues: [issue('regex-test', '/b/.test(')] },
+  ])
+
+  it('marks recorded issues unchanged and counts the ones that are gone', () => {
+    const files = [
+      {
+        path: 'src/A.tsx',
+        issues: [issue('regex-test', '/a/.test('), issue('regex-match', '.match(/x/)')],
+      },
+      { path: 'src/B.tsx', issues: [] },
+    ]
+    const { states, absent } = compareWithBaseline(files, baseline)
+
+    expect([...states.values()]).toEqual(['unchanged', 'new'])
+    expect(absent).toBe(2)
+  })
+
+  it('only counts issues as gone in the files that were checked', () => {
+    const files = [{ path: 'src/A.tsx', issues: [issue('regex-test', '/a/.test(')] }]
+
+    expect(compareWithBaseline(files, baseline).absent).toBe(2)
+    expect(compareWithBaseline(files, baseline, new Set(['src/A.tsx'])).absent).toBe(1)
+  })
+})
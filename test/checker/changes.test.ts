@@ -0,0 +1,86 @@
+import { execFileSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { findChangedFiles } from '../../src/checker/changes.js'
+
+// A repository with a main branch and a feature branch checked out
+let repo: string
+
+const git = (...args: string[]) => execFileSync('git', args, { cwd: repo, stdio: 'pipe' })
+const write = (file: string, lines: string[]) => {
+  fs.mkdirSync(path.dirname(path.join(repo, file)), { recursive: true })
+  fs.writeFileSync(path.join(repo, file), lines.join('\n') + '\n')
+}
+
+beforeAll(() => {
+  repo = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'changes-')))
+  git('init', '-q', '-b', 'main')
+  git('config', 'user.email', 'test@example.com')
+  git('config', 'user.name', 'Test')
+  write('src/Form.tsx', ['a', 'b', 'c', 'd'])
+  write('src/Old.tsx', ['old'])
+  write('lib/util.ts', ['x'])
+  git('add', '-A')
+  git('commit', '-qm', 'Initial')
+
+  git('checkout', '-qb', 'feature')
+  write('src/Form.tsx', ['a', 'B', 'c', 'd', 'e'])
+  write('src/Added.tsx', ['new'])
+  git('add', '-A')
+  git('commit', '-qm', 'Feature')
+
+  // Uncommitted: a modified line, a deleted file and an untracked one
+  write('src/Form.tsx', ['A', 'B', 'c', 'd', 'e'])
+  fs.rmSync(path.join(repo, 'src/Old.tsx'))
+  write('src/Untracked.tsx', ['u'])
+})
+
+afterAll(() => {
+  fs.rmSync(repo, { recursive: true, force: true })
+})
+
+const local = (file: string) => path.join(repo, file)
+
+describe('findChangedFiles', () => {
+  it('maps working-tree changes to their added lines and whole untracked files', async () => {
+    const changes = await findChangedFiles(repo, { scope: 'working-tree' })
+
+    expect(changes.base).toMatchObject({ ref: 'HEAD', mergeBase: false })
+    expect(changes.lines).toEqual(
+      new Map([
+        [local('src/Form.tsx'), new Set([1])],
+        [local('src/Untracked.tsx'), null],
+      ]),
+    )
+  })
+
+  it('compares with the merge-base of the default branch', async () => {
+    const changes = await findChangedFiles(repo, { scope: 'ref' })
+
+    expect(changes.base).toMatchObject({ ref: 'main', mergeBase: true })
+    expect(changes.base.commit).toBe(git('rev-parse', 'main').toString().trim())
+    expect(changes.lines).toEqual(
+      new Map([
+        [local('src/Added.tsx'), null],
+        [local('src/Form.tsx'), new Set([1, 2, 5])],
+        [local('src/Untracked.tsx'), null],
+      ]),
+    )
+  })
+
+  it('limits the changes to a subdirectory or a single file', async () => {
+    const directory = await findChangedFiles(local('src'), { scope: 'ref', baseRef: 'main' })
+    expect([...directory.lines.keys()]).toContain(local('src/Form.tsx'))
+
+    const file = await findChangedFiles(local('src/Form.tsx'), { scope: 'working-tree' })
+    expect([...file.lines.keys()]).toEqual([local('src/Form.tsx')])
+  })
+
+  it('rejects a base ref that does not exist', async () => {
+    await expect(findChangedFiles(repo, { scope: 'ref', baseRef: 'nope' })).rejects.toThrow(
+      "Base ref 'nope' does not exist.",
+    )
+  })
+})
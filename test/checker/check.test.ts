@@ -0,0 +1,100 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { runCheck } from '../../src/checker/check.js'
+import { loadCheckerRules, RulesFileError } from '../../src/checker/rules.js'
+import { ProjectConfigSchema } from '../../src/config.js'
+import { configureWorkspace } from '../../src/workspace.js'
+
+const config = ProjectConfigSchema.parse({})
+let root: string
+
+const writeRules = (rules: unknown) =>
+  fs.writeFileSync(path.join(root, '.validation-rules.json'), JSON.stringify(rules))
+
+function rulesFileIssues(): string[] {
+  try {
+    loadCheckerRules(config)
+  } catch (error) {
+    expect(error).toBeInstanceOf(RulesFileError)
+    return (error as RulesFileError).issues
+  }
+  throw new Error('Expected the rules file to be rejected')
+}
+
+beforeAll(() => {
+  root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'check-')))
+  configureWorkspace([root])
+})
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+describe('custom rules', () => {
+  it('adds pattern and selector rules, and disables rules by id', async () => {
+    writeRules({
+      disable: ['string-formatting', 'custom-validator', 'field-validation'],
+      rules: [
+        { id: 'no-alert', selector: 'CallExpression[expression="alert"]', message: 'No alerts' },
+        {
+          id: 'intl-number',
+          pattern: 'intl\\.numberformat',
+          flags: 'i',
+          message: 'Use FormatterService',
+          severity: 'high',
+          files: ['src/**'],
+        },
+      ],
+    })
+    const file = path.join(root, 'src', 'Price.tsx')
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    fs.writeFileSync(
+      file,
+      [
+        "const price = new Intl.NumberFormat('en-US').format(amount)",
+        'alert(price)',
+        '// validation-checker-disable-next-line no-alert -- legacy',
+        'alert(price)',
+        '/* validation-checker-disable-next-line */ ',
+        "const again = new Intl.NumberFormat('de-DE')",
+      ].join('\n'),
+    )
+
+    const check = await runCheck(config, { files: [file], cache: false })
+    const [result] = check.results
+
+    expect(check.disabledRules).toEqual([
+      'string-formatting',
+      'custom-validator',
+      'field-validation',
+    ])
+    expect(result.issues.map(issue => [issue.ruleId, issue.line, issue.column])).toEqual([
+      ['intl-number', 1, 19],
+      ['no-alert', 2, 1],
+    ])
+    expect(result.suppressedCount).toBe(2)
+    expect(result.issues[0]).toMatchObject({ severity: 'high', match: 'Intl.NumberFormat' })
+  })
+
+  it('reports every problem in an invalid rules file', () => {
+    writeRules({
+      rules: [{ id: 'both', pattern: 'x', selector: 'Identifier', message: 'Both' }],
+    })
+    expect(rulesFileIssues()).toEqual(['rules.0: Give exactly one of pattern or selector'])
+
+    writeRules({
+      disable: ['nope'],
+      rules: [
+        { id: 'regex-test', pattern: 'x', message: 'Taken' },
+        { id: 'bad-selector', selector: 'Nonsense', message: 'Bad' },
+      ],
+    })
+    expect(rulesFileIssues()).toEqual([
+      "rules.0.id: 'regex-test' is already used",
+      "rules.1: Invalid selector 'Nonsense': unknown syntax kind 'Nonsense'",
+      "disable: unknown rule id 'nope'",
+    ])
+  })
+})
@@ -0,0 +1,61 @@
+import { execFileSync, spawnSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+
+// The CLI runs through vite-node against a git repository with one committed component
+let workspace: string
+
+const cli = path.resolve('src/checker/cli.ts')
+const viteNode = path.resolve('node_modules/.bin/vite-node')
+const check = (i: number) => `export const code${i} = new RegExp('^\\\\d{3}$')`
+const component = (checks: number) =>
+  Array.from({ length: checks }, (_, i) => check(i)).join('\n\n') + '\n'
+
+const git = (...args: string[]) => execFileSync('git', args, { cwd: workspace, stdio: 'pipe' })
+
+const run = (...args: string[]) => {
+  const result = spawnSync(viteNode, [cli, '--', ...args], {
+    cwd: workspace,
+    encoding: 'utf-8',
+    timeout: 60000,
+  })
+  return { status: result.status, stdout: result.stdout }
+}
+
+beforeAll(() => {
+  workspace = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'checker-cli-')))
+  fs.mkdirSync(path.join(workspace, 'src/components'), { recursive: true })
+  fs.writeFileSync(path.join(workspace, 'src/components/Form.tsx'), component(2))
+  git('init', '-q', '-b', 'main')
+  git('config', 'user.email', 'test@example.com')
+  git('config', 'user.name', 'Test')
+  git('add', '-A')
+  git('commit', '-qm', 'Initial')
+  expect(run('--baseline', 'baseline.json', '--update-baseline').status).toBe(0)
+  // A third copy of a recorded match, on a new line
+  fs.writeFileSync(path.join(workspace, 'src/components/Form.tsx'), component(3))
+})
+
+afterAll(() => {
+  fs.rmSync(workspace, { recursive: true, force: true })
+})
+
+describe('validation-checker --baseline', () => {
+  it.each([[[]], [['--changed']], [['--changed', '--changed-lines']]])(
+    'reports a new copy of a recorded match as new with %j',
+    args => {
+      const { status, stdout } = run(...args, '--baseline', 'baseline.json', '--format', 'json')
+      const report = JSON.parse(stdout)
+      const issues = report.files.flatMap((file: { issues: object[] }) => file.issues)
+
+      expect(status).toBe(1)
+      expect(report.fixedSinceBaseline).toBe(0)
+      expect(issues.filter((issue: { line: number }) => issue.line === 5)).toMatchObject([
+        { baselineState: 'new' },
+      ])
+      expect(issues.length).toBe(args.includes('--changed-lines') ? 1 : 3)
+    },
+  )
+})
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { BaselineState } from '../../src/checker/baseline.js'
+import { CheckerIssue } from '../../src/checker/check.js'
+import { ReportInput, toJUnit, toSarif, toText } from '../../src/checker/report.js'
+import { BUILTIN_RULES } from '../../src/checker/rules.js'
+
+function issue(overrides: Partial<CheckerIssue>): CheckerIssue {
+  return {
+    ruleId: 'regex-test',
+    message: 'Using regex test() directly instead of ValidationService',
+    severity: 'high',
+    line: 3,
+    column: 7,
+    endLine: 3,
+    endColumn: 20,
+    content: '/x/.test(value)',
+    match: '.test(/x/)',
+    context: { startLine: 1, lines: [] },
+    alsoMatched: [],
+    suggestion: 'Use ValidationService',
+    ...overrides,
+  }
+}
+
+const known = issue({})
+const added = issue({ ruleId: 'custom', severity: 'low', line: 9, message: 'Say "<no>" & stop' })
+const input: ReportInput = {
+  files: [
+    { path: 'src/Form Page.tsx', issues: [known, added] },
+    { path: 'src/Clean.tsx', issues: [] },
+    { path: 'src/Broken.tsx', issues: [], error: 'Unexpected token' },
+  ],
+  rules: BUILTIN_RULES,
+  baselineStates: new Map<CheckerIssue, BaselineState>([
+    [known, 'unchanged'],
+    [added, 'new'],
+  ]),
+}
+
+describe('toText', () => {
+  it('prints one line per issue, marking baseline issues, and a summary', () => {
+    expect(toText(input).split('\n')).toEqual([
+      'src/Form Page.tsx:3:7 high [regex-test] ' +
+        'Using regex test() directly instead of ValidationService (baseline)',
+      'src/Form Page.tsx:9:7 low [custom] Say "<no>" & stop',
+      'src/Broken.tsx: error Unexpected token',
+      '2 issues in 1 of 3 files',
+      '',
+    ])
+    expect(toText({ files: [{ path: 'a.ts', issues: [] }], rules: [] })).toBe(
+      'No issues in 1 file\n',
+    )
+  })
+})
+
+describe('toSarif', () => {
+  it('writes a SARIF 2.1.0 log with rules, results, baseline states and file errors', () => {
+    const [run] = JSON.parse(toSarif(input)).runs
+
+    expect(run.tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual(
+      BUILTIN_RULES.map(rule => rule.id),
+    )
+    expect(run.results).toHaveLength(2)
+    expect(run.results[0]).toMatchObject({
+      ruleId: 'regex-test',
+      ruleIndex: 1,
+      level: 'error',
+      baselineState: 'unchanged',
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'src/Form%20Page.tsx', uriBaseId: '%SRCROOT%' },
+            region: { startLine: 3, startColumn: 7, endLine: 3, endColumn: 20 },
+          },
+        },
+      ],
+    })
+    expect(run.results[1]).not.toHaveProperty('ruleIndex')
+    expect(run.results[1]).toMatchObject({ level: 'note', baselineState: 'new' })
+    expect(run.invocations[0].executionSuccessful).toBe(false)
+    expect(run.invocations[0].toolExecutionNotifications).toEqual([
+      expect.objectContaining({ level: 'error', message: { text: 'Unexpected token' } }),
+    ])
+  })
+})
+
+describe('toJUnit', () => {
+  it('writes a suite per file with a failure per issue and escaped text', () => {
+    const xml = toJUnit(input)
+
+    expect(xml).toContain(
+      '<testsuites name="validation-checker" tests="4" failures="2" errors="1">',
+    )
+    expect(xml).toContain('<testsuite name="src/Form Page.tsx" tests="2" failures="2" errors="0">')
+    expect(xml).toContain('<failure message="Say &quot;&lt;no&gt;&quot; &amp; stop" type="low">')
+    expect(xml).toContain('<testcase name="validation" classname="src/Clean.tsx"/>')
+    expect(xml).toContain('<error message="Unexpected token"/>')
+    expect(xml.match(/<testcase /g)).toHaveLength(4)
+  })
+})
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest'
+import { BUILTIN_RULES } from '../../src/checker/rules.js'
+
+const matches = (id: string, line: string) =>
+  BUILTIN_RULES.find(rule => rule.id === id)!.pattern!.test(line)
+
+describe('built-in rule patterns', () => {
+  it('regex-test looks for a regex passed to test()', () => {
+    expect(matches('regex-test', 'value.test(/^\\d+$/)')).toBe(true)
+    expect(matches('regex-test', 'const ratio = a / b / c.test(x)')).toBe(false)
+    expect(matches('regex-test', "import a from './a/b/c.test('")).toBe(false)
+  })
+
+  it('custom-validator looks for validator functions and arrow function bodies', () => {
+    expect(matches('custom-validator', 'validate = function (value) {')).toBe(true)
+    expect(matches('custom-validator', 'const onSubmit = () => {')).toBe(true)
+    expect(matches('custom-validator', 'const total = items.length')).toBe(false)
+  })
+})
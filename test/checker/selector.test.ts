@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { parseSourceFile } from '../../src/analysis/project.js'
+import { parseSelector, querySelectorAll, SelectorError } from '../../src/checker/selector.js'
+
+const source = parseSourceFile(
+  '/tmp/Form.tsx',
+  [
+    "const price = new Intl.NumberFormat('en-US').format(amount)",
+    'const schema = z.object({ email: z.string().email(), name: z.string() })',
+    'const onClick = () => { alert("saved") }',
+    'alert("top level")',
+    'const field = <input pattern="[0-9]+" />',
+  ].join('\n'),
+)
+
+const matches = (selector: string) =>
+  querySelectorAll(source, parseSelector(selector)).map(node => node.getText(source))
+
+describe('querySelectorAll', () => {
+  it('matches kinds and attribute operators against the source text', () => {
+    expect(matches('NewExpression[expression="Intl.NumberFormat"]')).toEqual([
+      "new Intl.NumberFormat('en-US')",
+    ])
+    expect(matches('CallExpression[expression.name="email"][expression.expression^="z.string"]'))
+      .toEqual(['z.string().email()'])
+    expect(matches('JsxAttribute[name="pattern"]')).toEqual(['pattern="[0-9]+"'])
+    expect(matches("PropertyAssignment[name~='^(e|n)'][initializer$='()']")).toHaveLength(2)
+    expect(matches('CallExpression[expression*="Format"][arguments]')).toHaveLength(1)
+  })
+
+  it('follows descendant and child combinators', () => {
+    expect(matches('ArrowFunction CallExpression[expression="alert"]')).toEqual([
+      'alert("saved")',
+    ])
+    expect(matches('ArrowFunction > CallExpression[expression="alert"]')).toEqual([])
+    expect(matches('Block > * > CallExpression[expression="alert"]')).toEqual(['alert("saved")'])
+    expect(matches('CallExpression[expression="alert"]')).toHaveLength(2)
+  })
+
+  it('rejects selectors it cannot parse', () => {
+    for (const selector of ['', 'NotAKind', 'CallExpression >', 'Identifier[text~="("]', '#id']) {
+      expect(() => parseSelector(selector)).toThrow(SelectorError)
+    }
+  })
+})
@@ -0,0 +1,69 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { applyChangeSet, planChangeSet } from '../../src/codemods/changeSet.js'
+import { configureWorkspace, WorkspacePathError } from '../../src/workspace.js'
+
+let root: string
+
+beforeAll(() => {
+  root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'change-set-')))
+  fs.writeFileSync(path.join(root, 'existing.ts'), 'export const a = 1\n')
+  fs.writeFileSync(path.join(root, 'index.ts'), "export { A } from './A'\n")
+  configureWorkspace([root])
+})
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+describe('planChangeSet', () => {
+  const files = () => [
+    { path: path.join(root, 'src', 'New.tsx'), content: 'export const b = 2\n' },
+    { path: path.join(root, 'existing.ts'), content: 'export const a = 2\n' },
+    {
+      path: path.join(root, 'index.ts'),
+      content: '',
+      update: (existing: string) => `${existing}export { B } from './B'\n`,
+    },
+  ]
+
+  it('plans each file against the disk and writes nothing while in conflict', async () => {
+    const plan = planChangeSet(files(), { overwrite: 'error', dryRun: false })
+
+    expect(plan.changes.map(change => change.action)).toEqual(['create', 'conflict', 'update'])
+    expect(plan.conflicts).toEqual(['existing.ts'])
+    expect(plan.changes[0].diff).toContain('+export const b = 2')
+
+    const applied = await applyChangeSet(plan, files())
+    expect(applied.applied).toBe(false)
+    expect(fs.existsSync(path.join(root, 'src', 'New.tsx'))).toBe(false)
+  })
+
+  it('skips or replaces existing files by policy', () => {
+    const skip = planChangeSet(files(), { overwrite: 'skip', dryRun: true })
+    expect(skip.changes[1]).toMatchObject({ action: 'skip', diff: '' })
+
+    const replace = planChangeSet(files(), { overwrite: 'replace', dryRun: true })
+    expect(replace.changes[1].action).toBe('overwrite')
+    expect(replace.conflicts).toEqual([])
+  })
+
+  it('writes the whole set when nothing conflicts', async () => {
+    const plan = planChangeSet(files(), { overwrite: 'replace', dryRun: false })
+    const applied = await applyChangeSet(plan, files())
+
+    expect(applied.changes.every(change => change.written)).toBe(true)
+    expect(fs.readFileSync(path.join(root, 'index.ts'), 'utf-8')).toBe(
+      "export { A } from './A'\nexport { B } from './B'\n",
+    )
+  })
+
+  it('refuses files outside the workspace', () => {
+    const outside = { path: path.join(root, '..', 'escaped', 'Evil.tsx'), content: '' }
+    expect(() => planChangeSet([outside], { overwrite: 'error', dryRun: true })).toThrow(
+      WorkspacePathError,
+    )
+  })
+})
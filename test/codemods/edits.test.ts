@@ -0,0 +1,118 @@
+import { execFileSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { applyTextEdits, createUnifiedDiff } from '../../src/codemods/edits.js'
+
+let directory: string
+
+beforeAll(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), 'edits-'))
+})
+
+afterAll(() => {
+  fs.rmSync(directory, { recursive: true, force: true })
+})
+
+// Whether `git apply` turns oldText into newText with the diff
+const roundTrips = (oldText: string, newText: string) => {
+  const file = path.join(directory, 'file.ts')
+  fs.writeFileSync(file, oldText)
+  const diff = createUnifiedDiff('file.ts', oldText, newText)
+  fs.writeFileSync(path.join(directory, 'patch.diff'), diff)
+  execFileSync('git', ['apply', '--unsafe-paths', 'patch.diff'], { cwd: directory, stdio: 'pipe' })
+  return fs.readFileSync(file, 'utf-8') === newText
+}
+
+const numbered = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`)
+
+describe('applyTextEdits', () => {
+  it('applies edits against the original offsets', () => {
+    const edits = [
+      { start: 0, end: 0, newText: '// head\n' },
+      { start: 6, end: 7, newText: 'two' },
+    ]
+    expect(applyTextEdits('const 2 = x\n', edits)).toBe('// head\nconst two = x\n')
+  })
+
+  it('refuses overlapping edits', () => {
+    const edits = [
+      { start: 0, end: 5, newText: '' },
+      { start: 3, end: 8, newText: '' },
+    ]
+    expect(() => applyTextEdits('0123456789', edits)).toThrow(/Overlapping/)
+  })
+})
+
+describe('createUnifiedDiff', () => {
+  it('renders hunks with context and git line numbers', () => {
+    const oldText = numbered(10).join('\n') + '\n'
+    const newText = oldText.replace('line 5\n', 'line five\n')
+
+    expect(createUnifiedDiff('a.ts', oldText, newText)).toBe(
+      [
+        '--- a/a.ts',
+        '+++ b/a.ts',
+        '@@ -2,7 +2,7 @@',
+        ' line 2',
+        ' line 3',
+        ' line 4',
+        '-line 5',
+        '+line five',
+        ' line 6',
+        ' line 7',
+        ' line 8',
+        '',
+      ].join('\n'),
+    )
+    expect(createUnifiedDiff('a.ts', oldText, oldText)).toBe('')
+  })
+
+  it('marks a last line without a newline', () => {
+    expect(createUnifiedDiff('a.ts', 'a\nb', 'a\nb\n')).toBe(
+      [
+        '--- a/a.ts',
+        '+++ b/a.ts',
+        '@@ -1,2 +1,2 @@',
+        ' a',
+        '-b',
+        '\\ No newline at end of file',
+        '+b',
+        '',
+      ].join('\n'),
+    )
+    expect(roundTrips('a\nb', 'a\nc')).toBe(true)
+    expect(roundTrips('', 'a')).toBe(true)
+  })
+
+  it('diffs edits at both ends of a large file without a quadratic table', () => {
+    const lines = numbered(20000)
+    const changed = ['// added', ...lines.slice(0, -1), 'line 20000 changed']
+    const oldText = lines.join('\n') + '\n'
+    const newText = changed.join('\n') + '\n'
+
+    const started = Date.now()
+    const diff = createUnifiedDiff('big.ts', oldText, newText)
+    expect(Date.now() - started).toBeLessThan(1000)
+    expect(diff.split('\n').filter(line => /^[-+][^-+]/.test(line))).toEqual([
+      '+// added',
+      '-line 20000',
+      '+line 20000 changed',
+    ])
+    expect(roundTrips(oldText, newText)).toBe(true)
+  })
+
+  it('produces patches git applies', () => {
+    const base = numbered(40)
+    const variants = [
+      base.filter((_, i) => i % 7 !== 3),
+      base.map((line, i) => (i % 5 === 0 ? `${line} edited` : line)),
+      [...base.slice(20), ...base.slice(0, 20)],
+      ['new start', ...base.slice(10, 30), 'new end'],
+    ]
+    for (const lines of variants) {
+      expect(roundTrips(base.join('\n') + '\n', lines.join('\n') + '\n')).toBe(true)
+    }
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+import { parseSourceFile } from '../../src/analysis/project.js'
+import { applyTextEdits } from '../../src/codemods/edits.js'
+import { planValidationFixes } from '../../src/codemods/validation.js'
+import { ProjectConfigSchema } from '../../src/config.js'
+
+const config = ProjectConfigSchema.parse({})
+
+const fix = (content: string) => {
+  const plan = planValidationFixes(parseSourceFile('/tmp/Form.tsx', content), config)
+  return { plan, fixed: applyTextEdits(content, plan.edits) }
+}
+
+describe('planValidationFixes', () => {
+  it('rewrites inline email and phone checks and adds the import', () => {
+    const { plan, fixed } = fix(
+      [
+        "import { FormatterService } from '@/lib/validation'",
+        'const ok = /^[^\\s@]+@[^\\s@]+$/.test(email)',
+        'const PHONE_REGEX = /^\\+?\\d{10,14}$/',
+        'const phoneOk = PHONE_REGEX.test(phone)',
+      ].join('\n'),
+    )
+
+    expect(plan.rewrites.map(rewrite => rewrite.kind)).toEqual(['email', 'phone'])
+    expect(plan.importAdded).toBe(true)
+    expect(fixed).toContain("import { FormatterService, ValidationService } from '@/lib/validation'")
+    expect(fixed).toContain('const ok = ValidationService.isValidEmail(email)')
+    expect(fixed).toContain('const phoneOk = ValidationService.isValidPhone(phone)')
+  })
+
+  it('leaves checks the disable comments silence for regex-test', () => {
+    const { plan, fixed } = fix(
+      [
+        '// validation-checker-disable-next-line regex-test -- legacy format',
+        'const a = /^[^\\s@]+@[^\\s@]+$/.test(email)',
+        '// validation-checker-disable-next-line',
+        'const b = /^[^\\s@]+@[^\\s@]+$/.test(email)',
+        '// validation-checker-disable-next-line new-regexp',
+        'const c = /^[^\\s@]+@[^\\s@]+$/.test(email)',
+      ].join('\n'),
+    )
+
+    expect(plan.rewrites).toHaveLength(1)
+    expect(plan.rewrites[0].location.line).toBe(6)
+    expect(fixed).toContain('const a = /^[^\\s@]+@[^\\s@]+$/.test(email)')
+    expect(fixed).toContain('const b = /^[^\\s@]+@[^\\s@]+$/.test(email)')
+    expect(fixed).toContain('const c = ValidationService.isValidEmail(email)')
+  })
+
+  it('plans nothing when every check is silenced', () => {
+    const { plan } = fix(
+      ['// validation-checker-disable-next-line', 'const a = /^\\S+@\\S+$/.test(email)'].join('\n'),
+    )
+    expect(plan.edits).toEqual([])
+    expect(plan.importAdded).toBe(false)
+  })
+})
+
+describe('planValidationFixes bindings', () => {
+  it('calls an aliased import by its local name', () => {
+    const { plan, fixed } = fix(
+      [
+        "import { ValidationService as VS, FormatterService } from '@/lib/validation'",
+        'const ok = /^[^\\s@]+@[^\\s@]+$/.test(email)',
+      ].join('\n'),
+    )
+
+    expect(plan.importAdded).toBe(false)
+    expect(fixed).toContain(
+      "import { ValidationService as VS, FormatterService } from '@/lib/validation'",
+    )
+    expect(fixed).toContain('const ok = VS.isValidEmail(email)')
+  })
+
+  it('removes regex consts the rewrites leave unused', () => {
+    const { plan, fixed } = fix(
+      [
+        "import { ValidationService } from '@/lib/validation'",
+        '',
+        '// Loose email check',
+        'const EMAIL = /^\\S+@\\S+$/',
+        '',
+        'const PHONE_REGEX = /^\\+?\\d{10,14}$/',
+        '',
+        'export const check = (email: string, phone: string) =>',
+        '  EMAIL.test(email) && PHONE_REGEX.test(phone) && PHONE_REGEX.source.length > 0',
+      ].join('\n'),
+    )
+
+    expect(plan.removedConstants).toEqual(['EMAIL'])
+    expect(fixed).toBe(
+      [
+        "import { ValidationService } from '@/lib/validation'",
+        '',
+        'const PHONE_REGEX = /^\\+?\\d{10,14}$/',
+        '',
+        'export const check = (email: string, phone: string) =>',
+        '  ValidationService.isValidEmail(email) && ValidationService.isValidPhone(phone) && ' +
+          'PHONE_REGEX.source.length > 0',
+      ].join('\n'),
+    )
+  })
+
+  it('reports unused consts declared alongside others and keeps exported ones', () => {
+    const { plan, fixed } = fix(
+      [
+        'const EMAIL = /^\\S+@\\S+$/, LIMIT = 3',
+        'export const PHONE = /^\\+?\\d{10,14}$/',
+        'const ok = EMAIL.test(email) && PHONE.test(phone)',
+      ].join('\n'),
+    )
+
+    expect(plan.removedConstants).toEqual([])
+    expect(plan.unusedConstants).toEqual(['EMAIL'])
+    expect(fixed).toContain('const EMAIL = /^\\S+@\\S+$/, LIMIT = 3')
+    expect(fixed).toContain('export const PHONE')
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { extractSections, extractSummary, extractTitle } from '../../src/docs/markdown.js'
+
+const content = [
+  '# Setup',
+  '',
+  'How to install the server.',
+  '',
+  '## Installation',
+  '',
+  '```sh',
+  '# not a heading',
+  'npm install',
+  '```',
+  '',
+  '### From source',
+  'Clone it.',
+  '',
+  '',
+  '## Configuration ##',
+  'Edit .cursor-tools.json.',
+].join('\n')
+
+describe('markdown', () => {
+  it('reads the title and the first line after it', () => {
+    expect(extractTitle(content)).toBe('Setup')
+    expect(extractSummary(content)).toBe('How to install the server.')
+    expect(extractTitle('No heading')).toBe('Untitled Document')
+    expect(extractSummary(`# Long\n\n${'x'.repeat(250)}`)).toHaveLength(200)
+  })
+
+  it('splits sections by heading, skipping fenced code and trailing blank lines', () => {
+    expect(
+      extractSections(content).map(({ heading, level, path, startLine, endLine }) => ({
+        heading,
+        level,
+        path: path.join(' > '),
+        lines: `${startLine}-${endLine}`,
+      })),
+    ).toEqual([
+      { heading: 'Setup', level: 1, path: 'Setup', lines: '1-3' },
+      { heading: 'Installation', level: 2, path: 'Setup > Installation', lines: '5-10' },
+      {
+        heading: 'From source',
+        level: 3,
+        path: 'Setup > Installation > From source',
+        lines: '12-13',
+      },
+      { heading: 'Configuration', level: 2, path: 'Setup > Configuration', lines: '16-17' },
+    ])
+    expect(extractSections(content)[1].content).toBe('```sh\n# not a heading\nnpm install\n```')
+  })
+})
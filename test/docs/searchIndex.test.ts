@@ -0,0 +1,154 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import {
+  parseQuery,
+  refreshDocumentationIndex,
+  searchDocumentationIndex,
+} from '../../src/docs/searchIndex.js'
+
+let docs: string
+let indexFile: string
+
+const write = (file: string, lines: string[]) => {
+  fs.mkdirSync(path.dirname(path.join(docs, file)), { recursive: true })
+  fs.writeFileSync(path.join(docs, file), lines.join('\n') + '\n')
+}
+
+const refresh = () => refreshDocumentationIndex(docs, indexFile, ['node_modules'])
+
+const search = async (query: string, limit = 10) =>
+  searchDocumentationIndex((await refresh()).index, query, limit)
+
+beforeAll(() => {
+  const root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'search-index-')))
+  docs = path.join(root, 'docs')
+  indexFile = path.join(root, '.cache/docs-index.json')
+  write('guide/forms.md', [
+    '# Forms',
+    '',
+    'Intro to building forms.',
+    '',
+    '## Field arrays',
+    '',
+    'Use a field array for repeated items.',
+    'Each item gets its own fields.',
+    '',
+    '## Validation',
+    '',
+    'Validate each field with ValidationService.',
+  ])
+  write('api.md', [
+    'Arrays of field values are covered below.',
+    '',
+    '# API',
+    '',
+    '## Services',
+    '',
+    'The service validates emails and phone numbers.',
+  ])
+  write('node_modules/pkg/README.md', ['# Validation everywhere'])
+})
+
+afterAll(() => {
+  fs.rmSync(path.dirname(docs), { recursive: true, force: true })
+})
+
+describe('refreshDocumentationIndex', () => {
+  it('indexes each section, and the text before the first heading', async () => {
+    const { index, refresh: counts } = await refresh()
+
+    expect(counts).toEqual({ indexed: 2, reused: 0, removed: 0 })
+    expect(Object.keys(index.files)).toEqual(['api.md', 'guide/forms.md'])
+    expect(index.files['api.md'].sections.map(section => section.heading)).toEqual([
+      '',
+      'API',
+      'Services',
+    ])
+    expect(index.files['guide/forms.md']).toMatchObject({
+      title: 'Forms',
+      summary: 'Intro to building forms.',
+    })
+    expect(fs.existsSync(indexFile)).toBe(true)
+  })
+
+  it('re-reads only changed files and drops deleted ones', async () => {
+    expect((await refresh()).refresh).toEqual({ indexed: 0, reused: 2, removed: 0 })
+
+    write('changelog.md', ['# Changelog', '', 'Field arrays added.'])
+    write('api.md', ['# API', '', 'Nothing here yet.'])
+    expect((await refresh()).refresh).toEqual({ indexed: 2, reused: 1, removed: 0 })
+
+    fs.rmSync(path.join(docs, 'changelog.md'))
+    expect((await refresh()).refresh).toEqual({ indexed: 0, reused: 2, removed: 1 })
+  })
+
+  it('rebuilds an index it cannot read', async () => {
+    fs.writeFileSync(indexFile, '{ "version": 1, "files": ')
+    expect((await refresh()).refresh).toEqual({ indexed: 2, reused: 0, removed: 0 })
+  })
+})
+
+describe('searchDocumentationIndex', () => {
+  beforeAll(() => {
+    write('api.md', [
+      'Arrays of field values are covered below.',
+      '',
+      '# API',
+      '',
+      '## Services',
+      '',
+      'The service validates emails and phone numbers.',
+    ])
+  })
+
+  it('ranks sections with the words in their heading first', async () => {
+    const hits = await search('validation')
+
+    expect(hits.map(hit => `${hit.file} ${hit.heading}`)).toEqual([
+      'guide/forms.md Validation',
+      'api.md Services',
+    ])
+    expect(hits[0]).toMatchObject({
+      title: 'Forms',
+      headingPath: ['Forms', 'Validation'],
+      startLine: 10,
+      endLine: 12,
+      snippet: { startLine: 12, endLine: 12, text: 'Validate each field with ValidationService.' },
+    })
+    expect(hits[0].score).toBeGreaterThan(hits[1].score)
+  })
+
+  it('keeps only sections with a quoted phrase word for word', async () => {
+    const words = await search('field array')
+    expect(words.map(hit => hit.heading)).toContain('API')
+
+    const phrase = await search('"field arrays"')
+    expect(phrase.map(hit => hit.heading)).toEqual(['Field arrays'])
+    expect(phrase[0].snippet).toEqual({
+      startLine: 7,
+      endLine: 8,
+      text: 'Use a field array for repeated items.\nEach item gets its own fields.',
+    })
+  })
+
+  it("doesn't match a phrase across a heading and its text", async () => {
+    expect(await search('"validation validate"')).toEqual([])
+    expect(await search('the of')).toEqual([])
+    expect(await search('services', 0)).toEqual([])
+  })
+})
+
+describe('parseQuery', () => {
+  it('splits terms and phrases, stemmed', () => {
+    const { terms, phrases } = parseQuery('form "field arrays" "validation" "')
+    expect(terms).toEqual(['form', 'valid', 'field', 'arrai'])
+    expect(phrases).toEqual([
+      [
+        { term: 'field', position: 0 },
+        { term: 'arrai', position: 1 },
+      ],
+    ])
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { stem, tokenize } from '../../src/docs/text.js'
+
+describe('stem', () => {
+  // From the examples in Porter's paper
+  it.each([
+    ['caresses', 'caress'],
+    ['ponies', 'poni'],
+    ['cats', 'cat'],
+    ['feed', 'feed'],
+    ['agreed', 'agre'],
+    ['plastered', 'plaster'],
+    ['motoring', 'motor'],
+    ['sing', 'sing'],
+    ['conflated', 'conflat'],
+    ['troubled', 'troubl'],
+    ['sized', 'size'],
+    ['hopping', 'hop'],
+    ['falling', 'fall'],
+    ['filing', 'file'],
+    ['happy', 'happi'],
+    ['sky', 'sky'],
+    ['relational', 'relat'],
+    ['conditional', 'condit'],
+    ['digitizer', 'digit'],
+    ['operator', 'oper'],
+    ['generalization', 'gener'],
+    ['hopeful', 'hope'],
+    ['goodness', 'good'],
+    ['electrical', 'electr'],
+    ['allowance', 'allow'],
+    ['adjustment', 'adjust'],
+    ['adoption', 'adopt'],
+    ['probate', 'probat'],
+    ['rate', 'rate'],
+    ['controlling', 'control'],
+    ['roll', 'roll'],
+    ['yielding', 'yield'],
+  ])('%s -> %s', (word, expected) => {
+    expect(stem(word)).toBe(expected)
+  })
+
+  it('leaves short words, numbers and non-English words alone', () => {
+    expect(['is', 'v2', 'café', '2024'].map(stem)).toEqual(['is', 'v2', 'café', '2024'])
+  })
+})
+
+describe('tokenize', () => {
+  it('stems words and keeps the positions of stop words', () => {
+    expect(tokenize('Validating the Form, then [submit](./submit.md) it')).toEqual([
+      { term: 'valid', position: 0 },
+      { term: 'form', position: 2 },
+      { term: 'submit', position: 4 },
+    ])
+  })
+
+  it('indexes the forms of a word as one stem', () => {
+    const terms = tokenize('validation validates validating').map(token => token.term)
+    expect(new Set(terms)).toEqual(new Set(['valid']))
+  })
+})
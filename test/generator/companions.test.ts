@@ -0,0 +1,41 @@
+import path from 'path'
+import { describe, expect, it } from 'vitest'
+import { barrelFile, CompanionOptions } from '../../src/generator/companions.js'
+
+const directory = path.join(path.sep, 'project', 'src', 'components', 'forms')
+
+const options: CompanionOptions = {
+  name: 'UserForm',
+  type: 'form',
+  directory,
+  file: path.join(directory, 'UserForm.tsx'),
+  fields: [],
+  code: 'export function UserForm() {\n  return null\n}\n',
+}
+
+describe('barrelFile', () => {
+  it("follows the existing barrel's quotes and semicolons", () => {
+    const { update } = barrelFile(options)
+    expect(update!('export { A } from "./A"\n')).toBe(
+      'export { A } from "./A"\nexport { UserForm } from "./UserForm"\n',
+    )
+    expect(update!("export { A } from './A';")).toBe(
+      "export { A } from './A';\nexport { UserForm } from './UserForm';\n",
+    )
+  })
+
+  it("follows the project's formatting in a new barrel", () => {
+    const formatting = { semicolons: false, quotes: 'single' as const, indent: '  ' }
+    const barrel = barrelFile({ ...options, formatting })
+
+    expect(barrel.path).toBe(path.join(directory, 'index.ts'))
+    expect(barrel.content).toBe("export { UserForm } from './UserForm'\n")
+    expect(barrel.update!('// Forms\n')).toBe("// Forms\nexport { UserForm } from './UserForm'\n")
+    expect(barrelFile(options).content).toBe("export { UserForm } from './UserForm';\n")
+  })
+
+  it('leaves a barrel that already exports the component alone', () => {
+    const existing = "export { UserForm } from './UserForm.js'\n"
+    expect(barrelFile(options).update!(existing)).toBe(existing)
+  })
+})
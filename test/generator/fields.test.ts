@@ -0,0 +1,230 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { ProjectConfigSchema } from '../../src/config.js'
+import {
+  describeField,
+  FieldSpec,
+  FieldSpecSchema,
+  renderFieldControl,
+  renderFields,
+  renderFormNodes,
+} from '../../src/generator/fields.js'
+import { configureWorkspace } from '../../src/workspace.js'
+
+const config = ProjectConfigSchema.parse({})
+let root: string
+
+const spec = (field: Partial<FieldSpec> & { name: string }) => FieldSpecSchema.parse(field)
+const render = (...fields: (Partial<FieldSpec> & { name: string })[]) =>
+  renderFields(fields.map(spec), config)
+
+// The project's ValidationService has no isValidPhone, so phone fields get no check of their own
+beforeAll(() => {
+  root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'fields-')))
+  configureWorkspace([root])
+  fs.mkdirSync(path.join(root, 'src/lib/validation'), { recursive: true })
+  fs.writeFileSync(
+    path.join(root, 'src/lib/validation/index.ts'),
+    [
+      'export class ValidationService {',
+      '  static isValidEmail(value: string) { return true }',
+      '  static isValidZip(value: string) { return true }',
+      '  static patterns = { zip: /^\\d{5}$/ }',
+      '}',
+      'export class FormatterService {',
+      '  static formatValue(value: unknown, type: string) { return String(value) }',
+      '}',
+    ].join('\n'),
+  )
+})
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+describe('field schemas', () => {
+  it('check each kind with the configured service methods the project has', () => {
+    const { schema, defaultValues, warnings } = render(
+      { name: 'email', type: 'email', required: true },
+      { name: 'phone', type: 'phone' },
+      { name: 'website', type: 'url' },
+      { name: 'terms', type: 'checkbox', required: true },
+      { name: 'plan', type: 'select', options: ['free', { value: 'pro', label: 'Pro' }] },
+    )
+
+    expect(schema.split('\n')).toEqual([
+      "  email: z.string().min(1, 'Email is required')" +
+        ".refine(value => ValidationService.isValidEmail(value), 'Enter a valid email'),",
+      '  phone: z.string(),',
+      "  website: z.string().url('Enter a valid url').or(z.literal('')),",
+      "  terms: z.boolean().refine(value => value, 'Terms must be checked'),",
+      "  plan: z.enum(['free', 'pro']).optional(),",
+    ])
+    expect(defaultValues.split('\n').map(line => line.trim())).toEqual([
+      "email: '',",
+      "phone: '',",
+      "website: '',",
+      'terms: false,',
+      'plan: undefined,',
+    ])
+    expect(warnings).toEqual([])
+  })
+
+  it('apply validation rules and report the ones that do not fit or do not exist', () => {
+    const { schema, warnings } = render(
+      {
+        name: 'zip',
+        required: true,
+        requiredMessage: 'Zip please',
+        validations: [
+          { rule: 'min', value: 5 },
+          { rule: 'pattern', ref: 'patterns.zip', message: 'Five digits' },
+          { rule: 'service', method: 'isValidZp' },
+        ],
+      },
+      { name: 'code', validations: [{ rule: 'pattern', regex: 'a/b', flags: 'i' }] },
+      { name: 'start', type: 'date', validations: [{ rule: 'min', value: '2024-01-01' }] },
+      { name: 'agree', type: 'checkbox', validations: [{ rule: 'max', value: 1 }] },
+    )
+
+    expect(schema).toContain(
+      "zip: z.string().min(1, 'Zip please').min(5, 'Zip must be at least 5 characters')" +
+        ".regex(ValidationService.patterns.zip, 'Five digits')" +
+        ".refine(value => ValidationService.isValidZp(value), 'Zip is invalid'),",
+    )
+    expect(schema).toContain(
+      "code: z.string().regex(/a\\/b/i, 'Code is invalid').or(z.literal('')),",
+    )
+    expect(schema).toContain(
+      "value => !value || value >= '2024-01-01', 'Start must be at least 2024-01-01')",
+    )
+    expect(warnings).toEqual([
+      "ValidationService.isValidZp doesn't exist; did you mean isValidZip?",
+      "agree: the max rule doesn't apply to checkbox fields",
+    ])
+  })
+})
+
+describe('field inputs', () => {
+  it('render the input for each kind and import only what they use', () => {
+    const { formFields, imports } = render(
+      { name: 'bio', type: 'textarea', placeholder: 'About you' },
+      { name: 'phone', type: 'phone', formatter: 'phone' },
+      { name: 'plan', type: 'radio', options: ['free'] },
+    )
+
+    expect(formFields).toContain('<Textarea placeholder="About you" {...field} />')
+    expect(formFields).toContain(
+      `<Input type="tel" {...field} value={FormatterService.formatValue(field.value, 'phone')} />`,
+    )
+    expect(formFields).toContain('<RadioGroupItem value="free" />')
+    expect(imports).toEqual([
+      "import { Input } from '@/components/ui/input';",
+      "import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';",
+      "import { Textarea } from '@/components/ui/textarea';",
+    ])
+  })
+
+  it('bind the field template control to its props', () => {
+    const { control, imports, warnings } = renderFieldControl(
+      spec({ name: 'agree', type: 'checkbox', formatter: { method: 'formatBool' } }),
+      config,
+    )
+
+    expect(control).toContain(
+      '<Checkbox checked={field.value} onCheckedChange={field.onChange} disabled={disabled} />',
+    )
+    expect(imports).toEqual(["import { Checkbox } from '@/components/ui/checkbox';"])
+    expect(warnings).toEqual([
+      "FormatterService.formatBool doesn't exist",
+      'agree: formatters only apply to text and number inputs',
+    ])
+  })
+})
+
+describe('nested fields', () => {
+  it('render objects under their key and arrays of objects as field arrays', () => {
+    const rendered = renderFormNodes(
+      [
+        {
+          node: 'object',
+          name: 'address',
+          required: true,
+          children: [{ node: 'field', field: spec({ name: 'city', required: true }) }],
+        },
+        {
+          node: 'array',
+          name: 'contacts',
+          required: false,
+          children: [
+            { node: 'field', field: spec({ name: 'email', type: 'email', required: true }) },
+            { node: 'array', name: 'phones', required: false, children: [] },
+          ],
+        },
+        { node: 'list', field: spec({ name: 'tags' }) },
+      ],
+      config,
+    )
+
+    expect(rendered.schema).toContain("city: z.string().min(1, 'City is required'),")
+    expect(rendered.schema).toContain('contacts: z.array(z.object({')
+    expect(rendered.schema).toContain(
+      "tags: z.array(z.string().min(1, 'Fill in or remove each Tags')).optional(),",
+    )
+    expect(rendered.fieldArrays).toEqual([
+      "const contactsArray = useFieldArray({ control: form.control, name: 'contacts' });",
+    ])
+    expect(rendered.formFields).toContain('name="address.city"')
+    expect(rendered.formFields).toContain('name={`contacts.${index}.email`}')
+    expect(rendered.formFields).toContain("contactsArray.append({\n")
+    expect(rendered.warnings).toEqual([
+      "contacts[].phones: field arrays in field arrays aren't generated",
+    ])
+  })
+})
+
+describe('describeField', () => {
+  it('summarises a field for the prompt', () => {
+    const field = spec({
+      name: 'zip',
+      required: true,
+      label: 'Postal code',
+      validations: [
+        { rule: 'max', value: 10, message: 'Too long' },
+        { rule: 'service', method: 'isValidZip' },
+      ],
+      formatter: { method: 'formatZip', type: 'zip' },
+    })
+
+    expect(describeField(field, config)).toBe(
+      '- zip: string, required; label "Postal code"; max 10 ("Too long"); ' +
+        'ValidationService.isValidZip(value) is true; ' +
+        "displayed with FormatterService.formatZip(value, 'zip')",
+    )
+  })
+})
+
+describe('number fields', () => {
+  it('coerce in the schema of user-supplied fields', () => {
+    const rendered = renderFormNodes(
+      [{ node: 'field', field: spec({ name: 'age', type: 'number' }) }],
+      config,
+    )
+    expect(rendered.schema).toContain('age: z.coerce.number()')
+    expect(rendered.formFields).toContain(
+      `<Input type="number" {...field} value={field.value ?? ''} />`,
+    )
+  })
+
+  it('hand the form a number when the schema comes from the project', () => {
+    const rendered = renderFormNodes(
+      [{ node: 'field', field: spec({ name: 'age', type: 'number' }), numberValue: true }],
+      config,
+    )
+    expect(rendered.formFields).toContain(
+      "field.onChange(event.target.value === '' ? undefined : event.target.valueAsNumber)",
+    )
+  })
+})
@@ -0,0 +1,150 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { ProjectConfigSchema } from '../../src/config.js'
+import { FormNode } from '../../src/generator/fields.js'
+import { describeFormNodes, loadFormSource } from '../../src/generator/formSource.js'
+import { configureWorkspace } from '../../src/workspace.js'
+
+const config = ProjectConfigSchema.parse({})
+let root: string
+
+// `field email: email, required`, with the children of objects and arrays under their node
+const outline = (nodes: FormNode[]): unknown[] =>
+  nodes.map(node => {
+    if (node.node === 'object' || node.node === 'array') {
+      return { [`${node.node} ${node.name}`]: outline(node.children) }
+    }
+    const { name, type, required } = node.field
+    return `${node.node} ${name}: ${type}${required ? ', required' : ''}`
+  })
+
+const write = (file: string, lines: string[]) => {
+  fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true })
+  fs.writeFileSync(path.join(root, file), lines.join('\n') + '\n')
+}
+
+// Schemas need zod's types, so the workspace links the server's own copy
+beforeAll(() => {
+  root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'form-source-')))
+  configureWorkspace([root])
+  fs.mkdirSync(path.join(root, 'node_modules'))
+  fs.symlinkSync(path.resolve('node_modules/zod'), path.join(root, 'node_modules/zod'), 'dir')
+  write('src/types/user.ts', [
+    "export type Role = 'admin' | 'editor' | 'viewer' | 'guest'",
+    'export interface Address {',
+    '  street: string',
+    '  zip?: string',
+    '}',
+    'export interface User {',
+    '  email: string',
+    '  age?: number',
+    '  subscribed: boolean',
+    '  birthday: Date',
+    '  role: Role',
+    "  plan: 'free' | 'pro'",
+    '  shipTo: Address',
+    '  contacts: { name: string; phoneNumber: string }[]',
+    '  tags: string[]',
+    '  flags: boolean[]',
+    '  onSave: () => void',
+    '}',
+    'export type Count = number',
+  ])
+  write('src/lib/validation/schemas.ts', [
+    "import { z } from 'zod'",
+    '',
+    'export const signupSchema = z.object({',
+    '  contact: z.string().email(),',
+    '  homepage: z.string().url().optional(),',
+    '  notes: z.string(),',
+    '})',
+  ])
+  write('src/a.ts', ['export type Shared = { a: string }'])
+  write('src/b.ts', ['export type Shared = { b: string }'])
+})
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+describe('loadFormSource', () => {
+  it('turns the properties of a type into nested form nodes', () => {
+    const source = loadFormSource('User', config)
+
+    expect(source.shape).toMatchObject({ name: 'User', source: 'type' })
+    expect(outline(source.nodes)).toEqual([
+      'field email: email, required',
+      'field age: number',
+      'field subscribed: checkbox',
+      'field birthday: date, required',
+      'field role: select, required',
+      'field plan: radio, required',
+      { 'object shipTo': ['field street: string, required', 'field zip: string'] },
+      {
+        'array contacts': ['field name: string, required', 'field phoneNumber: phone, required'],
+      },
+      'list tags: string, required',
+    ])
+    expect(source.fields.map(field => field.name)).toEqual([
+      'email',
+      'age',
+      'subscribed',
+      'birthday',
+      'role',
+      'plan',
+    ])
+    expect(source.nodes[1]).toMatchObject({ numberValue: true })
+    expect(source.nodes[3]).toMatchObject({ dateValue: true })
+    expect(source.warnings).toEqual([
+      "flags (boolean[]) isn't a list a form can edit; add it to the form by hand",
+    ])
+  })
+
+  it('reads a schema of the validation library, using its checks as hints', () => {
+    const source = loadFormSource('signupSchema', config)
+
+    expect(source.shape).toMatchObject({
+      source: 'schema',
+      file: path.join(root, 'src/lib/validation/schemas.ts'),
+    })
+    expect(outline(source.nodes)).toEqual([
+      'field contact: email, required',
+      'field homepage: url',
+      'field notes: textarea, required',
+    ])
+  })
+
+  it('explains exports it cannot find, pick or use', () => {
+    expect(() => loadFormSource('Missing', config)).toThrow(
+      'No exported zod schema or type named Missing; pass it as path#Missing',
+    )
+    expect(() => loadFormSource('Shared', config)).toThrow(
+      'Shared is exported from src/a.ts, src/b.ts; pass the one to use as path#Shared',
+    )
+    expect(loadFormSource('src/a.ts#Shared', config).fields.map(field => field.name)).toEqual([
+      'a',
+    ])
+    expect(() => loadFormSource('src/types/user.ts#Count', config)).toThrow(
+      'Count is number, not an object a form can edit',
+    )
+    expect(() => loadFormSource('src/nope.ts#User', config)).toThrow("src/nope.ts doesn't exist")
+    expect(() => loadFormSource('a-b', config)).toThrow("'a-b' isn't an export name")
+  })
+})
+
+describe('describeFormNodes', () => {
+  it('nests the fields of objects and arrays for the prompt', () => {
+    const { nodes } = loadFormSource('User', config)
+    const lines = describeFormNodes(nodes, config).split('\n')
+
+    expect(lines).toContain('- birthday: date, required; label "Birthday"; the value is a Date')
+    expect(lines).toContain('- shipTo: an object, required, with:')
+    expect(lines).toContain('  - street: string, required; label "Street"')
+    expect(lines).toContain(
+      '- contacts: an array of objects, edited with useFieldArray, required, with:',
+    )
+    expect(lines).toContain('- tags: string, required; label "Tags"; an array of these values')
+  })
+})
@@ -0,0 +1,169 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { ProjectConfigSchema } from '../../src/config.js'
+import {
+  ComponentStyle,
+  componentFilePath,
+  formatCode,
+  learnComponentStyle,
+  restyleComponent,
+} from '../../src/generator/style.js'
+import { configureWorkspace } from '../../src/workspace.js'
+
+const config = ProjectConfigSchema.parse({})
+let root: string
+let style: ComponentStyle
+
+const write = (file: string, lines: string[]) => {
+  fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true })
+  fs.writeFileSync(path.join(root, file), lines.join('\n') + '\n')
+}
+
+// A form in the samples' style: kebab-case folders, arrow components, no semicolons
+const sample = (name: string) => [
+  'import { useForm } from "react-hook-form"',
+  'import { z } from "zod"',
+  'import { Button } from "@/components/ui/button"',
+  'import { Input } from "@/components/ui/input"',
+  '',
+  'type Props = { onSubmit: () => void }',
+  '',
+  `export const ${name} = ({ onSubmit }: Props) => {`,
+  '    const form = useForm()',
+  '    return (',
+  '        <form onSubmit={onSubmit}>',
+  '            <Input />',
+  '            <Button />',
+  '        </form>',
+  '    )',
+  '}',
+]
+
+beforeAll(() => {
+  root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'style-')))
+  configureWorkspace([root])
+  write('src/features/signup-form/signup-form.tsx', sample('SignupForm'))
+  write('src/features/signup-form/__tests__/signup-form.spec.tsx', ['it("renders", () => {})'])
+  write('src/features/login-form/login-form.tsx', sample('LoginForm'))
+  write('src/features/card/card.tsx', [
+    "import React from 'react';",
+    '',
+    'export default function Card() {',
+    '  return <div />;',
+    '}',
+  ])
+  style = learnComponentStyle('form', config)
+})
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+describe('learnComponentStyle', () => {
+  it('keeps the conventions the samples of the type share', () => {
+    expect(style).toMatchObject({
+      type: 'form',
+      samples: [
+        'src/features/login-form/login-form.tsx',
+        'src/features/signup-form/signup-form.tsx',
+      ],
+      directory: 'src/features',
+      fileNaming: 'kebab-case',
+      fileLayout: 'folder',
+      exportStyle: 'named',
+      declaration: 'arrow',
+      props: { naming: 'Props', declaration: 'type' },
+      reactImport: false,
+      uiLibrary: '@/components/ui/*',
+      formLibrary: 'react-hook-form',
+      schemaLibrary: 'zod',
+      componentSources: { Button: '@/components/ui/button', Input: '@/components/ui/input' },
+      tests: { location: '__tests__', suffix: '.spec' },
+      formatting: { semicolons: false, quotes: 'double', indent: '    ' },
+    })
+  })
+
+  it('falls back to the built-in style without samples', () => {
+    expect(learnComponentStyle('page', config)).toMatchObject({
+      samples: [],
+      declaration: 'function',
+      formatting: { semicolons: true, quotes: 'single', indent: '  ' },
+    })
+  })
+})
+
+describe('componentFilePath', () => {
+  it('follows the samples when the configured directory does not exist', () => {
+    expect(componentFilePath('ContactForm', config.componentGenerator.outputDirs.form, style))
+      .toEqual({
+        directory: path.join(root, 'src/features'),
+        file: path.join(root, 'src/features/contact-form/contact-form.tsx'),
+      })
+  })
+})
+
+describe('formatCode', () => {
+  const formatting = { semicolons: false, quotes: 'double' as const, indent: '    ' }
+
+  it('converts semicolons, quotes and indentation', () => {
+    const code = [
+      "import { a } from './a';",
+      'const label = \'say "hi"\';',
+      "const b = 'b';",
+      '[1, 2].forEach(run);',
+      'if (b) {',
+      '  run(a);',
+      '}',
+    ].join('\n')
+
+    expect(formatCode(code, 'a.ts', formatting).split('\n')).toEqual([
+      'import { a } from "./a"',
+      'const label = \'say "hi"\'',
+      'const b = "b";',
+      '[1, 2].forEach(run)',
+      'if (b) {',
+      '    run(a)',
+      '}',
+    ])
+  })
+
+  it('leaves code that does not parse alone', () => {
+    expect(formatCode("const a = 'a';\nconst {", 'a.ts', formatting)).toBe(
+      "const a = 'a';\nconst {",
+    )
+  })
+})
+
+describe('restyleComponent', () => {
+  it('rewrites generated code to the learned declarations, imports and formatting', () => {
+    const generated = [
+      "import React from 'react';",
+      "import { Button, Input } from '@/components/ui';",
+      '',
+      'interface ContactFormProps {',
+      '  onSubmit: () => void;',
+      '}',
+      '',
+      'export function ContactForm({ onSubmit }: ContactFormProps) {',
+      '  return <Button onClick={onSubmit} />;',
+      '}',
+      '',
+    ].join('\n')
+
+    expect(restyleComponent(generated, 'ContactForm', style).split('\n')).toEqual([
+      'import { Button } from "@/components/ui/button"',
+      'import { Input } from "@/components/ui/input"',
+      '',
+      'type Props = {',
+      '    onSubmit: () => void',
+      '}',
+      '',
+      'export const ContactForm = ({ onSubmit }: Props) => {',
+      '    return <Button onClick={onSubmit} />',
+      '}',
+      '',
+    ])
+  })
+})
@@ -0,0 +1,105 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { ProjectConfigSchema } from '../../src/config.js'
+import { formatDiagnostics, hasErrors, verifyComponent } from '../../src/generator/verify.js'
+import { configureWorkspace } from '../../src/workspace.js'
+
+// `app` has a tsconfig and react's types; `bare` has neither
+const config = ProjectConfigSchema.parse({})
+let root: string
+
+const write = (file: string, text: string) => {
+  fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true })
+  fs.writeFileSync(path.join(root, file), text)
+}
+
+const verify = (file: string, lines: string[]) =>
+  verifyComponent(lines.join('\n'), path.join(root, file), config)
+
+beforeAll(() => {
+  root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'verify-')))
+  configureWorkspace([root])
+  write(
+    'app/tsconfig.json',
+    JSON.stringify({
+      compilerOptions: {
+        strict: true,
+        noUnusedLocals: true,
+        module: 'esnext',
+        moduleResolution: 'bundler',
+        paths: { '@/*': ['./src/*'] },
+      },
+      include: ['src'],
+    }),
+  )
+  write(
+    'app/node_modules/react/package.json',
+    JSON.stringify({ name: 'react', types: 'index.d.ts' }),
+  )
+  write('app/node_modules/react/index.d.ts', 'export declare function useId(): string\n')
+  write('app/src/lib/format.ts', 'export const shout = (text: string) => text.toUpperCase()\n')
+  write('app/src/env.d.ts', 'declare const APP_NAME: string\n')
+})
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+describe('verifyComponent', () => {
+  it('stops at syntax errors', () => {
+    const diagnostics = verify('app/src/Broken.tsx', ['export function Broken( {', '  return 1'])
+
+    expect(diagnostics.length).toBeGreaterThan(0)
+    expect(diagnostics.every(diagnostic => diagnostic.stage === 'syntax')).toBe(true)
+    expect(hasErrors(diagnostics)).toBe(true)
+  })
+
+  it('typechecks with the project tsconfig, aliases and declarations', () => {
+    const diagnostics = verify('app/src/Title.tsx', [
+      "import { useId } from 'react'",
+      "import { shout } from '@/lib/format'",
+      '',
+      'export function title(): string {',
+      '  const unused = useId()',
+      '  const length: number = shout(APP_NAME)',
+      '  return String(length)',
+      '}',
+    ])
+
+    const positions = diagnostics.map(({ stage, severity, code, line, column }) => ({
+      stage,
+      severity,
+      code,
+      line,
+      column,
+    }))
+    expect(positions).toEqual([
+      { stage: 'types', severity: 'warning', code: 'TS6133', line: 5, column: 9 },
+      { stage: 'types', severity: 'error', code: 'TS2322', line: 6, column: 9 },
+    ])
+    expect(formatDiagnostics(diagnostics).split('\n')[1]).toBe(
+      "6:9 TS2322 Type 'string' is not assignable to type 'number'.",
+    )
+  })
+
+  it('runs the checker rules, with high findings as errors', () => {
+    const diagnostics = verify('app/src/Digits.tsx', [
+      "export const digits = (value: string) => new RegExp('^[0-9]+$').exec(value)",
+    ])
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ stage: 'rules', severity: 'error', code: 'new-regexp', line: 1 }),
+    ])
+  })
+
+  it('skips typechecking without the project dependencies', () => {
+    const diagnostics = verify('bare/Card.tsx', ['export const value: number = "text"'])
+
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ stage: 'types', severity: 'warning', code: 'skipped' }),
+    ])
+    expect(hasErrors(diagnostics)).toBe(false)
+  })
+})
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest'
+import { parseUnifiedDiff, unquoteGitPath } from '../../src/git/diff.js'
+import { LOG_FORMAT, parseBlame, parseLog, parseStatus } from '../../src/git/parsers.js'
+
+describe('parseUnifiedDiff', () => {
+  const diff = [
+    'diff --git a/src/a.ts b/src/a.ts',
+    'index 1111111..2222222 100644',
+    '--- a/src/a.ts',
+    '+++ b/src/a.ts',
+    '@@ -1,3 +1,4 @@ export function a() {',
+    ' const a = 1',
+    '-const b = 2',
+    '+const b = 3',
+    '+const c = 4',
+    ' export { a }',
+    '@@ -10 +11 @@',
+    '-old',
+    '\\ No newline at end of file',
+    '+new',
+    'diff --git a/old.ts b/new.ts',
+    'similarity index 90%',
+    'rename from old.ts',
+    'rename to new.ts',
+    'diff --git a/added.ts b/added.ts',
+    'new file mode 100644',
+    '--- /dev/null',
+    '+++ b/added.ts',
+    '@@ -0,0 +1 @@',
+    '+export {}',
+    'diff --git a/logo.png b/logo.png',
+    'deleted file mode 100644',
+    'Binary files a/logo.png and /dev/null differ',
+    '',
+  ].join('\n')
+
+  it('numbers every line on the side it belongs to', () => {
+    const [file] = parseUnifiedDiff(diff)
+
+    expect(file).toMatchObject({ path: 'src/a.ts', status: 'modified', additions: 3, deletions: 2 })
+    const ranges = file.hunks.map(hunk => [
+      hunk.oldStart,
+      hunk.oldLines,
+      hunk.newStart,
+      hunk.newLines,
+    ])
+    expect(ranges).toEqual([
+      [1, 3, 1, 4],
+      [10, 1, 11, 1],
+    ])
+    expect(file.hunks[0].lines).toEqual([
+      { type: 'context', content: 'const a = 1', oldLine: 1, newLine: 1 },
+      { type: 'del', content: 'const b = 2', oldLine: 2, newLine: null },
+      { type: 'add', content: 'const b = 3', oldLine: null, newLine: 2 },
+      { type: 'add', content: 'const c = 4', oldLine: null, newLine: 3 },
+      { type: 'context', content: 'export { a }', oldLine: 3, newLine: 4 },
+    ])
+    expect(file.hunks[1].lines.map(line => line.content)).toEqual(['old', 'new'])
+  })
+
+  it('reads renames, new, deleted and binary files from the headers', () => {
+    const [, renamed, added, deleted] = parseUnifiedDiff(diff)
+
+    expect(renamed).toMatchObject({ path: 'new.ts', oldPath: 'old.ts', status: 'renamed' })
+    expect(added).toMatchObject({ path: 'added.ts', status: 'added', additions: 1 })
+    expect(deleted).toMatchObject({ path: 'logo.png', status: 'deleted', binary: true })
+  })
+
+  it('unquotes paths git escapes', () => {
+    expect(unquoteGitPath('"a/caf\\303\\251 \\"x\\".ts"')).toBe('a/café "x".ts')
+    expect(unquoteGitPath('plain.ts')).toBe('plain.ts')
+  })
+})
+
+describe('parseStatus', () => {
+  it('reads the branch and every kind of entry', () => {
+    const output = [
+      '# branch.oid 0123456789abcdef0123456789abcdef01234567',
+      '# branch.head main',
+      '# branch.upstream origin/main',
+      '# branch.ab +2 -1',
+      '1 .M N... 100644 100644 100644 aaa bbb src/file with space.ts',
+      '2 R. N... 100644 100644 100644 aaa bbb R100 new.ts',
+      'old.ts',
+      'u UU N... 100644 100644 100644 100644 aaa bbb ccc conflict.ts',
+      '? untracked.ts',
+      '',
+    ].join('\0')
+    const status = parseStatus(output)
+
+    expect(status).toMatchObject({ branch: 'main', upstream: 'origin/main', ahead: 2, behind: 1 })
+    expect(status.entries.map(entry => [entry.path, entry.origPath])).toEqual([
+      ['src/file with space.ts', null],
+      ['new.ts', 'old.ts'],
+      ['conflict.ts', null],
+      ['untracked.ts', null],
+    ])
+    expect(status.entries[0]).toMatchObject({ staged: false, unstaged: true })
+    expect(status.entries[1]).toMatchObject({ index: 'R', staged: true, unstaged: false })
+    expect(status.entries[2].conflicted).toBe(true)
+    expect(status.entries[3]).toMatchObject({ untracked: true, staged: false })
+  })
+
+  it('handles a detached HEAD before the first commit', () => {
+    const status = parseStatus('# branch.oid (initial)\0# branch.head (detached)\0')
+    expect(status).toMatchObject({ branch: null, commit: null, entries: [] })
+  })
+})
+
+describe('parseLog', () => {
+  it('splits records on the separators of LOG_FORMAT', () => {
+    expect(LOG_FORMAT).toContain('%x1f')
+    const author = ['Ada', 'ada@example.com', '2024-01-01T00:00:00Z']
+    const record = (subject: string, body: string, parents: string) =>
+      ['abc', parents, ...author, subject, body].join('\x1f') + '\x1e'
+
+    const output = record('Fix it', 'Details\n\n', 'p1 p2') + '\n' + record('Init', '', '')
+    const entries = parseLog(output)
+    expect(entries).toEqual([
+      {
+        commit: 'abc',
+        parents: ['p1', 'p2'],
+        authorName: 'Ada',
+        authorEmail: 'ada@example.com',
+        authorDate: '2024-01-01T00:00:00Z',
+        subject: 'Fix it',
+        body: 'Details',
+      },
+      expect.objectContaining({ subject: 'Init', parents: [], body: '' }),
+    ])
+  })
+})
+
+describe('parseBlame', () => {
+  it('shares commit details across the lines of a commit', () => {
+    const commit = 'a'.repeat(40)
+    const output = [
+      `${commit} 1 1 2`,
+      'author Ada',
+      'author-mail <ada@example.com>',
+      'author-time 0',
+      'summary Initial',
+      'filename src/a.ts',
+      '\tconst a = 1',
+      `${commit} 2 2`,
+      '\tconst b = 2',
+    ].join('\n')
+
+    expect(parseBlame(output)).toEqual([
+      expect.objectContaining({ line: 1, authorEmail: 'ada@example.com', content: 'const a = 1' }),
+      {
+        line: 2,
+        originalLine: 2,
+        commit,
+        authorName: 'Ada',
+        authorEmail: 'ada@example.com',
+        authorTime: '1970-01-01T00:00:00.000Z',
+        summary: 'Initial',
+        originalPath: 'src/a.ts',
+        content: 'const b = 2',
+      },
+    ])
+  })
+})
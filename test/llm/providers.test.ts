@@ -0,0 +1,210 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { AnthropicProvider } from '../../src/llm/anthropic.js'
+import { OpenAIProvider } from '../../src/llm/openai.js'
+import { LlmError } from '../../src/llm/provider.js'
+
+// A local server that records each request and answers with the next queued reply
+interface Reply {
+  status: number
+  body: unknown
+}
+
+interface Received {
+  method?: string
+  url?: string
+  headers: http.IncomingHttpHeaders
+  body: Record<string, unknown>
+}
+
+const received: Received[] = []
+let replies: Reply[] = []
+let server: http.Server
+let baseUrl: string
+
+beforeAll(async () => {
+  server = http.createServer((request, response) => {
+    let body = ''
+    request.on('data', chunk => (body += chunk))
+    request.on('end', () => {
+      received.push({
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        body: JSON.parse(body || '{}'),
+      })
+      const reply = replies.shift() || { status: 500, body: { error: 'No reply queued' } }
+      response.writeHead(reply.status, { 'content-type': 'application/json' })
+      response.end(JSON.stringify(reply.body))
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve))
+})
+
+beforeEach(() => {
+  received.length = 0
+  replies = []
+})
+
+const options = (overrides: Partial<ConstructorParameters<typeof AnthropicProvider>[0]> = {}) => ({
+  apiKey: 'test-key',
+  baseUrl,
+  timeoutMs: 5000,
+  maxRetries: 0,
+  ...overrides,
+})
+
+describe('OpenAIProvider', () => {
+  const completion = (content: string | null, model = 'gpt-test') => ({
+    id: 'chatcmpl-1',
+    object: 'chat.completion',
+    created: 0,
+    model,
+    choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content } }],
+  })
+
+  it('sends the chat request and reads the first choice', async () => {
+    replies.push({ status: 200, body: completion('Hello there', 'gpt-served') })
+    const provider = new OpenAIProvider(options({ baseUrl: `${baseUrl}/v1` }))
+
+    const result = await provider.complete({
+      model: 'gpt-requested',
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Hi' },
+      ],
+      temperature: 0,
+      maxTokens: 50,
+    })
+
+    expect(result).toEqual({ content: 'Hello there', model: 'gpt-served', provider: 'openai' })
+    expect(received[0].url).toBe('/v1/chat/completions')
+    expect(received[0].headers.authorization).toBe('Bearer test-key')
+    expect(received[0].body).toMatchObject({
+      model: 'gpt-requested',
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Hi' },
+      ],
+      temperature: 0,
+      max_tokens: 50,
+    })
+  })
+
+  it('returns an empty string when the choice has no content', async () => {
+    replies.push({ status: 200, body: completion(null) })
+    const provider = new OpenAIProvider(options({ baseUrl: `${baseUrl}/v1` }))
+
+    const result = await provider.complete({ model: 'gpt-test', messages: [] })
+    expect(result.content).toBe('')
+  })
+
+  it('wraps API errors with their status', async () => {
+    replies.push({ status: 400, body: { error: { message: 'Bad model', type: 'invalid' } } })
+    const provider = new OpenAIProvider(options({ baseUrl: `${baseUrl}/v1` }))
+
+    const error = await provider.complete({ model: 'nope', messages: [] }).catch(e => e)
+    expect(error).toBeInstanceOf(LlmError)
+    expect(error).toMatchObject({ provider: 'openai', status: 400 })
+  })
+
+  it('needs a key for OpenAI and only a base URL for compatible servers', async () => {
+    expect(new OpenAIProvider(options({ apiKey: undefined })).isAvailable()).toBe(false)
+    expect(new OpenAIProvider(options({ apiKey: undefined }), true).isAvailable()).toBe(true)
+
+    const unconfigured = new OpenAIProvider(options({ baseUrl: undefined }), true)
+    await expect(unconfigured.complete({ model: 'm', messages: [] })).rejects.toThrow(
+      /llm\.baseUrl/,
+    )
+    expect(received).toHaveLength(0)
+  })
+
+  it('uses the local default model for compatible servers', () => {
+    const provider = new OpenAIProvider(options(), true)
+    expect(provider.name).toBe('openai-compatible')
+    expect(provider.defaultModel('codeReview')).toBe('llama3.1')
+  })
+})
+
+describe('AnthropicProvider', () => {
+  const message = (content: unknown[], model = 'claude-served') => ({
+    id: 'msg_1',
+    type: 'message',
+    role: 'assistant',
+    model,
+    content,
+  })
+
+  it('lifts system messages and joins the text blocks of the reply', async () => {
+    replies.push({
+      status: 200,
+      body: message([
+        { type: 'text', text: 'Part one, ' },
+        { type: 'tool_use', id: 't', name: 'x', input: {} },
+        { type: 'text', text: 'part two.' },
+      ]),
+    })
+    const provider = new AnthropicProvider(options())
+
+    const result = await provider.complete({
+      model: 'claude-requested',
+      messages: [
+        { role: 'system', content: 'Rule one.' },
+        { role: 'system', content: 'Rule two.' },
+        { role: 'user', content: 'Hi' },
+      ],
+    })
+
+    expect(result).toEqual({
+      content: 'Part one, part two.',
+      model: 'claude-served',
+      provider: 'anthropic',
+    })
+    expect(received[0].url).toBe('/v1/messages')
+    expect(received[0].headers['x-api-key']).toBe('test-key')
+    expect(received[0].headers['anthropic-version']).toBe('2023-06-01')
+    expect(received[0].body).toEqual({
+      model: 'claude-requested',
+      system: 'Rule one.\n\nRule two.',
+      messages: [{ role: 'user', content: 'Hi' }],
+      max_tokens: 4096,
+    })
+  })
+
+  it('retries transient errors', async () => {
+    replies.push({ status: 529, body: { error: { message: 'Overloaded' } } })
+    replies.push({ status: 200, body: message([{ type: 'text', text: 'Done' }]) })
+    const provider = new AnthropicProvider(options({ maxRetries: 1 }))
+
+    const result = await provider.complete({ model: 'm', messages: [], maxTokens: 10 })
+    expect(result.content).toBe('Done')
+    expect(received).toHaveLength(2)
+    expect(received[1].body.max_tokens).toBe(10)
+  })
+
+  it("doesn't retry client errors", async () => {
+    replies.push({ status: 400, body: { error: { message: 'Bad request' } } })
+    const provider = new AnthropicProvider(options({ maxRetries: 2 }))
+
+    const error = await provider.complete({ model: 'm', messages: [] }).catch(e => e)
+    expect(error).toBeInstanceOf(LlmError)
+    expect(error).toMatchObject({ provider: 'anthropic', status: 400 })
+    expect(error.message).toContain('Bad request')
+    expect(received).toHaveLength(1)
+  })
+
+  it('refuses to run without a key', async () => {
+    const provider = new AnthropicProvider(options({ apiKey: undefined }))
+    expect(provider.isAvailable()).toBe(false)
+    await expect(provider.complete({ model: 'm', messages: [] })).rejects.toThrow(
+      /ANTHROPIC_API_KEY/,
+    )
+    expect(received).toHaveLength(0)
+  })
+})
@@ -0,0 +1,173 @@
+import { execFileSync } from 'child_process'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterAll, afterEach, beforeAll, describe, expect, it } from 'vitest'
+import {
+  completeFor,
+  FakeProvider,
+  getModelFor,
+  parseJsonReply,
+  setLlmProvider,
+  stripCodeFences,
+} from '../../src/llm/index.js'
+import { runArchitectTool } from '../../src/tools/architect.js'
+import { runCodeReviewTool } from '../../src/tools/codeReview.js'
+import { configureWorkspace } from '../../src/workspace.js'
+
+// A workspace with a git repository holding one committed file and an unstaged edit to it
+let workspace: string
+
+const git = (...args: string[]) =>
+  execFileSync('git', args, { cwd: workspace, stdio: 'pipe', encoding: 'utf-8' })
+
+const text = (result: { content: { text: string }[] }) => result.content[0].text
+
+beforeAll(() => {
+  workspace = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'llm-tools-')))
+  fs.writeFileSync(
+    path.join(workspace, '.cursor-tools.json'),
+    JSON.stringify({ models: { codeReview: 'review-model' } }),
+  )
+  git('init', '-q', '-b', 'main')
+  git('config', 'user.email', 'test@example.com')
+  git('config', 'user.name', 'Test')
+  fs.writeFileSync(path.join(workspace, 'a.ts'), 'export const a = 1\n')
+  git('add', '-A')
+  git('commit', '-qm', 'Initial')
+  fs.writeFileSync(path.join(workspace, 'a.ts'), 'export const a = 1\nexport const b = eval("2")\n')
+  configureWorkspace([workspace])
+})
+
+afterAll(() => {
+  fs.rmSync(workspace, { recursive: true, force: true })
+})
+
+afterEach(() => {
+  setLlmProvider(null)
+})
+
+describe('model selection', () => {
+  it('uses the configured model, else the provider default', async () => {
+    const fake = new FakeProvider(['ok'])
+    setLlmProvider(fake)
+
+    expect(getModelFor('codeReview')).toBe('review-model')
+    expect(getModelFor('architect')).toBe('fake-architect')
+
+    const result = await completeFor('codeReview', [{ role: 'user', content: 'Hi' }], {
+      temperature: 0,
+    })
+    expect(result).toEqual({ content: 'ok', model: 'review-model', provider: 'fake' })
+    expect(fake.requests[0]).toEqual({
+      model: 'review-model',
+      messages: [{ role: 'user', content: 'Hi' }],
+      temperature: 0,
+    })
+  })
+})
+
+describe('architect tool', () => {
+  it('sends the task and code and returns the reply', async () => {
+    const fake = new FakeProvider(['1. Do the thing'])
+    setLlmProvider(fake)
+
+    const result = await runArchitectTool({ task: 'Add a button', code: 'const x = 1' })
+
+    expect(text(result)).toBe('1. Do the thing')
+    const [system, user] = fake.requests[0].messages
+    expect(system.role).toBe('system')
+    expect(user.content).toContain('Task: Add a button')
+    expect(user.content).toContain('const x = 1')
+  })
+
+  it('reports provider failures as text', async () => {
+    setLlmProvider(
+      new FakeProvider([
+        () => {
+          throw new Error('Rate limited')
+        },
+      ]),
+    )
+
+    const result = await runArchitectTool({ task: 't', code: 'c' })
+    expect(text(result)).toBe('LLM Error (fake): Rate limited')
+  })
+})
+
+describe('code review tool', () => {
+  const review = async (reply: string) => {
+    const fake = new FakeProvider([reply])
+    setLlmProvider(fake)
+    const result = await runCodeReviewTool({
+      folderPath: '.',
+      scope: 'unstaged',
+      mergeBase: true,
+      review: true,
+    })
+    return { fake, result: JSON.parse(text(result)) }
+  }
+
+  it('anchors findings to diff lines and sorts out the rest', async () => {
+    const findings = [
+      {
+        file: 'a.ts',
+        line: 2,
+        severity: 'major',
+        category: 'security',
+        message: 'eval',
+        suggestion: 'Use a literal',
+      },
+      {
+        file: 'a.ts',
+        line: 40,
+        severity: 'minor',
+        category: 'style',
+        message: 'Far away',
+        suggestion: 'None',
+      },
+      { file: 'a.ts', line: 'two' },
+    ]
+    const { fake, result } = await review(
+      `Here you go:\n\`\`\`json\n${JSON.stringify(findings)}\n\`\`\``,
+    )
+
+    expect(fake.requests[0].model).toBe('review-model')
+    expect(fake.requests[0].temperature).toBe(0)
+    expect(fake.requests[0].messages[1].content).toContain('eval("2")')
+
+    expect(result.review.model).toBe('review-model')
+    expect(result.review.findings).toHaveLength(1)
+    expect(result.review.findings[0]).toMatchObject({
+      file: 'a.ts',
+      line: 2,
+      side: 'new',
+      lineType: 'add',
+      lineContent: 'export const b = eval("2")',
+    })
+    expect(result.review.unanchored).toEqual([findings[1]])
+    expect(result.review.invalid).toBe(1)
+  })
+
+  it('reports a reply that is not a JSON array', async () => {
+    const { result } = await review('Looks good to me!')
+    expect(result.review.error).toBe(
+      'LLM Error (fake): The model did not return a JSON array of findings.',
+    )
+  })
+})
+
+describe('reply parsing', () => {
+  it('strips fences, including one the token limit cut off', () => {
+    expect(stripCodeFences('```tsx\nconst a = 1\n```')).toBe('const a = 1')
+    expect(stripCodeFences('Sure:\n```ts\nconst a = 1\nconst b')).toBe('const a = 1\nconst b')
+    expect(stripCodeFences('plain')).toBe('plain')
+  })
+
+  it('finds the JSON value in a chatty reply', () => {
+    expect(parseJsonReply('[1, 2]')).toEqual([1, 2])
+    expect(parseJsonReply('The findings: [{"a": 1}] Hope that helps')).toEqual([{ a: 1 }])
+    expect(parseJsonReply('Result: {"ok": true}.')).toEqual({ ok: true })
+    expect(parseJsonReply('No JSON here')).toBeUndefined()
+  })
+})
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { generateSamples, generateSchemaSamples } from '../../src/sandbox/samples.js'
+
+describe('generateSamples', () => {
+  it('picks samples by the most specific word of the name, then by hints', () => {
+    expect(generateSamples('isValidEmail')[0]).toBe('user@example.com')
+    expect(generateSamples('formatPhoneName')[0]).toBe('Jane Doe')
+    expect(generateSamples('check', ['ZIP_REGEX'])[0]).toBe('12345')
+    expect(generateSamples('check').slice(0, 4)).toEqual(['abc', '123', 'Hello World', 0])
+  })
+
+  it('ends every set with the edge cases', () => {
+    expect(generateSamples('isValidUrl').slice(-4)).toEqual(['', '   ', null, undefined])
+  })
+})
+
+describe('generateSchemaSamples', () => {
+  it('builds a valid-looking object, an invalid one and an empty one', () => {
+    expect(generateSchemaSamples(['email', 'zipCode', 'notes'])).toEqual([
+      { email: 'user@example.com', zipCode: '12345', notes: 'abc' },
+      { email: 'no-at-sign.com', zipCode: 'ABCDE', notes: 0 },
+      {},
+    ])
+  })
+})
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { toJsonSafe, typeOf } from '../../src/sandbox/values.js'
+
+describe('toJsonSafe', () => {
+  it('describes values JSON would drop or change', () => {
+    expect(toJsonSafe([undefined, Number.NaN, -Infinity, 10n, function check() {}])).toEqual([
+      '[undefined]',
+      '[NaN]',
+      '[-Infinity]',
+      '[bigint 10n]',
+      '[Function check]',
+    ])
+    expect(toJsonSafe(new Date('2024-01-02T00:00:00Z'))).toBe('2024-01-02T00:00:00.000Z')
+    expect(toJsonSafe(new Date('nope'))).toBe('[Invalid Date]')
+    expect(toJsonSafe(/a+/g)).toBe('/a+/g')
+    expect(toJsonSafe(new RangeError('Too big'))).toEqual({
+      name: 'RangeError',
+      message: 'Too big',
+    })
+  })
+
+  it('converts collections and marks cycles and deep nesting', () => {
+    const cyclic: Record<string, unknown> = { set: new Set([1]), map: new Map([[1, 'one']]) }
+    cyclic.self = cyclic
+    expect(toJsonSafe(cyclic)).toEqual({ set: [1], map: { 1: 'one' }, self: '[Circular]' })
+
+    const shared = { a: 1 }
+    expect(toJsonSafe([shared, shared])).toEqual([{ a: 1 }, { a: 1 }])
+    expect(toJsonSafe([[[[[[new Map()]]]]]])).toEqual([[[[[['[Map]']]]]]])
+  })
+})
+
+describe('typeOf', () => {
+  it('names the class of objects', () => {
+    expect([null, 'a', new Map(), Object.create(null)].map(typeOf)).toEqual([
+      'null',
+      'string',
+      'Map',
+      'Object',
+    ])
+  })
+})
@@ -0,0 +1,164 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import ts from 'typescript'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { Worker } from 'worker_threads'
+import type { SandboxCall, SandboxModule, WorkerMessage } from '../../src/sandbox/worker.js'
+
+// The worker runs from its own ES module build, on modules transpiled the way index.ts does
+let root: string
+let workerFile: string
+
+const write = (file: string, text: string) => {
+  fs.writeFileSync(path.join(root, file), text)
+  return path.join(root, file)
+}
+
+const toModule = (file: string, dependencies: Record<string, string> = {}): SandboxModule => ({
+  code: ts.transpileModule(fs.readFileSync(file, 'utf-8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022 },
+  }).outputText,
+  dependencies,
+  unresolved: [],
+})
+
+function runWorker(
+  modules: Record<string, SandboxModule>,
+  entries: string[],
+  calls: SandboxCall[],
+): Promise<WorkerMessage[]> {
+  const worker = new Worker(workerFile, { workerData: { modules, entries, calls }, env: {} })
+  const messages: WorkerMessage[] = []
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      void worker.terminate()
+      reject(new Error('The worker did not finish'))
+    }, 10000)
+    worker.on('message', (message: WorkerMessage) => {
+      messages.push(message)
+      if (message.type !== 'done') return
+      clearTimeout(timer)
+      void worker.terminate().then(() => resolve(messages))
+    })
+    worker.on('error', reject)
+  })
+}
+
+beforeAll(() => {
+  root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-worker-')))
+  for (const name of ['worker', 'values']) {
+    const source = fs.readFileSync(path.resolve(`src/sandbox/${name}.ts`), 'utf-8')
+    const { outputText } = ts.transpileModule(source, {
+      compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+    })
+    write(`${name}.js`, outputText)
+  }
+  write('package.json', '{ "type": "module" }')
+  workerFile = path.join(root, 'worker.js')
+})
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+describe('sandbox worker', () => {
+  let messages: WorkerMessage[]
+  let files: Record<string, string>
+
+  beforeAll(async () => {
+    files = {
+      config: write('config.ts', 'export const EMAIL_REGEX = /^[^@]+@[^@]+$/g\n'),
+      index: write(
+        'index.ts',
+        [
+          "import { EMAIL_REGEX } from './config'",
+          'export class ValidationService {',
+          "  static prefix = '+'",
+          '  static isValidEmail(value: string) { return EMAIL_REGEX.test(value) }',
+          '  static withPrefix(value: string) { return this.prefix + value }',
+          '}',
+          'export const formatUpper = (value: string) => value.toUpperCase()',
+          'export const schema = {',
+          '  safeParse: (input: { ok?: boolean }) =>',
+          '    input.ok',
+          '      ? { success: true, data: input }',
+          "      : { success: false, error: { issues: [{ path: ['ok'], code: 'custom', " +
+            "message: 'Required' }] } },",
+          '}',
+          'export const count = 3',
+        ].join('\n'),
+      ),
+      files: write('files.ts', "import fs from 'fs'\nexport const read = () => fs\n"),
+    }
+    const modules = {
+      [files.index]: toModule(files.index, { './config': files.config }),
+      [files.config]: toModule(files.config),
+      [files.files]: toModule(files.files),
+    }
+    messages = await runWorker(modules, [files.index, files.config, files.files], [
+      { target: 'ValidationService.isValidEmail', file: null, inputs: [['a@b.c'], ['nope']] },
+      { target: 'ValidationService.withPrefix', file: null, inputs: [['1']] },
+      { target: 'formatUpper', file: null, inputs: [['abc'], [null]] },
+      { target: 'schema', file: null, inputs: [[{ ok: true }], [{}]] },
+      { target: 'EMAIL_REGEX', file: files.config, inputs: [['a@b'], ['a@b']] },
+      { target: 'count', file: null, inputs: [[]] },
+      { target: 'ValidationService.constructor', file: null, inputs: [[]] },
+    ])
+  })
+
+  const outcomesOf = (index: number) =>
+    messages.flatMap(message =>
+      message.type === 'outcome' && message.index === index ? [message.outcome] : [],
+    )
+  const targetOf = (index: number) =>
+    messages.find(message => message.type === 'target' && message.index === index)
+
+  it('calls functions with their owner as `this`', () => {
+    expect(targetOf(0)).toMatchObject({ file: files.index, kind: 'function' })
+    expect(outcomesOf(0)).toMatchObject([
+      { args: ['a@b.c'], output: true, type: 'boolean' },
+      { args: ['nope'], output: false, type: 'boolean' },
+    ])
+    expect(outcomesOf(1)).toMatchObject([{ output: '+1', type: 'string' }])
+  })
+
+  it('reports thrown errors as outcomes', () => {
+    expect(outcomesOf(2)).toMatchObject([
+      { output: 'ABC' },
+      { args: [null], error: { name: 'TypeError' } },
+    ])
+  })
+
+  it('runs schemas through safeParse and regexes from a fresh lastIndex', () => {
+    expect(targetOf(3)).toMatchObject({ kind: 'schema' })
+    expect(outcomesOf(3)).toMatchObject([
+      { output: { success: true, data: { ok: true } } },
+      {
+        args: [{}],
+        output: { success: false, issues: [{ path: 'ok', code: 'custom', message: 'Required' }] },
+      },
+    ])
+    expect(targetOf(4)).toMatchObject({ file: files.config, kind: 'regex' })
+    expect(outcomesOf(4).map(outcome => outcome.output)).toEqual([true, true])
+  })
+
+  it('refuses values that cannot be called and members off the prototype chain', () => {
+    expect(targetOf(5)).toMatchObject({
+      kind: null,
+      error: 'count is a number, not a function, schema or regex',
+    })
+    expect(targetOf(6)).toMatchObject({
+      kind: null,
+      error: 'ValidationService.constructor is not exported by the validation module',
+    })
+    expect(outcomesOf(5)).toEqual([])
+  })
+
+  it('keeps builtins with file access from workspace modules', () => {
+    expect(messages[messages.length - 1]).toEqual({
+      type: 'done',
+      loadErrors: [{ file: files.files, message: "'fs' isn't available to the validation module" }],
+    })
+  })
+})
@@ -0,0 +1,10 @@
+import fs from 'fs'
+import { describe, expect, it } from 'vitest'
+import { serverVersion } from '../../src/server/mcp.js'
+
+describe('serverVersion', () => {
+  it("is package.json's version", () => {
+    const { version } = JSON.parse(fs.readFileSync('package.json', 'utf-8'))
+    expect(serverVersion).toBe(version)
+  })
+})
@@ -0,0 +1,48 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { runComponentGeneratorTool } from '../../src/tools/componentGenerator.js'
+import { configureWorkspace } from '../../src/workspace.js'
+
+let root: string
+
+beforeAll(() => {
+  root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'component-generator-')))
+  fs.mkdirSync(path.join(root, 'app'))
+  configureWorkspace([path.join(root, 'app')])
+})
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+const generate = async (name: string) => {
+  const result = await runComponentGeneratorTool({
+    name,
+    type: 'display',
+    description: 'Shows a user',
+    generator: 'template',
+    companions: [],
+    overwrite: 'error',
+    dryRun: true,
+    learnStyle: false,
+    verify: false,
+    repairAttempts: 0,
+  })
+  return result.content[0].text
+}
+
+describe('componentGenerator names', () => {
+  it('turns names into PascalCase', async () => {
+    const result = JSON.parse(await generate('user-card'))
+    expect(result.componentName).toBe('UserCard')
+  })
+
+  it('refuses names that are paths', async () => {
+    for (const name of ['../escaped/Evil', '../../Evil', 'nested/Evil', '/tmp/Evil']) {
+      expect(await generate(name)).toMatch(/^Error generating component: Invalid component name/)
+    }
+    expect(fs.existsSync(path.join(root, 'escaped'))).toBe(false)
+  })
+})
@@ -0,0 +1,29 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { configureWorkspace, resolveWorkspacePath, WorkspacePathError } from '../src/workspace.js'
+
+let root: string
+
+beforeAll(() => {
+  root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'workspace-')))
+  fs.mkdirSync(path.join(root, '..cache'))
+  configureWorkspace([root])
+})
+
+afterAll(() => {
+  fs.rmSync(root, { recursive: true, force: true })
+})
+
+describe('resolveWorkspacePath', () => {
+  it('accepts children whose names start with two dots', () => {
+    expect(resolveWorkspacePath('..cache/x')).toBe(path.join(root, '..cache', 'x'))
+  })
+
+  it('refuses paths that leave the root', () => {
+    expect(() => resolveWorkspacePath('..')).toThrow(WorkspacePathError)
+    expect(() => resolveWorkspacePath('../elsewhere')).toThrow(WorkspacePathError)
+    expect(() => resolveWorkspacePath('/etc/passwd')).toThrow(WorkspacePathError)
+  })
+})